@@ -1,15 +1,17 @@
-import React, { useState, useEffect, Suspense, lazy } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, Suspense, lazy } from 'react';
 import { Session } from '@supabase/supabase-js';
 import Sidebar from './components/Sidebar';
 import Login from './components/Login';
 import { DEFAULT_TASKS, DEFAULT_AREA_COSTS, DEFAULT_TURNOVER_BRACKETS, DEFAULT_STAFF } from './constants';
 import {
-  Client, Staff, Task, GlobalSettings, FeeGroup, EmailTemplate, CampaignHistory, TurnoverBracket, QuoteHistory, InsurancePolicy, WorkSafetyService, CashPayment, CashAgreement, CashOperation
+  Client, Staff, Task, GlobalSettings, FeeGroup, EmailTemplate, CampaignHistory, TurnoverBracket, QuoteHistory, InsurancePolicy, WorkSafetyService, CashPayment, CashAgreement, CashOperation, FeeChangeContext, AppPermission, StaffAbsence, StaffCostChangeContext, OverheadPool, OverheadDriver
 } from './types';
 import {
-  clientService, staffService, groupService, templateService, campaignHistoryService, turnoverBracketService, quoteHistoryService, insuranceService, workSafetyService, initSupabase, storeClient, cashPaymentService, cashAgreementService, cashOperationService, brandingService, appConfigService, taskCatalogService, APP_CONFIG_GLOBAL_SETTINGS_KEY,
-  atomicSyncImportedData
+  clientService, staffService, groupService, templateService, campaignHistoryService, turnoverBracketService, quoteHistoryService, insuranceService, workSafetyService, initSupabase, storeClient, cashPaymentService, cashAgreementService, cashOperationService, staffAbsenceService, brandingService, appConfigService, taskCatalogService, APP_CONFIG_GLOBAL_SETTINGS_KEY,
+  atomicSyncImportedData, roleService, CurrentAccess, getDataScopeForAccess, setActiveDataScope, isClientInScope
 } from './services';
+import { getTravelRates } from './services/calculator';
+import { buildOverheadAllocation, computeOverheadDriverTotals, EMPTY_OVERHEAD_DRIVER_TOTALS, isSameOverheadDriverTotals } from './services/overheadAllocation';
 import { RefreshCcw, DownloadCloud, CheckCircle2, AlertTriangle } from 'lucide-react';
 import { usePwaInstall } from './hooks/usePwaInstall';
 
@@ -27,6 +29,10 @@ const Insurance = lazy(() => import('./components/Insurance'));
 const WorkSafety = lazy(() => import('./components/WorkSafety'));
 const Cashier = lazy(() => import('./components/Cashier'));
 const IrsControl = lazy(() => import('./components/IrsControl'));
+const FiscalCalendar = lazy(() => import('./components/FiscalCalendar'));
+const ObligationBoard = lazy(() => import('./components/obligations/ObligationBoard'));
+const ContractsView = lazy(() => import('./components/contracts/ContractsView'));
+const CapacityPlanner = lazy(() => import('./components/team/CapacityPlanner'));
 
 const ViewLoadingFallback = () => (
   <div className="bg-white border-2 border-dashed border-slate-200 p-12 rounded-3xl text-center">
@@ -68,7 +74,6 @@ const mergeRemoteGlobalSettings = (localSettings: GlobalSettings, remoteSettings
   supabaseStoreKey: localSettings.supabaseStoreKey,
 });
 
-const PAULA_INSURANCE_ONLY_EMAIL = 'paula.ernestina@hotmail.com';
 const readJsonStorage = <T,>(key: string, fallback: T): T => {
   try {
     const rawValue = localStorage.getItem(key);
@@ -84,7 +89,9 @@ export default function App() {
   const [showInstallTip, setShowInstallTip] = useState(false);
   const [currentView, setCurrentView] = useState('dashboard');
   const [session, setSession] = useState<Session | null>(null);
-  const [userRole, setUserRole] = useState<'admin' | 'user' | null>(null);
+  const [access, setAccess] = useState<CurrentAccess | null>(null);
+  const [accessError, setAccessError] = useState<string | null>(null);
+  const [accessLoadAttempt, setAccessLoadAttempt] = useState(0);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [selectedStaff, setSelectedStaff] = useState<Staff | null>(null);
   const [clients, setClients] = useState<Client[]>([]);
@@ -105,6 +112,9 @@ export default function App() {
   const [cashPayments, setCashPayments] = useState<CashPayment[]>([]);
   const [cashAgreements, setCashAgreements] = useState<CashAgreement[]>([]);
   const [cashOperations, setCashOperations] = useState<CashOperation[]>([]);
+  const [staffAbsences, setStaffAbsences] = useState<StaffAbsence[]>([]);
+  const [overheadPools, setOverheadPools] = useState<OverheadPool[]>([]);
+  const [storedOverheadDriverTotals, setStoredOverheadDriverTotals] = useState<Record<OverheadDriver, number> | null>(null);
   const [logo, setLogo] = useState(() => localStorage.getItem('appLogo') || '');
   const globalSettingsVersionRef = React.useRef<string | null>(null);
   const taskCatalogVersionRef = React.useRef<string | null>(null);
@@ -151,9 +161,33 @@ export default function App() {
   const [isTaskCatalogHydrated, setIsTaskCatalogHydrated] = useState(false);
   const [isTaskCatalogDbAvailable, setIsTaskCatalogDbAvailable] = useState(true);
   const currentUserEmail = (session?.user?.email || '').trim().toLowerCase();
-  const isPaulaInsuranceOnlyUser = currentUserEmail === PAULA_INSURANCE_ONLY_EMAIL;
-  const allowedViews = isPaulaInsuranceOnlyUser ? ['insurance'] : undefined;
-  const activeView = isPaulaInsuranceOnlyUser ? 'insurance' : currentView;
+  const currentRole = access?.role || null;
+  const allowedViews = useMemo(() => currentRole?.views || [], [currentRole]);
+  const activeView = allowedViews.includes(currentView) ? currentView : allowedViews[0] || '';
+  const hasPermission = (permission: AppPermission) => Boolean(currentRole?.permissions.includes(permission));
+  const canOpenClientDetail = allowedViews.includes('clients') || allowedViews.includes('groups');
+  const canOpenStaffDetail = allowedViews.includes('team');
+
+  // 'own' scope: clients the linked staff member is responsible for or has tasks assigned on.
+  // RLS already limits what is loaded; this also covers legacy rows that store the staff name.
+  const dataScope = useMemo(() => getDataScopeForAccess(access), [access]);
+  const isOwnClient = useCallback((client: Client) => {
+    const member = dataScope?.staffId ? staff.find(s => s.id === dataScope.staffId) : undefined;
+    return isClientInScope(client, dataScope, member?.name);
+  }, [dataScope, staff]);
+  const visibleClients = useMemo(
+    () => (dataScope ? clients.filter(isOwnClient) : clients),
+    [clients, dataScope, isOwnClient]
+  );
+  // Views only see their scoped slice, so their updates must leave the hidden clients untouched.
+  const setVisibleClients: React.Dispatch<React.SetStateAction<Client[]>> = useCallback((action) => {
+    setClients(prev => {
+      if (!dataScope) return typeof action === 'function' ? action(prev) : action;
+      const nextVisible = typeof action === 'function' ? action(prev.filter(isOwnClient)) : action;
+      return [...prev.filter(client => !isOwnClient(client)), ...nextVisible];
+    });
+  }, [dataScope, isOwnClient]);
+  const forcedInsuranceAgent = currentRole?.dataScope === 'own' ? access?.assignment?.insuranceAgent || undefined : undefined;
 
   useEffect(() => {
     initSupabase(globalSettings);
@@ -193,13 +227,6 @@ export default function App() {
       } else {
         setIsLoadingData(false);
       }
-      if (session?.user?.email === 'mpr@mpr.pt') {
-        setUserRole('admin');
-      } else if (session) {
-        setUserRole('user');
-      } else {
-        setUserRole(null);
-      }
     });
 
     // Check for initial session
@@ -472,17 +499,71 @@ export default function App() {
   }, [session, storeClient, isGlobalSettingsHydrated, isTaskCatalogHydrated]);
 
   useEffect(() => {
-    if (!isPaulaInsuranceOnlyUser) return;
-    if (currentView !== 'insurance') {
-      setCurrentView('insurance');
+    if (!currentUserEmail) {
+      setActiveDataScope(null);
+      setAccess(null);
+      return;
     }
-    if (selectedClient) {
+    let isMounted = true;
+    setAccessError(null);
+    roleService.getCurrentAccess(currentUserEmail)
+      .then(currentAccess => {
+        if (!isMounted) return;
+        const scope = getDataScopeForAccess(currentAccess);
+        setActiveDataScope(scope);
+        setAccess(currentAccess);
+        // The first load may have run before the scope was known.
+        if (scope) void fetchData();
+      })
+      .catch(err => {
+        console.error('Erro ao carregar o perfil de acesso:', err);
+        // Never fall back to a weaker role: an admin would lose Settings until the next reload.
+        if (isMounted) setAccessError(err?.message || String(err));
+      });
+    return () => { isMounted = false; };
+  }, [currentUserEmail, accessLoadAttempt]);
+
+  useEffect(() => {
+    if (!currentRole) return;
+    if (activeView && currentView !== activeView) {
+      setCurrentView(activeView);
+    }
+    if (selectedClient && !canOpenClientDetail) {
       setSelectedClient(null);
     }
-    if (selectedStaff) {
+    if (selectedStaff && !canOpenStaffDetail) {
       setSelectedStaff(null);
     }
-  }, [isPaulaInsuranceOnlyUser, currentView, selectedClient, selectedStaff]);
+  }, [currentRole, activeView, currentView, selectedClient, selectedStaff, canOpenClientDetail, canOpenStaffDetail]);
+
+  // Overhead is shared over every active client in the office. A session limited to its own clients only
+  // loads that slice, so it uses the totals stored by the daily job or by a session that sees every client.
+  const overheadDriverTotals = useMemo(
+    () => (dataScope
+      ? storedOverheadDriverTotals || EMPTY_OVERHEAD_DRIVER_TOTALS
+      : computeOverheadDriverTotals(clients, tasks, areaCosts, staff)),
+    [dataScope, storedOverheadDriverTotals, clients, tasks, areaCosts, staff]
+  );
+  const overheadAllocation = useMemo(
+    () => buildOverheadAllocation(overheadPools, overheadDriverTotals),
+    [overheadPools, overheadDriverTotals]
+  );
+
+  const travelRates = useMemo(
+    () => getTravelRates(globalSettings),
+    [globalSettings]
+  );
+
+  const canViewProfitability = hasPermission('view_profitability');
+  useEffect(() => {
+    if (!canViewProfitability || dataScope || isLoadingData || !isTaskCatalogHydrated) return;
+    if (clients.length === 0 || overheadAllocation.pools.length === 0) return;
+    if (storedOverheadDriverTotals && isSameOverheadDriverTotals(storedOverheadDriverTotals, overheadDriverTotals)) return;
+    appConfigService
+      .saveOverheadDriverTotals(overheadDriverTotals)
+      .then(() => setStoredOverheadDriverTotals(overheadDriverTotals))
+      .catch(err => console.error('Erro ao gravar totais de custos indiretos:', err));
+  }, [canViewProfitability, dataScope, isLoadingData, isTaskCatalogHydrated, clients.length, overheadAllocation.pools.length, storedOverheadDriverTotals, overheadDriverTotals]);
 
   const fetchData = async () => {
     setIsLoadingData(true);
@@ -506,6 +587,9 @@ export default function App() {
     const cashPaymentsPromise = cashPaymentService.getAll().catch(e => { console.error("Erro Pagamentos Caixa:", e); return []; });
     const cashAgreementsPromise = cashAgreementService.getAll().catch(e => { console.error("Erro Acordos Caixa:", e); return []; });
     const cashOperationsPromise = cashOperationService.getAll().catch(e => { console.error("Erro Operações Caixa:", e); return []; });
+    const staffAbsencesPromise = staffAbsenceService.getAll().catch(e => { console.error("Erro Ausências:", e); return []; });
+    const overheadPoolsPromise = appConfigService.getOverheadPools().catch(e => { console.error("Erro Custos Indiretos:", e); return []; });
+    const overheadDriverTotalsPromise = appConfigService.getOverheadDriverTotals().catch(e => { console.error("Erro Totais Custos Indiretos:", e); return null; });
 
     const [
       clientsData,
@@ -519,11 +603,15 @@ export default function App() {
       bracketsData,
       cashPaymentsData,
       cashAgreementsData,
-      cashOperationsData
+      cashOperationsData,
+      staffAbsencesData,
+      overheadPoolsData,
+      overheadDriverTotalsData
     ] = await Promise.all([
       clientsPromise, staffPromise, groupsPromise, templatesPromise, 
       campaignHistoryPromise, quoteHistoryPromise, insurancePromise, shtPromise, bracketsPromise,
-      cashPaymentsPromise, cashAgreementsPromise, cashOperationsPromise
+      cashPaymentsPromise, cashAgreementsPromise, cashOperationsPromise, staffAbsencesPromise, overheadPoolsPromise,
+      overheadDriverTotalsPromise
     ]);
 
     setClients(clientsData);
@@ -537,6 +625,9 @@ export default function App() {
     setCashPayments(cashPaymentsData);
     setCashAgreements(cashAgreementsData);
     setCashOperations(cashOperationsData);
+    setStaffAbsences(staffAbsencesData);
+    setOverheadPools(overheadPoolsData);
+    setStoredOverheadDriverTotals(overheadDriverTotalsData);
     setTurnoverBrackets(
       bracketsData.length > 0 ? bracketsData : DEFAULT_TURNOVER_BRACKETS.map(b => ({ ...b, id: generateUUID() }))
     );
@@ -544,9 +635,9 @@ export default function App() {
     setIsLoadingData(false);
   };
 
-  const handleUpdateClient = async (updatedClient: Client) => {
+  const handleUpdateClient = async (updatedClient: Client, feeChange?: FeeChangeContext) => {
     try {
-      const savedClient = await clientService.upsert(updatedClient);
+      const savedClient = await clientService.upsert(updatedClient, feeChange);
       // Update the local state for immediate UI feedback
       setClients(clients.map(c => c.id === savedClient.id ? savedClient : c));
       // Also update the selectedClient to reflect the changes if it's the one being edited
@@ -557,9 +648,9 @@ export default function App() {
     }
   };
 
-  const handleUpdateStaff = async (updatedStaff: Staff) => {
+  const handleUpdateStaff = async (updatedStaff: Staff, costChange?: StaffCostChangeContext) => {
     try {
-      const savedStaff = await staffService.upsert(updatedStaff);
+      const savedStaff = await staffService.upsert(updatedStaff, costChange);
       setStaff(staff.map(s => s.id === savedStaff.id ? savedStaff : s));
       setSelectedStaff(savedStaff); // Keep the detail view open with updated data
     } catch (err: any) {
@@ -673,19 +764,18 @@ export default function App() {
       <Sidebar 
         currentView={activeView} 
         onChangeView={(view) => {
-          if (allowedViews && !allowedViews.includes(view)) return;
+          if (!allowedViews.includes(view)) return;
           setCurrentView(view);
           setSelectedClient(null);
           setSelectedStaff(null);
         }}
         logo={logo} onLogoUpload={handleLogoUpload}
-        userRole={userRole}
         allowedViews={allowedViews}
       />
 
       <main className="flex-1 ml-64 p-8">
         <div className="w-full max-w-[1800px] mx-auto">
-          {!isPaulaInsuranceOnlyUser && (
+          {allowedViews.includes('clients') && (
             <div className="flex justify-end mb-6 gap-2">
               {!isInstalled && (
                 <div className="relative">
@@ -724,6 +814,15 @@ export default function App() {
             </div>
           )}
 
+          {accessError && (
+            <div className="mb-4 p-4 bg-red-50 border border-red-100 text-red-700 rounded-xl text-xs font-bold flex items-center justify-between gap-4">
+              <span className="flex items-center gap-2"><AlertTriangle size={16} /> Não foi possível carregar o seu perfil de acesso: {accessError}</span>
+              <button onClick={() => setAccessLoadAttempt(attempt => attempt + 1)} className="flex items-center gap-1 bg-white px-3 py-1 rounded-lg border border-red-200 hover:bg-red-100 whitespace-nowrap">
+                <RefreshCcw size={12} /> Tentar novamente
+              </button>
+            </div>
+          )}
+
           {syncSuccess && (
             <div className="mb-4 p-4 bg-green-50 border border-green-100 text-green-700 rounded-xl text-xs font-bold flex items-center gap-2 animate-bounce">
               <CheckCircle2 size={16} /> {syncSuccess}
@@ -745,7 +844,7 @@ export default function App() {
                 A ligar ao servidor de gestão para obter a informação mais recente.
               </p>
             </div>
-          ) : clients.length === 0 && !isSyncing && !isPaulaInsuranceOnlyUser && (
+          ) : visibleClients.length === 0 && !isSyncing && allowedViews.includes('clients') && (
             <div className="bg-white border-2 border-dashed border-slate-200 p-12 rounded-3xl text-center">
               <AlertTriangle className="mx-auto text-amber-500 mb-4" size={40} />
               <h3 className="text-lg font-bold text-slate-800">Ainda não há clientes visíveis</h3>
@@ -759,40 +858,73 @@ export default function App() {
           )}
 
           <Suspense fallback={<ViewLoadingFallback />}>
-          {!isPaulaInsuranceOnlyUser && selectedClient ? (
+          {canOpenClientDetail && selectedClient ? (
             <ClientDetail
               client={selectedClient} 
               onBack={() => setSelectedClient(null)} 
               staff={staff} tasks={tasks} areaCosts={areaCosts}
               turnoverBrackets={turnoverBrackets}
+              overhead={overheadAllocation}
+              travelRates={travelRates}
               onUpdateClient={handleUpdateClient}
-              userRole={userRole}
+              canViewProfitability={canViewProfitability}
+              canApplyFees={hasPermission('apply_fees')}
               insurancePolicies={insurancePolicies}
+              quoteHistory={quoteHistory}
             />
-          ) : !isPaulaInsuranceOnlyUser && selectedStaff ? (
+          ) : canOpenStaffDetail && selectedStaff ? (
             <StaffDetail
               staffMember={selectedStaff}
               onBack={() => setSelectedStaff(null)}
-              clients={clients}
+              clients={visibleClients}
               tasks={tasks}
               staff={staff}
               areaCosts={areaCosts}
+              absences={staffAbsences} setAbsences={setStaffAbsences}
               onUpdateStaff={handleUpdateStaff}
             />
           ) : (
             <>
-              {activeView === 'dashboard' && <Dashboard clients={clients} tasks={tasks} areaCosts={areaCosts} staff={staff} />}
+              {activeView === 'dashboard' && (
+                <Dashboard
+                  clients={visibleClients} tasks={tasks} areaCosts={areaCosts} staff={staff}
+                  staffAbsences={staffAbsences}
+                  overhead={overheadAllocation}
+                  travelRates={travelRates}
+                  userEmail={currentUserEmail}
+                  currentStaffId={access?.assignment?.staffId}
+                  canSendDigest={hasPermission('manage_roles')}
+                  onSelectClient={canOpenClientDetail ? setSelectedClient : undefined}
+                />
+              )}
               {activeView === 'clients' && (
                 <ClientList 
-                  clients={clients} setClients={setClients}
+                  clients={visibleClients} setClients={setVisibleClients}
                   staff={staff} groups={groups} tasks={tasks} areaCosts={areaCosts}
                   onSelectClient={setSelectedClient}
                   onSyncClientsRequest={handleFullSync}
                 />
               )}
+              {activeView === 'calendar' && (
+                <FiscalCalendar
+                  clients={visibleClients}
+                  staff={staff}
+                  tasks={tasks}
+                  onSelectClient={canOpenClientDetail ? setSelectedClient : undefined}
+                />
+              )}
+              {activeView === 'obligations' && (
+                <ObligationBoard
+                  clients={visibleClients}
+                  tasks={tasks}
+                  staff={staff}
+                  currentStaffId={access?.assignment?.staffId}
+                  onSelectClient={canOpenClientDetail ? setSelectedClient : undefined}
+                />
+              )}
               {activeView === 'emails' && (
                 <EmailCampaigns 
-                  clients={clients} groups={groups} staff={staff} 
+                  clients={visibleClients} groups={groups} staff={staff} 
                   templates={templates} setTemplates={setTemplates}
                   globalSettings={globalSettings}
                   history={campaignHistory} setHistory={setCampaignHistory}
@@ -801,20 +933,21 @@ export default function App() {
               {activeView === 'insurance' && (
                 <Insurance
                   policies={insurancePolicies} setPolicies={setInsurancePolicies}
+                  // Policy holders can be any office client; insurance scoping is done by agent.
                   clients={clients}
-                  forcedAgent={isPaulaInsuranceOnlyUser ? 'Paula' : undefined}
-                  viewerEmail={currentUserEmail}
+                  forcedAgent={forcedInsuranceAgent}
+                  canViewCommissions={hasPermission('view_commissions')}
                 />
               )}
               {activeView === 'sht' && (
                 <WorkSafety
                   services={workSafetyServices} setServices={setWorkSafetyServices}
-                  clients={clients}
+                  clients={visibleClients}
                 />
               )}
               {activeView === 'cashier' && (
                 <Cashier
-                  clients={clients}
+                  clients={visibleClients}
                   groups={groups}
                   cashPayments={cashPayments}
                   setCashPayments={setCashPayments}
@@ -822,12 +955,14 @@ export default function App() {
                   setCashAgreements={setCashAgreements}
                   cashOperations={cashOperations}
                   setCashOperations={setCashOperations}
+                  globalSettings={globalSettings}
+                  canCloseRegister={hasPermission('close_register')}
                 />
               )}
               {activeView === 'irs-control' && (
                 <IrsControl
-                  clients={clients}
-                  setClients={setClients}
+                  clients={visibleClients}
+                  setClients={setVisibleClients}
                   groups={groups}
                   setGroups={setGroups}
                 />
@@ -835,19 +970,40 @@ export default function App() {
               {activeView === 'groups' && (
                 <FeeGroups 
                   groups={groups} setGroups={setGroups} 
-                  clients={clients} setClients={setClients} 
+                  clients={visibleClients} setClients={setVisibleClients} 
                   onSelectClient={setSelectedClient}
                   tasks={tasks} staff={staff} areaCosts={areaCosts}
                   turnoverBrackets={turnoverBrackets}
+                  absences={staffAbsences}
+                  canApplyFees={hasPermission('apply_fees')}
+                />
+              )}
+              {activeView === 'contracts' && (
+                <ContractsView
+                  clients={visibleClients} setClients={setVisibleClients}
+                  groups={groups} tasks={tasks} staff={staff}
+                  globalSettings={globalSettings}
+                  canApplyFees={hasPermission('apply_fees')}
+                  onSelectClient={canOpenClientDetail ? setSelectedClient : undefined}
                 />
               )}
               {activeView === 'team' && (
                 <StaffTeam 
                   staff={staff} setStaff={setStaff} 
-                  clients={clients} tasks={tasks} 
+                  clients={visibleClients} tasks={tasks} 
                   onSelectStaff={setSelectedStaff}
                   onSyncRequest={handleFullSync}
                   areaCosts={areaCosts}
+                  absences={staffAbsences}
+                />
+              )}
+              {activeView === 'capacity' && (
+                <CapacityPlanner
+                  staff={staff}
+                  clients={visibleClients} setClients={setVisibleClients}
+                  tasks={tasks} areaCosts={areaCosts}
+                  absences={staffAbsences}
+                  canViewCosts={canViewProfitability}
                 />
               )}
               {activeView === 'tasks' && <Tasks tasks={tasks} setTasks={setTasks} />}
@@ -859,6 +1015,9 @@ export default function App() {
                   globalSettings={globalSettings}
                   quoteHistory={quoteHistory}
                   setQuoteHistory={setQuoteHistory}
+                  clients={visibleClients}
+                  staff={staff}
+                  onClientCreated={client => setVisibleClients(current => [client, ...current])}
                 />
               )}
               {activeView === 'settings' && (
@@ -867,6 +1026,12 @@ export default function App() {
                   turnoverBrackets={turnoverBrackets} setTurnoverBrackets={setTurnoverBrackets}
                   globalSettings={globalSettings} setGlobalSettings={setGlobalSettings}
                   logo={logo}
+                  staff={staff}
+                  canManageRoles={hasPermission('manage_roles')}
+                  canManageAlertRules={hasPermission('manage_alert_rules')}
+                  overheadPools={overheadPools} setOverheadPools={setOverheadPools}
+                  canManageOverheads={canViewProfitability}
+                  clients={clients} setClients={setClients}
                 />
               )}
             </>
@@ -1,7 +1,20 @@
 ﻿import React, { useState, useMemo, useEffect } from 'react';
-import { Task, TaskArea, TaskType, TurnoverBracket, GlobalSettings, QuoteItem, QuoteHistory } from '../types';
-import { Plus, Trash2, FileText, Check, Printer, ArrowLeft, BadgeEuro, Calculator as CalcIcon, Save, RefreshCcw, History } from 'lucide-react';
-import { quoteHistoryService } from '../services';
+import { Task, TaskArea, TaskType, TurnoverBracket, GlobalSettings, QuoteItem, QuoteHistory, QuoteStatus, Client, Staff } from '../types';
+import { Plus, Trash2, FileText, Check, Printer, ArrowLeft, BadgeEuro, Calculator as CalcIcon, Save, RefreshCcw, History, UserPlus, Mail } from 'lucide-react';
+import { QUOTE_STATUS_LABELS, isQuoteOpen, quoteHistoryService } from '../services';
+import { getQuoteRootId } from '../services/quoteAnalytics';
+import {
+  DEFAULT_MPR_PRESENTATION_TEXT,
+  DEFAULT_PROPOSAL_CONDITIONS_TEXT,
+  MPR_OFFICIAL_ADDRESS,
+  MPR_OFFICIAL_EMAIL,
+  MPR_OFFICIAL_PHONE,
+  resolveProposalCompany,
+} from '../services/quoteProposal';
+import ConvertQuoteModal from './quotes/ConvertQuoteModal';
+import QuoteStatusModal from './quotes/QuoteStatusModal';
+import QuoteAnalytics from './quotes/QuoteAnalytics';
+import SendProposalModal from './quotes/SendProposalModal';
 
 interface CalculatorProps {
   tasks: Task[];
@@ -11,8 +24,19 @@ interface CalculatorProps {
   globalSettings: GlobalSettings;
   quoteHistory: QuoteHistory[];
   setQuoteHistory: (history: QuoteHistory[]) => void;
+  clients: Client[];
+  staff: Staff[];
+  onClientCreated: (client: Client) => void;
 }
 
+const QUOTE_STATUS_STYLES: Record<QuoteStatus, string> = {
+  draft: 'bg-slate-100 text-slate-600',
+  sent: 'bg-blue-100 text-blue-700',
+  negotiating: 'bg-amber-100 text-amber-700',
+  accepted: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+};
+
 const createQuoteItemId = (): string => {
   if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
     return crypto.randomUUID();
@@ -28,11 +52,7 @@ const normalizeItem = (item: QuoteItem): QuoteItem => ({
 });
 
 const PDF_PUBLIC_LOGO_CANDIDATES = ['/logo-mpr.png', '/logo.png', '/mpr-logo.png'];
-const MPR_OFFICIAL_ADDRESS = 'Rua Nossa Senhora da Ajuda 107F, 4815-364 Moreira de Cónegos';
-const MPR_OFFICIAL_EMAIL = 'mpr@mpr.pt';
-const MPR_OFFICIAL_PHONE = '253089591';
-const DEFAULT_MPR_PRESENTATION_TEXT = 'A MPR Negócios assegura acompanhamento por responsável dedicado, resposta célere e reporte regular, combinando rigor técnico com proximidade operacional para garantir previsibilidade e confiança na gestão diária.';
-const DEFAULT_PROPOSAL_CONDITIONS_TEXT = 'Valores acrescidos de IVA à taxa legal em vigor.\nConfidencialidade e proteção de dados asseguradas nos termos legais aplicáveis.\nA proposta é válida por 30 dias.';
+// Texts used to live only in this browser; quotes saved before they moved to quote_history still read them from here.
 const QUOTE_TEXT_OVERRIDES_STORAGE_KEY = 'quoteTextOverridesV1';
 
 interface QuoteTextOverrides {
@@ -56,12 +76,13 @@ const writeQuoteTextOverrides = (value: Record<string, QuoteTextOverrides>) => {
   localStorage.setItem(QUOTE_TEXT_OVERRIDES_STORAGE_KEY, JSON.stringify(value));
 };
 
-const Calculator: React.FC<CalculatorProps> = ({ tasks, areaCosts, logo, turnoverBrackets, globalSettings, quoteHistory, setQuoteHistory }) => {
+const Calculator: React.FC<CalculatorProps> = ({ tasks, areaCosts, logo, turnoverBrackets, globalSettings, quoteHistory, setQuoteHistory, clients, staff, onClientCreated }) => {
   const [items, setItems] = useState<QuoteItem[]>([]);
   const [targetMargin, setTargetMargin] = useState(30);
   const [clientVolume, setClientVolume] = useState<number>(0);
   const [quoteClientName, setQuoteClientName] = useState('');
   const [quoteClientNif, setQuoteClientNif] = useState('');
+  const [quoteClientSector, setQuoteClientSector] = useState('');
   const [employeeCount, setEmployeeCount] = useState(0);
   const [documentCount, setDocumentCount] = useState(0);
   const [establishments, setEstablishments] = useState(1);
@@ -73,6 +94,25 @@ const Calculator: React.FC<CalculatorProps> = ({ tasks, areaCosts, logo, turnove
   const [pdfLogoTryIndex, setPdfLogoTryIndex] = useState(0);
   const [mprPresentationText, setMprPresentationText] = useState(DEFAULT_MPR_PRESENTATION_TEXT);
   const [proposalConditionsText, setProposalConditionsText] = useState(DEFAULT_PROPOSAL_CONDITIONS_TEXT);
+  const [convertingQuote, setConvertingQuote] = useState<QuoteHistory | null>(null);
+  const [loadedQuote, setLoadedQuote] = useState<QuoteHistory | null>(null);
+  const [statusQuote, setStatusQuote] = useState<QuoteHistory | null>(null);
+  const [sendingQuote, setSendingQuote] = useState<QuoteHistory | null>(null);
+
+  const sectorOptions = useMemo(
+    () => Array.from(new Set(clients.map(client => (client.sector || '').trim()).filter(Boolean))).sort((a, b) => a.localeCompare(b, 'pt-PT')),
+    [clients]
+  );
+
+  // Highest revision per quote family; anything below it was superseded by a later version.
+  const latestRevisionByRoot = useMemo(() => {
+    const latest = new Map<string, number>();
+    quoteHistory.forEach(quote => {
+      const rootId = getQuoteRootId(quote);
+      latest.set(rootId, Math.max(latest.get(rootId) || 0, quote.revision));
+    });
+    return latest;
+  }, [quoteHistory]);
 
   useEffect(() => {
     if (tasks.length === 0 || items.length > 0) return;
@@ -321,10 +361,24 @@ const Calculator: React.FC<CalculatorProps> = ({ tasks, areaCosts, logo, turnove
       return;
     }
 
+    // Saving over a loaded quote keeps its history: the result is the next revision of the same quote,
+    // numbered by the database.
+    let revisionFields: Pick<QuoteHistory, 'parent_quote_id' | 'status'> = { parent_quote_id: null, status: 'draft' };
+    if (loadedQuote) {
+      if (confirm('Guardar como nova revisão da proposta carregada? Cancelar guarda como uma proposta nova.')) {
+        revisionFields = {
+          parent_quote_id: getQuoteRootId(loadedQuote),
+          status: isQuoteOpen(loadedQuote.status) && loadedQuote.status !== 'draft' ? 'negotiating' : 'draft',
+        };
+      }
+    }
+
     setIsSaving(true);
     const newProposal: Partial<QuoteHistory> = {
+      ...revisionFields,
       client_name: quoteClientName,
       client_nif: quoteClientNif,
+      client_sector: quoteClientSector.trim(),
       client_volume: clientVolume,
       employee_count: employeeCount,
       document_count: documentCount,
@@ -335,17 +389,14 @@ const Calculator: React.FC<CalculatorProps> = ({ tasks, areaCosts, logo, turnove
       recommended_monthly_fee: finalMonthlyFee,
       total_annual_cost: totalAnnualCost,
       total_annual_hours: totalAnnualHours,
+      proposal_presentation_text: mprPresentationText,
+      proposal_conditions_text: proposalConditionsText,
     };
 
     try {
       const savedProposal = await quoteHistoryService.create(newProposal);
-      const currentOverrides = readQuoteTextOverrides();
-      currentOverrides[savedProposal.id] = {
-        mprPresentationText,
-        proposalConditionsText,
-      };
-      writeQuoteTextOverrides(currentOverrides);
       setQuoteHistory([savedProposal, ...quoteHistory]);
+      setLoadedQuote(savedProposal);
       setShowPreview(true);
     } catch (err: any) {
       alert('Erro ao salvar a proposta: ' + err.message);
@@ -359,6 +410,7 @@ const Calculator: React.FC<CalculatorProps> = ({ tasks, areaCosts, logo, turnove
 
     setQuoteClientName(proposal.client_name);
     setQuoteClientNif(proposal.client_nif);
+    setQuoteClientSector(proposal.client_sector || '');
     setClientVolume(proposal.client_volume);
     setEmployeeCount(proposal.employee_count || 0);
     setDocumentCount(proposal.document_count || 0);
@@ -368,9 +420,13 @@ const Calculator: React.FC<CalculatorProps> = ({ tasks, areaCosts, logo, turnove
     setTargetMargin(proposal.target_margin);
     setFinalMonthlyFee(proposal.recommended_monthly_fee || 0);
     setManualFinalFee(true);
+    setLoadedQuote(proposal);
 
     const savedOverrides = readQuoteTextOverrides()[proposal.id];
-    if (savedOverrides) {
+    if (proposal.proposal_presentation_text || proposal.proposal_conditions_text) {
+      setMprPresentationText(proposal.proposal_presentation_text || DEFAULT_MPR_PRESENTATION_TEXT);
+      setProposalConditionsText(proposal.proposal_conditions_text || DEFAULT_PROPOSAL_CONDITIONS_TEXT);
+    } else if (savedOverrides) {
       setMprPresentationText(savedOverrides.mprPresentationText || DEFAULT_MPR_PRESENTATION_TEXT);
       setProposalConditionsText(savedOverrides.proposalConditionsText || DEFAULT_PROPOSAL_CONDITIONS_TEXT);
     } else {
@@ -390,11 +446,40 @@ const Calculator: React.FC<CalculatorProps> = ({ tasks, areaCosts, logo, turnove
         writeQuoteTextOverrides(currentOverrides);
       }
       setQuoteHistory(quoteHistory.filter(q => q.id !== id));
+      if (loadedQuote?.id === id) setLoadedQuote(null);
     } catch (err: any) {
       alert('Erro ao apagar a proposta: ' + err.message);
     }
   };
 
+  const handleQuoteConverted = (client: Client, quote: QuoteHistory) => {
+    setQuoteHistory(quoteHistory.map(item => (item.id === quote.id ? quote : item)));
+    onClientCreated(client);
+    setConvertingQuote(null);
+    alert(`Cliente ${client.name} criado a partir da proposta.`);
+  };
+
+  const handleQuoteStatusChanged = (quote: QuoteHistory) => {
+    setQuoteHistory(quoteHistory.map(item => (item.id === quote.id ? quote : item)));
+    if (loadedQuote?.id === quote.id) setLoadedQuote(quote);
+    setStatusQuote(null);
+  };
+
+  const handleProposalSent = (quote: QuoteHistory) => {
+    setQuoteHistory(quoteHistory.map(item => (item.id === quote.id ? quote : item)));
+    if (loadedQuote?.id === quote.id) setLoadedQuote(quote);
+    setSendingQuote(null);
+  };
+
+  const sendProposalModal = sendingQuote && (
+    <SendProposalModal
+      quote={sendingQuote}
+      company={resolveProposalCompany(globalSettings)}
+      onClose={() => setSendingQuote(null)}
+      onSent={handleProposalSent}
+    />
+  );
+
   if (showPreview) {
     const hasUploadedLogo = Boolean(logo);
     const maxLogoTries = PDF_PUBLIC_LOGO_CANDIDATES.length + (hasUploadedLogo ? 1 : 0);
@@ -431,9 +516,16 @@ const Calculator: React.FC<CalculatorProps> = ({ tasks, areaCosts, logo, turnove
           <button onClick={() => setShowPreview(false)} className="flex items-center gap-2 text-slate-500 hover:text-slate-800">
             <ArrowLeft size={20} /> Voltar ao Simulador
           </button>
-          <button onClick={() => window.print()} className="bg-slate-800 text-white px-6 py-2 rounded-lg flex items-center gap-2 hover:bg-slate-900 font-bold shadow-sm">
-            <Printer size={20} /> Guardar PDF
-          </button>
+          <div className="flex items-center gap-2">
+            {loadedQuote && (
+              <button onClick={() => setSendingQuote(loadedQuote)} className="bg-blue-600 text-white px-6 py-2 rounded-lg flex items-center gap-2 hover:bg-blue-700 font-bold shadow-sm">
+                <Mail size={20} /> Enviar Proposta
+              </button>
+            )}
+            <button onClick={() => window.print()} className="bg-slate-800 text-white px-6 py-2 rounded-lg flex items-center gap-2 hover:bg-slate-900 font-bold shadow-sm">
+              <Printer size={20} /> Guardar PDF
+            </button>
+          </div>
         </div>
 
         <div className="print-fit max-w-4xl mx-auto bg-white p-7 border border-slate-200/80 rounded-3xl print-reset print:rounded-none print:p-2">
@@ -603,6 +695,8 @@ const Calculator: React.FC<CalculatorProps> = ({ tasks, areaCosts, logo, turnove
             </div>
           </div>
         </div>
+
+        {sendProposalModal}
       </div>
     );
   }
@@ -644,6 +738,13 @@ const Calculator: React.FC<CalculatorProps> = ({ tasks, areaCosts, logo, turnove
                 <label className="block text-xs font-bold text-slate-500 mb-1 uppercase">N Estab.</label>
                 <input type="number" value={establishments} onChange={(e) => setEstablishments(parseInt(e.target.value, 10) || 1)} className="w-full px-3 py-2 border rounded-lg text-sm" />
               </div>
+              <div className="md:col-span-4">
+                <label className="block text-xs font-bold text-slate-500 mb-1 uppercase">Setor de Atividade</label>
+                <input type="text" list="quote-sector-options" value={quoteClientSector} onChange={(e) => setQuoteClientSector(e.target.value)} className="w-full px-3 py-2 border rounded-lg text-sm" />
+                <datalist id="quote-sector-options">
+                  {sectorOptions.map(sector => <option key={sector} value={sector} />)}
+                </datalist>
+              </div>
               <div className="md:col-span-4">
                 <label className="block text-xs font-bold text-slate-500 mb-1 uppercase">Texto “Sobre a MPR”</label>
                 <textarea
@@ -861,29 +962,81 @@ const Calculator: React.FC<CalculatorProps> = ({ tasks, areaCosts, logo, turnove
               <tr>
                 <th className="px-4 py-3">Data</th>
                 <th className="px-4 py-3">Cliente</th>
+                <th className="px-4 py-3">Estado</th>
                 <th className="px-4 py-3 text-right">Avença Final</th>
                 <th className="px-4 py-3 text-right">Ações</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-50">
-              {quoteHistory.map(item => (
-                <tr key={item.id} className="hover:bg-slate-50">
+              {quoteHistory.map(item => {
+                const isSuperseded = item.revision < (latestRevisionByRoot.get(getQuoteRootId(item)) || item.revision);
+                return (
+                <tr key={item.id} className={`hover:bg-slate-50 ${isSuperseded ? 'opacity-50' : ''}`}>
                   <td className="px-4 py-3 text-xs text-slate-500">{new Date(item.created_at).toLocaleDateString('pt-PT')}</td>
-                  <td className="px-4 py-3 font-medium text-slate-700">{item.client_name || 'Sem nome'}</td>
+                  <td className="px-4 py-3 font-medium text-slate-700">
+                    {item.client_name || 'Sem nome'}
+                    {item.revision > 1 && <span className="ml-2 text-[10px] font-bold text-slate-400">v{item.revision}</span>}
+                    {isSuperseded && <span className="ml-2 text-[10px] text-slate-400 italic">substituída</span>}
+                    {item.client_id && <span className="ml-2 text-[10px] font-bold px-2 py-0.5 rounded bg-green-100 text-green-700">Ganha</span>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <button
+                      onClick={() => setStatusQuote(item)}
+                      title={item.responded_at ? `Respondida online a ${new Date(item.responded_at).toLocaleDateString('pt-PT')}` : item.loss_reason ? `Motivo: ${item.loss_reason}` : 'Alterar estado'}
+                      className={`text-[10px] font-bold px-2 py-0.5 rounded hover:opacity-80 ${QUOTE_STATUS_STYLES[item.status]}`}
+                    >
+                      {QUOTE_STATUS_LABELS[item.status]}
+                    </button>
+                  </td>
                   <td className="px-4 py-3 text-right font-bold text-blue-600">{item.recommended_monthly_fee.toFixed(2)}{"\u20AC"}</td>
                   <td className="px-4 py-3 text-right">
                     <div className="flex items-center justify-end gap-2">
                       <button onClick={() => handleLoadProposal(item)} className="text-xs text-blue-600 hover:underline">Carregar</button>
+                      <button
+                        onClick={() => setSendingQuote(item)}
+                        title={item.proposal_sent_at ? `Enviada a ${new Date(item.proposal_sent_at).toLocaleDateString('pt-PT')} para ${item.proposal_sent_to}` : 'Enviar proposta em PDF'}
+                        className="text-xs text-slate-600 hover:underline flex items-center gap-1"
+                      >
+                        <Mail size={12} /> Enviar
+                      </button>
+                      {!item.client_id && (
+                        <button onClick={() => setConvertingQuote(item)} className="text-xs text-green-600 hover:underline flex items-center gap-1">
+                          <UserPlus size={12} /> Converter em cliente
+                        </button>
+                      )}
                       <button onClick={() => handleDeleteProposal(item.id)} className="p-1 text-slate-400 hover:text-red-600"><Trash2 size={14} /></button>
                     </div>
                   </td>
                 </tr>
-              ))}
-              {quoteHistory.length === 0 && (<tr><td colSpan={4} className="text-center italic text-slate-400 py-10">Nenhuma proposta salva ainda.</td></tr>)}
+                );
+              })}
+              {quoteHistory.length === 0 && (<tr><td colSpan={5} className="text-center italic text-slate-400 py-10">Nenhuma proposta salva ainda.</td></tr>)}
             </tbody>
           </table>
         </div>
       </div>
+
+      <QuoteAnalytics turnoverBrackets={turnoverBrackets} quoteHistory={quoteHistory} />
+
+      {statusQuote && (
+        <QuoteStatusModal
+          quote={statusQuote}
+          onClose={() => setStatusQuote(null)}
+          onSaved={handleQuoteStatusChanged}
+        />
+      )}
+
+      {sendProposalModal}
+
+      {convertingQuote && (
+        <ConvertQuoteModal
+          quote={convertingQuote}
+          clients={clients}
+          staff={staff}
+          onClose={() => setConvertingQuote(null)}
+          onConverted={handleQuoteConverted}
+        />
+      )}
     </div>
   );
 };
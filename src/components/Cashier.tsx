@@ -1,14 +1,25 @@
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import { Client, FeeGroup, CashPayment, CashAgreement, CashOperation } from '../types';
-import { cashPaymentService, cashAgreementService, cashOperationService } from '../services';
-import { Landmark, Check, X, Save, RefreshCcw, DollarSign, Banknote, Download, History, CreditCard, Plus } from 'lucide-react';
-import { ClientPaymentPlan, PlanFormState } from '../types/cashier';
+import { Client, FeeGroup, CashPayment, CashPaymentMethod, CashAgreement, CashOperation, ClientFeeChange, BankStatementLine, GlobalSettings, Receipt } from '../types';
+import {
+  cashPaymentService, cashAgreementService, cashOperationService, feeHistoryService, bankStatementService, receiptService, brandingService, ensureStoreClient, IssueReceiptInput
+} from '../services';
+import { buildReceiptEmailHtml } from '../utils/receiptDocument';
+import { buildInternalBillingExport } from '../utils/internalBillingExport';
+import { getFeeForMonth } from '../services/calculator';
+import { Landmark, Check, X, Save, RefreshCcw, DollarSign, Banknote, Download, History, CreditCard, Plus, AlertTriangle, FileUp, FileText, FileCode } from 'lucide-react';
+import { BankMatchProposal, ClientLedger, ClientPaymentPlan, ParsedStatementLine, PlanFormState } from '../types/cashier';
+import { buildClientLedger } from '../utils/cashierLedger';
 import { useCashierExpenses } from '../hooks/useCashierExpenses';
 import { useToast } from '../hooks/useToast';
 import { useConfirm } from '../hooks/useConfirm';
 import { useInputModal } from '../hooks/useInputModal';
 import CashierReport from './cashier/CashierReport';
 import CashierHistory from './cashier/CashierHistory';
+import CashierLedger from './cashier/CashierLedger';
+import BankImportModal from './cashier/BankImportModal';
+import ReceiptsView from './cashier/ReceiptsView';
+import ReceiptDocument from './cashier/ReceiptDocument';
+import SaftExportModal from './cashier/SaftExportModal';
 import PlanModal from './cashier/PlanModal';
 import ExpenseModal from './cashier/ExpenseModal';
 import CloseRegisterModal, { CloseRegisterSummary } from './cashier/CloseRegisterModal';
@@ -26,6 +37,8 @@ interface CashierProps {
   setCashAgreements: React.Dispatch<React.SetStateAction<CashAgreement[]>>;
   cashOperations: CashOperation[];
   setCashOperations: (operations: CashOperation[]) => void;
+  globalSettings: GlobalSettings;
+  canCloseRegister: boolean;
 }
 
 const months = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
@@ -39,11 +52,11 @@ const getPaymentReferenceLabel = (month: number) => (
 
 const buildPlanKey = (clientId: string, year: number) => `${clientId}-${year}`;
 
-const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCashPayments, cashAgreements, setCashAgreements, cashOperations, setCashOperations }) => {
+const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCashPayments, cashAgreements, setCashAgreements, cashOperations, setCashOperations, globalSettings, canCloseRegister }) => {
   const [currentYear, setCurrentYear] = useState(new Date().getFullYear());
   const [pendingChanges, setPendingChanges] = useState<Map<string, Partial<CashPayment>>>(new Map());
   const [isSaving, setIsSaving] = useState(false);
-  const [view, setView] = useState<'main' | 'report' | 'history'>('main');
+  const [view, setView] = useState<'main' | 'report' | 'history' | 'ledger' | 'receipts' | 'receipt'>('main');
   const [paymentMode, setPaymentMode] = useState<'Numerário' | 'MB Way'>('Numerário');
   const [activeReport, setActiveReport] = useState<CashOperation | null>(null);
 
@@ -54,6 +67,50 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
   const [closeRegisterSummary, setCloseRegisterSummary] = useState<CloseRegisterSummary | null>(null);
   const [closeRegisterPayments, setCloseRegisterPayments] = useState<CashPayment[]>([]);
   const [saveFailed, setSaveFailed] = useState(false);
+  const [feeHistory, setFeeHistory] = useState<ClientFeeChange[]>([]);
+  const [bankLines, setBankLines] = useState<BankStatementLine[]>([]);
+  const [isBankImportOpen, setIsBankImportOpen] = useState(false);
+  const [isSaftExportOpen, setIsSaftExportOpen] = useState(false);
+  const [isApplyingBankMatches, setIsApplyingBankMatches] = useState(false);
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [activeReceipt, setActiveReceipt] = useState<Receipt | null>(null);
+  const [receiptBackView, setReceiptBackView] = useState<'main' | 'report' | 'receipts'>('receipts');
+  const [issuingReceiptKey, setIssuingReceiptKey] = useState<string | null>(null);
+  const [isEmailingReceipt, setIsEmailingReceipt] = useState(false);
+  const [logoUrl, setLogoUrl] = useState(() => localStorage.getItem('appLogo') || '');
+
+  useEffect(() => {
+    let isMounted = true;
+    feeHistoryService.getAll()
+      .then(data => { if (isMounted) setFeeHistory(data); })
+      .catch(err => console.error('Erro ao carregar histórico de avenças:', err));
+    bankStatementService.getAll()
+      .then(data => { if (isMounted) setBankLines(data); })
+      .catch(err => console.error('Erro ao carregar movimentos bancários:', err));
+    receiptService.getAll()
+      .then(data => { if (isMounted) setReceipts(data); })
+      .catch(err => console.error('Erro ao carregar recibos:', err));
+    brandingService.getLogoUrl()
+      .then(url => { if (isMounted && url) setLogoUrl(url); })
+      .catch(err => console.error('Erro ao carregar logotipo:', err));
+    return () => { isMounted = false; };
+  }, []);
+
+  const reconciledPaymentIds = useMemo(() => new Set(
+    bankLines
+      .filter(line => line.status === 'matched' && line.cashPaymentId)
+      .map(line => line.cashPaymentId as string)
+  ), [bankLines]);
+
+  const pendingBankLines = useMemo(() => bankLines.filter(line => line.status === 'pending'), [bankLines]);
+
+  const mergeBankLines = (updated: BankStatementLine[]) => {
+    setBankLines(prev => {
+      const byId = new Map(prev.map(line => [line.id, line]));
+      updated.forEach(line => byId.set(line.id, line));
+      return Array.from(byId.values()).sort((a, b) => b.statementDate.localeCompare(a.statementDate));
+    });
+  };
 
   const {
     isExpenseModalOpen,
@@ -140,8 +197,9 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
     if (plan && currentYear === plan.year && monthNumber <= plan.paidUntilMonth) {
       return plan.monthlyAmount;
     }
-    return client.monthlyFee * vatMultiplier;
-  }, [getClientPlan, currentYear]);
+    // Expected amount follows the fee that was in force in that month, not today's fee.
+    return getFeeForMonth(client, feeHistory, currentYear, monthNumber) * vatMultiplier;
+  }, [getClientPlan, currentYear, feeHistory]);
 
   const plansForCurrentYear = useMemo(() => {
     return groupClients
@@ -182,6 +240,19 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
     return map;
   }, [cashPayments, pendingChanges]);
 
+  const ledgersByClient = useMemo(() => {
+    const payments = Array.from(consolidatedPayments.values());
+    return new Map<string, ClientLedger>(groupClients.map(client => [
+      client.id,
+      buildClientLedger({
+        clientId: client.id,
+        payments,
+        agreements: cashAgreements,
+        getExpectedAmount: (year, month) => getFeeForMonth(client, feeHistory, year, month) * vatMultiplier,
+      }),
+    ]));
+  }, [groupClients, consolidatedPayments, cashAgreements, feeHistory]);
+
   const { cashInHand, mbWayInHand } = useMemo(() => {
     let cashTotal = 0;
     let mbWayTotal = 0;
@@ -191,7 +262,7 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
       if (!payment.cashOperationId && payment.amountPaid !== -1) {
         if (payment.paymentMethod === 'Numerário') {
           cashTotal += payment.amountPaid || 0;
-        } else if (payment.paymentMethod === 'MB Way') {
+        } else {
           mbWayTotal += payment.amountPaid || 0;
         }
       }
@@ -292,7 +363,10 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
     const monthlyAmount = existingPlan ? existingPlan.monthlyAmount : defaultMonthlyAmount;
     const paidUntilMonth = existingPlan?.paidUntilMonth || defaultPaidUntilMonth;
     const paidUntilYear = existingPlan?.year || defaultPaidUntilYear;
-    const debtAmount = existingPlan ? existingPlan.debtAmount : monthlyAmount * paidUntilMonth;
+    const ledgerDebt = ledgersByClient.get(client.id)?.totalOutstanding || 0;
+    const debtAmount = existingPlan
+      ? existingPlan.debtAmount
+      : ledgerDebt > 0 ? ledgerDebt : monthlyAmount * paidUntilMonth;
 
     setSelectedPlanClient(client);
     setPlanForm({
@@ -304,7 +378,7 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
       called: existingPlan?.called || false,
       letterSent: existingPlan?.letterSent || false,
     });
-  }, [currentYear, getClientPlan]);
+  }, [currentYear, getClientPlan, ledgersByClient]);
 
   const handleOpenPlanModal = (client?: Client) => {
     if (client) {
@@ -607,7 +681,218 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
     }
   };
 
+  const handleImportStatement = async (parsedLines: ParsedStatementLine[]) => {
+    const { lines, insertedCount } = await bankStatementService.importLines(parsedLines);
+    mergeBankLines(lines);
+    const skipped = parsedLines.length - insertedCount;
+    toast.success(`${insertedCount} movimento(s) importado(s)${skipped > 0 ? `, ${skipped} já existiam` : ''}.`);
+  };
+
+  const handleIgnoreBankLine = async (lineId: string) => {
+    try {
+      mergeBankLines([await bankStatementService.setIgnored(lineId, true)]);
+    } catch (err: any) {
+      toast.error('Erro ao ignorar movimento: ' + err.message);
+    }
+  };
+
+  const handleApplyBankMatches = async (proposals: BankMatchProposal[]) => {
+    if (pendingChanges.size > 0) {
+      toast.warning('Grave as alterações pendentes da grelha antes de aplicar o extrato.');
+      return;
+    }
+
+    setIsApplyingBankMatches(true);
+    try {
+      const linesById = new Map(bankLines.map(line => [line.id, line]));
+      // Bank credits are recorded as MB Way or as transfers; both go into the register's MB Way column.
+      const createdIdsByLine = new Map<string, string>();
+      const newPayments: Partial<CashPayment>[] = [];
+      proposals.forEach(proposal => {
+        if (proposal.action !== 'create' || !proposal.clientId || !proposal.paymentYear || !proposal.paymentMonth) return;
+        const id = crypto.randomUUID();
+        createdIdsByLine.set(proposal.lineId, id);
+        newPayments.push({
+          id,
+          clientId: proposal.clientId,
+          paymentYear: proposal.paymentYear,
+          paymentMonth: proposal.paymentMonth,
+          amountPaid: proposal.amount,
+          paidAt: new Date(`${linesById.get(proposal.lineId)?.statementDate}T12:00:00`).toISOString(),
+          cashOperationId: null,
+          paymentMethod: linesById.get(proposal.lineId)?.channel === 'mbway' ? 'MB Way' : 'Transferência',
+        });
+      });
+      if (newPayments.length > 0) {
+        await cashPaymentService.bulkUpsert(newPayments);
+      }
+
+      const matchedLines: BankStatementLine[] = [];
+      for (const proposal of proposals) {
+        const paymentId = proposal.action === 'link' ? proposal.paymentId : createdIdsByLine.get(proposal.lineId);
+        if (!proposal.clientId || !paymentId) continue;
+        matchedLines.push(await bankStatementService.markMatched(proposal.lineId, proposal.clientId, paymentId));
+      }
+      mergeBankLines(matchedLines);
+      setCashPayments(await cashPaymentService.getAll());
+      toast.success(`${matchedLines.length} movimento(s) conciliado(s).`);
+    } catch (err: any) {
+      toast.error('Erro ao aplicar a conciliação: ' + err.message);
+    } finally {
+      setIsApplyingBankMatches(false);
+    }
+  };
+
+  const officeName = globalSettings.fromName || 'Gabinete';
+
+  const missingSaftCompanyFields = [
+    !globalSettings.companyName?.trim() && 'nome',
+    !/^\d{9}$/.test((globalSettings.companyNif || '').replace(/\D/g, '')) && 'NIF',
+    !globalSettings.companyAddress?.trim() && 'morada',
+    !/^\d{4}-\d{3}$/.test((globalSettings.companyPostalCode || '').trim()) && 'código postal',
+    !globalSettings.companyCity?.trim() && 'localidade',
+  ].filter((field): field is string => Boolean(field));
+
+  // Office-wide: every receipt issued in the period, regardless of the selected group.
+  const handleBuildSaftExport = (startDate: string, endDate: string) => buildInternalBillingExport({
+    company: {
+      taxRegistrationNumber: globalSettings.companyNif || '',
+      companyName: (globalSettings.companyName || '').trim(),
+      addressDetail: (globalSettings.companyAddress || '').trim(),
+      postalCode: (globalSettings.companyPostalCode || '').trim(),
+      city: (globalSettings.companyCity || '').trim(),
+    },
+    clients,
+    payments: cashPayments,
+    receipts,
+    startDate,
+    endDate,
+    isAgreementPayment: payment => isAgreementPaymentMonth(payment.paymentMonth),
+    getPaymentDescription: getReceiptPaymentLabel,
+    getExpectedAmount: (client, year, month) => getFeeForMonth(client, feeHistory, year, month) * vatMultiplier,
+  });
+
+  const replaceReceipt = (updated: Receipt) => {
+    setReceipts(prev => prev.map(receipt => (receipt.id === updated.id ? updated : receipt)));
+    setActiveReceipt(current => (current?.id === updated.id ? updated : current));
+  };
+
+  const openReceipt = (receipt: Receipt) => {
+    setReceiptBackView(view === 'report' ? 'report' : view === 'main' ? 'main' : 'receipts');
+    setActiveReceipt(receipt);
+    setView('receipt');
+  };
+
+  const getReceiptPaymentLabel = (payment: CashPayment) => (
+    isAgreementPaymentMonth(payment.paymentMonth)
+      ? 'Prestação de acordo de dívida'
+      : `Avença ${months[payment.paymentMonth - 1] || payment.paymentMonth}/${payment.paymentYear}`
+  );
+
+  const issueReceipt = async (key: string, input: IssueReceiptInput) => {
+    setIssuingReceiptKey(key);
+    try {
+      const receipt = await receiptService.issue(input);
+      setReceipts(prev => [receipt, ...prev]);
+      openReceipt(receipt);
+    } catch (err: any) {
+      toast.error('Erro ao emitir recibo: ' + err.message);
+    } finally {
+      setIssuingReceiptKey(null);
+    }
+  };
+
+  const handleIssueReceiptForPayment = (payment: CashPayment) => {
+    const client = clients.find(c => c.id === payment.clientId);
+    if (!client) {
+      toast.warning('Cliente do pagamento não encontrado.');
+      return;
+    }
+    void issueReceipt(payment.id, {
+      clientId: client.id,
+      clientName: client.name,
+      clientNif: client.nif,
+      clientAddress: client.address,
+      description: getReceiptPaymentLabel(payment),
+      amount: payment.amountPaid,
+      paymentMethod: payment.paymentMethod,
+      cashPaymentId: payment.id,
+    });
+  };
+
+  const handleIssueReceiptForReportLine = (operation: CashOperation, lineIndex: number) => {
+    const detail = operation.reportDetails[lineIndex];
+    if (!detail) return;
+    // Older report lines only kept the client name.
+    const client = detail.clientId
+      ? clients.find(c => c.id === detail.clientId)
+      : clients.find(c => c.name === detail.clientName);
+    void issueReceipt(`${operation.id}-${lineIndex}`, {
+      clientId: detail.clientId || client?.id || null,
+      clientName: detail.clientName,
+      clientNif: client?.nif,
+      clientAddress: client?.address,
+      description: `Avenças: ${detail.months.join(', ')}`,
+      amount: detail.total,
+      paymentMethod: detail.method,
+      cashOperationId: operation.id,
+      reportLineIndex: lineIndex,
+    });
+  };
+
+  const handleVoidReceipt = async (receipt: Receipt) => {
+    const reason = await prompt('', { title: `Anular recibo ${receipt.documentNumber}`, label: 'Motivo da anulação:', confirmLabel: 'Anular' });
+    if (reason === null) return;
+    if (!reason.trim()) {
+      toast.warning('Indique o motivo da anulação.');
+      return;
+    }
+    try {
+      replaceReceipt(await receiptService.void(receipt.id, reason));
+      toast.success(`Recibo ${receipt.documentNumber} anulado.`);
+    } catch (err: any) {
+      toast.error('Erro ao anular recibo: ' + err.message);
+    }
+  };
+
+  const handleEmailReceipt = async (receipt: Receipt) => {
+    const client = clients.find(c => c.id === receipt.clientId);
+    const recipient = (client?.email || '').trim();
+    if (!recipient) {
+      toast.warning('O cliente não tem email definido.');
+      return;
+    }
+    const ok = await confirm(`Enviar o recibo ${receipt.documentNumber} para ${recipient}?`, { title: 'Enviar Recibo', confirmLabel: 'Enviar' });
+    if (!ok) return;
+
+    setIsEmailingReceipt(true);
+    try {
+      const storeClient = ensureStoreClient();
+      const { data: { session } } = await storeClient.auth.getSession();
+      if (session?.access_token) storeClient.functions.setAuth(session.access_token);
+      const { error } = await storeClient.functions.invoke('send-email', {
+        body: {
+          to: recipient,
+          from: globalSettings.fromEmail ? `${officeName} <${globalSettings.fromEmail}>` : undefined,
+          subject: `Recibo ${receipt.documentNumber}`,
+          html: buildReceiptEmailHtml(receipt, officeName),
+        },
+      });
+      if (error) throw error;
+      replaceReceipt(await receiptService.markEmailed(receipt.id, recipient));
+      toast.success('Recibo enviado por email.');
+    } catch (err: any) {
+      toast.error('Erro ao enviar recibo: ' + err.message);
+    } finally {
+      setIsEmailingReceipt(false);
+    }
+  };
+
   const handleCloseRegisterClick = async () => {
+    if (!canCloseRegister) {
+      toast.warning('Sem permissão para fechar a caixa.');
+      return;
+    }
     let paymentsForProcessing = cashPayments;
     if (pendingChanges.size > 0) {
       const updatedPayments = await handleSaveChanges(true);
@@ -626,9 +911,10 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
     }
 
     const numerarioPayments = allPaymentsToProcess.filter(p => p.paymentMethod === 'Numerário');
-    const mbWayPayments = allPaymentsToProcess.filter(p => p.paymentMethod === 'MB Way');
+    const mbWayPayments = allPaymentsToProcess.filter(p => p.paymentMethod !== 'Numerário');
     const numerarioTotal = numerarioPayments.reduce((sum, p) => sum + p.amountPaid, 0);
     const mbWayTotal = mbWayPayments.reduce((sum, p) => sum + p.amountPaid, 0);
+    const reconciledMbWayPayments = mbWayPayments.filter(p => reconciledPaymentIds.has(p.id));
     const deposit = parseFloat(depositAmount) || 0;
     const adjustment = parseFloat(adjustmentAmount) || 0;
     const mbWayDeposit = parseFloat(mbWayDepositAmount) || 0;
@@ -639,6 +925,8 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
       mbWayTotal,
       numerarioCount: numerarioPayments.length,
       mbWayCount: mbWayPayments.length,
+      mbWayReconciledTotal: reconciledMbWayPayments.reduce((sum, p) => sum + p.amountPaid, 0),
+      mbWayReconciledCount: reconciledMbWayPayments.length,
       sessionExpensesTotal: totalSessionExpenses,
       deposit,
       mbWayDeposit,
@@ -653,13 +941,13 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
     setCloseRegisterSummary(null);
     setIsSaving(true);
 
-    const reportDetailsMap = new Map<string, { clientName: string; months: string[]; total: number; method: 'Numerário' | 'MB Way' }>();
+    const reportDetailsMap = new Map<string, { clientId: string; clientName: string; months: string[]; total: number; method: CashPaymentMethod }>();
     closeRegisterPayments.forEach((p: CashPayment) => {
       const client = clients.find(c => c.id === p.clientId);
       if (client) {
         const key = `${client.id}-${p.paymentMethod}`;
         if (!reportDetailsMap.has(key)) {
-          reportDetailsMap.set(key, { clientName: client.name, months: [], total: 0, method: p.paymentMethod });
+          reportDetailsMap.set(key, { clientId: client.id, clientName: client.name, months: [], total: 0, method: p.paymentMethod });
         }
         const entry = reportDetailsMap.get(key)!;
         entry.months.push(getPaymentReferenceLabel(p.paymentMonth));
@@ -704,8 +992,86 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
     return <div className="text-center p-10 bg-white rounded-xl border-dashed border-2">Nenhum grupo com o nome "Pagamento numerário" foi encontrado.</div>;
   }
 
+  // Early-return views still need the prompt, confirm and toast overlays.
+  const feedbackOverlays = (
+    <>
+      <ConfirmModal state={confirmState} onClose={handleConfirmClose} />
+      <InputModal
+        state={inputModalState}
+        value={inputModalValue}
+        onChange={setInputModalValue}
+        onClose={handleInputModalClose}
+      />
+      <ToastContainer toasts={toasts} onDismiss={dismiss} />
+    </>
+  );
+
+  if (view === 'receipt' && activeReceipt) {
+    return (
+      <>
+        <ReceiptDocument
+          receipt={activeReceipt}
+          logoUrl={logoUrl}
+          officeName={officeName}
+          officeEmail={globalSettings.fromEmail || ''}
+          isEmailing={isEmailingReceipt}
+          onBack={() => setView(receiptBackView === 'report' && !activeReport ? 'receipts' : receiptBackView)}
+          onEmail={handleEmailReceipt}
+          onVoid={handleVoidReceipt}
+        />
+        {feedbackOverlays}
+      </>
+    );
+  }
+
+  if (view === 'receipts') {
+    return (
+      <>
+        <ReceiptsView
+          receipts={receipts}
+          clients={groupClients}
+          payments={cashPayments}
+          year={currentYear}
+          getPaymentLabel={getReceiptPaymentLabel}
+          issuingKey={issuingReceiptKey}
+          onBack={() => setView('main')}
+          onOpenReceipt={openReceipt}
+          onIssueForPayment={handleIssueReceiptForPayment}
+        />
+        {feedbackOverlays}
+      </>
+    );
+  }
+
   if (view === 'report' && activeReport) {
-    return <CashierReport report={activeReport} onBack={() => setView('main')} />;
+    return (
+      <>
+        <CashierReport
+          report={activeReport}
+          onBack={() => setView('main')}
+          receipts={receipts}
+          issuingKey={issuingReceiptKey}
+          onIssueReceipt={(lineIndex) => handleIssueReceiptForReportLine(activeReport, lineIndex)}
+          onOpenReceipt={openReceipt}
+        />
+        {feedbackOverlays}
+      </>
+    );
+  }
+
+  if (view === 'ledger') {
+    return (
+      <CashierLedger
+        clients={groupClients}
+        ledgers={ledgersByClient}
+        months={months}
+        onBack={() => setView('main')}
+        onCreatePlan={(client) => {
+          setView('main');
+          handleOpenPlanModal(client);
+        }}
+      />
+    );
   }
 
   if (view === 'history') {
@@ -730,6 +1096,12 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
           <p className="text-sm text-slate-500">Grupo: <span className="font-bold">{cashGroup.name}</span></p>
         </div>
         <div className="flex items-center gap-2">
+          <button onClick={() => setIsBankImportOpen(true)} className="flex items-center gap-2 text-xs font-bold text-slate-500 hover:text-blue-600 bg-white border border-slate-200 px-3 py-2 rounded-lg">
+            <FileUp size={14} /> Extrato{pendingBankLines.length > 0 ? ` (${pendingBankLines.length})` : ''}
+          </button>
+          <button onClick={() => setIsSaftExportOpen(true)} className="flex items-center gap-2 text-xs font-bold text-slate-500 hover:text-blue-600 bg-white border border-slate-200 px-3 py-2 rounded-lg"><FileCode size={14} /> XML interno</button>
+          <button onClick={() => setView('receipts')} className="flex items-center gap-2 text-xs font-bold text-slate-500 hover:text-blue-600 bg-white border border-slate-200 px-3 py-2 rounded-lg"><FileText size={14} /> Recibos</button>
+          <button onClick={() => setView('ledger')} className="flex items-center gap-2 text-xs font-bold text-slate-500 hover:text-red-600 bg-white border border-slate-200 px-3 py-2 rounded-lg"><AlertTriangle size={14} /> Dívidas</button>
           <button onClick={() => setView('history')} className="flex items-center gap-2 text-xs font-bold text-slate-500 hover:text-blue-600 bg-white border border-slate-200 px-3 py-2 rounded-lg"><History size={14} /> Histórico</button>
           <div className="p-3 rounded-lg bg-green-100 text-green-800 text-center">
             <span className="text-xs font-bold uppercase">Em Caixa</span>
@@ -823,7 +1195,7 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
                           status = 'pending';
                         } else if (payment.cashOperationId) {
                           status = 'processed';
-                        } else if (payment.paymentMethod === 'MB Way') {
+                        } else if (payment.paymentMethod !== 'Numerário') {
                           status = 'paid_mbway';
                         } else {
                           status = 'paid_cash';
@@ -1037,7 +1409,7 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
                 <RefreshCcw size={14} /> Recarregar dados
               </button>
             )}
-            <button onClick={handleCloseRegisterClick} disabled={isSaving || (cashInHand + mbWayInHand === 0 && sessionExpenses.length === 0)} className="bg-slate-900 text-white px-6 py-3 rounded-xl font-bold flex items-center gap-2 hover:bg-black transition-all shadow-lg disabled:opacity-50">
+            <button onClick={handleCloseRegisterClick} disabled={!canCloseRegister || isSaving || (cashInHand + mbWayInHand === 0 && sessionExpenses.length === 0)} className="bg-slate-900 text-white px-6 py-3 rounded-xl font-bold flex items-center gap-2 hover:bg-black transition-all shadow-lg disabled:opacity-50">
               {isSaving ? <RefreshCcw size={18} className="animate-spin" /> : <Check size={18} />} Finalizar e Gerar Relatório
             </button>
           </div>
@@ -1050,6 +1422,7 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
         selectedClientPlan={selectedClientPlan}
         displayedStatus={selectedClientPlan && selectedPlanClient ? getDisplayedPlanStatus(selectedClientPlan, agreementDebtByClient.get(selectedPlanClient.id)?.debt || 0) : null}
         openDebt={selectedPlanClient ? agreementDebtByClient.get(selectedPlanClient.id)?.debt || 0 : 0}
+        suggestedDebtAmount={selectedPlanClient ? ledgersByClient.get(selectedPlanClient.id)?.totalOutstanding || 0 : 0}
         groupClients={groupClients}
         planForm={planForm}
         months={months}
@@ -1064,6 +1437,28 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
         onSave={handleSavePlan}
       />
 
+      <BankImportModal
+        isOpen={isBankImportOpen}
+        lines={pendingBankLines}
+        clients={groupClients}
+        ledgers={ledgersByClient}
+        payments={Array.from(consolidatedPayments.values())}
+        reconciledPaymentIds={reconciledPaymentIds}
+        months={months}
+        isApplying={isApplyingBankMatches}
+        onClose={() => setIsBankImportOpen(false)}
+        onImport={handleImportStatement}
+        onIgnore={handleIgnoreBankLine}
+        onApply={handleApplyBankMatches}
+      />
+
+      <SaftExportModal
+        isOpen={isSaftExportOpen}
+        missingCompanyFields={missingSaftCompanyFields}
+        onBuild={handleBuildSaftExport}
+        onClose={() => setIsSaftExportOpen(false)}
+      />
+
       <ExpenseModal
         isOpen={isExpenseModalOpen}
         amount={newExpense.amount}
@@ -1091,16 +1486,7 @@ const Cashier: React.FC<CashierProps> = ({ clients, groups, cashPayments, setCas
         }}
       />
 
-      <ConfirmModal state={confirmState} onClose={handleConfirmClose} />
-
-      <InputModal
-        state={inputModalState}
-        value={inputModalValue}
-        onChange={setInputModalValue}
-        onClose={handleInputModalClose}
-      />
-
-      <ToastContainer toasts={toasts} onDismiss={dismiss} />
+      {feedbackOverlays}
     </div>
   );
 };
@@ -1,12 +1,15 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { Client, Staff, Task, TurnoverBracket, ClientTaskOverride, TaskArea, AiAnalysis, InsurancePolicy, SaftDossierData } from '../types';
-import { calculateClientProfitability } from '../services/calculator';
+import { Client, Staff, Task, TurnoverBracket, ClientTaskOverride, TaskArea, AiAnalysis, InsurancePolicy, SaftDossierData, TimeEntry, ProfitabilityMode, ProfitabilitySnapshot, ClientFeeChange, FeeChangeContext, QuoteHistory, StaffCostRecord, OverheadAllocation } from '../types';
+import { calculateClientProfitability, compareClientTaskTimes, getClientTravelMinutes, getClientTravelPlan, hasFullTimeEntryWindow, TravelRates } from '../services/calculator';
+import { getVatRegime } from '../services/fiscalCalendar';
+import ClientObligationChecklist from './obligations/ClientObligationChecklist';
 import { analyzeClientWithAI } from '../services/geminiService';
-import { saftDossierService } from '../services';
+import { saftDossierService, timeEntryService, getTimeEntryWindowStart, profitabilitySnapshotService, feeHistoryService, staffCostHistoryService } from '../services';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 import { 
   ArrowLeft, BrainCircuit, Activity, Building, University, Wallet, AlertCircle, CheckCircle, Phone, MapPin, FileText, Plus, Trash2, Save, User, Clock, Users, RefreshCcw, BadgeEuro, Shield,
-  FileCheck, Receipt, BarChart3, Building2, Target, Globe, MessageSquare, PieChart, Presentation, TrendingUp
+  FileCheck, Receipt, BarChart3, Building2, Target, Globe, MessageSquare, PieChart, Presentation, TrendingUp, TrendingDown, History
 } from 'lucide-react';
 
 interface ClientDetailProps {
@@ -15,13 +18,24 @@ interface ClientDetailProps {
   areaCosts: Record<string, number>;
   staff: Staff[];
   turnoverBrackets: TurnoverBracket[];
+  overhead?: OverheadAllocation;
+  travelRates?: TravelRates;
   onBack: () => void;
-  onUpdateClient: (client: Client) => Promise<void>;
+  onUpdateClient: (client: Client, feeChange?: FeeChangeContext) => Promise<void>;
   insurancePolicies: InsurancePolicy[];
-  userRole: 'admin' | 'user' | null;
+  quoteHistory?: QuoteHistory[];
+  canViewProfitability: boolean;
+  canApplyFees: boolean;
 }
 
-const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, staff, turnoverBrackets, onBack, onUpdateClient, insurancePolicies, userRole }) => {
+const FEE_CHANGE_SOURCE_LABELS: Record<ClientFeeChange['source'], string> = {
+  manual: 'Manual',
+  fee_group: 'Grupo de avenças',
+  quote: 'Orçamento',
+  import: 'Importação',
+};
+
+const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, staff, turnoverBrackets, overhead, travelRates, onBack, onUpdateClient, insurancePolicies, quoteHistory = [], canViewProfitability, canApplyFees }) => {
   const [activeTab, setActiveTab] = useState<'general' | 'tasks' | 'dossier'>('general');
   const [aiAnalysis, setAiAnalysis] = useState<AiAnalysis | null>(client.aiAnalysisCache || null);
   const [isLoadingAi, setIsLoadingAi] = useState(false);
@@ -32,6 +46,16 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
   const [isSaving, setIsSaving] = useState(false);
   const [saftDossierData, setSaftDossierData] = useState<SaftDossierData | null>(null);
   const [isLoadingSaftDossierData, setIsLoadingSaftDossierData] = useState(false);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [isLoadingTimeEntries, setIsLoadingTimeEntries] = useState(false);
+  const [timeTrackingStart, setTimeTrackingStart] = useState<string | null>(null);
+  const [profitabilityMode, setProfitabilityMode] = useState<ProfitabilityMode>('estimated');
+  const [newTimeEntry, setNewTimeEntry] = useState({ taskId: '', staffId: '', entryDate: new Date().toISOString().slice(0, 10), minutes: '', notes: '' });
+  const [isSavingTimeEntry, setIsSavingTimeEntry] = useState(false);
+  const [snapshots, setSnapshots] = useState<ProfitabilitySnapshot[]>([]);
+  const [feeHistory, setFeeHistory] = useState<ClientFeeChange[]>([]);
+  const [staffCostHistory, setStaffCostHistory] = useState<StaffCostRecord[]>([]);
+  const [feeChangeForm, setFeeChangeForm] = useState({ effectiveFrom: new Date().toISOString().slice(0, 10), reason: '', quoteId: '' });
 
   // Sync when prop changes
   useEffect(() => {
@@ -71,8 +95,110 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
     };
   }, [client.nif]);
 
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadTimeEntries = async () => {
+      setIsLoadingTimeEntries(true);
+      try {
+        const [data, firstEntryDate] = await Promise.all([
+          timeEntryService.getByClient(client.id, getTimeEntryWindowStart()),
+          timeEntryService.getFirstEntryDate(client.id),
+        ]);
+        if (isMounted) {
+          setTimeEntries(data);
+          setTimeTrackingStart(firstEntryDate);
+        }
+      } catch (err) {
+        console.error('Erro ao carregar registos de tempo do cliente:', err);
+        if (isMounted) {
+          setTimeEntries([]);
+          setTimeTrackingStart(null);
+        }
+      } finally {
+        if (isMounted) setIsLoadingTimeEntries(false);
+      }
+    };
+
+    loadTimeEntries();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [client.id]);
+
+  useEffect(() => {
+    let isMounted = true;
+    feeHistoryService.getByClient(client.id)
+      .then(data => { if (isMounted) setFeeHistory(data); })
+      .catch(err => {
+        console.error('Erro ao carregar histórico de avenças do cliente:', err);
+        if (isMounted) setFeeHistory([]);
+      });
+    return () => { isMounted = false; };
+  }, [client.id, client.monthlyFee]);
+
+  useEffect(() => {
+    if (profitabilityMode !== 'actual') return;
+    let isMounted = true;
+    staffCostHistoryService.getAll()
+      .then(data => { if (isMounted) setStaffCostHistory(data); })
+      .catch(err => {
+        console.error('Erro ao carregar histórico de custos da equipa:', err);
+        if (isMounted) setStaffCostHistory([]);
+      });
+    return () => { isMounted = false; };
+  }, [profitabilityMode]);
+
+  useEffect(() => {
+    if (!canViewProfitability) return;
+    let isMounted = true;
+    profitabilitySnapshotService.getByClient(client.id)
+      .then(data => { if (isMounted) setSnapshots(data); })
+      .catch(err => {
+        console.error('Erro ao carregar histórico de rentabilidade do cliente:', err);
+        if (isMounted) setSnapshots([]);
+      });
+    return () => { isMounted = false; };
+  }, [client.id, canViewProfitability]);
+
+  const snapshotTrend = useMemo(() => snapshots.slice(-24).map(snapshot => ({
+    month: new Date(`${snapshot.snapshotMonth}T00:00:00`).toLocaleDateString('pt-PT', { month: 'short', year: '2-digit' }),
+    profitability: snapshot.profitability,
+    monthlyFee: snapshot.monthlyFee,
+    monthlyCost: snapshot.totalAnnualCost / 12,
+    turnoverStatus: snapshot.turnoverStatus,
+  })), [snapshots]);
+
+  const marginMoMChange = snapshotTrend.length >= 2
+    ? snapshotTrend[snapshotTrend.length - 1].profitability - snapshotTrend[snapshotTrend.length - 2].profitability
+    : null;
+
   // Real-time calculation based on edited state
-  const stats = calculateClientProfitability(editedClient, tasks, areaCosts as Record<TaskArea, number>, staff, turnoverBrackets);
+  // 'actual' looks back 12 months, so revenue and staff costs also use the values in force over that window.
+  const stats = calculateClientProfitability(editedClient, tasks, areaCosts as Record<TaskArea, number>, staff, turnoverBrackets, {
+    mode: profitabilityMode,
+    timeEntries,
+    timeTrackingStart,
+    feeHistory: profitabilityMode === 'actual' ? feeHistory : undefined,
+    staffCostHistory: profitabilityMode === 'actual' ? staffCostHistory : undefined,
+    overhead,
+    travelRates,
+  });
+  const travelPlan = getClientTravelPlan(editedClient, travelRates);
+  const isTravelAddressStale = travelPlan.hasDistance && (editedClient.travelDistanceAddress || '') !== (editedClient.address || '');
+
+  const isFeeChanged = editedClient.monthlyFee !== client.monthlyFee;
+  const clientQuotes = useMemo(() => {
+    const normalizedNif = (client.nif || '').replace(/\D/g, '');
+    if (!normalizedNif) return [];
+    return quoteHistory.filter(quote => (quote.client_nif || '').replace(/\D/g, '') === normalizedNif);
+  }, [quoteHistory, client.nif]);
+
+  const taskTimeVariances = useMemo(() => {
+    return compareClientTaskTimes(editedClient, tasks, timeEntries)
+      .sort((a, b) => Math.abs(b.varianceMinutes) - Math.abs(a.varianceMinutes));
+  }, [editedClient, tasks, timeEntries]);
 
   // Group tasks by Area for rendering
   const tasksByArea = useMemo(() => {
@@ -137,7 +263,7 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
     // 2. Operational Hours (Calls/Travel) -> Default to Responsible
     const responsible = staff.find(s => s.id === editedClient.responsibleStaff || s.name === editedClient.responsibleStaff);
     if (responsible) {
-      const opHours = (editedClient.callTimeBalance * 12 / 60) + editedClient.travelCount;
+      const opHours = (editedClient.callTimeBalance * 12 / 60) + getClientTravelMinutes(editedClient) / 60;
       if (distribution[responsible.id]) distribution[responsible.id].hours += opHours;
     }
 
@@ -179,6 +305,46 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
     }
   };
 
+  const handleAddTimeEntry = async () => {
+    const minutes = Number(newTimeEntry.minutes);
+    const staffId = newTimeEntry.staffId || (staff.find(s => s.id === editedClient.responsibleStaff || s.name === editedClient.responsibleStaff)?.id ?? '');
+    if (!newTimeEntry.taskId || !staffId || !newTimeEntry.entryDate || !minutes || minutes <= 0) {
+      alert('Preencha a tarefa, o funcionário, a data e os minutos.');
+      return;
+    }
+
+    setIsSavingTimeEntry(true);
+    try {
+      const created = await timeEntryService.create({
+        clientId: client.id,
+        taskId: newTimeEntry.taskId,
+        staffId,
+        entryDate: newTimeEntry.entryDate,
+        minutes,
+        notes: newTimeEntry.notes,
+      });
+      setTimeEntries(prev => [created, ...prev]);
+      setTimeTrackingStart(prev => (prev && prev <= created.entryDate ? prev : created.entryDate));
+      setNewTimeEntry(prev => ({ ...prev, minutes: '', notes: '' }));
+    } catch (err: any) {
+      console.error('Erro ao gravar registo de tempo:', err);
+      alert('Erro ao gravar registo de tempo: ' + (err?.message || 'erro desconhecido'));
+    } finally {
+      setIsSavingTimeEntry(false);
+    }
+  };
+
+  const handleDeleteTimeEntry = async (id: string) => {
+    if (!window.confirm('Remover este registo de tempo?')) return;
+    try {
+      await timeEntryService.delete(id);
+      setTimeEntries(prev => prev.filter(entry => entry.id !== id));
+    } catch (err: any) {
+      console.error('Erro ao remover registo de tempo:', err);
+      alert('Erro ao remover registo de tempo: ' + (err?.message || 'erro desconhecido'));
+    }
+  };
+
   // --- Task Editing Handlers ---
 
   const handleUpdateTask = (taskId: string, field: keyof ClientTaskOverride, value: any) => {
@@ -211,8 +377,17 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
   const handleSaveChanges = async () => {
     setIsSaving(true);
     try {
-      await onUpdateClient(editedClient);
+      const feeChange: FeeChangeContext | undefined = isFeeChanged
+        ? {
+            effectiveFrom: feeChangeForm.effectiveFrom,
+            reason: feeChangeForm.reason,
+            source: feeChangeForm.quoteId ? 'quote' : 'manual',
+            sourceId: feeChangeForm.quoteId || null,
+          }
+        : undefined;
+      await onUpdateClient(editedClient, feeChange);
       setIsDirty(false);
+      setFeeChangeForm({ effectiveFrom: new Date().toISOString().slice(0, 10), reason: '', quoteId: '' });
       // The success message is good, but an alert is fine for now.
       alert('Alterações salvas com sucesso!');
     } catch (error) {
@@ -317,7 +492,32 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
       {/* TAB 1: GENERAL */}
       {activeTab === 'general' && (
         <div className="space-y-6">
-          {userRole === 'admin' && (
+          {canViewProfitability && (
+            <div className="flex items-center justify-end gap-2">
+              {profitabilityMode === 'actual' && !hasFullTimeEntryWindow(timeTrackingStart) && (
+                <span className="text-xs text-amber-600">Ainda não há 12 meses de registos de tempo: os custos mantêm a estimativa.</span>
+              )}
+              <span className="text-xs text-slate-500">Base de cálculo:</span>
+              <div className="inline-flex rounded-lg border border-slate-200 bg-white p-0.5">
+                <button
+                  type="button"
+                  onClick={() => setProfitabilityMode('estimated')}
+                  className={`px-3 py-1 text-xs font-bold rounded-md ${profitabilityMode === 'estimated' ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  Estimado
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setProfitabilityMode('actual')}
+                  className={`px-3 py-1 text-xs font-bold rounded-md ${profitabilityMode === 'actual' ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-700'}`}
+                  title="Usa o tempo registado nos últimos 12 meses nas tarefas com registos, quando já há 12 meses de registos"
+                >
+                  Real (12 meses)
+                </button>
+              </div>
+            </div>
+          )}
+          {canViewProfitability && (
             /* KPI Cards */
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100">
@@ -327,23 +527,34 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
               <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100">
                 <p className="text-xs text-slate-500 font-medium">Custo Operacional</p>
                 <p className="text-xl font-bold text-slate-800 mt-1">{stats.totalAnnualCost.toFixed(0)}€</p>
+                {stats.overheadCost > 0 && (
+                  <p
+                    className="text-[11px] text-slate-400 mt-1"
+                    title={stats.overheadBreakdown.map(share => `${share.name}: ${share.amount.toFixed(0)}€`).join('\n')}
+                  >
+                    Direto {stats.directCost.toFixed(0)}€ · Indireto {stats.overheadCost.toFixed(0)}€
+                  </p>
+                )}
               </div>
               <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100">
                 <p className="text-xs text-slate-500 font-medium">Horas Anuais</p>
                 <p className="text-xl font-bold text-slate-800 mt-1">{stats.totalAnnualHours.toFixed(1)}h</p>
               </div>
               <div className={`p-4 rounded-xl shadow-sm border ${stats.profitability < 15 ? 'bg-red-50 border-red-100' : 'bg-green-50 border-green-100'}`}>
-                <p className={`text-xs font-medium ${stats.profitability < 15 ? 'text-red-600' : 'text-green-600'}`}>Margem de Lucro</p>
+                <p className={`text-xs font-medium ${stats.profitability < 15 ? 'text-red-600' : 'text-green-600'}`}>{stats.overheadCost > 0 ? 'Margem Líquida' : 'Margem de Lucro'}</p>
                 <p className={`text-xl font-bold mt-1 ${stats.profitability < 15 ? 'text-red-700' : 'text-green-700'}`}>
                   {stats.profitability.toFixed(1)}%
                 </p>
+                {stats.overheadCost > 0 && (
+                  <p className="text-[11px] text-slate-500 mt-1">Contribuição {stats.contributionMarginPercent.toFixed(1)}% ({stats.contributionMargin.toFixed(0)}€)</p>
+                )}
               </div>
             </div>
           )}
 
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Operational Data */}
-            <div className={`lg:col-span-${userRole === 'admin' ? '1' : '3'} bg-white p-6 rounded-xl shadow-sm border border-slate-100`}>
+            <div className={`lg:col-span-${canViewProfitability ? '1' : '3'} bg-white p-6 rounded-xl shadow-sm border border-slate-100`}>
                <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
                  <Activity size={18} className="text-slate-500"/> Dados Operacionais
                </h3>
@@ -354,9 +565,34 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
                       type="number" 
                       value={editedClient.monthlyFee} 
                       onChange={e => {setEditedClient({...editedClient, monthlyFee: Number(e.target.value)}); setIsDirty(true);}}
-                      className="w-24 text-right border border-slate-200 rounded px-2 py-1 text-sm font-bold text-blue-600"
+                      disabled={!canApplyFees}
+                      title={canApplyFees ? undefined : 'Sem permissão para alterar avenças'}
+                      className="w-24 text-right border border-slate-200 rounded px-2 py-1 text-sm font-bold text-blue-600 disabled:bg-slate-50 disabled:text-slate-400"
                     />
                  </div>
+                 {isFeeChanged && (
+                   <div className="bg-blue-50 border border-blue-100 rounded-lg p-3 space-y-2 text-xs">
+                     <p className="font-bold text-blue-700">Alteração de avença: {client.monthlyFee.toFixed(2)}€ → {editedClient.monthlyFee.toFixed(2)}€</p>
+                     <label className="flex justify-between items-center gap-2 text-slate-600">
+                       Em vigor a partir de
+                       <input type="date" value={feeChangeForm.effectiveFrom} onChange={e => setFeeChangeForm({ ...feeChangeForm, effectiveFrom: e.target.value })} className="border border-slate-200 rounded px-2 py-1" />
+                     </label>
+                     <input type="text" value={feeChangeForm.reason} onChange={e => setFeeChangeForm({ ...feeChangeForm, reason: e.target.value })} placeholder="Motivo da alteração" className="w-full border border-slate-200 rounded px-2 py-1" />
+                     {feeChangeForm.effectiveFrom > new Date().toISOString().slice(0, 10) && (
+                       <p className="text-slate-500">Alteração agendada: a avença atual mantém-se até essa data.</p>
+                     )}
+                     {clientQuotes.length > 0 && (
+                       <select value={feeChangeForm.quoteId} onChange={e => setFeeChangeForm({ ...feeChangeForm, quoteId: e.target.value })} className="w-full border border-slate-200 rounded px-2 py-1">
+                         <option value="">Sem orçamento associado</option>
+                         {clientQuotes.map(quote => (
+                           <option key={quote.id} value={quote.id}>
+                             Orçamento de {new Date(quote.created_at).toLocaleDateString('pt-PT')} ({quote.recommended_monthly_fee.toFixed(2)}€)
+                           </option>
+                         ))}
+                       </select>
+                     )}
+                   </div>
+                 )}
                  <div className="flex justify-between items-center">
                     <span className="text-sm text-slate-500 flex items-center gap-2"><BadgeEuro size={14}/> Vol. Negócios Anual</span>
                     <input 
@@ -366,6 +602,19 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
                       className="w-24 text-right border border-slate-200 rounded px-2 py-1 text-sm font-medium"
                     />
                  </div>
+                 <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500 flex items-center gap-2"><Receipt size={14}/> Regime IVA</span>
+                    <select
+                      value={editedClient.vatRegime || ''}
+                      onChange={e => {setEditedClient({...editedClient, vatRegime: (e.target.value || undefined) as Client['vatRegime']}); setIsDirty(true);}}
+                      className="w-32 border border-slate-200 rounded px-2 py-1 text-sm font-medium bg-white"
+                    >
+                      <option value="">Automático ({getVatRegime({ ...editedClient, vatRegime: undefined })})</option>
+                      <option value="Mensal">Mensal</option>
+                      <option value="Trimestral">Trimestral</option>
+                      <option value="Isento">Isento (art. 53.º)</option>
+                    </select>
+                 </div>
                </div>
                <div className="space-y-1 mb-4">
                   <label className="text-sm text-slate-500 flex items-center gap-2"><MapPin size={14}/> Morada</label>
@@ -438,6 +687,44 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
                       className="w-20 text-right border border-slate-200 rounded px-2 py-1 text-sm font-medium"
                     />
                  </div>
+                 {editedClient.travelCount > 0 && (
+                   <div className="bg-slate-50 border border-slate-100 rounded-lg p-3 space-y-2 text-xs">
+                     <div className="flex justify-between items-center gap-2 text-slate-600">
+                       Distância (km, ida)
+                       <input
+                         type="number"
+                         min={0}
+                         value={editedClient.travelDistanceKm ?? ''}
+                         onChange={e => {setEditedClient({...editedClient, travelDistanceKm: e.target.value === '' ? null : Number(e.target.value), travelDistanceAddress: editedClient.address || ''}); setIsDirty(true);}}
+                         className="w-20 text-right border border-slate-200 rounded px-2 py-1"
+                       />
+                     </div>
+                     <div className="flex justify-between items-center gap-2 text-slate-600">
+                       Tempo (min, ida)
+                       <input
+                         type="number"
+                         min={0}
+                         value={editedClient.travelMinutesOneWay ?? ''}
+                         placeholder="auto"
+                         onChange={e => {setEditedClient({...editedClient, travelMinutesOneWay: e.target.value === '' ? null : Number(e.target.value)}); setIsDirty(true);}}
+                         className="w-20 text-right border border-slate-200 rounded px-2 py-1"
+                       />
+                     </div>
+                     <div className="flex justify-between items-center gap-2 text-slate-600">
+                       Portagens/deslocação (€)
+                       <input
+                         type="number"
+                         min={0}
+                         value={editedClient.travelTollsPerTrip ?? ''}
+                         placeholder="padrão"
+                         onChange={e => {setEditedClient({...editedClient, travelTollsPerTrip: e.target.value === '' ? null : Number(e.target.value)}); setIsDirty(true);}}
+                         className="w-20 text-right border border-slate-200 rounded px-2 py-1"
+                       />
+                     </div>
+                     {!travelPlan.hasDistance && <p className="text-slate-400">Sem distância: conta 1h por deslocação e sem despesas.</p>}
+                     {isTravelAddressStale && <p className="text-amber-600 font-medium">A morada mudou desde que a distância foi medida.</p>}
+                   </div>
+                 )}
 
                  <div className="border-t border-slate-100 my-4"></div>
 
@@ -495,7 +782,7 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
                </div>
             </div>
 
-            {userRole === 'admin' && (
+            {canViewProfitability && (
               <div className="lg:col-span-2 space-y-6">
                 {/* Turnover / Fair Value Analysis */}
                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
@@ -580,6 +867,92 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
               </div>
             )}
           </div>
+
+          {canViewProfitability && (
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+              <div className="flex justify-between items-start mb-4">
+                <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                  <TrendingUp size={18} className="text-blue-500" /> Histórico de Rentabilidade
+                </h3>
+                {marginMoMChange !== null && (
+                  <span className={`flex items-center gap-1 text-xs font-bold px-2 py-1 rounded-lg ${marginMoMChange < 0 ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>
+                    {marginMoMChange < 0 ? <TrendingDown size={14} /> : <TrendingUp size={14} />}
+                    {marginMoMChange > 0 ? '+' : ''}{marginMoMChange.toFixed(1)} p.p. vs mês anterior
+                  </span>
+                )}
+              </div>
+              {snapshotTrend.length === 0 ? (
+                <p className="text-sm text-slate-400 italic">Ainda não existem snapshots mensais para este cliente.</p>
+              ) : (
+                <>
+                  <div className="h-56">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={snapshotTrend} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                        <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+                        <YAxis yAxisId="eur" tickFormatter={(value) => `${value}€`} tick={{ fontSize: 11 }} />
+                        <YAxis yAxisId="pct" orientation="right" tickFormatter={(value) => `${value}%`} tick={{ fontSize: 11 }} />
+                        <Tooltip formatter={(value, name) => name === 'Margem' ? `${Number(value).toFixed(1)}%` : `${Number(value).toFixed(2)} €`} />
+                        <Legend />
+                        <Line yAxisId="eur" type="stepAfter" dataKey="monthlyFee" name="Avença" stroke="#22c55e" strokeWidth={2} dot={false} />
+                        <Line yAxisId="eur" type="monotone" dataKey="monthlyCost" name="Custo mensal" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                        <Line yAxisId="pct" type="monotone" dataKey="profitability" name="Margem" stroke="#f97316" strokeWidth={2} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {snapshotTrend.slice(-6).map(point => (
+                      <span key={point.month} className="text-[10px] bg-slate-50 border border-slate-100 rounded px-2 py-1 text-slate-500">
+                        {point.month}: <b className="text-slate-700">{point.turnoverStatus || 'Sem patamar'}</b>
+                      </span>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {activeTab === 'general' && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
+            <History size={18} className="text-slate-500" /> Histórico de Avenças
+          </h3>
+          {feeHistory.length === 0 ? (
+            <p className="text-sm text-slate-400 italic">Sem alterações de avença registadas.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                  <tr>
+                    <th className="px-3 py-2">Em vigor desde</th>
+                    <th className="px-3 py-2 text-right">Avença</th>
+                    <th className="px-3 py-2">Origem</th>
+                    <th className="px-3 py-2">Motivo</th>
+                    <th className="px-3 py-2">Alterado por</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {[...feeHistory].reverse().map(change => (
+                    <tr key={change.id}>
+                      <td className="px-3 py-2 text-slate-600">{new Date(`${change.effectiveFrom}T00:00:00`).toLocaleDateString('pt-PT')}</td>
+                      <td className="px-3 py-2 text-right font-bold text-slate-800">
+                        {change.previousFee !== null && <span className="text-slate-400 font-normal">{change.previousFee.toFixed(2)}€ → </span>}
+                        {change.monthlyFee.toFixed(2)}€
+                      </td>
+                      <td className="px-3 py-2 text-xs text-slate-500">{FEE_CHANGE_SOURCE_LABELS[change.source] || change.source}</td>
+                      <td className="px-3 py-2 text-xs text-slate-600">{change.reason || '—'}</td>
+                      <td className="px-3 py-2 text-xs text-slate-500">
+                        {change.changedBy || '—'}
+                        {change.createdAt && <span className="block text-slate-400">{new Date(change.createdAt).toLocaleString('pt-PT')}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
         </div>
       )}
 
@@ -704,7 +1077,7 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
       {activeTab === 'tasks' && (
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
            {/* Left Column: Task List */}
-           <div className={`lg:col-span-${userRole === 'admin' ? '3' : '4'} space-y-4`}>
+           <div className={`lg:col-span-${canViewProfitability ? '3' : '4'} space-y-4`}>
               {Object.entries(tasksByArea).map(([area, areaTasks]) => (
                 <div key={area} className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
                   <div className="p-4 bg-slate-50 border-b border-slate-100">
@@ -719,7 +1092,7 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
                           <th className="px-4 py-3 text-center">Multiplicador</th>
                           <th className="px-4 py-3">Funcionário Executante</th>
                           <th className="px-4 py-3 text-right">Horas/Ano</th>
-                          {userRole === 'admin' && <th className="px-4 py-3 text-right">Custo/Ano</th>}
+                          {canViewProfitability && <th className="px-4 py-3 text-right">Custo/Ano</th>}
                         </tr>
                       </thead>
                       <tbody className="divide-y divide-slate-50">
@@ -790,7 +1163,7 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
                               <td className="px-4 py-3 text-right text-slate-600">
                                 {annualHours.toFixed(1)} h
                               </td>
-                              {userRole === 'admin' && (
+                              {canViewProfitability && (
                                 <td className="px-4 py-3 text-right font-medium text-slate-700">
                                   {annualCost.toFixed(0)} €
                                 </td>
@@ -819,7 +1192,7 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
                           <th className="px-4 py-3 text-center">Multiplicador</th>
                           <th className="px-4 py-3">Funcionário Executante</th>
                           <th className="px-4 py-3 text-right">Horas/Ano</th>
-                          {userRole === 'admin' && <th className="px-4 py-3 text-right">Custo/Ano</th>}
+                          {canViewProfitability && <th className="px-4 py-3 text-right">Custo/Ano</th>}
                         </tr>
                       </thead>
                       <tbody className="divide-y divide-slate-50">
@@ -830,7 +1203,7 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
                             <td className="px-4 py-3 text-center">{editedClient.callTimeBalance} min</td>
                             <td className="px-4 py-3">{responsibleStaffName}</td>
                             <td className="px-4 py-3 text-right">{((editedClient.callTimeBalance * 12) / 60).toFixed(1)} h</td>
-                            {userRole === 'admin' && (
+                            {canViewProfitability && (
                               <td className="px-4 py-3 text-right">{(((editedClient.callTimeBalance * 12) / 60) * stats.usedHourlyRate).toFixed(0)} €</td>
                             )}
                           </tr>
@@ -839,11 +1212,23 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
                           <tr className="bg-slate-50/50 italic text-slate-500">
                             <td className="px-4 py-3">Deslocações ({editedClient.travelCount}/ano)</td>
                             <td className="px-4 py-3 text-center">{editedClient.travelCount}</td>
-                            <td className="px-4 py-3 text-center">60 min</td>
+                            <td className="px-4 py-3 text-center">{travelPlan.minutesPerTrip.toFixed(0)} min</td>
                             <td className="px-4 py-3">{responsibleStaffName}</td>
-                            <td className="px-4 py-3 text-right">{(editedClient.travelCount).toFixed(1)} h</td>
-                            {userRole === 'admin' && (
-                              <td className="px-4 py-3 text-right">{(editedClient.travelCount * stats.usedHourlyRate).toFixed(0)} €</td>
+                            <td className="px-4 py-3 text-right">{(getClientTravelMinutes(editedClient) / 60).toFixed(1)} h</td>
+                            {canViewProfitability && (
+                              <td className="px-4 py-3 text-right">{stats.travelTimeCost.toFixed(0)} €</td>
+                            )}
+                          </tr>
+                        )}
+                        {editedClient.travelCount > 0 && travelPlan.hasDistance && (
+                          <tr className="bg-slate-50/50 italic text-slate-500">
+                            <td className="px-4 py-3">Quilómetros e portagens ({travelPlan.kmPerTrip.toFixed(0)} km/deslocação)</td>
+                            <td className="px-4 py-3 text-center">{editedClient.travelCount}</td>
+                            <td className="px-4 py-3 text-center">{travelPlan.expensePerTrip.toFixed(2)} €</td>
+                            <td className="px-4 py-3">—</td>
+                            <td className="px-4 py-3 text-right">—</td>
+                            {canViewProfitability && (
+                              <td className="px-4 py-3 text-right">{stats.travelExpenses.toFixed(0)} €</td>
                             )}
                           </tr>
                         )}
@@ -852,10 +1237,101 @@ const ClientDetail: React.FC<ClientDetailProps> = ({ client, tasks, areaCosts, s
                   </div>
                 </div>
               )}
+
+              <ClientObligationChecklist client={client} tasks={tasks} staff={staff} />
+
+              {/* Actual vs Estimated Time */}
+              <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+                <div className="p-4 bg-slate-50 border-b border-slate-100 flex items-center justify-between">
+                  <h3 className="font-bold text-slate-700 flex items-center gap-2"><Clock size={16} /> Tempo Real vs Estimado (últimos 12 meses)</h3>
+                  {isLoadingTimeEntries && <RefreshCcw size={14} className="animate-spin text-slate-400" />}
+                </div>
+                <div className="p-4 border-b border-slate-100 grid grid-cols-1 md:grid-cols-6 gap-2 items-end">
+                  <div className="md:col-span-2">
+                    <label className="block text-[11px] font-bold text-slate-500 mb-1">Tarefa</label>
+                    <select value={newTimeEntry.taskId} onChange={e => setNewTimeEntry(prev => ({ ...prev, taskId: e.target.value }))} className="w-full border border-slate-200 rounded px-2 py-1.5 text-xs bg-white">
+                      <option value="">Selecionar tarefa</option>
+                      {tasks.map(task => <option key={task.id} value={task.id}>{task.name}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-[11px] font-bold text-slate-500 mb-1">Funcionário</label>
+                    <select value={newTimeEntry.staffId} onChange={e => setNewTimeEntry(prev => ({ ...prev, staffId: e.target.value }))} className="w-full border border-slate-200 rounded px-2 py-1.5 text-xs bg-white">
+                      <option value="">{responsibleStaffName} (Padrão)</option>
+                      {staff.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-[11px] font-bold text-slate-500 mb-1">Data</label>
+                    <input type="date" value={newTimeEntry.entryDate} onChange={e => setNewTimeEntry(prev => ({ ...prev, entryDate: e.target.value }))} className="w-full border border-slate-200 rounded px-2 py-1 text-xs" />
+                  </div>
+                  <div>
+                    <label className="block text-[11px] font-bold text-slate-500 mb-1">Minutos</label>
+                    <input type="number" min="1" value={newTimeEntry.minutes} onChange={e => setNewTimeEntry(prev => ({ ...prev, minutes: e.target.value }))} className="w-full border border-slate-200 rounded px-2 py-1 text-xs" placeholder="0" />
+                  </div>
+                  <button type="button" onClick={handleAddTimeEntry} disabled={isSavingTimeEntry} className="bg-blue-600 text-white px-3 py-1.5 rounded-lg text-xs font-bold flex items-center justify-center gap-1 hover:bg-blue-700 disabled:opacity-50">
+                    {isSavingTimeEntry ? <RefreshCcw size={14} className="animate-spin" /> : <Plus size={14} />} Registar
+                  </button>
+                  <div className="md:col-span-6">
+                    <input type="text" value={newTimeEntry.notes} onChange={e => setNewTimeEntry(prev => ({ ...prev, notes: e.target.value }))} className="w-full border border-slate-200 rounded px-2 py-1 text-xs" placeholder="Notas (opcional)" />
+                  </div>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                      <tr>
+                        <th className="px-4 py-3">Tarefa</th>
+                        <th className="px-4 py-3 text-right">Estimado/Ano</th>
+                        <th className="px-4 py-3 text-right">Real (12m)</th>
+                        <th className="px-4 py-3 text-right">Desvio</th>
+                        <th className="px-4 py-3 text-center">Registos</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-50">
+                      {taskTimeVariances.filter(v => v.entryCount > 0).length === 0 ? (
+                        <tr><td colSpan={5} className="px-4 py-6 text-center text-xs text-slate-400 italic">Ainda não existem registos de tempo para este cliente.</td></tr>
+                      ) : (
+                        taskTimeVariances.filter(v => v.entryCount > 0).map(variance => {
+                          const taskDef = tasks.find(t => t.id === variance.taskId);
+                          const isOver = variance.varianceMinutes > 0;
+                          return (
+                            <tr key={variance.taskId} className="hover:bg-slate-50">
+                              <td className="px-4 py-3 font-medium text-slate-700">{taskDef?.name || variance.taskId}</td>
+                              <td className="px-4 py-3 text-right text-slate-600">{(variance.estimatedMinutes / 60).toFixed(1)} h</td>
+                              <td className="px-4 py-3 text-right text-slate-600">{(variance.actualMinutes / 60).toFixed(1)} h</td>
+                              <td className={`px-4 py-3 text-right font-bold ${isOver ? 'text-red-600' : 'text-green-600'}`}>
+                                {isOver ? '+' : ''}{(variance.varianceMinutes / 60).toFixed(1)} h
+                                {variance.variancePercent !== null && <span className="text-[10px] font-medium ml-1">({isOver ? '+' : ''}{variance.variancePercent.toFixed(0)}%)</span>}
+                              </td>
+                              <td className="px-4 py-3 text-center text-slate-500">{variance.entryCount}</td>
+                            </tr>
+                          );
+                        })
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+                {timeEntries.length > 0 && (
+                  <div className="border-t border-slate-100 max-h-56 overflow-y-auto custom-scrollbar">
+                    {timeEntries.slice(0, 30).map(entry => (
+                      <div key={entry.id} className="flex items-center justify-between px-4 py-2 text-xs hover:bg-slate-50">
+                        <span className="text-slate-600">
+                          {new Date(entry.entryDate).toLocaleDateString('pt-PT')} · <b>{tasks.find(t => t.id === entry.taskId)?.name || entry.taskId}</b> · {staff.find(s => s.id === entry.staffId)?.name || '—'}
+                          {entry.notes ? <span className="text-slate-400"> · {entry.notes}</span> : null}
+                        </span>
+                        <span className="flex items-center gap-3">
+                          <span className="font-bold text-slate-700">{entry.minutes} min</span>
+                          <button type="button" onClick={() => handleDeleteTimeEntry(entry.id)} className="text-slate-400 hover:text-red-500"><Trash2 size={14} /></button>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
            </div>
 
            {/* Right Column: Summaries & Distribution */}
-           {userRole === 'admin' && (
+           {canViewProfitability && (
             <div className="lg:col-span-1 space-y-6">
                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
                   <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
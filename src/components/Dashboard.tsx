@@ -1,24 +1,44 @@
-import React, { useMemo } from 'react';
-import { Client, Task, Staff, TaskArea, StaffStats } from '../types';
-import { calculateClientProfitability, calculateStaffStats } from '../services/calculator';
-import { generateNotifications } from '../services/notificationService';
-import AlertsPanel from './AlertsPanel';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { TrendingUp, AlertTriangle, DollarSign, UserCheck, Award, ThumbsDown } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Client, Task, Staff, TaskArea, StaffStats, ProfitabilitySnapshot, StaffAbsence, OverheadAllocation } from '../types';
+import { calculateClientProfitability, calculateStaffStats, TravelRates } from '../services/calculator';
+import { profitabilitySnapshotService, toSnapshotMonth } from '../services';
+import { getStaffMonthCapacity } from '../services/staffCapacity';
+import NotificationCenter from './NotificationCenter';
+import CapacityForecastCard from './team/CapacityForecastCard';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, LineChart, Line, Legend } from 'recharts';
+import { TrendingUp, TrendingDown, AlertTriangle, DollarSign, UserCheck, Award, ThumbsDown, LineChart as LineChartIcon } from 'lucide-react';
 
 interface DashboardProps {
   clients: Client[];
   tasks: Task[];
   areaCosts: Record<string, number>;
   staff: Staff[];
+  staffAbsences: StaffAbsence[];
+  overhead?: OverheadAllocation;
+  travelRates?: TravelRates;
+  userEmail: string;
+  currentStaffId?: string | null;
+  canSendDigest?: boolean;
+  onSelectClient?: (client: Client) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ clients, tasks, areaCosts, staff }) => {
-  const notifications = useMemo(() => generateNotifications(clients, tasks, areaCosts, staff), [clients, tasks, areaCosts, staff]);
+const Dashboard: React.FC<DashboardProps> = ({ clients, tasks, areaCosts, staff, staffAbsences, overhead, travelRates, userEmail, currentStaffId, canSendDigest, onSelectClient }) => {
+  const [snapshots, setSnapshots] = useState<ProfitabilitySnapshot[]>([]);
+
+  useEffect(() => {
+    let isMounted = true;
+    const now = new Date();
+    const fromMonth = toSnapshotMonth(new Date(now.getFullYear(), now.getMonth() - 11, 1));
+    profitabilitySnapshotService.getSince(fromMonth)
+      .then(data => { if (isMounted) setSnapshots(data); })
+      .catch(err => console.error('Erro ao carregar histórico de rentabilidade:', err));
+    return () => { isMounted = false; };
+  }, []);
 
   const { metrics, staffMetrics, topClients, bottomClients } = useMemo(() => {
     let totalRev = 0;
     let totalCost = 0;
+    let totalOverhead = 0;
     let profitable = 0;
     let risk = 0;
 
@@ -27,9 +47,10 @@ const Dashboard: React.FC<DashboardProps> = ({ clients, tasks, areaCosts, staff
 
     const clientData = activeClients.map(c => {
       // Pass the staff list and global cost to calculation
-      const analysis = calculateClientProfitability(c, tasks, areaCosts as Record<TaskArea, number>, staff);
+      const analysis = calculateClientProfitability(c, tasks, areaCosts as Record<TaskArea, number>, staff, [], { overhead, travelRates });
       totalRev += analysis.totalAnnualRevenue;
       totalCost += analysis.totalAnnualCost;
+      totalOverhead += analysis.overheadCost;
       
       if (analysis.profitability < 15) risk++;
       else profitable++;
@@ -43,24 +64,53 @@ const Dashboard: React.FC<DashboardProps> = ({ clients, tasks, areaCosts, staff
     const topClients = [...clientData].sort((a, b) => b.margin - a.margin).slice(0, 5).reverse();
     const bottomClients = clientData.slice(0, 5).reverse();
 
+    const today = new Date();
     const staffPerformance = staff
-      .map(s => calculateStaffStats(s, activeClients, tasks))
+      .map(s => calculateStaffStats(s, activeClients, tasks, getStaffMonthCapacity(s, staffAbsences, today.getFullYear(), today.getMonth()).availableHours))
       .sort((a, b) => b.profitability - a.profitability);
 
     return { 
-      metrics: { totalRev, totalCost, profitable, risk },
+      metrics: { totalRev, totalCost, totalOverhead, profitable, risk },
       staffMetrics: staffPerformance,
       topClients,
       bottomClients
     };
-  }, [clients, tasks, areaCosts, staff]);
+  }, [clients, tasks, areaCosts, staff, staffAbsences, overhead, travelRates]);
 
   const totalMarginPercent = metrics.totalRev > 0 ? ((metrics.totalRev - metrics.totalCost) / metrics.totalRev) * 100 : 0;
+  const contributionMarginPercent = metrics.totalRev > 0 ? ((metrics.totalRev - metrics.totalCost + metrics.totalOverhead) / metrics.totalRev) * 100 : 0;
+
+  // Office-wide trend from the monthly snapshots; the current month falls back to the live figures.
+  const marginTrend = useMemo(() => {
+    const byMonth = new Map<string, { revenue: number; cost: number }>();
+    snapshots.forEach(snapshot => {
+      const totals = byMonth.get(snapshot.snapshotMonth) || { revenue: 0, cost: 0 };
+      totals.revenue += snapshot.totalAnnualRevenue;
+      totals.cost += snapshot.totalAnnualCost;
+      byMonth.set(snapshot.snapshotMonth, totals);
+    });
+    const currentMonth = toSnapshotMonth();
+    if (!byMonth.has(currentMonth) && metrics.totalRev > 0) {
+      byMonth.set(currentMonth, { revenue: metrics.totalRev, cost: metrics.totalCost });
+    }
+    return Array.from(byMonth.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, totals]) => ({
+        month: new Date(`${month}T00:00:00`).toLocaleDateString('pt-PT', { month: 'short', year: '2-digit' }),
+        revenue: totals.revenue / 12,
+        cost: totals.cost / 12,
+        margin: totals.revenue > 0 ? ((totals.revenue - totals.cost) / totals.revenue) * 100 : 0,
+      }));
+  }, [snapshots, metrics.totalRev, metrics.totalCost]);
+
+  const marginMoMChange = marginTrend.length >= 2
+    ? marginTrend[marginTrend.length - 1].margin - marginTrend[marginTrend.length - 2].margin
+    : null;
 
   return (
     <div className="space-y-6 animate-fade-in">
       {/* Notifications Area */}
-      <AlertsPanel notifications={notifications} />
+      <NotificationCenter userEmail={userEmail} currentStaffId={currentStaffId} canSendDigest={canSendDigest} staff={staff} clients={clients} onSelectClient={onSelectClient} />
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {/* KPI Cards */}
@@ -87,7 +137,9 @@ const Dashboard: React.FC<DashboardProps> = ({ clients, tasks, areaCosts, staff
               <DollarSign size={20} />
             </div>
           </div>
-          <p className="text-xs text-slate-400 mt-2">Calculado com custos de staff</p>
+          <p className="text-xs text-slate-400 mt-2">
+            {metrics.totalOverhead > 0 ? `Staff + ${(metrics.totalOverhead / 1000).toFixed(1)}k € de custos indiretos` : 'Calculado com custos de staff'}
+          </p>
         </div>
 
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
@@ -102,7 +154,9 @@ const Dashboard: React.FC<DashboardProps> = ({ clients, tasks, areaCosts, staff
               <TrendingUp size={20} />
             </div>
           </div>
-          <p className="text-xs text-slate-400 mt-2">Lucro líquido operacional</p>
+          <p className="text-xs text-slate-400 mt-2">
+            {metrics.totalOverhead > 0 ? `Líquida; contribuição ${contributionMarginPercent.toFixed(1)}%` : 'Lucro líquido operacional'}
+          </p>
         </div>
 
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
@@ -119,6 +173,40 @@ const Dashboard: React.FC<DashboardProps> = ({ clients, tasks, areaCosts, staff
         </div>
       </div>
 
+      {/* Profitability Trend */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <LineChartIcon size={20} className="text-blue-600" /> Evolução da Rentabilidade (12 meses)
+          </h3>
+          {marginMoMChange !== null && (
+            <span className={`flex items-center gap-1 text-xs font-bold px-2 py-1 rounded-lg ${marginMoMChange < 0 ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>
+              {marginMoMChange < 0 ? <TrendingDown size={14} /> : <TrendingUp size={14} />}
+              {marginMoMChange > 0 ? '+' : ''}{marginMoMChange.toFixed(1)} p.p. vs mês anterior
+            </span>
+          )}
+        </div>
+        {marginTrend.length < 2 ? (
+          <p className="text-sm text-slate-400 italic">O histórico mensal ainda não tem meses suficientes para mostrar a evolução.</p>
+        ) : (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={marginTrend} margin={{ top: 5, right: 30, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+                <YAxis yAxisId="eur" tickFormatter={(value) => `${(Number(value) / 1000).toFixed(0)}k`} />
+                <YAxis yAxisId="pct" orientation="right" tickFormatter={(value) => `${value}%`} />
+                <Tooltip formatter={(value, name) => name === 'Margem' ? `${Number(value).toFixed(1)}%` : `${Number(value).toFixed(0)} €`} />
+                <Legend />
+                <Line yAxisId="eur" type="monotone" dataKey="revenue" name="Receita mensal" stroke="#22c55e" strokeWidth={2} dot={false} />
+                <Line yAxisId="eur" type="monotone" dataKey="cost" name="Custo mensal" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                <Line yAxisId="pct" type="monotone" dataKey="margin" name="Margem" stroke="#f97316" strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Charts */}
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
@@ -160,6 +248,8 @@ const Dashboard: React.FC<DashboardProps> = ({ clients, tasks, areaCosts, staff
         </div>
       </div>
 
+      <CapacityForecastCard staff={staff} clients={clients} tasks={tasks} absences={staffAbsences} />
+
       {/* Staff Performance Chart */}
       <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
         <h3 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
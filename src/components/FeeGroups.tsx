@@ -1,12 +1,13 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { FeeGroup, Client, Task, Staff, TaskArea, TurnoverBracket } from '../types';
+import { FeeGroup, Client, Task, Staff, TaskArea, TurnoverBracket, FeeScenario, StaffAbsence } from '../types';
 import { calculateClientProfitability } from '../services/calculator';
-import { clientService, groupService, ensureStoreClient } from '../services';
+import { simulateFeeChange } from '../services/feeSimulation';
+import { clientService, groupService, feeScenarioService, ensureStoreClient } from '../services';
 import { analyzeClientWithAI } from '../services/geminiService';
 import { 
   Plus, Users, FolderOpen, Trash2, ChevronRight, Save, Printer, ChevronUp, ChevronDown, CheckCircle, Filter,
-  ArrowLeft, BrainCircuit, RefreshCcw, XCircle, Activity, UserPlus, Search, X, TrendingUp
+  ArrowLeft, BrainCircuit, RefreshCcw, XCircle, Activity, UserPlus, Search, X, TrendingUp, Layers
 } from 'lucide-react';
 
 interface FeeGroupsProps {
@@ -19,10 +20,12 @@ interface FeeGroupsProps {
   staff: Staff[];
   areaCosts: Record<string, number>;
   turnoverBrackets: TurnoverBracket[];
+  absences: StaffAbsence[];
+  canApplyFees: boolean;
 }
 
 const FeeGroups: React.FC<FeeGroupsProps> = ({ 
-  groups, setGroups, clients, setClients, onSelectClient, tasks, staff, areaCosts, turnoverBrackets
+  groups, setGroups, clients, setClients, onSelectClient, tasks, staff, areaCosts, turnoverBrackets, absences, canApplyFees
 }) => {
   const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
   const [newGroupName, setNewGroupName] = useState('');
@@ -37,6 +40,12 @@ const FeeGroups: React.FC<FeeGroupsProps> = ({
   const [addClientEntityTypeFilter, setAddClientEntityTypeFilter] = useState('all');
   const [showChangeMapPreview, setShowChangeMapPreview] = useState(false);
   const [isImpactSimulationOpen, setIsImpactSimulationOpen] = useState(false);
+  const [scenarios, setScenarios] = useState<FeeScenario[]>([]);
+  const [comparedScenarioIds, setComparedScenarioIds] = useState<string[]>([]);
+  const [newScenarioName, setNewScenarioName] = useState('');
+  const [isSavingScenario, setIsSavingScenario] = useState(false);
+  const [feeEffectiveFrom, setFeeEffectiveFrom] = useState(() => new Date().toISOString().slice(0, 10));
+  const [feeChangeReason, setFeeChangeReason] = useState('');
 
   type MapSortableKeys = 'name' | 'monthlyFee' | 'newFee' | 'difference';
   const [mapClients, setMapClients] = useState<(Client & { newFee: number; difference: number; })[]>([]);
@@ -73,6 +82,20 @@ const FeeGroups: React.FC<FeeGroupsProps> = ({
     );
   }, [clientsWithNewFees]);
 
+  const officeSimulation = useMemo(() => {
+    if (!isImpactSimulationOpen) return null;
+    return simulateFeeChange(clients, newFees, tasks, areaCosts, staff, turnoverBrackets, absences);
+  }, [isImpactSimulationOpen, clients, newFees, tasks, areaCosts, staff, turnoverBrackets, absences]);
+
+  const scenarioComparisons = useMemo(() => {
+    return scenarios
+      .filter(scenario => comparedScenarioIds.includes(scenario.id))
+      .map(scenario => ({
+        scenario,
+        result: simulateFeeChange(clients, scenario.proposedFees, tasks, areaCosts, staff, turnoverBrackets, absences),
+      }));
+  }, [scenarios, comparedScenarioIds, clients, tasks, areaCosts, staff, turnoverBrackets, absences]);
+
   const uniqueEntityTypes = useMemo(() => {
     const types = new Set(clients.map(c => c.entityType).filter(Boolean));
     return Array.from(types) as string[];
@@ -84,6 +107,22 @@ const FeeGroups: React.FC<FeeGroupsProps> = ({
     }
   }, [selectedGroup]);
 
+  useEffect(() => {
+    setComparedScenarioIds([]);
+    if (!selectedGroupId) {
+      setScenarios([]);
+      return;
+    }
+    let isMounted = true;
+    feeScenarioService.getByGroup(selectedGroupId)
+      .then(data => { if (isMounted) setScenarios(data); })
+      .catch(err => {
+        console.error('Erro ao carregar cenários de avenças:', err);
+        if (isMounted) setScenarios([]);
+      });
+    return () => { isMounted = false; };
+  }, [selectedGroupId]);
+
   useEffect(() => {
     if (showChangeMapPreview) {
       setMapClients(clientsWithNewFees);
@@ -283,22 +322,64 @@ const FeeGroups: React.FC<FeeGroupsProps> = ({
     }
   };
 
+  const handleSaveScenario = async () => {
+    if (!selectedGroup || !newScenarioName.trim()) return;
+    const proposedFees = Object.fromEntries(Object.entries(newFees).filter(([, fee]) => fee > 0));
+    if (Object.keys(proposedFees).length === 0) {
+      alert('Defina pelo menos uma nova avença antes de guardar o cenário.');
+      return;
+    }
+    setIsSavingScenario(true);
+    try {
+      const created = await feeScenarioService.create({ groupId: selectedGroup.id, name: newScenarioName, proposedFees });
+      setScenarios(prev => [created, ...prev]);
+      setComparedScenarioIds(prev => [...prev, created.id]);
+      setNewScenarioName('');
+    } catch (err: any) {
+      alert('Erro ao guardar o cenário: ' + err.message);
+    } finally {
+      setIsSavingScenario(false);
+    }
+  };
+
+  const handleDeleteScenario = async (scenarioId: string) => {
+    if (!confirm('Apagar este cenário?')) return;
+    try {
+      await feeScenarioService.delete(scenarioId);
+      setScenarios(prev => prev.filter(s => s.id !== scenarioId));
+      setComparedScenarioIds(prev => prev.filter(id => id !== scenarioId));
+    } catch (err: any) {
+      alert('Erro ao apagar o cenário: ' + err.message);
+    }
+  };
+
+  const toggleScenarioComparison = (scenarioId: string) => {
+    setComparedScenarioIds(prev => prev.includes(scenarioId) ? prev.filter(id => id !== scenarioId) : [...prev, scenarioId]);
+  };
+
   const handleApplyFees = () => {
     if (clientsWithNewFees.length === 0) return;
     setIsImpactSimulationOpen(true);
   };
 
   const handleConfirmApplyFees = async () => {
+    if (!canApplyFees) return;
     setIsSaving(true);
     const clientsToUpdate = groupClients.filter(c => newFees[c.id] !== undefined && newFees[c.id] > 0);
 
     try {
       for (const client of clientsToUpdate) {
-        await clientService.upsert({ ...client, monthlyFee: newFees[client.id] });
+        await clientService.upsert({ ...client, monthlyFee: newFees[client.id] }, {
+          effectiveFrom: feeEffectiveFrom,
+          reason: feeChangeReason || `Atualização de avenças do grupo ${selectedGroup?.name || ''}`.trim(),
+          source: 'fee_group',
+          sourceId: selectedGroup?.id,
+        });
       }
       const updatedClients = clients.map(c => newFees[c.id] ? { ...c, monthlyFee: newFees[c.id] } : c);
       setClients(updatedClients);
       setNewFees({});
+      setFeeChangeReason('');
       setIsImpactSimulationOpen(false);
       alert(`${clientsToUpdate.length} avencas foram atualizadas com sucesso!`);
     } catch (err: any) {
@@ -587,6 +668,92 @@ const FeeGroups: React.FC<FeeGroupsProps> = ({
             <button onClick={handleApplyFees} disabled={isSaving || clientsWithNewFees.length === 0} className="bg-slate-900 text-white px-8 py-3 rounded-xl font-bold flex items-center gap-2 hover:bg-black transition-all shadow-lg disabled:opacity-50 disabled:cursor-not-allowed">
               {isSaving ? <RefreshCcw size={18} className="animate-spin"/> : <CheckCircle size={18}/>} Simular Impacto e Aplicar</button>
           </div>
+
+          {/* Saved Scenarios */}
+          <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+            <div className="p-4 border-b flex flex-wrap justify-between items-center gap-3">
+              <div>
+                <h3 className="font-bold text-slate-800 flex items-center gap-2"><Layers size={18} /> Cenários de Avenças</h3>
+                <p className="text-xs text-slate-500">Guarde as propostas atuais como cenário e compare o impacto no gabinete lado a lado.</p>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newScenarioName}
+                  onChange={e => setNewScenarioName(e.target.value)}
+                  placeholder="Ex: Aumento 5% 2027"
+                  className="px-3 py-2 border border-slate-200 rounded-lg text-sm"
+                />
+                <button
+                  onClick={handleSaveScenario}
+                  disabled={isSavingScenario || !newScenarioName.trim() || clientsWithNewFees.length === 0}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSavingScenario ? <RefreshCcw size={16} className="animate-spin" /> : <Save size={16} />} Guardar Cenário
+                </button>
+              </div>
+            </div>
+            {scenarios.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-slate-400 italic text-center">Ainda não existem cenários guardados para este grupo.</p>
+            ) : (
+              <div className="divide-y divide-slate-50">
+                {scenarios.map(scenario => (
+                  <div key={scenario.id} className="flex items-center justify-between px-4 py-2 text-sm hover:bg-slate-50">
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input type="checkbox" className="rounded" checked={comparedScenarioIds.includes(scenario.id)} onChange={() => toggleScenarioComparison(scenario.id)} />
+                      <span className="font-bold text-slate-700">{scenario.name}</span>
+                      <span className="text-xs text-slate-400">{Object.keys(scenario.proposedFees).length} cliente(s) · {new Date(scenario.createdAt).toLocaleDateString('pt-PT')}</span>
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <button onClick={() => setNewFees(scenario.proposedFees)} className="text-xs font-bold text-blue-600 hover:underline">Carregar</button>
+                      <button onClick={() => handleDeleteScenario(scenario.id)} className="text-slate-300 hover:text-red-500 p-1" title="Apagar cenário"><Trash2 size={14} /></button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            {scenarioComparisons.length > 0 && (
+              <div className="overflow-x-auto border-t">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-3">Indicador (gabinete)</th>
+                      {scenarioComparisons.map(({ scenario }) => <th key={scenario.id} className="px-4 py-3 text-right">{scenario.name}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    <tr>
+                      <td className="px-4 py-2 text-slate-600">Receita mensal total</td>
+                      {scenarioComparisons.map(({ scenario, result }) => <td key={scenario.id} className="px-4 py-2 text-right font-bold text-slate-800">{(result.proposedAnnualRevenue / 12).toFixed(2)}€</td>)}
+                    </tr>
+                    <tr>
+                      <td className="px-4 py-2 text-slate-600">Variação mensal</td>
+                      {scenarioComparisons.map(({ scenario, result }) => {
+                        const diff = (result.proposedAnnualRevenue - result.currentAnnualRevenue) / 12;
+                        return <td key={scenario.id} className={`px-4 py-2 text-right font-bold ${diff >= 0 ? 'text-green-600' : 'text-red-600'}`}>{diff >= 0 ? '+' : ''}{diff.toFixed(2)}€</td>;
+                      })}
+                    </tr>
+                    <tr>
+                      <td className="px-4 py-2 text-slate-600">Margem global</td>
+                      {scenarioComparisons.map(({ scenario, result }) => <td key={scenario.id} className="px-4 py-2 text-right font-bold text-slate-800">{result.currentMargin.toFixed(1)}% → {result.proposedMargin.toFixed(1)}%</td>)}
+                    </tr>
+                    <tr>
+                      <td className="px-4 py-2 text-slate-600">Clientes que saem de "Subavaliado"</td>
+                      {scenarioComparisons.map(({ scenario, result }) => <td key={scenario.id} className="px-4 py-2 text-right font-bold text-green-600">{result.leavingUndervalued}</td>)}
+                    </tr>
+                    <tr>
+                      <td className="px-4 py-2 text-slate-600">Clientes com margem &lt; 15%</td>
+                      {scenarioComparisons.map(({ scenario, result }) => (
+                        <td key={scenario.id} className="px-4 py-2 text-right font-bold text-red-600">
+                          {result.changedClients.filter(c => c.currentProfitability < 15).length} → {result.changedClients.filter(c => c.proposedProfitability < 15).length}
+                        </td>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
         </>
       ) : (
         <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
@@ -686,6 +853,27 @@ const FeeGroups: React.FC<FeeGroupsProps> = ({
               </p>
             </div>
 
+            {officeSimulation && (
+              <div className="px-6 py-3 border-b grid grid-cols-1 md:grid-cols-4 gap-3 text-sm">
+                <div>
+                  <p className="text-[11px] font-bold text-slate-500 uppercase">Receita mensal do gabinete</p>
+                  <p className="font-bold text-slate-800">{(officeSimulation.currentAnnualRevenue / 12).toFixed(2)} → {(officeSimulation.proposedAnnualRevenue / 12).toFixed(2)}EUR</p>
+                </div>
+                <div>
+                  <p className="text-[11px] font-bold text-slate-500 uppercase">Margem global</p>
+                  <p className="font-bold text-slate-800">{officeSimulation.currentMargin.toFixed(1)}% → {officeSimulation.proposedMargin.toFixed(1)}%</p>
+                </div>
+                <div>
+                  <p className="text-[11px] font-bold text-slate-500 uppercase">Saem de "Subavaliado"</p>
+                  <p className="font-bold text-green-600">{officeSimulation.leavingUndervalued}</p>
+                </div>
+                <div>
+                  <p className="text-[11px] font-bold text-slate-500 uppercase">Passam a "Subavaliado"</p>
+                  <p className="font-bold text-red-600">{officeSimulation.enteringUndervalued}</p>
+                </div>
+              </div>
+            )}
+
             <div className="flex-1 overflow-y-auto">
               <table className="w-full text-sm text-left">
                 <thead className="text-xs text-slate-500 uppercase bg-slate-50 sticky top-0">
@@ -694,10 +882,14 @@ const FeeGroups: React.FC<FeeGroupsProps> = ({
                     <th className="px-4 py-3 text-right">Atual</th>
                     <th className="px-4 py-3 text-right">Nova</th>
                     <th className="px-4 py-3 text-right">Diferenca</th>
+                    <th className="px-4 py-3 text-right">Margem</th>
+                    <th className="px-4 py-3 text-right">Patamar VN</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-100">
-                  {impactPreviewRows.map(client => (
+                  {impactPreviewRows.map(client => {
+                    const simulated = officeSimulation?.changedClients.find(c => c.clientId === client.id);
+                    return (
                     <tr key={client.id} className="hover:bg-slate-50">
                       <td className="px-4 py-3">
                         <div className="font-bold text-slate-800">{client.name}</div>
@@ -708,19 +900,62 @@ const FeeGroups: React.FC<FeeGroupsProps> = ({
                       <td className={`px-4 py-3 text-right font-bold ${client.difference >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                         {client.difference >= 0 ? '+' : ''}{client.difference.toFixed(2)}EUR
                       </td>
+                      <td className="px-4 py-3 text-right text-xs">
+                        {simulated ? (
+                          <span className={simulated.proposedProfitability < 15 ? 'text-red-600 font-bold' : 'text-green-600 font-bold'}>
+                            {simulated.currentProfitability.toFixed(1)}% → {simulated.proposedProfitability.toFixed(1)}%
+                          </span>
+                        ) : '—'}
+                      </td>
+                      <td className="px-4 py-3 text-right text-xs text-slate-600">
+                        {simulated ? `${simulated.currentStatus || '—'} → ${simulated.proposedStatus || '—'}` : '—'}
+                      </td>
                     </tr>
-                  ))}
+                    );
+                  })}
                 </tbody>
               </table>
+
+              {officeSimulation && officeSimulation.staff.length > 0 && (
+                <table className="w-full text-sm text-left border-t">
+                  <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-3">Funcionário</th>
+                      <th className="px-4 py-3 text-right">Receita anual</th>
+                      <th className="px-4 py-3 text-right">Rentabilidade</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {officeSimulation.staff.map(row => (
+                      <tr key={row.staffId} className="hover:bg-slate-50">
+                        <td className="px-4 py-3 font-bold text-slate-800">{row.staffName}</td>
+                        <td className="px-4 py-3 text-right">{row.currentRevenue.toFixed(0)} → {row.proposedRevenue.toFixed(0)}EUR</td>
+                        <td className={`px-4 py-3 text-right font-bold ${row.proposedProfitability < 20 ? 'text-red-600' : 'text-green-600'}`}>
+                          {row.currentProfitability.toFixed(1)}% → {row.proposedProfitability.toFixed(1)}%
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
             </div>
 
-            <div className="p-4 border-t flex justify-end gap-3">
+            <div className="p-4 border-t flex flex-wrap justify-end items-end gap-3">
+              <label className="text-xs font-bold text-slate-500 uppercase">
+                Em vigor a partir de
+                <input type="date" value={feeEffectiveFrom} onChange={e => setFeeEffectiveFrom(e.target.value)} className="block mt-1 px-3 py-2 border border-slate-200 rounded-lg text-sm font-normal normal-case text-slate-700" />
+              </label>
+              <label className="text-xs font-bold text-slate-500 uppercase flex-1 min-w-[200px]">
+                Motivo
+                <input type="text" value={feeChangeReason} onChange={e => setFeeChangeReason(e.target.value)} placeholder="Ex: Atualização anual 2027" className="block w-full mt-1 px-3 py-2 border border-slate-200 rounded-lg text-sm font-normal normal-case text-slate-700" />
+              </label>
               <button onClick={() => setIsImpactSimulationOpen(false)} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm">
                 Cancelar
               </button>
               <button
                 onClick={handleConfirmApplyFees}
-                disabled={isSaving || clientsWithNewFees.length === 0}
+                disabled={!canApplyFees || isSaving || clientsWithNewFees.length === 0}
+                title={canApplyFees ? undefined : 'Sem permissão para aplicar avenças'}
                 className="bg-slate-900 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 hover:bg-black disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isSaving ? <RefreshCcw size={16} className="animate-spin" /> : <CheckCircle size={16} />}
@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { Client, FiscalObligationType, Staff, Task } from '../types';
+import { FISCAL_OBLIGATION_LABELS, generateFiscalDeadlines, getWeekStart, toIsoDate } from '../services/fiscalCalendar';
+import { CalendarClock, ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface FiscalCalendarProps {
+  clients: Client[];
+  staff: Staff[];
+  tasks: Task[];
+  onSelectClient?: (client: Client) => void;
+}
+
+const WEEKDAY_LABELS = ['Seg', 'Ter', 'Qua', 'Qui', 'Sex'];
+const UNASSIGNED_ROW = 'unassigned';
+
+const OBLIGATION_COLORS: Record<FiscalObligationType, string> = {
+  iva: 'bg-blue-50 text-blue-700 border-blue-100',
+  dmr: 'bg-purple-50 text-purple-700 border-purple-100',
+  ss: 'bg-amber-50 text-amber-700 border-amber-100',
+  ss_independentes: 'bg-amber-50 text-amber-700 border-amber-100',
+  saft: 'bg-slate-50 text-slate-700 border-slate-200',
+  modelo10: 'bg-pink-50 text-pink-700 border-pink-100',
+  irs: 'bg-green-50 text-green-700 border-green-100',
+  irc: 'bg-red-50 text-red-700 border-red-100',
+  ies: 'bg-teal-50 text-teal-700 border-teal-100',
+};
+
+const FiscalCalendar: React.FC<FiscalCalendarProps> = ({ clients, staff, tasks, onSelectClient }) => {
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [staffFilter, setStaffFilter] = useState<string>('all');
+  const [obligationFilter, setObligationFilter] = useState<'all' | FiscalObligationType>('all');
+
+  const weekDays = useMemo(
+    () => WEEKDAY_LABELS.map((_, index) => new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + index)),
+    [weekStart]
+  );
+  const todayIso = toIsoDate(new Date());
+
+  const deadlines = useMemo(() => {
+    const weekEnd = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + 6);
+    return generateFiscalDeadlines(clients, staff, weekStart, weekEnd, tasks)
+      .filter(deadline => obligationFilter === 'all' || deadline.obligation === obligationFilter);
+  }, [clients, staff, tasks, weekStart, obligationFilter]);
+
+  const rows = useMemo(() => {
+    const staffRows = staff
+      .filter(member => staffFilter === 'all' || staffFilter === member.id)
+      .map(member => ({ id: member.id, name: member.name, deadlines: deadlines.filter(deadline => deadline.staffId === member.id) }));
+    const unassigned = deadlines.filter(deadline => !deadline.staffId);
+    if ((staffFilter === 'all' || staffFilter === UNASSIGNED_ROW) && unassigned.length > 0) {
+      staffRows.push({ id: UNASSIGNED_ROW, name: 'Sem responsável', deadlines: unassigned });
+    }
+    return staffRows.filter(row => row.deadlines.length > 0 || staffFilter !== 'all');
+  }, [staff, deadlines, staffFilter]);
+
+  const clientsById = useMemo(() => new Map(clients.map(client => [client.id, client])), [clients]);
+
+  const shiftWeek = (weeks: number) => {
+    setWeekStart(prev => new Date(prev.getFullYear(), prev.getMonth(), prev.getDate() + weeks * 7));
+  };
+
+  const totalsByObligation = useMemo(() => {
+    const totals = new Map<FiscalObligationType, number>();
+    deadlines.forEach(deadline => totals.set(deadline.obligation, (totals.get(deadline.obligation) || 0) + 1));
+    return Array.from(totals.entries());
+  }, [deadlines]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2"><CalendarClock size={24} /> Calendário Fiscal</h2>
+          <p className="text-sm text-slate-500">
+            Obrigações de cada cliente pelo tipo de entidade, regime de IVA e funcionários. Prazos ao fim de semana passam para o dia útil seguinte.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => shiftWeek(-1)} className="p-2 border rounded-lg bg-white hover:bg-slate-50"><ChevronLeft size={16} /></button>
+          <button onClick={() => setWeekStart(getWeekStart(new Date()))} className="px-3 py-2 border rounded-lg bg-white text-xs font-bold hover:bg-slate-50">Esta semana</button>
+          <button onClick={() => shiftWeek(1)} className="p-2 border rounded-lg bg-white hover:bg-slate-50"><ChevronRight size={16} /></button>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex flex-wrap items-center gap-3">
+        <span className="text-sm font-bold text-slate-700">
+          {weekDays[0].toLocaleDateString('pt-PT')} – {weekDays[4].toLocaleDateString('pt-PT')}
+        </span>
+        <select value={staffFilter} onChange={e => setStaffFilter(e.target.value)} className="px-3 py-2 border border-slate-200 rounded-lg text-xs font-medium bg-white">
+          <option value="all">Todos os colaboradores</option>
+          {staff.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+          <option value={UNASSIGNED_ROW}>Sem responsável</option>
+        </select>
+        <select value={obligationFilter} onChange={e => setObligationFilter(e.target.value as 'all' | FiscalObligationType)} className="px-3 py-2 border border-slate-200 rounded-lg text-xs font-medium bg-white">
+          <option value="all">Todas as obrigações</option>
+          {(Object.keys(FISCAL_OBLIGATION_LABELS) as FiscalObligationType[]).map(obligation => (
+            <option key={obligation} value={obligation}>{FISCAL_OBLIGATION_LABELS[obligation]}</option>
+          ))}
+        </select>
+        <div className="flex flex-wrap gap-2 md:ml-auto">
+          {totalsByObligation.map(([obligation, count]) => (
+            <span key={obligation} className={`text-[10px] font-bold px-2 py-1 rounded border ${OBLIGATION_COLORS[obligation]}`}>
+              {FISCAL_OBLIGATION_LABELS[obligation]}: {count}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-500 text-xs uppercase">
+            <tr>
+              <th className="px-4 py-3 text-left w-48">Colaborador</th>
+              {weekDays.map((day, index) => (
+                <th key={index} className={`px-4 py-3 text-left ${toIsoDate(day) === todayIso ? 'text-blue-600' : ''}`}>
+                  {WEEKDAY_LABELS[index]} {day.getDate()}/{day.getMonth() + 1}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(row => (
+              <tr key={row.id} className="align-top">
+                <td className="px-4 py-3 font-bold text-slate-700">
+                  {row.name}
+                  <span className="block text-[10px] font-normal text-slate-400">{row.deadlines.length} prazo(s)</span>
+                </td>
+                {weekDays.map((day, index) => {
+                  const dayDeadlines = row.deadlines.filter(deadline => deadline.dueDate === toIsoDate(day));
+                  return (
+                    <td key={index} className={`px-2 py-2 min-w-[160px] ${toIsoDate(day) === todayIso ? 'bg-blue-50/40' : ''}`}>
+                      <div className="space-y-1">
+                        {dayDeadlines.map(deadline => {
+                          const client = clientsById.get(deadline.clientId);
+                          return (
+                            <button
+                              key={deadline.id}
+                              type="button"
+                              onClick={() => client && onSelectClient?.(client)}
+                              disabled={!onSelectClient}
+                              title={`${deadline.label} · ${deadline.period}`}
+                              className={`w-full text-left text-[11px] px-2 py-1 rounded border ${OBLIGATION_COLORS[deadline.obligation]} disabled:cursor-default`}
+                            >
+                              <span className="font-bold block truncate">{deadline.clientName}</span>
+                              <span className="block truncate">{deadline.label} · {deadline.period}</span>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-6 py-12 text-center text-slate-400 italic">Sem obrigações fiscais nesta semana.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default FiscalCalendar;
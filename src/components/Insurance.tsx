@@ -8,7 +8,7 @@ interface InsuranceProps {
   setPolicies: (policies: InsurancePolicy[]) => void;
   clients: Client[];
   forcedAgent?: InsurancePolicy['agent'];
-  viewerEmail?: string;
+  canViewCommissions?: boolean;
 }
 
 type SortableKeys = 'policyHolder' | 'policyNumber' | 'company' | 'mediatorPartner' | 'internalResponsible' | 'renewalDate' | 'branch' | 'communicationType' | 'status' | 'premiumValue' | 'netPremiumValue';
@@ -201,7 +201,7 @@ const getSortValue = (policy: InsurancePolicy, sortKey: SortableKeys): string |
   }
 };
 
-const Insurance: React.FC<InsuranceProps> = ({ policies, setPolicies, clients, forcedAgent, viewerEmail }) => {
+const Insurance: React.FC<InsuranceProps> = ({ policies, setPolicies, clients, forcedAgent, canViewCommissions: canViewCommissionData = false }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingPolicy, setEditingPolicy] = useState<Partial<InsurancePolicy> | null>(null);
   const [isSaving, setIsSaving] = useState(false);
@@ -235,7 +235,6 @@ const Insurance: React.FC<InsuranceProps> = ({ policies, setPolicies, clients, f
   const [paidCommissionHistoryRows, setPaidCommissionHistoryRows] = useState<PaidCommissionHistoryRow[]>([]);
   const [isLoadingPaidCommissionHistory, setIsLoadingPaidCommissionHistory] = useState(false);
   const [paidCommissionHistoryError, setPaidCommissionHistoryError] = useState<string | null>(null);
-  const canViewCommissionData = (viewerEmail || '').trim().toLowerCase() === 'mpr@mpr.pt';
 
   const visiblePolicies = useMemo(() => {
     if (!forcedAgent) return policies;
@@ -0,0 +1,316 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { AppNotification, Client, Staff, StoredNotification } from '../types';
+import { isNotificationSnoozed, isPushSupported, notificationInboxService, pushSubscriptionService } from '../services';
+import { AlertTriangle, Info, BellRing, BellOff, Calendar, ChevronRight, Check, CheckCheck, Clock, EyeOff, Mail, RefreshCcw, RotateCcw } from 'lucide-react';
+
+interface NotificationCenterProps {
+  userEmail: string;
+  // Staff member linked to the signed-in user, whose digest "Enviar resumo" sends.
+  currentStaffId?: string | null;
+  // The digest edge function only runs for admins (or the scheduled job).
+  canSendDigest?: boolean;
+  staff: Staff[];
+  clients: Client[];
+  onSelectClient?: (client: Client) => void;
+}
+
+type StatusFilter = 'active' | 'unread' | 'snoozed' | 'dismissed';
+
+const TYPE_LABELS: Record<AppNotification['type'], string> = {
+  critical: 'Críticas',
+  warning: 'Avisos',
+  info: 'Informação',
+  success: 'Sucesso',
+};
+
+const SNOOZE_OPTIONS = [
+  { days: 1, label: '1 dia' },
+  { days: 3, label: '3 dias' },
+  { days: 7, label: '1 semana' },
+];
+
+const getIcon = (type: string) => {
+  switch (type) {
+    case 'critical': return <AlertTriangle className="text-red-500" size={20} />;
+    case 'warning': return <BellRing className="text-orange-500" size={20} />;
+    case 'info': return <Calendar className="text-blue-500" size={20} />;
+    case 'success': return <Info className="text-green-500" size={20} />;
+    default: return <Info className="text-slate-500" size={20} />;
+  }
+};
+
+const getBgColor = (type: string) => {
+  switch (type) {
+    case 'critical': return 'bg-red-50 border-red-100';
+    case 'warning': return 'bg-orange-50 border-orange-100';
+    case 'info': return 'bg-blue-50 border-blue-100';
+    case 'success': return 'bg-green-50 border-green-100';
+    default: return 'bg-slate-50 border-slate-100';
+  }
+};
+
+const NotificationCenter: React.FC<NotificationCenterProps> = ({ userEmail, currentStaffId, canSendDigest = false, staff, clients, onSelectClient }) => {
+  const [notifications, setNotifications] = useState<StoredNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRunningJob, setIsRunningJob] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<'all' | AppNotification['type']>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [assigneeFilter, setAssigneeFilter] = useState<string>('all');
+  const [isPushSubscribed, setIsPushSubscribed] = useState(false);
+  const [isUpdatingPush, setIsUpdatingPush] = useState(false);
+  const [isSendingDigest, setIsSendingDigest] = useState(false);
+
+  const loadNotifications = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setNotifications(await notificationInboxService.getOpen(userEmail));
+    } catch (err) {
+      console.error('Erro ao carregar notificações:', err);
+      setNotifications([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userEmail]);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  useEffect(() => {
+    pushSubscriptionService.isSubscribed()
+      .then(setIsPushSubscribed)
+      .catch(err => console.error('Erro ao verificar subscrição push:', err));
+  }, []);
+
+  const visibleNotifications = useMemo(() => notifications.filter(note => {
+    if (typeFilter !== 'all' && note.type !== typeFilter) return false;
+    if (assigneeFilter !== 'all' && (note.assignedStaffId || 'none') !== assigneeFilter) return false;
+    const snoozed = isNotificationSnoozed(note);
+    switch (statusFilter) {
+      case 'dismissed': return !!note.dismissedAt;
+      case 'snoozed': return !note.dismissedAt && snoozed;
+      case 'unread': return !note.dismissedAt && !snoozed && !note.readAt;
+      default: return !note.dismissedAt && !snoozed;
+    }
+  }), [notifications, typeFilter, statusFilter, assigneeFilter]);
+
+  const unreadCount = notifications.filter(note => !note.readAt && !note.dismissedAt && !isNotificationSnoozed(note)).length;
+
+  const updateState = async (ids: string[], state: Partial<Pick<StoredNotification, 'readAt' | 'dismissedAt' | 'snoozedUntil'>>) => {
+    const previous = notifications;
+    setNotifications(prev => prev.map(note => (ids.includes(note.id) ? { ...note, ...state } : note)));
+    try {
+      await notificationInboxService.updateState(userEmail, ids, state);
+    } catch (err: any) {
+      setNotifications(previous);
+      alert(`Erro ao atualizar notificação: ${err?.message || err}`);
+    }
+  };
+
+  const handleAssign = async (id: string, staffId: string) => {
+    const previous = notifications;
+    setNotifications(prev => prev.map(note => (note.id === id ? { ...note, assignedStaffId: staffId || null } : note)));
+    try {
+      await notificationInboxService.assign(id, staffId || null);
+    } catch (err: any) {
+      setNotifications(previous);
+      alert(`Erro ao atribuir notificação: ${err?.message || err}`);
+    }
+  };
+
+  const handleSnooze = (id: string, days: number) => {
+    const until = new Date();
+    until.setDate(until.getDate() + days);
+    updateState([id], { snoozedUntil: until.toISOString(), readAt: new Date().toISOString() });
+  };
+
+  const handleOpen = (note: StoredNotification) => {
+    if (!note.readAt) updateState([note.id], { readAt: new Date().toISOString() });
+    const client = note.clientId ? clients.find(item => item.id === note.clientId) : undefined;
+    if (client && onSelectClient) onSelectClient(client);
+  };
+
+  const handleRunJob = async () => {
+    setIsRunningJob(true);
+    try {
+      const result = await notificationInboxService.runDailyJob();
+      await loadNotifications();
+      alert(`Notificações atualizadas: ${result.created} novas, ${result.resolved} resolvidas.`);
+    } catch (err: any) {
+      alert(`Erro ao gerar notificações: ${err?.message || err}`);
+    } finally {
+      setIsRunningJob(false);
+    }
+  };
+
+  const handleTogglePush = async () => {
+    setIsUpdatingPush(true);
+    try {
+      if (isPushSubscribed) {
+        await pushSubscriptionService.unsubscribe();
+        setIsPushSubscribed(false);
+      } else {
+        await pushSubscriptionService.subscribe(userEmail);
+        setIsPushSubscribed(true);
+      }
+    } catch (err: any) {
+      alert(`Erro ao configurar notificações push: ${err?.message || err}`);
+    } finally {
+      setIsUpdatingPush(false);
+    }
+  };
+
+  const handleSendDigest = async () => {
+    setIsSendingDigest(true);
+    try {
+      const result = await pushSubscriptionService.runDigest(currentStaffId);
+      if (result.failures.length > 0) {
+        alert(`Resumo enviado com erros:\n${result.failures.join('\n')}`);
+      } else if (result.emailed === 0 && result.pushed === 0) {
+        alert('Sem alertas para enviar no resumo.');
+      } else {
+        alert(`Resumo enviado: ${result.emailed} email(s), ${result.pushed} notificação(ões) push.`);
+      }
+    } catch (err: any) {
+      alert(`Erro ao enviar resumo: ${err?.message || err}`);
+    } finally {
+      setIsSendingDigest(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden mb-6">
+      <div className="px-6 py-4 border-b border-slate-100 flex flex-wrap gap-3 justify-between items-center bg-slate-50/50">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2">
+          <BellRing size={18} className="text-slate-500" />
+          Alertas e Notificações
+          {unreadCount > 0 && <span className="bg-red-500 text-white text-[10px] px-2 py-0.5 rounded-full">{unreadCount}</span>}
+          {isLoading && <RefreshCcw size={14} className="animate-spin text-slate-400" />}
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={typeFilter} onChange={e => setTypeFilter(e.target.value as 'all' | AppNotification['type'])} className="px-2 py-1 border border-slate-200 rounded-lg text-xs bg-white">
+            <option value="all">Todos os tipos</option>
+            {(Object.keys(TYPE_LABELS) as AppNotification['type'][]).map(type => <option key={type} value={type}>{TYPE_LABELS[type]}</option>)}
+          </select>
+          <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as StatusFilter)} className="px-2 py-1 border border-slate-200 rounded-lg text-xs bg-white">
+            <option value="active">Ativas</option>
+            <option value="unread">Por ler</option>
+            <option value="snoozed">Adiadas</option>
+            <option value="dismissed">Dispensadas</option>
+          </select>
+          <select value={assigneeFilter} onChange={e => setAssigneeFilter(e.target.value)} className="px-2 py-1 border border-slate-200 rounded-lg text-xs bg-white">
+            <option value="all">Todos os responsáveis</option>
+            <option value="none">Sem atribuição</option>
+            {staff.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+          </select>
+          <button
+            type="button"
+            onClick={() => updateState(visibleNotifications.filter(note => !note.readAt).map(note => note.id), { readAt: new Date().toISOString() })}
+            disabled={!visibleNotifications.some(note => !note.readAt)}
+            className="px-2 py-1 border border-slate-200 rounded-lg text-xs bg-white flex items-center gap-1 hover:bg-slate-50 disabled:opacity-50"
+          >
+            <CheckCheck size={12} /> Marcar como lidas
+          </button>
+          <button
+            type="button"
+            onClick={handleRunJob}
+            disabled={isRunningJob}
+            title="Corre agora a geração diária de notificações"
+            className="px-2 py-1 border border-slate-200 rounded-lg text-xs bg-white flex items-center gap-1 hover:bg-slate-50 disabled:opacity-50"
+          >
+            <RefreshCcw size={12} className={isRunningJob ? 'animate-spin' : ''} /> Atualizar
+          </button>
+          {currentStaffId && canSendDigest && (
+            <button
+              type="button"
+              onClick={handleSendDigest}
+              disabled={isSendingDigest}
+              title="Envia agora o resumo diário dos alertas dos seus clientes"
+              className="px-2 py-1 border border-slate-200 rounded-lg text-xs bg-white flex items-center gap-1 hover:bg-slate-50 disabled:opacity-50"
+            >
+              <Mail size={12} /> Enviar resumo
+            </button>
+          )}
+          {isPushSupported() && (
+            <button
+              type="button"
+              onClick={handleTogglePush}
+              disabled={isUpdatingPush}
+              title="Receber o resumo diário como notificação neste browser"
+              className="px-2 py-1 border border-slate-200 rounded-lg text-xs bg-white flex items-center gap-1 hover:bg-slate-50 disabled:opacity-50"
+            >
+              {isPushSubscribed ? <><BellOff size={12} /> Desativar push</> : <><BellRing size={12} /> Ativar push</>}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="divide-y divide-slate-50 max-h-96 overflow-y-auto custom-scrollbar">
+        {visibleNotifications.length === 0 && (
+          <p className="p-6 text-center text-xs text-slate-400 italic">Sem notificações para os filtros selecionados.</p>
+        )}
+        {visibleNotifications.map((note) => (
+          <div key={note.id} className={`p-4 hover:bg-slate-50 transition-colors flex gap-4 ${getBgColor(note.type)} border-l-4 ${note.readAt ? 'opacity-75' : ''}`}>
+            <div className="mt-0.5 flex-shrink-0">
+              {getIcon(note.type)}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="flex justify-between items-start gap-2">
+                 <h4 className={`text-sm text-slate-800 ${note.readAt ? 'font-medium' : 'font-bold'}`}>{note.title}</h4>
+                 <span className="text-[10px] text-slate-400 shrink-0">{note.date}</span>
+              </div>
+              <p className="text-xs text-slate-600 mt-1">{note.message}</p>
+              {isNotificationSnoozed(note) && (
+                <p className="text-[10px] text-slate-400 mt-1">Adiada até {new Date(note.snoozedUntil as string).toLocaleDateString('pt-PT')}</p>
+              )}
+              <div className="flex flex-wrap items-center gap-3 mt-2">
+                {(note.actionLabel || note.clientId) && (
+                  <button type="button" onClick={() => handleOpen(note)} className="text-xs font-medium text-blue-600 hover:underline flex items-center">
+                    {note.actionLabel || 'Abrir cliente'} <ChevronRight size={12} />
+                  </button>
+                )}
+                {!note.readAt && (
+                  <button type="button" onClick={() => updateState([note.id], { readAt: new Date().toISOString() })} className="text-xs text-slate-500 hover:text-slate-800 flex items-center gap-1">
+                    <Check size={12} /> Lida
+                  </button>
+                )}
+                {note.dismissedAt || isNotificationSnoozed(note) ? (
+                  <button type="button" onClick={() => updateState([note.id], { dismissedAt: null, snoozedUntil: null })} className="text-xs text-slate-500 hover:text-slate-800 flex items-center gap-1">
+                    <RotateCcw size={12} /> Repor
+                  </button>
+                ) : (
+                  <>
+                    <span className="text-xs text-slate-500 flex items-center gap-1">
+                      <Clock size={12} />
+                      <select
+                        value=""
+                        onChange={e => e.target.value && handleSnooze(note.id, Number(e.target.value))}
+                        className="bg-transparent text-xs text-slate-500 cursor-pointer"
+                      >
+                        <option value="">Adiar</option>
+                        {SNOOZE_OPTIONS.map(option => <option key={option.days} value={option.days}>{option.label}</option>)}
+                      </select>
+                    </span>
+                    <button type="button" onClick={() => updateState([note.id], { dismissedAt: new Date().toISOString() })} className="text-xs text-slate-500 hover:text-red-600 flex items-center gap-1">
+                      <EyeOff size={12} /> Dispensar
+                    </button>
+                  </>
+                )}
+                <select
+                  value={note.assignedStaffId || ''}
+                  onChange={e => handleAssign(note.id, e.target.value)}
+                  className="ml-auto px-2 py-0.5 border border-slate-200 rounded text-[11px] bg-white"
+                >
+                  <option value="">Atribuir a...</option>
+                  {staff.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+                </select>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationCenter;
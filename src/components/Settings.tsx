@@ -1,7 +1,11 @@
 import React, { useState } from 'react';
-import { GlobalSettings, TurnoverBracket, TaskArea } from '../types';
-import { Database, Mail, DollarSign, TrendingUp, Trash2, Save, RefreshCcw } from 'lucide-react';
+import { GlobalSettings, TurnoverBracket, TaskArea, Staff, OverheadPool, Client } from '../types';
+import { Database, Mail, DollarSign, TrendingUp, Trash2, Save, RefreshCcw, Building2 } from 'lucide-react';
 import { turnoverBracketService } from '../services';
+import AccessControl from './settings/AccessControl';
+import AlertRulesSettings from './settings/AlertRulesSettings';
+import OverheadPoolsSettings from './settings/OverheadPoolsSettings';
+import TravelCostSettings from './settings/TravelCostSettings';
 
 interface SettingsProps {
   areaCosts: Record<string, number>;
@@ -11,9 +15,17 @@ interface SettingsProps {
   globalSettings: GlobalSettings;
   setGlobalSettings: (settings: GlobalSettings) => void;
   logo: string;
+  staff: Staff[];
+  canManageRoles: boolean;
+  canManageAlertRules: boolean;
+  overheadPools: OverheadPool[];
+  setOverheadPools: (pools: OverheadPool[]) => void;
+  canManageOverheads: boolean;
+  clients: Client[];
+  setClients: (clients: Client[]) => void;
 }
 
-const Settings: React.FC<SettingsProps> = ({ globalSettings, setGlobalSettings, areaCosts, setAreaCosts, logo, turnoverBrackets, setTurnoverBrackets }) => {
+const Settings: React.FC<SettingsProps> = ({ globalSettings, setGlobalSettings, areaCosts, setAreaCosts, logo, turnoverBrackets, setTurnoverBrackets, staff, canManageRoles, canManageAlertRules, overheadPools, setOverheadPools, canManageOverheads, clients, setClients }) => {
   const [isSavingBrackets, setIsSavingBrackets] = useState(false);
   const handleGlobalChange = (field: keyof GlobalSettings, value: string | number) => {
     setGlobalSettings({ ...globalSettings, [field]: value });
@@ -118,6 +130,70 @@ const Settings: React.FC<SettingsProps> = ({ globalSettings, setGlobalSettings,
         </div>
       </div>
 
+      {canManageRoles && <AccessControl staff={staff} />}
+
+      {canManageAlertRules && <AlertRulesSettings />}
+
+      {canManageOverheads && <OverheadPoolsSettings pools={overheadPools} setPools={setOverheadPools} />}
+
+      {canManageOverheads && <TravelCostSettings globalSettings={globalSettings} setGlobalSettings={setGlobalSettings} clients={clients} setClients={setClients} />}
+
+      {/* Office Tax Identity */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <h3 className="font-bold text-slate-800 mb-1 flex items-center gap-2"><Building2 size={18} /> Dados Fiscais do Gabinete</h3>
+        <p className="text-xs text-slate-500 mb-4">Usados no cabeçalho do SAF-T (PT) de faturação exportado na Caixa.</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-xs font-bold text-slate-500 mb-1">Denominação</label>
+            <input
+              type="text"
+              value={globalSettings.companyName || ''}
+              onChange={(e) => handleGlobalChange('companyName', e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">NIF</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              maxLength={9}
+              value={globalSettings.companyNif || ''}
+              onChange={(e) => handleGlobalChange('companyNif', e.target.value.replace(/\D/g, ''))}
+              className="w-full px-3 py-2 border rounded-lg text-sm"
+            />
+          </div>
+          <div className="md:col-span-3">
+            <label className="block text-xs font-bold text-slate-500 mb-1">Morada</label>
+            <input
+              type="text"
+              value={globalSettings.companyAddress || ''}
+              onChange={(e) => handleGlobalChange('companyAddress', e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Código Postal</label>
+            <input
+              type="text"
+              placeholder="0000-000"
+              value={globalSettings.companyPostalCode || ''}
+              onChange={(e) => handleGlobalChange('companyPostalCode', e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg text-sm"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-xs font-bold text-slate-500 mb-1">Localidade</label>
+            <input
+              type="text"
+              value={globalSettings.companyCity || ''}
+              onChange={(e) => handleGlobalChange('companyCity', e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
       {/* Cost Settings */}
       <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
         <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2"><DollarSign size={18} /> Custos Operacionais</h3>
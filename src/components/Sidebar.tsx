@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { LayoutDashboard, Users, Calculator, Settings, ListTodo, Briefcase, Upload, FolderTree, Mail, Shield, HeartPulse, LogOut, Landmark } from 'lucide-react';
+import { LayoutDashboard, Users, Calculator, Settings, ListTodo, Briefcase, Upload, FolderTree, Mail, Shield, HeartPulse, LogOut, Landmark, CalendarClock, ClipboardCheck, FileSignature, Gauge } from 'lucide-react';
 import { ensureStoreClient } from '../services';
 
 interface SidebarProps {
@@ -8,30 +8,30 @@ interface SidebarProps {
   onChangeView: (view: string) => void;
   logo: string;
   onLogoUpload: (file: File) => void | Promise<void>;
-  userRole: 'admin' | 'user' | null;
-  allowedViews?: string[];
+  // Views granted by the user's role (app_roles.views).
+  allowedViews: string[];
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentView, onChangeView, logo, onLogoUpload, userRole, allowedViews }) => {
+const Sidebar: React.FC<SidebarProps> = ({ currentView, onChangeView, logo, onLogoUpload, allowedViews }) => {
   const allMenuItems = [
-    { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard, roles: ['admin'] },
-    { id: 'clients', label: 'Clientes', icon: Users, roles: ['admin', 'user'] },
-    { id: 'groups', label: 'Grupos Avenças', icon: FolderTree, roles: ['admin', 'user'] },
-    { id: 'insurance', label: 'Seguros', icon: Shield, roles: ['admin', 'user'] },
-    { id: 'sht', label: 'SHT', icon: HeartPulse, roles: ['admin', 'user'] },
-    { id: 'cashier', label: 'Caixa Numerário', icon: Landmark, roles: ['admin', 'user'] },
-    { id: 'irs-control', label: 'Control IRS', icon: Landmark, roles: ['admin', 'user'] },
-    { id: 'emails', label: 'Email Marketing', icon: Mail, roles: ['admin'] },
-    { id: 'team', label: 'Equipa', icon: Briefcase, roles: ['admin'] },
-    { id: 'tasks', label: 'Catálogo Tarefas', icon: ListTodo, roles: ['admin', 'user'] },
-    { id: 'calculator', label: 'Orçamentador', icon: Calculator, roles: ['admin'] },
+    { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
+    { id: 'clients', label: 'Clientes', icon: Users },
+    { id: 'calendar', label: 'Calendário Fiscal', icon: CalendarClock },
+    { id: 'obligations', label: 'Obrigações', icon: ClipboardCheck },
+    { id: 'groups', label: 'Grupos Avenças', icon: FolderTree },
+    { id: 'contracts', label: 'Contratos', icon: FileSignature },
+    { id: 'insurance', label: 'Seguros', icon: Shield },
+    { id: 'sht', label: 'SHT', icon: HeartPulse },
+    { id: 'cashier', label: 'Caixa Numerário', icon: Landmark },
+    { id: 'irs-control', label: 'Control IRS', icon: Landmark },
+    { id: 'emails', label: 'Email Marketing', icon: Mail },
+    { id: 'team', label: 'Equipa', icon: Briefcase },
+    { id: 'capacity', label: 'Capacidade Equipa', icon: Gauge },
+    { id: 'tasks', label: 'Catálogo Tarefas', icon: ListTodo },
+    { id: 'calculator', label: 'Orçamentador', icon: Calculator },
   ];
 
-  const menuItems = allMenuItems.filter(item => {
-    if (!userRole || !item.roles.includes(userRole)) return false;
-    if (allowedViews && !allowedViews.includes(item.id)) return false;
-    return true;
-  });
+  const menuItems = allMenuItems.filter(item => allowedViews.includes(item.id));
 
   const handleLogout = async () => {
     const supabase = ensureStoreClient();
@@ -83,7 +83,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, onChangeView, logo, onLo
       </nav>
 
       <div className="p-4 border-t border-slate-800">
-        {userRole === 'admin' && (
+        {allowedViews.includes('settings') && (
           <button onClick={() => onChangeView('settings')} className={`w-full flex items-center space-x-3 px-4 py-2 rounded ${currentView === 'settings' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}>
             <Settings size={18} />
             <span className="text-xs font-medium">Configurações</span>
@@ -1,7 +1,11 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Staff, Client, Task, TaskArea } from '../types';
-import { calculateStaffStats, calculateClientProfitability } from '../services/calculator';
-import { ArrowLeft, Save, RefreshCcw, User, Calculator, Layers, Briefcase, DollarSign, TrendingUp, Users } from 'lucide-react';
+import { Staff, Client, Task, TaskArea, TimeEntry, StaffAbsence, StaffCostRecord, StaffCostChangeContext } from '../types';
+import { calculateStaffStats, calculateClientProfitability, compareStaffTaskTimes, calculateStaffAnnualCost, deriveStaffHourlyCost, getStaffCostRecordAt, getClientTravelMinutes } from '../services/calculator';
+import { timeEntryService, getTimeEntryWindowStart, staffCostHistoryService } from '../services';
+import { getStaffMonthCapacity } from '../services/staffCapacity';
+import StaffAbsencePanel from './team/StaffAbsencePanel';
+import CapacityForecastCard from './team/CapacityForecastCard';
+import { ArrowLeft, Save, RefreshCcw, User, Calculator, Layers, Briefcase, DollarSign, TrendingUp, Users, Clock, History } from 'lucide-react';
 
 interface StaffDetailProps {
   staffMember: Staff;
@@ -9,21 +13,58 @@ interface StaffDetailProps {
   tasks: Task[];
   staff: Staff[];
   areaCosts: Record<string, number>;
+  absences: StaffAbsence[];
+  setAbsences: React.Dispatch<React.SetStateAction<StaffAbsence[]>>;
   onBack: () => void;
-  onUpdateStaff: (staff: Staff) => Promise<void>;
+  onUpdateStaff: (staff: Staff, costChange?: StaffCostChangeContext) => Promise<void>;
 }
 
-const StaffDetail: React.FC<StaffDetailProps> = ({ staffMember, clients, tasks, staff, areaCosts, onBack, onUpdateStaff }) => {
+const COST_FIELDS = ['baseSalary', 'socialChargesPercent', 'mealAllowance', 'otherMonthlyCosts', 'insuranceAnnual', 'capacityHoursPerMonth'] as const;
+
+const StaffDetail: React.FC<StaffDetailProps> = ({ staffMember, clients, tasks, staff, areaCosts, absences, setAbsences, onBack, onUpdateStaff }) => {
   const [editedStaff, setEditedStaff] = useState<Staff>(staffMember);
   const [isDirty, setIsDirty] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [costHistory, setCostHistory] = useState<StaffCostRecord[]>([]);
+  const [costChangeForm, setCostChangeForm] = useState({ effectiveFrom: new Date().toISOString().slice(0, 10), reason: '' });
 
   useEffect(() => {
     setEditedStaff(staffMember);
     setIsDirty(false);
   }, [staffMember]);
 
-  const stats = calculateStaffStats(editedStaff, clients, tasks);
+  useEffect(() => {
+    let isMounted = true;
+    staffCostHistoryService.getByStaff(staffMember.id)
+      .then(data => { if (isMounted) setCostHistory(data); })
+      .catch(err => {
+        console.error('Erro ao carregar histórico de custos do funcionário:', err);
+        if (isMounted) setCostHistory([]);
+      });
+    return () => { isMounted = false; };
+  }, [staffMember]);
+
+  useEffect(() => {
+    let isMounted = true;
+    timeEntryService.getByStaff(staffMember.id, getTimeEntryWindowStart())
+      .then(data => { if (isMounted) setTimeEntries(data); })
+      .catch(err => {
+        console.error('Erro ao carregar registos de tempo do funcionário:', err);
+        if (isMounted) setTimeEntries([]);
+      });
+    return () => { isMounted = false; };
+  }, [staffMember.id]);
+
+  const taskTimeVariances = useMemo(() => {
+    return compareStaffTaskTimes(editedStaff, clients, tasks, timeEntries)
+      .filter(variance => variance.entryCount > 0)
+      .sort((a, b) => Math.abs(b.varianceMinutes) - Math.abs(a.varianceMinutes));
+  }, [editedStaff, clients, tasks, timeEntries]);
+
+  const today = new Date();
+  const monthCapacity = getStaffMonthCapacity(editedStaff, absences, today.getFullYear(), today.getMonth());
+  const stats = calculateStaffStats(editedStaff, clients, tasks, monthCapacity.availableHours);
   const memberClients = clients.filter(c => c.responsibleStaff === editedStaff.id || c.responsibleStaff === editedStaff.name);
 
   const portfolioTotals = useMemo(() => {
@@ -39,19 +80,19 @@ const StaffDetail: React.FC<StaffDetailProps> = ({ staffMember, clients, tasks,
     setIsDirty(true);
   };
 
-  const handleCalculateCost = () => {
-    const salary = Number(editedStaff.baseSalary) || 0;
-    const taxes = (salary * (Number(editedStaff.socialChargesPercent) || 0)) / 100;
-    const meal = Number(editedStaff.mealAllowance) || 0;
-    const other = Number(editedStaff.otherMonthlyCosts) || 0;
-    const hours = Number(editedStaff.capacityHoursPerMonth) || 160;
-
-    const totalMonthlyCost = salary + taxes + meal + other;
-    const hourly = hours > 0 ? totalMonthlyCost / hours : 0;
-
-    handleFieldChange('hourlyCost', Number(hourly.toFixed(2)));
+  // The hourly cost always follows the cost inputs.
+  const handleCostFieldChange = (field: typeof COST_FIELDS[number], value: number) => {
+    setEditedStaff(prev => {
+      const next = { ...prev, [field]: value };
+      return { ...next, hourlyCost: deriveStaffHourlyCost(next) };
+    });
+    setIsDirty(true);
   };
 
+  const isCostChanged = COST_FIELDS.some(field => Number(editedStaff[field]) !== Number(staffMember[field]));
+  const todayIso = new Date().toISOString().slice(0, 10);
+  const recordInForce = getStaffCostRecordAt(staffMember.id, costHistory, todayIso);
+
   const toggleArea = (area: TaskArea) => {
     const currentAreas = editedStaff.assignedAreas || [];
     const newAreas = currentAreas.includes(area)
@@ -63,8 +104,12 @@ const StaffDetail: React.FC<StaffDetailProps> = ({ staffMember, clients, tasks,
   const handleSaveChanges = async () => {
     setIsSaving(true);
     try {
-      await onUpdateStaff(editedStaff);
+      const costChange: StaffCostChangeContext | undefined = isCostChanged
+        ? { effectiveFrom: costChangeForm.effectiveFrom, reason: costChangeForm.reason }
+        : undefined;
+      await onUpdateStaff(editedStaff, costChange);
       setIsDirty(false);
+      setCostChangeForm({ effectiveFrom: new Date().toISOString().slice(0, 10), reason: '' });
       alert('Alterações salvas com sucesso!');
     } catch (error) {
       console.error("Save failed in StaffDetail:", error);
@@ -121,34 +166,94 @@ const StaffDetail: React.FC<StaffDetailProps> = ({ staffMember, clients, tasks,
           </div>
 
           <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
-            <div className="flex justify-between items-center mb-4">
-              <h3 className="font-bold text-slate-800 flex items-center gap-2"><Calculator size={18} /> Calculadora de Custo Hora</h3>
-              <button type="button" onClick={handleCalculateCost} className="text-xs bg-blue-100 text-blue-700 px-3 py-1 rounded hover:bg-blue-200 font-medium">
-                Calcular Agora
-              </button>
-            </div>
+            <h3 className="font-bold text-slate-800 mb-1 flex items-center gap-2"><Calculator size={18} /> Custo Hora</h3>
+            <p className="text-xs text-slate-400 mb-4">14 salários com encargos, subsídio de alimentação em 11 meses, outros custos mensais e seguro anual, divididos pelas horas de trabalho do ano (sem férias).</p>
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
               <div>
                 <label className="block text-xs font-medium text-slate-500 mb-1">Salário Base (€)</label>
-                <input type="number" value={editedStaff.baseSalary} onChange={e => handleFieldChange('baseSalary', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm" />
+                <input type="number" value={editedStaff.baseSalary} onChange={e => handleCostFieldChange('baseSalary', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm" />
               </div>
               <div>
                 <label className="block text-xs font-medium text-slate-500 mb-1">Encargos TSU (%)</label>
-                <input type="number" value={editedStaff.socialChargesPercent} onChange={e => handleFieldChange('socialChargesPercent', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm" />
+                <input type="number" value={editedStaff.socialChargesPercent} onChange={e => handleCostFieldChange('socialChargesPercent', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm" />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Sub. Alimentação (€/mês)</label>
+                <input type="number" value={editedStaff.mealAllowance} onChange={e => handleCostFieldChange('mealAllowance', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm" />
               </div>
               <div>
-                <label className="block text-xs font-medium text-slate-500 mb-1">Sub. Alim./Outros (€)</label>
-                <input type="number" value={editedStaff.mealAllowance} onChange={e => handleFieldChange('mealAllowance', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm" />
+                <label className="block text-xs font-medium text-slate-500 mb-1">Outros Custos (€/mês)</label>
+                <input type="number" value={editedStaff.otherMonthlyCosts} onChange={e => handleCostFieldChange('otherMonthlyCosts', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm" />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Seguro Acid. Trabalho (€/ano)</label>
+                <input type="number" value={editedStaff.insuranceAnnual} onChange={e => handleCostFieldChange('insuranceAnnual', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm" />
               </div>
               <div>
                 <label className="block text-xs font-medium text-slate-500 mb-1">Horas Trab. / Mês</label>
-                <input type="number" value={editedStaff.capacityHoursPerMonth} onChange={e => handleFieldChange('capacityHoursPerMonth', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm" />
+                <input type="number" value={editedStaff.capacityHoursPerMonth} onChange={e => handleCostFieldChange('capacityHoursPerMonth', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm" />
+              </div>
+              <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 flex items-center justify-between">
+                <span className="text-xs font-medium text-slate-500">Custo Anual</span>
+                <span className="font-bold text-slate-700">{calculateStaffAnnualCost(editedStaff).toFixed(0)}€</span>
               </div>
               <div className="md:col-span-2 bg-slate-50 p-3 rounded-lg border border-slate-200 flex items-center justify-between">
                 <span className="font-bold text-blue-600">Custo Hora Final (€)</span>
                 <span className="text-2xl font-bold text-slate-800">{editedStaff.hourlyCost.toFixed(2)}€</span>
               </div>
             </div>
+            {isCostChanged && (
+              <div className="mt-4 bg-blue-50 border border-blue-100 rounded-lg p-3 space-y-2 text-xs">
+                <p className="font-bold text-blue-700">Alteração de custo hora: {staffMember.hourlyCost.toFixed(2)}€ → {editedStaff.hourlyCost.toFixed(2)}€</p>
+                <label className="flex justify-between items-center gap-2 text-slate-600">
+                  Em vigor a partir de
+                  <input type="date" value={costChangeForm.effectiveFrom} onChange={e => setCostChangeForm({ ...costChangeForm, effectiveFrom: e.target.value })} className="border border-slate-200 rounded px-2 py-1" />
+                </label>
+                <input type="text" value={costChangeForm.reason} onChange={e => setCostChangeForm({ ...costChangeForm, reason: e.target.value })} placeholder="Motivo da alteração (ex.: aumento salarial)" className="w-full border border-slate-200 rounded px-2 py-1" />
+                {costChangeForm.effectiveFrom > todayIso && (
+                  <p className="text-slate-500">Alteração agendada: o custo atual mantém-se até essa data.</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+            <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2"><History size={18} /> Histórico de Custos</h3>
+            {costHistory.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">Sem alterações de custo registadas.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                    <tr>
+                      <th className="px-3 py-2">Em vigor desde</th>
+                      <th className="px-3 py-2 text-right">Salário</th>
+                      <th className="px-3 py-2 text-right">Custo Hora</th>
+                      <th className="px-3 py-2">Motivo</th>
+                      <th className="px-3 py-2">Alterado por</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {[...costHistory].reverse().map(record => (
+                      <tr key={record.id}>
+                        <td className="px-3 py-2 text-slate-600">
+                          {new Date(`${record.effectiveFrom}T00:00:00`).toLocaleDateString('pt-PT')}
+                          {record.id === recordInForce?.id && <span className="ml-2 text-[10px] font-bold px-1.5 py-0.5 rounded bg-green-50 text-green-700">Em vigor</span>}
+                          {record.effectiveFrom > todayIso && <span className="ml-2 text-[10px] font-bold px-1.5 py-0.5 rounded bg-amber-50 text-amber-700">Agendado</span>}
+                        </td>
+                        <td className="px-3 py-2 text-right text-slate-600">{record.baseSalary.toFixed(2)}€</td>
+                        <td className="px-3 py-2 text-right font-bold text-slate-800">{record.hourlyCost.toFixed(2)}€</td>
+                        <td className="px-3 py-2 text-xs text-slate-600">{record.reason || '—'}</td>
+                        <td className="px-3 py-2 text-xs text-slate-500">
+                          {record.changedBy || '—'}
+                          {record.createdAt && <span className="block text-slate-400">{new Date(record.createdAt).toLocaleString('pt-PT')}</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </div>
 
           <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
@@ -169,7 +274,7 @@ const StaffDetail: React.FC<StaffDetailProps> = ({ staffMember, clients, tasks,
           <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
             <h3 className="font-bold text-slate-800 mb-4">Métricas de Desempenho</h3>
             <div className="space-y-3">
-              <div className="flex justify-between text-sm"><span className="text-slate-500">Alocado / Capacidade:</span><span className="font-medium text-slate-700">{stats.allocatedHoursMonth.toFixed(0)}h / {editedStaff.capacityHoursPerMonth}h</span></div>
+              <div className="flex justify-between text-sm"><span className="text-slate-500">Alocado / Disponível (mês):</span><span className="font-medium text-slate-700" title={`Capacidade base: ${editedStaff.capacityHoursPerMonth}h`}>{stats.allocatedHoursMonth.toFixed(0)}h / {stats.availableHoursMonth.toFixed(0)}h</span></div>
               <div className="flex justify-between text-sm"><span className="text-slate-500">Rentabilidade (Efic.):</span><span className={`font-bold ${stats.profitability < 20 ? 'text-red-500' : 'text-green-600'}`}>{stats.profitability.toFixed(0)}%</span></div>
             </div>
             <div className="mt-4">
@@ -178,9 +283,20 @@ const StaffDetail: React.FC<StaffDetailProps> = ({ staffMember, clients, tasks,
             </div>
           </div>
 
+          <StaffAbsencePanel staffMember={editedStaff} absences={absences} setAbsences={setAbsences} />
         </div>
       </div>
 
+      <CapacityForecastCard
+        staff={staff}
+        members={[editedStaff]}
+        clients={clients}
+        tasks={tasks}
+        absences={absences}
+        monthCount={12}
+        title="Capacidade nos Próximos 12 Meses"
+      />
+
       {/* Client Portfolio Section */}
       <div className="mt-8 bg-white rounded-xl shadow-sm border border-slate-100">
         <div className="p-6 border-b border-slate-100">
@@ -266,7 +382,7 @@ const StaffDetail: React.FC<StaffDetailProps> = ({ staffMember, clients, tasks,
 
                   // Operational time
                   if (isResponsibleManager) {
-                    clientMinutesForThisStaff += (client.callTimeBalance * 12) + (client.travelCount * 60);
+                    clientMinutesForThisStaff += (client.callTimeBalance * 12) + getClientTravelMinutes(client);
                   }
 
                   const clientHoursForThisStaff = clientMinutesForThisStaff / 60;
@@ -288,6 +404,49 @@ const StaffDetail: React.FC<StaffDetailProps> = ({ staffMember, clients, tasks,
           </table>
         </div>
       </div>
+
+      {/* Actual vs Estimated Time per Task */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100">
+        <div className="p-6 border-b border-slate-100">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2"><Clock size={18} /> Tempo Real vs Estimado por Tarefa</h3>
+          <p className="text-xs text-slate-400 mt-1">Registos dos últimos 12 meses comparados com o tempo de catálogo das tarefas atribuídas. Use os desvios para recalibrar o catálogo.</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50">
+              <tr className="text-left text-slate-400 font-medium">
+                <th className="p-3">Tarefa</th>
+                <th className="p-3 text-center">Tempo Catálogo</th>
+                <th className="p-3 text-right">Estimado/Ano</th>
+                <th className="p-3 text-right">Real (12m)</th>
+                <th className="p-3 text-right">Desvio</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {taskTimeVariances.length > 0 ? (
+                taskTimeVariances.map(variance => {
+                  const taskDef = tasks.find(t => t.id === variance.taskId);
+                  const isOver = variance.varianceMinutes > 0;
+                  return (
+                    <tr key={variance.taskId} className="hover:bg-slate-50">
+                      <td className="p-3 font-medium text-slate-700">{taskDef?.name || variance.taskId}</td>
+                      <td className="p-3 text-center text-slate-500">{taskDef ? `${taskDef.defaultTimeMinutes} min` : '—'}</td>
+                      <td className="p-3 text-right text-slate-600">{(variance.estimatedMinutes / 60).toFixed(1)}h</td>
+                      <td className="p-3 text-right text-slate-600">{(variance.actualMinutes / 60).toFixed(1)}h</td>
+                      <td className={`p-3 text-right font-bold ${isOver ? 'text-red-500' : 'text-green-600'}`}>
+                        {isOver ? '+' : ''}{(variance.varianceMinutes / 60).toFixed(1)}h
+                        {variance.variancePercent !== null && ` (${isOver ? '+' : ''}${variance.variancePercent.toFixed(0)}%)`}
+                      </td>
+                    </tr>
+                  );
+                })
+              ) : (
+                <tr><td colSpan={5} className="p-6 text-center text-slate-400 italic">Sem registos de tempo nos últimos 12 meses.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
     </div>
   );
 };
@@ -1,7 +1,8 @@
 
 import React, { useState } from 'react';
-import { Staff, Client, Task, TaskArea } from '../types';
-import { calculateStaffStats } from '../services/calculator';
+import { Staff, Client, Task, TaskArea, StaffAbsence } from '../types';
+import { calculateStaffStats, deriveStaffHourlyCost } from '../services/calculator';
+import { getStaffMonthCapacity } from '../services/staffCapacity';
 import { staffService } from '../services';
 import { Plus, Trash2, Save, X, Calculator, DownloadCloud, RefreshCcw, Activity } from 'lucide-react';
 
@@ -12,10 +13,11 @@ interface StaffTeamProps {
   tasks: Task[];
   onSelectStaff: (staff: Staff) => void;
   areaCosts: Record<string, number>;
+  absences: StaffAbsence[];
   onSyncRequest?: () => void;
 }
 
-const StaffTeam: React.FC<StaffTeamProps> = ({ staff, setStaff, clients, tasks, onSelectStaff, onSyncRequest }) => {
+const StaffTeam: React.FC<StaffTeamProps> = ({ staff, setStaff, clients, tasks, absences, onSelectStaff, onSyncRequest }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingStaff, setEditingStaff] = useState<Staff | null>(null);
   const [isSaving, setIsSaving] = useState(false);
@@ -36,6 +38,7 @@ const StaffTeam: React.FC<StaffTeamProps> = ({ staff, setStaff, clients, tasks,
         socialChargesPercent: 23.75,
         mealAllowance: 0,
         otherMonthlyCosts: 0,
+        insuranceAnnual: 0,
         capacityHoursPerMonth: 160,
         hourlyCost: 0,
         assignedAreas: []
@@ -44,20 +47,12 @@ const StaffTeam: React.FC<StaffTeamProps> = ({ staff, setStaff, clients, tasks,
     setIsModalOpen(true);
   };
 
-  const handleCalculateCost = () => {
-    const salary = Number(formData.baseSalary) || 0;
-    const taxes = (salary * (Number(formData.socialChargesPercent) || 0)) / 100;
-    const meal = Number(formData.mealAllowance) || 0;
-    const other = Number(formData.otherMonthlyCosts) || 0;
-    const hours = Number(formData.capacityHoursPerMonth) || 160;
-
-    const totalMonthlyCost = salary + taxes + meal + other;
-    const hourly = hours > 0 ? totalMonthlyCost / hours : 0;
-
-    setFormData(prev => ({
-      ...prev,
-      hourlyCost: Number(hourly.toFixed(2))
-    }));
+  // The hourly cost always follows the cost inputs; changes are dated today in the cost history.
+  const handleCostFieldChange = (field: 'baseSalary' | 'socialChargesPercent' | 'mealAllowance' | 'otherMonthlyCosts' | 'insuranceAnnual' | 'capacityHoursPerMonth', value: number) => {
+    setFormData(prev => {
+      const next = { ...prev, [field]: value };
+      return { ...next, hourlyCost: deriveStaffHourlyCost(next as Staff) };
+    });
   };
 
   const handleSave = async (e: React.FormEvent) => {
@@ -92,6 +87,8 @@ const StaffTeam: React.FC<StaffTeamProps> = ({ staff, setStaff, clients, tasks,
     }
   };
 
+  const today = new Date();
+
   const toggleArea = (area: TaskArea) => {
     const currentAreas = formData.assignedAreas || [];
     if (currentAreas.includes(area)) {
@@ -134,14 +131,15 @@ const StaffTeam: React.FC<StaffTeamProps> = ({ staff, setStaff, clients, tasks,
                 <th className="px-6 py-3">Colaborador</th>
                 <th className="px-6 py-3 text-center">Custo/Hora</th>
                 <th className="px-6 py-3 text-center">Clientes</th>
-                <th className="px-6 py-3 text-center">Utilização</th>
+                <th className="px-6 py-3 text-center" title="Horas alocadas face às horas disponíveis este mês (feriados e ausências descontados)">Utilização (mês)</th>
                 <th className="px-6 py-3 text-center">Rentabilidade</th>
                 <th className="px-6 py-3 text-right">Ações</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-50">
               {staff.map(member => {
-                const stats = calculateStaffStats(member, clients, tasks);
+                const monthCapacity = getStaffMonthCapacity(member, absences, today.getFullYear(), today.getMonth());
+                const stats = calculateStaffStats(member, clients, tasks, monthCapacity.availableHours);
                 return (
                   <tr key={member.id} className="hover:bg-slate-50/80">
                     <td className="px-6 py-4">
@@ -150,7 +148,9 @@ const StaffTeam: React.FC<StaffTeamProps> = ({ staff, setStaff, clients, tasks,
                     </td>
                     <td className="px-6 py-4 text-center font-mono text-blue-600 font-bold">{member.hourlyCost.toFixed(2)}€</td>
                     <td className="px-6 py-4 text-center font-medium">{stats.clientCount}</td>
-                    <td className="px-6 py-4 text-center font-medium">{stats.capacityUtilization.toFixed(0)}%</td>
+                    <td className={`px-6 py-4 text-center font-medium ${stats.capacityUtilization > 100 ? 'text-red-500' : ''}`} title={`${stats.allocatedHoursMonth.toFixed(0)}h / ${stats.availableHoursMonth.toFixed(0)}h`}>
+                      {stats.availableHoursMonth > 0 || member.capacityHoursPerMonth <= 0 ? `${stats.capacityUtilization.toFixed(0)}%` : 'Ausente'}
+                    </td>
                     <td className={`px-6 py-4 text-center font-bold ${stats.profitability < 20 ? 'text-red-500' : 'text-green-600'}`}>{stats.profitability.toFixed(0)}%</td>
                     <td className="px-6 py-4 text-right">
                       <button onClick={() => onSelectStaff(member)} className="text-blue-600 hover:bg-blue-50 px-3 py-1.5 rounded text-xs font-bold border border-blue-100 flex items-center gap-1">
@@ -204,37 +204,35 @@ const StaffTeam: React.FC<StaffTeamProps> = ({ staff, setStaff, clients, tasks,
               <div className="bg-slate-50 p-4 rounded-lg border border-slate-100">
                 <div className="flex justify-between items-center mb-4">
                    <h4 className="font-bold text-slate-700 text-sm flex items-center gap-2">
-                     <Calculator size={16}/> Calculadora de Custo Hora
+                     <Calculator size={16}/> Custo Hora
                    </h4>
-                   <button 
-                     type="button" 
-                     onClick={handleCalculateCost}
-                     className="text-xs bg-blue-100 text-blue-700 px-3 py-1 rounded hover:bg-blue-200 font-medium transition-colors"
-                   >
-                     Calcular Agora
-                   </button>
+                   <span className="text-[11px] text-slate-400">14 salários, encargos, subsídio e seguro</span>
                 </div>
                 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
                   <div>
                     <label className="block text-xs font-medium text-slate-500 mb-1">Salário Base (€)</label>
-                    <input type="number" value={formData.baseSalary || 0} onChange={e => setFormData({...formData, baseSalary: parseFloat(e.target.value)})} className="w-full px-3 py-2 border rounded-lg text-sm bg-white" />
+                    <input type="number" value={formData.baseSalary || 0} onChange={e => handleCostFieldChange('baseSalary', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm bg-white" />
                   </div>
                   <div>
                     <label className="block text-xs font-medium text-slate-500 mb-1">Encargos TSU (%)</label>
-                    <input type="number" value={formData.socialChargesPercent || 23.75} onChange={e => setFormData({...formData, socialChargesPercent: parseFloat(e.target.value)})} className="w-full px-3 py-2 border rounded-lg text-sm bg-white" />
+                    <input type="number" value={formData.socialChargesPercent || 23.75} onChange={e => handleCostFieldChange('socialChargesPercent', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm bg-white" />
                   </div>
                   <div>
-                    <label className="block text-xs font-medium text-slate-500 mb-1">Sub. Alim./Seguro (€)</label>
-                    <input type="number" value={formData.mealAllowance || 0} onChange={e => setFormData({...formData, mealAllowance: parseFloat(e.target.value)})} className="w-full px-3 py-2 border rounded-lg text-sm bg-white" />
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Sub. Alimentação (€/mês)</label>
+                    <input type="number" value={formData.mealAllowance || 0} onChange={e => handleCostFieldChange('mealAllowance', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm bg-white" />
                   </div>
                    <div>
-                    <label className="block text-xs font-medium text-slate-500 mb-1">Outros Custos (€)</label>
-                    <input type="number" value={formData.otherMonthlyCosts || 0} onChange={e => setFormData({...formData, otherMonthlyCosts: parseFloat(e.target.value)})} className="w-full px-3 py-2 border rounded-lg text-sm bg-white" />
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Outros Custos (€/mês)</label>
+                    <input type="number" value={formData.otherMonthlyCosts || 0} onChange={e => handleCostFieldChange('otherMonthlyCosts', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm bg-white" />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Seguro Acid. Trabalho (€/ano)</label>
+                    <input type="number" value={formData.insuranceAnnual || 0} onChange={e => handleCostFieldChange('insuranceAnnual', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm bg-white" />
                   </div>
                   <div>
                     <label className="block text-xs font-medium text-slate-500 mb-1">Horas Trab. / Mês</label>
-                    <input type="number" value={formData.capacityHoursPerMonth || 160} onChange={e => setFormData({...formData, capacityHoursPerMonth: parseFloat(e.target.value)})} className="w-full px-3 py-2 border rounded-lg text-sm bg-white" />
+                    <input type="number" value={formData.capacityHoursPerMonth || 160} onChange={e => handleCostFieldChange('capacityHoursPerMonth', parseFloat(e.target.value))} className="w-full px-3 py-2 border rounded-lg text-sm bg-white" />
                   </div>
                   <div className="bg-white p-2 rounded border border-blue-200">
                     <label className="block text-xs font-bold text-blue-600 mb-1">Custo Hora Final (€)</label>
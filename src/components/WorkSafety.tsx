@@ -2,6 +2,7 @@ import React, { useState, useMemo } from 'react';
 import { WorkSafetyService, WorkSafetyProfileData, Client } from '../types';
 import { workSafetyService } from '../services';
 import { generateTemplateWithAI } from '../services/geminiService';
+import { RenewalAlertLevel, getAlertLevel, getDaysUntil, getLatestServicesByClient, getNextRenewalDate } from '../utils/workSafetyRenewal';
 import { Plus, X, Save, RefreshCcw, Trash2, Edit2, Search, CheckCircle, Circle, FileCheck, FileClock, FileX, Paperclip, AlertTriangle, BellRing, Sparkles, Mail } from 'lucide-react';
 
 interface WorkSafetyProps {
@@ -10,8 +11,6 @@ interface WorkSafetyProps {
   clients: Client[];
 }
 
-type RenewalAlertLevel = 'D-60' | 'D-30' | 'D-7';
-
 interface RenewalAlertItem {
   serviceId: string;
   clientId: string;
@@ -80,48 +79,6 @@ const mergeProfileData = (profileData?: WorkSafetyProfileData, client?: Client):
   cae: profileData?.cae || client?.sector || '',
 });
 
-const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
-
-const addMonths = (date: Date, months: number) => {
-  const next = new Date(date);
-  next.setMonth(next.getMonth() + months);
-  return next;
-};
-
-const getRenewalMonths = (
-  term: WorkSafetyService['renewalTerm'],
-  profilePeriodicity?: WorkSafetyProfileData['providerPeriodicity']
-) => {
-  if (profilePeriodicity === 'Semestral') return 6;
-  if (profilePeriodicity === 'Bi-anual') return 24;
-  if (term === 'Bi-anual') return 24;
-  return 12;
-};
-
-const getNextRenewalDate = (
-  serviceDate: string,
-  renewalTerm: WorkSafetyService['renewalTerm'],
-  profilePeriodicity?: WorkSafetyProfileData['providerPeriodicity']
-) => {
-  const start = startOfDay(new Date(serviceDate));
-  const today = startOfDay(new Date());
-  if (Number.isNaN(start.getTime())) return null;
-
-  const stepMonths = getRenewalMonths(renewalTerm, profilePeriodicity);
-  let next = new Date(start);
-  while (next < today) {
-    next = addMonths(next, stepMonths);
-  }
-  return next;
-};
-
-const getAlertLevel = (daysUntilRenewal: number): RenewalAlertLevel | null => {
-  if (daysUntilRenewal < 0 || daysUntilRenewal > 60) return null;
-  if (daysUntilRenewal <= 7) return 'D-7';
-  if (daysUntilRenewal <= 30) return 'D-30';
-  return 'D-60';
-};
-
 const getAlertLevelClass = (level: RenewalAlertLevel) => {
   if (level === 'D-7') return 'bg-red-100 text-red-700';
   if (level === 'D-30') return 'bg-amber-100 text-amber-700';
@@ -145,17 +102,7 @@ const WorkSafety: React.FC<WorkSafetyProps> = ({ services, setServices, clients
   }, [clients]);
   const clientsById = useMemo(() => new Map(clients.map(client => [client.id, client])), [clients]);
 
-  const latestServicesMap = useMemo(() => {
-    const map = new Map<string, WorkSafetyService>();
-    const sortedServices = [...services].sort((a, b) => new Date(b.serviceDate).getTime() - new Date(a.serviceDate).getTime());
-
-    for (const service of sortedServices) {
-      if (!map.has(service.clientId)) {
-        map.set(service.clientId, service);
-      }
-    }
-    return map;
-  }, [services]);
+  const latestServicesMap = useMemo(() => getLatestServicesByClient(services), [services]);
 
   const displayList = useMemo(() => {
     return clientsWithEmployees.map(client => {
@@ -168,8 +115,6 @@ const WorkSafety: React.FC<WorkSafetyProps> = ({ services, setServices, clients
   }, [clientsWithEmployees, latestServicesMap]);
 
   const renewalAlerts = useMemo<RenewalAlertItem[]>(() => {
-    const today = startOfDay(new Date());
-
     return displayList
       .filter(item => Boolean(item.service))
       .map(item => {
@@ -181,7 +126,7 @@ const WorkSafety: React.FC<WorkSafetyProps> = ({ services, setServices, clients
         );
         if (!nextRenewal) return null;
 
-        const daysUntilRenewal = Math.ceil((nextRenewal.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+        const daysUntilRenewal = getDaysUntil(nextRenewal);
         const level = getAlertLevel(daysUntilRenewal);
         if (!level) return null;
 
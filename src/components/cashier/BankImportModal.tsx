@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import { Check, FileUp, RefreshCcw, X } from 'lucide-react';
+import { BankStatementLine, CashPayment, Client } from '../../types';
+import { BankMatchProposal, ClientLedger, ParsedStatementLine } from '../../types/cashier';
+import { decodeStatementFile, parseBankStatement } from '../../utils/bankStatementParser';
+import { proposeBankMatches } from '../../utils/bankReconciliation';
+
+interface BankImportModalProps {
+  isOpen: boolean;
+  lines: BankStatementLine[];
+  clients: Client[];
+  ledgers: Map<string, ClientLedger>;
+  payments: Partial<CashPayment>[];
+  reconciledPaymentIds: Set<string>;
+  months: string[];
+  isApplying: boolean;
+  onClose: () => void;
+  onImport: (lines: ParsedStatementLine[]) => Promise<void>;
+  onIgnore: (lineId: string) => void;
+  onApply: (proposals: BankMatchProposal[]) => void;
+}
+
+const channelLabels: Record<BankStatementLine['channel'], string> = {
+  mbway: 'MB Way',
+  transfer: 'Transferência',
+  other: 'Outro',
+};
+
+const matchedByLabels: Record<NonNullable<BankMatchProposal['matchedBy']>, string> = {
+  nif: 'NIF',
+  nome: 'Nome',
+  valor: 'Valor',
+  manual: 'Manual',
+};
+
+const BankImportModal: React.FC<BankImportModalProps> = ({
+  isOpen,
+  lines,
+  clients,
+  ledgers,
+  payments,
+  reconciledPaymentIds,
+  months,
+  isApplying,
+  onClose,
+  onImport,
+  onIgnore,
+  onApply,
+}) => {
+  const [clientOverrides, setClientOverrides] = useState<Record<string, string | null>>({});
+  const [excludedLineIds, setExcludedLineIds] = useState<Set<string>>(new Set());
+  const [isParsing, setIsParsing] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const proposals = useMemo(
+    () => proposeBankMatches(lines, { clients, ledgers, payments, reconciledPaymentIds }, clientOverrides),
+    [lines, clients, ledgers, payments, reconciledPaymentIds, clientOverrides]
+  );
+  const linesById = useMemo(() => new Map(lines.map(line => [line.id, line])), [lines]);
+  const selectedProposals = proposals.filter(proposal => proposal.action && !excludedLineIds.has(proposal.lineId));
+
+  if (!isOpen) return null;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsParsing(true);
+    setParseError(null);
+    try {
+      const content = await decodeStatementFile(file);
+      const parsedLines = parseBankStatement(file.name, content);
+      if (parsedLines.length === 0) {
+        setParseError('Não foram encontrados movimentos a crédito no ficheiro.');
+        return;
+      }
+      await onImport(parsedLines);
+    } catch (err: any) {
+      setParseError(err?.message || 'Erro ao ler o extrato.');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const toggleLine = (lineId: string) => {
+    setExcludedLineIds(prev => {
+      const next = new Set(prev);
+      if (next.has(lineId)) next.delete(lineId);
+      else next.add(lineId);
+      return next;
+    });
+  };
+
+  const describeProposal = (proposal: BankMatchProposal) => {
+    if (!proposal.clientId) return <span className="text-slate-400 italic">Sem cliente identificado</span>;
+    if (!proposal.action || !proposal.paymentMonth) return <span className="text-amber-600">Sem mês em aberto</span>;
+    const reference = `${months[proposal.paymentMonth - 1] || `Ref. ${proposal.paymentMonth}`}/${proposal.paymentYear}`;
+    return proposal.action === 'link'
+      ? <span className="text-blue-600">Conciliar pagamento MB Way de {reference}</span>
+      : <span className="text-green-700">Novo pagamento {reference}</span>;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b flex justify-between items-start gap-4">
+          <div>
+            <h3 className="text-xl font-bold">Importar Extrato Bancário</h3>
+            <p className="text-xs text-slate-500">
+              CSV dos bancos portugueses (CGD, Millennium, Santander, Novo Banco, BPI...) ou CAMT.053 (XML). Só os movimentos a crédito são considerados.
+            </p>
+          </div>
+          <button type="button" onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="p-4 border-b flex flex-wrap items-center gap-3">
+          <label className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-bold cursor-pointer hover:bg-blue-700">
+            {isParsing ? <RefreshCcw size={16} className="animate-spin" /> : <FileUp size={16} />} Escolher ficheiro
+            <input type="file" accept=".csv,.txt,.xml" className="hidden" onChange={handleFileChange} disabled={isParsing} />
+          </label>
+          <span className="text-xs text-slate-500">
+            {lines.length} movimento(s) por conciliar · {proposals.filter(p => p.clientId).length} com cliente identificado
+          </span>
+          {parseError && <span className="text-xs font-bold text-red-600">{parseError}</span>}
+        </div>
+
+        <div className="overflow-auto flex-1">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 sticky top-0">
+              <tr>
+                <th className="px-3 py-2"></th>
+                <th className="px-3 py-2">Data</th>
+                <th className="px-3 py-2">Descrição</th>
+                <th className="px-3 py-2 text-right">Valor</th>
+                <th className="px-3 py-2">Canal</th>
+                <th className="px-3 py-2">Cliente</th>
+                <th className="px-3 py-2">Proposta</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {proposals.length === 0 && (
+                <tr><td colSpan={8} className="px-4 py-8 text-center text-slate-400 italic">Não existem movimentos por conciliar.</td></tr>
+              )}
+              {proposals.map(proposal => {
+                const line = linesById.get(proposal.lineId);
+                if (!line) return null;
+                return (
+                  <tr key={line.id} className="hover:bg-slate-50">
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        className="rounded"
+                        disabled={!proposal.action}
+                        checked={Boolean(proposal.action) && !excludedLineIds.has(line.id)}
+                        onChange={() => toggleLine(line.id)}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-xs whitespace-nowrap">{new Date(`${line.statementDate}T00:00:00`).toLocaleDateString('pt-PT')}</td>
+                    <td className="px-3 py-2 text-xs max-w-xs truncate" title={line.description}>{line.description || '—'}</td>
+                    <td className="px-3 py-2 text-right font-bold">{line.amount.toFixed(2)}€</td>
+                    <td className="px-3 py-2 text-xs">{channelLabels[line.channel]}</td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={proposal.clientId || ''}
+                        onChange={event => setClientOverrides(prev => ({ ...prev, [line.id]: event.target.value || null }))}
+                        className="w-48 px-2 py-1 border rounded text-xs bg-white"
+                      >
+                        <option value="">Sem cliente</option>
+                        {clients.map(client => <option key={client.id} value={client.id}>{client.name}</option>)}
+                      </select>
+                      {proposal.matchedBy && (
+                        <span className="block text-[10px] text-slate-400 mt-0.5">por {matchedByLabels[proposal.matchedBy]}</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-xs">{describeProposal(proposal)}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button onClick={() => onIgnore(line.id)} className="text-xs text-slate-400 hover:text-red-500">Ignorar</button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 border-t flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm">Fechar</button>
+          <button
+            onClick={() => onApply(selectedProposals)}
+            disabled={isApplying || selectedProposals.length === 0}
+            className="bg-slate-900 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 hover:bg-black disabled:opacity-50"
+          >
+            {isApplying ? <RefreshCcw size={16} className="animate-spin" /> : <Check size={16} />} Aplicar {selectedProposals.length} movimento(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BankImportModal;
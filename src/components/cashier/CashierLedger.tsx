@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, ChevronDown, ChevronRight, Plus } from 'lucide-react';
+import { Client } from '../../types';
+import { ClientLedger } from '../../types/cashier';
+import { AGEING_BUCKETS } from '../../utils/cashierLedger';
+
+interface CashierLedgerProps {
+  clients: Client[];
+  ledgers: Map<string, ClientLedger>;
+  months: string[];
+  onBack: () => void;
+  onCreatePlan: (client: Client) => void;
+}
+
+const bucketClassName: Record<string, string> = {
+  '0-30': 'text-slate-700',
+  '31-60': 'text-amber-600',
+  '61-90': 'text-orange-600',
+  '90+': 'text-red-600',
+};
+
+const CashierLedger: React.FC<CashierLedgerProps> = ({ clients, ledgers, months, onBack, onCreatePlan }) => {
+  const [expandedClientId, setExpandedClientId] = useState<string | null>(null);
+
+  const rows = useMemo(() => (
+    clients
+      .map(client => ({ client, ledger: ledgers.get(client.id) }))
+      .filter((row): row is { client: Client; ledger: ClientLedger } => Boolean(row.ledger && row.ledger.totalOutstanding > 0))
+      .sort((a, b) => b.ledger.totalOutstanding - a.ledger.totalOutstanding)
+  ), [clients, ledgers]);
+
+  const totals = useMemo(() => {
+    const bucketTotals: Record<string, number> = { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+    let outstanding = 0;
+    rows.forEach(({ ledger }) => {
+      outstanding += ledger.totalOutstanding;
+      AGEING_BUCKETS.forEach(bucket => { bucketTotals[bucket] += ledger.buckets[bucket]; });
+    });
+    // Clients whose only balance is the current month are not in the rows, but their amount still shows.
+    const notYetDue = clients.reduce((sum, client) => sum + (ledgers.get(client.id)?.notYetDue || 0), 0);
+    return { outstanding, notYetDue, bucketTotals };
+  }, [rows, clients, ledgers]);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Mapa de Dívidas</h2>
+          <p className="text-sm text-slate-500">Valor esperado (avença em vigor com IVA) menos pagamentos registados, por antiguidade.</p>
+        </div>
+        <button onClick={onBack} className="flex items-center gap-2 text-slate-500 hover:text-slate-800 text-sm">
+          <ArrowLeft size={16}/> Voltar
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div className="p-4 rounded-xl bg-slate-900 text-white">
+          <p className="text-xs font-bold uppercase opacity-70">Total em dívida</p>
+          <p className="text-2xl font-black">{totals.outstanding.toFixed(2)}€</p>
+          <p className="text-xs opacity-70">{rows.length} cliente(s)</p>
+          {totals.notYetDue > 0 && <p className="text-xs opacity-70">+ {totals.notYetDue.toFixed(2)}€ do mês em curso</p>}
+        </div>
+        {AGEING_BUCKETS.map(bucket => (
+          <div key={bucket} className="p-4 rounded-xl bg-white border border-slate-100">
+            <p className="text-xs font-bold uppercase text-slate-500">{bucket} dias</p>
+            <p className={`text-2xl font-black ${bucketClassName[bucket]}`}>{totals.bucketTotals[bucket].toFixed(2)}€</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+            <tr>
+              <th className="px-4 py-3">Cliente</th>
+              <th className="px-4 py-3 text-right">Esperado</th>
+              <th className="px-4 py-3 text-right">Pago</th>
+              <th className="px-4 py-3 text-right">Em dívida</th>
+              {AGEING_BUCKETS.map(bucket => <th key={bucket} className="px-4 py-3 text-right">{bucket}</th>)}
+              <th className="px-4 py-3 text-right">Ações</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {rows.length === 0 && (
+              <tr><td colSpan={9} className="px-4 py-8 text-center text-slate-400 italic">Sem dívidas em aberto.</td></tr>
+            )}
+            {rows.map(({ client, ledger }) => {
+              const isExpanded = expandedClientId === client.id;
+              return (
+                <React.Fragment key={client.id}>
+                  <tr className="hover:bg-slate-50">
+                    <td className="px-4 py-3 font-bold text-slate-800">
+                      <button onClick={() => setExpandedClientId(isExpanded ? null : client.id)} className="flex items-center gap-1 hover:text-blue-600">
+                        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />} {client.name}
+                      </button>
+                    </td>
+                    <td className="px-4 py-3 text-right">{ledger.totalExpected.toFixed(2)}€</td>
+                    <td className="px-4 py-3 text-right text-green-600">{ledger.totalPaid.toFixed(2)}€</td>
+                    <td className="px-4 py-3 text-right font-black text-red-600">{ledger.totalOutstanding.toFixed(2)}€</td>
+                    {AGEING_BUCKETS.map(bucket => (
+                      <td key={bucket} className={`px-4 py-3 text-right ${ledger.buckets[bucket] > 0 ? `font-bold ${bucketClassName[bucket]}` : 'text-slate-300'}`}>
+                        {ledger.buckets[bucket] > 0 ? `${ledger.buckets[bucket].toFixed(2)}€` : '-'}
+                      </td>
+                    ))}
+                    <td className="px-4 py-3 text-right">
+                      <button onClick={() => onCreatePlan(client)} className="inline-flex items-center gap-1 text-xs font-bold text-blue-600 hover:underline">
+                        <Plus size={12} /> Acordo
+                      </button>
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr>
+                      <td colSpan={9} className="px-8 py-3 bg-slate-50">
+                        <div className="flex flex-wrap gap-2">
+                          {ledger.entries.filter(entry => entry.outstanding > 0).map(entry => (
+                            <span key={`${entry.year}-${entry.month}`} className="text-xs bg-white border border-slate-200 rounded px-2 py-1">
+                              {months[entry.month - 1]}/{entry.year}: <b className="text-red-600">{entry.outstanding.toFixed(2)}€</b>
+                              <span className="text-slate-400"> ({entry.daysOverdue} dias)</span>
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CashierLedger;
@@ -1,13 +1,17 @@
 import React from 'react';
 import { ArrowLeft, Printer } from 'lucide-react';
-import { CashOperation } from '../../types';
+import { CashOperation, Receipt } from '../../types';
 
 interface CashierReportProps {
   report: CashOperation;
   onBack: () => void;
+  receipts?: Receipt[];
+  issuingKey?: string | null;
+  onIssueReceipt?: (lineIndex: number) => void;
+  onOpenReceipt?: (receipt: Receipt) => void;
 }
 
-const CashierReport: React.FC<CashierReportProps> = ({ report, onBack }) => (
+const CashierReport: React.FC<CashierReportProps> = ({ report, onBack, receipts = [], issuingKey = null, onIssueReceipt, onOpenReceipt }) => (
   <div className="animate-fade-in bg-white min-h-screen absolute top-0 left-0 w-full z-50 p-6 print:p-0">
     <style>{`@page { size: A4; margin: 1cm; } @media print { .no-print { display: none !important; } body { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }`}</style>
     <div className="max-w-4xl mx-auto flex justify-between items-center mb-6 no-print border-b pb-4">
@@ -24,7 +28,7 @@ const CashierReport: React.FC<CashierReportProps> = ({ report, onBack }) => (
 
       <div className="grid grid-cols-3 gap-2 mb-4 text-center">
         <div className="bg-green-50 p-2 rounded-lg"><p className="text-[10px] font-bold uppercase text-green-700">Recebido (Numerário)</p><p className="text-lg font-bold">{report.reportDetails.filter(d => d.method === 'Numerário').reduce((sum, detail) => sum + detail.total, 0).toFixed(2)}€</p></div>
-        <div className="bg-blue-50 p-2 rounded-lg"><p className="text-[10px] font-bold uppercase text-blue-700">Recebido (MB Way)</p><p className="text-lg font-bold">{report.reportDetails.filter(d => d.method === 'MB Way').reduce((sum, detail) => sum + detail.total, 0).toFixed(2)}€</p></div>
+        <div className="bg-blue-50 p-2 rounded-lg"><p className="text-[10px] font-bold uppercase text-blue-700">Recebido (MB Way / Transf.)</p><p className="text-lg font-bold">{report.reportDetails.filter(d => d.method !== 'Numerário').reduce((sum, detail) => sum + detail.total, 0).toFixed(2)}€</p></div>
         <div className="bg-green-100 p-2 rounded-lg"><p className="text-[10px] font-bold uppercase text-green-800">Depósito (Numerário)</p><p className="text-lg font-bold">{report.depositedAmount.toFixed(2)}€</p></div>
         <div className="bg-orange-50 p-2 rounded-lg"><p className="text-[10px] font-bold uppercase text-orange-700">Gastos de Caixa</p><p className="text-lg font-bold">{report.spentAmount.toFixed(2)}€</p></div>
         <div className="bg-yellow-50 p-2 rounded-lg"><p className="text-[10px] font-bold uppercase text-yellow-700">Acertos</p><p className="text-lg font-bold">{(report.adjustmentAmount || 0).toFixed(2)}€</p></div>
@@ -40,17 +44,36 @@ const CashierReport: React.FC<CashierReportProps> = ({ report, onBack }) => (
             <th className="px-2 py-1">Método</th>
             <th className="px-2 py-1">Referência</th>
             <th className="px-2 py-1 text-right">Total (€)</th>
+            {onIssueReceipt && <th className="px-2 py-1 text-right">Recibo</th>}
           </tr>
         </thead>
         <tbody className="divide-y divide-slate-100">
-          {report.reportDetails.map((item, index) => (
-            <tr key={index}>
-              <td className="px-2 py-1 font-medium">{item.clientName}</td>
-              <td className={`px-2 py-1 font-bold ${item.method === 'MB Way' ? 'text-blue-600' : 'text-green-600'}`}>{item.method}</td>
-              <td className="px-2 py-1">{item.months.join(', ')}</td>
-              <td className="px-2 py-1 text-right font-bold">{item.total.toFixed(2)}</td>
-            </tr>
-          ))}
+          {report.reportDetails.map((item, index) => {
+            const receipt = receipts.find(r => r.status === 'issued' && r.cashOperationId === report.id && r.reportLineIndex === index);
+            return (
+              <tr key={index}>
+                <td className="px-2 py-1 font-medium">{item.clientName}</td>
+                <td className={`px-2 py-1 font-bold ${item.method !== 'Numerário' ? 'text-blue-600' : 'text-green-600'}`}>{item.method}</td>
+                <td className="px-2 py-1">{item.months.join(', ')}</td>
+                <td className="px-2 py-1 text-right font-bold">{item.total.toFixed(2)}</td>
+                {onIssueReceipt && (
+                  <td className="px-2 py-1 text-right">
+                    {receipt ? (
+                      <button onClick={() => onOpenReceipt?.(receipt)} className="font-bold text-blue-600 hover:underline">{receipt.documentNumber}</button>
+                    ) : (
+                      <button
+                        onClick={() => onIssueReceipt(index)}
+                        disabled={issuingKey !== null}
+                        className="no-print font-bold text-blue-600 hover:underline disabled:opacity-50"
+                      >
+                        {issuingKey === `${report.id}-${index}` ? 'A emitir...' : 'Emitir'}
+                      </button>
+                    )}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
         </tbody>
       </table>
     </div>
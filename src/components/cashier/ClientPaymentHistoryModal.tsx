@@ -20,7 +20,7 @@ const ClientPaymentHistoryModal: React.FC<ClientPaymentHistoryModalProps> = ({
     return cashOperations
       .map(operation => ({
         operation,
-        details: operation.reportDetails.filter(detail => detail.clientName === client.name),
+        details: operation.reportDetails.filter(detail => (detail.clientId ? detail.clientId === client.id : detail.clientName === client.name)),
       }))
       .filter(entry => entry.details.length > 0)
       .sort((a, b) => new Date(b.operation.createdAt).getTime() - new Date(a.operation.createdAt).getTime());
@@ -73,7 +73,7 @@ const ClientPaymentHistoryModal: React.FC<ClientPaymentHistoryModalProps> = ({
                     <div className="space-y-1">
                       {details.map((detail, index) => (
                         <div key={index} className="flex justify-between items-center text-sm">
-                          <span className={`font-bold text-xs ${detail.method === 'MB Way' ? 'text-blue-600' : 'text-green-600'}`}>
+                          <span className={`font-bold text-xs ${detail.method !== 'Numerário' ? 'text-blue-600' : 'text-green-600'}`}>
                             {detail.method}
                           </span>
                           <span className="text-slate-500 text-xs">{detail.months.join(', ')}</span>
@@ -6,6 +6,8 @@ export interface CloseRegisterSummary {
   mbWayTotal: number;
   numerarioCount: number;
   mbWayCount: number;
+  mbWayReconciledTotal: number;
+  mbWayReconciledCount: number;
   sessionExpensesTotal: number;
   deposit: number;
   mbWayDeposit: number;
@@ -38,6 +40,18 @@ const CloseRegisterModal: React.FC<CloseRegisterModalProps> = ({ summary, onConf
               <span className="flex items-center gap-2 text-slate-600"><CreditCard size={14} /> MB Way ({summary.mbWayCount} pag.)</span>
               <span className="font-bold text-slate-800">{summary.mbWayTotal.toFixed(2)} €</span>
             </div>
+            {summary.mbWayCount > 0 && (
+              <div className="pl-6 space-y-1 text-xs">
+                <div className="flex justify-between text-green-700">
+                  <span>Conciliado com extrato ({summary.mbWayReconciledCount})</span>
+                  <span className="font-bold">{summary.mbWayReconciledTotal.toFixed(2)} €</span>
+                </div>
+                <div className={`flex justify-between ${summary.mbWayTotal - summary.mbWayReconciledTotal > 0.01 ? 'text-amber-600' : 'text-slate-400'}`}>
+                  <span>Por conciliar ({summary.mbWayCount - summary.mbWayReconciledCount})</span>
+                  <span className="font-bold">{(summary.mbWayTotal - summary.mbWayReconciledTotal).toFixed(2)} €</span>
+                </div>
+              </div>
+            )}
             {summary.sessionExpensesTotal > 0 && (
               <div className="flex justify-between text-sm border-t border-slate-200 pt-2 mt-2">
                 <span className="flex items-center gap-2 text-slate-600"><DollarSign size={14} /> Saídas de Caixa</span>
@@ -9,6 +9,7 @@ interface PlanModalProps {
   selectedClientPlan: ClientPaymentPlan | null;
   displayedStatus: 'Ativo' | 'Anulado' | 'Concluido' | null;
   openDebt: number;
+  suggestedDebtAmount: number;
   groupClients: Client[];
   planForm: PlanFormState;
   months: string[];
@@ -26,6 +27,7 @@ const PlanModal: React.FC<PlanModalProps> = ({
   selectedClientPlan,
   displayedStatus,
   openDebt,
+  suggestedDebtAmount,
   groupClients,
   planForm,
   months,
@@ -70,6 +72,15 @@ const PlanModal: React.FC<PlanModalProps> = ({
           <div>
             <label className="block text-xs font-bold text-slate-500 mb-1">Valor da dívida do acordo (EUR)</label>
             <input type="number" min="0" step="0.01" value={planForm.debtAmount} onChange={event => onPlanFormChange(prev => ({ ...prev, debtAmount: event.target.value }))} className="w-full px-3 py-2 border rounded-lg text-sm" placeholder="0.00" />
+            {suggestedDebtAmount > 0 && (
+              <button
+                type="button"
+                onClick={() => onPlanFormChange(prev => ({ ...prev, debtAmount: suggestedDebtAmount.toFixed(2) }))}
+                className="mt-1 text-[11px] font-bold text-blue-600 hover:underline"
+              >
+                Usar dívida apurada: {suggestedDebtAmount.toFixed(2)} EUR
+              </button>
+            )}
           </div>
           <div>
             <label className="block text-xs font-bold text-slate-500 mb-1">Acordo até ao mês</label>
@@ -0,0 +1,111 @@
+import React from 'react';
+import { ArrowLeft, Ban, Mail, Printer, RefreshCcw } from 'lucide-react';
+import { Receipt } from '../../types';
+import { getReceiptVatBreakdown } from '../../utils/receiptDocument';
+
+interface ReceiptDocumentProps {
+  receipt: Receipt;
+  logoUrl: string;
+  officeName: string;
+  officeEmail: string;
+  isEmailing: boolean;
+  onBack: () => void;
+  onEmail: (receipt: Receipt) => void;
+  onVoid: (receipt: Receipt) => void;
+}
+
+const ReceiptDocument: React.FC<ReceiptDocumentProps> = ({ receipt, logoUrl, officeName, officeEmail, isEmailing, onBack, onEmail, onVoid }) => {
+  const { net, vat, total } = getReceiptVatBreakdown(receipt);
+  const isVoided = receipt.status === 'voided';
+
+  return (
+    <div className="animate-fade-in bg-white min-h-screen absolute top-0 left-0 w-full z-50 p-6 print:p-0">
+      <style>{`@page { size: A4; margin: 1.5cm; } @media print { .no-print { display: none !important; } body { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }`}</style>
+      <div className="max-w-3xl mx-auto flex justify-between items-center mb-6 no-print border-b pb-4">
+        <button onClick={onBack} className="flex items-center gap-2 text-slate-500 hover:text-slate-800">
+          <ArrowLeft size={20}/> Voltar
+        </button>
+        <div className="flex items-center gap-2">
+          {!isVoided && (
+            <>
+              <button onClick={() => onVoid(receipt)} className="px-4 py-2 rounded-lg flex items-center gap-2 text-red-600 border border-red-200 hover:bg-red-50 font-bold text-sm">
+                <Ban size={16}/> Anular
+              </button>
+              <button onClick={() => onEmail(receipt)} disabled={isEmailing} className="px-4 py-2 rounded-lg flex items-center gap-2 text-slate-700 border border-slate-200 hover:bg-slate-50 font-bold text-sm disabled:opacity-50">
+                {isEmailing ? <RefreshCcw size={16} className="animate-spin"/> : <Mail size={16}/>} Enviar por email
+              </button>
+            </>
+          )}
+          <button onClick={() => window.print()} className="bg-blue-600 text-white px-6 py-2 rounded-lg flex items-center gap-2 hover:bg-blue-700 font-bold">
+            <Printer size={20}/> Imprimir / PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto bg-white p-6 print:p-0 relative">
+        {isVoided && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <span className="text-8xl font-black text-red-500/20 -rotate-12 border-8 border-red-500/20 px-8">ANULADO</span>
+          </div>
+        )}
+
+        <div className="flex justify-between items-start border-b-2 border-slate-800 pb-4 mb-6">
+          <div className="flex items-center gap-4">
+            {logoUrl && <img src={logoUrl} alt={officeName} className="h-16 object-contain" />}
+            <div>
+              <p className="text-lg font-bold text-slate-800">{officeName}</p>
+              {officeEmail && <p className="text-xs text-slate-500">{officeEmail}</p>}
+            </div>
+          </div>
+          <div className="text-right">
+            <p className="text-2xl font-black text-slate-800">RECIBO</p>
+            <p className="text-sm font-bold text-slate-600">{receipt.documentNumber}</p>
+            <p className="text-xs text-slate-500">Data: {new Date(receipt.issuedAt).toLocaleDateString('pt-PT')}</p>
+          </div>
+        </div>
+
+        <div className="mb-6">
+          <p className="text-[10px] font-bold uppercase text-slate-400">Recebemos de</p>
+          <p className="font-bold text-slate-800">{receipt.clientName}</p>
+          {receipt.clientNif && <p className="text-sm text-slate-600">NIF: {receipt.clientNif}</p>}
+          {receipt.clientAddress && <p className="text-sm text-slate-600">{receipt.clientAddress}</p>}
+        </div>
+
+        <table className="w-full text-sm text-left mb-6">
+          <thead className="text-[10px] text-slate-500 uppercase bg-slate-50">
+            <tr>
+              <th className="px-3 py-2">Descrição</th>
+              <th className="px-3 py-2">Meio de pagamento</th>
+              <th className="px-3 py-2 text-right">Valor (€)</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-slate-100">
+              <td className="px-3 py-2">{receipt.description}</td>
+              <td className="px-3 py-2">{receipt.paymentMethod}</td>
+              <td className="px-3 py-2 text-right">{total.toFixed(2)}</td>
+            </tr>
+          </tbody>
+        </table>
+
+        <div className="ml-auto w-64 space-y-1 text-sm">
+          <div className="flex justify-between"><span className="text-slate-500">Base tributável</span><span>{net.toFixed(2)} €</span></div>
+          <div className="flex justify-between"><span className="text-slate-500">IVA ({receipt.vatRate}%)</span><span>{vat.toFixed(2)} €</span></div>
+          <div className="flex justify-between border-t border-slate-800 pt-1 font-bold text-base"><span>Total pago</span><span>{total.toFixed(2)} €</span></div>
+        </div>
+
+        {isVoided && (
+          <p className="mt-8 text-xs text-red-600">
+            Recibo anulado em {receipt.voidedAt ? new Date(receipt.voidedAt).toLocaleString('pt-PT') : '—'}
+            {receipt.voidedBy ? ` por ${receipt.voidedBy}` : ''}. Motivo: {receipt.voidReason}
+          </p>
+        )}
+        {receipt.emailedAt && (
+          <p className="mt-2 text-[10px] text-slate-400 no-print">Enviado para {receipt.emailedTo} em {new Date(receipt.emailedAt).toLocaleString('pt-PT')}.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptDocument;
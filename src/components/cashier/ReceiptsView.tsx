@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, FileText, RefreshCcw } from 'lucide-react';
+import { CashPayment, Client, Receipt } from '../../types';
+
+interface ReceiptsViewProps {
+  receipts: Receipt[];
+  clients: Client[];
+  payments: CashPayment[];
+  year: number;
+  getPaymentLabel: (payment: CashPayment) => string;
+  issuingKey: string | null;
+  onBack: () => void;
+  onOpenReceipt: (receipt: Receipt) => void;
+  onIssueForPayment: (payment: CashPayment) => void;
+}
+
+const ReceiptsView: React.FC<ReceiptsViewProps> = ({
+  receipts,
+  clients,
+  payments,
+  year,
+  getPaymentLabel,
+  issuingKey,
+  onBack,
+  onOpenReceipt,
+  onIssueForPayment,
+}) => {
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const filteredReceipts = useMemo(() => {
+    const search = searchTerm.trim().toLowerCase();
+    if (!search) return receipts;
+    return receipts.filter(receipt =>
+      receipt.documentNumber.toLowerCase().includes(search) ||
+      receipt.clientName.toLowerCase().includes(search) ||
+      (receipt.clientNif || '').includes(search)
+    );
+  }, [receipts, searchTerm]);
+
+  const paymentsWithoutReceipt = useMemo(() => {
+    const coveredPaymentIds = new Set(
+      receipts.filter(receipt => receipt.status === 'issued' && receipt.cashPaymentId).map(receipt => receipt.cashPaymentId as string)
+    );
+    const clientIds = new Set(clients.map(client => client.id));
+    return payments
+      .filter(payment => payment.paymentYear === year && clientIds.has(payment.clientId) && !coveredPaymentIds.has(payment.id))
+      .sort((a, b) => (b.paidAt || '').localeCompare(a.paidAt || ''));
+  }, [receipts, payments, clients, year]);
+
+  const clientNameById = useMemo(() => new Map(clients.map(client => [client.id, client.name])), [clients]);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Recibos</h2>
+          <p className="text-sm text-slate-500">Numeração sequencial por série e ano. Os recibos não são apagados, apenas anulados.</p>
+        </div>
+        <button onClick={onBack} className="flex items-center gap-2 text-slate-500 hover:text-slate-800 text-sm">
+          <ArrowLeft size={16}/> Voltar
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-4 border-b flex justify-between items-center gap-3">
+          <h3 className="font-bold text-slate-800">Recibos emitidos</h3>
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={event => setSearchTerm(event.target.value)}
+            placeholder="Pesquisar número, cliente ou NIF"
+            className="px-3 py-2 border border-slate-200 rounded-lg text-sm w-72"
+          />
+        </div>
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+            <tr>
+              <th className="px-4 py-3">Número</th>
+              <th className="px-4 py-3">Data</th>
+              <th className="px-4 py-3">Cliente</th>
+              <th className="px-4 py-3">Descrição</th>
+              <th className="px-4 py-3 text-right">Valor</th>
+              <th className="px-4 py-3">Estado</th>
+              <th className="px-4 py-3 text-right">Ações</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {filteredReceipts.length === 0 && (
+              <tr><td colSpan={7} className="px-4 py-8 text-center text-slate-400 italic">Sem recibos emitidos.</td></tr>
+            )}
+            {filteredReceipts.map(receipt => (
+              <tr key={receipt.id} className="hover:bg-slate-50">
+                <td className="px-4 py-3 font-bold text-slate-800 whitespace-nowrap">{receipt.documentNumber}</td>
+                <td className="px-4 py-3 text-xs">{new Date(receipt.issuedAt).toLocaleDateString('pt-PT')}</td>
+                <td className="px-4 py-3">{receipt.clientName}</td>
+                <td className="px-4 py-3 text-xs text-slate-500">{receipt.description}</td>
+                <td className="px-4 py-3 text-right font-bold">{receipt.amount.toFixed(2)}€</td>
+                <td className="px-4 py-3">
+                  {receipt.status === 'voided'
+                    ? <span className="text-[10px] font-bold uppercase bg-red-50 text-red-600 px-2 py-0.5 rounded" title={receipt.voidReason || ''}>Anulado</span>
+                    : <span className="text-[10px] font-bold uppercase bg-green-50 text-green-700 px-2 py-0.5 rounded">Emitido</span>}
+                  {receipt.emailedAt && <span className="ml-1 text-[10px] text-slate-400">enviado</span>}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <button onClick={() => onOpenReceipt(receipt)} className="text-xs font-bold text-blue-600 hover:underline">Abrir</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-4 border-b">
+          <h3 className="font-bold text-slate-800">Pagamentos de {year} sem recibo</h3>
+        </div>
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+            <tr>
+              <th className="px-4 py-3">Data</th>
+              <th className="px-4 py-3">Cliente</th>
+              <th className="px-4 py-3">Referência</th>
+              <th className="px-4 py-3">Método</th>
+              <th className="px-4 py-3 text-right">Valor</th>
+              <th className="px-4 py-3 text-right">Ações</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {paymentsWithoutReceipt.length === 0 && (
+              <tr><td colSpan={6} className="px-4 py-8 text-center text-slate-400 italic">Todos os pagamentos têm recibo.</td></tr>
+            )}
+            {paymentsWithoutReceipt.map(payment => (
+              <tr key={payment.id} className="hover:bg-slate-50">
+                <td className="px-4 py-3 text-xs">{payment.paidAt ? new Date(payment.paidAt).toLocaleDateString('pt-PT') : '—'}</td>
+                <td className="px-4 py-3">{clientNameById.get(payment.clientId) || '—'}</td>
+                <td className="px-4 py-3 text-xs">{getPaymentLabel(payment)}</td>
+                <td className={`px-4 py-3 text-xs font-bold ${payment.paymentMethod !== 'Numerário' ? 'text-blue-600' : 'text-green-600'}`}>{payment.paymentMethod}</td>
+                <td className="px-4 py-3 text-right font-bold">{payment.amountPaid.toFixed(2)}€</td>
+                <td className="px-4 py-3 text-right">
+                  <button
+                    onClick={() => onIssueForPayment(payment)}
+                    disabled={issuingKey !== null}
+                    className="inline-flex items-center gap-1 text-xs font-bold text-blue-600 hover:underline disabled:opacity-50"
+                  >
+                    {issuingKey === payment.id ? <RefreshCcw size={12} className="animate-spin" /> : <FileText size={12} />} Emitir recibo
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptsView;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check, Download, FileCode, X } from 'lucide-react';
+import { SaftBillingExport } from '../../types/cashier';
+import { encodeWindows1252 } from '../../utils/internalBillingExport';
+import { validateSaftAuditFile } from '../../utils/saftSchema';
+
+interface SaftExportModalProps {
+  isOpen: boolean;
+  // Office tax identity fields still missing in Configurações.
+  missingCompanyFields: string[];
+  onBuild: (startDate: string, endDate: string) => SaftBillingExport;
+  onClose: () => void;
+}
+
+const toDateInput = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const getPreviousMonthRange = () => {
+  const today = new Date();
+  return {
+    start: toDateInput(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+    end: toDateInput(new Date(today.getFullYear(), today.getMonth(), 0)),
+  };
+};
+
+const MAX_VISIBLE_ERRORS = 25;
+
+const SaftExportModal: React.FC<SaftExportModalProps> = ({ isOpen, missingCompanyFields, onBuild, onClose }) => {
+  const [startDate, setStartDate] = useState(() => getPreviousMonthRange().start);
+  const [endDate, setEndDate] = useState(() => getPreviousMonthRange().end);
+  const [result, setResult] = useState<SaftBillingExport | null>(null);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [buildError, setBuildError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const resetResult = () => {
+    setResult(null);
+    setValidationErrors([]);
+    setBuildError(null);
+  };
+
+  const handleGenerate = () => {
+    resetResult();
+    try {
+      const exported = onBuild(startDate, endDate);
+      setResult(exported);
+      setValidationErrors(validateSaftAuditFile(exported.xml));
+    } catch (err: any) {
+      setBuildError(err?.message || 'Erro ao gerar o ficheiro de faturação.');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    const blob = new Blob([encodeWindows1252(result.xml)], { type: 'application/xml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = result.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b flex justify-between items-start gap-4">
+          <div>
+            <h3 className="text-xl font-bold">Exportação Interna de Faturação (XML)</h3>
+            <p className="text-xs text-slate-500">
+              Segue o formato do SAF-T (PT) de faturação. Cada recibo emitido no período é exportado com o número atribuído na emissão.
+            </p>
+          </div>
+          <button type="button" onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-auto">
+          <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-xs text-red-800 flex gap-2">
+            <AlertTriangle size={16} className="shrink-0" />
+            <span>
+              Ficheiro para controlo interno, <strong>não é um SAF-T certificado</strong>: os recibos não são emitidos por programa certificado
+              (sem assinatura nem ATCUD) e aparecem como faturas-recibo. Não o submeta no Portal das Finanças.
+            </span>
+          </div>
+          {missingCompanyFields.length > 0 && (
+            <div className="p-3 rounded-lg bg-amber-50 border border-amber-200 text-xs text-amber-800 flex gap-2">
+              <AlertTriangle size={16} className="shrink-0" />
+              <span>Preencha em Configurações os dados fiscais do gabinete: {missingCompanyFields.join(', ')}.</span>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">De</label>
+              <input type="date" value={startDate} onChange={e => { setStartDate(e.target.value); resetResult(); }} className="px-3 py-2 border rounded-lg text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Até</label>
+              <input type="date" value={endDate} onChange={e => { setEndDate(e.target.value); resetResult(); }} className="px-3 py-2 border rounded-lg text-sm" />
+            </div>
+            <button
+              onClick={handleGenerate}
+              disabled={missingCompanyFields.length > 0}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <FileCode size={16} /> Gerar e validar
+            </button>
+          </div>
+
+          {buildError && <p className="text-sm font-bold text-red-600">{buildError}</p>}
+
+          {result && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-center">
+                <div className="p-3 rounded-lg bg-slate-50"><p className="text-[10px] uppercase font-bold text-slate-400">Documentos</p><p className="font-bold">{result.invoiceCount}</p></div>
+                <div className="p-3 rounded-lg bg-slate-50"><p className="text-[10px] uppercase font-bold text-slate-400">Clientes</p><p className="font-bold">{result.customerCount}</p></div>
+                <div className="p-3 rounded-lg bg-slate-50"><p className="text-[10px] uppercase font-bold text-slate-400">Base</p><p className="font-bold">{result.netTotal.toFixed(2)}€</p></div>
+                <div className="p-3 rounded-lg bg-slate-50"><p className="text-[10px] uppercase font-bold text-slate-400">IVA</p><p className="font-bold">{result.taxTotal.toFixed(2)}€</p></div>
+                <div className="p-3 rounded-lg bg-slate-50"><p className="text-[10px] uppercase font-bold text-slate-400">Total</p><p className="font-bold">{result.grossTotal.toFixed(2)}€</p></div>
+              </div>
+
+              {validationErrors.length === 0 ? (
+                <p className="text-sm font-bold text-green-700 flex items-center gap-2"><Check size={16} /> Estrutura XML conforme o formato de faturação do SAF-T (PT).</p>
+              ) : (
+                <div className="p-3 rounded-lg bg-red-50 border border-red-200">
+                  <p className="text-sm font-bold text-red-700 mb-2">{validationErrors.length} erro(s) de validação</p>
+                  <ul className="text-xs text-red-700 space-y-1 list-disc pl-4">
+                    {validationErrors.slice(0, MAX_VISIBLE_ERRORS).map((error, index) => <li key={index}>{error}</li>)}
+                  </ul>
+                  {validationErrors.length > MAX_VISIBLE_ERRORS && (
+                    <p className="text-xs text-red-500 mt-2">+ {validationErrors.length - MAX_VISIBLE_ERRORS} erro(s) adicionais.</p>
+                  )}
+                </div>
+              )}
+
+              {result.warnings.length > 0 && (
+                <div className="p-3 rounded-lg bg-amber-50 border border-amber-200">
+                  <p className="text-sm font-bold text-amber-800 mb-2">Avisos</p>
+                  <ul className="text-xs text-amber-800 space-y-1 list-disc pl-4">
+                    {result.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm">Fechar</button>
+          <button
+            onClick={handleDownload}
+            disabled={!result || validationErrors.length > 0}
+            className="bg-slate-900 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 hover:bg-black disabled:opacity-50"
+          >
+            <Download size={16} /> Descarregar XML
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaftExportModal;
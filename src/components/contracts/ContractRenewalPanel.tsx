@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Client, ContractTemplate, FeeGroup, ServiceContract } from '../../types';
+import { CONTRACT_STATUS_LABELS, getNextContractPeriod } from '../../services';
+import { toIsoDate } from '../../services/fiscalCalendar';
+import { DEFAULT_CONTRACT_TEMPLATE_NAME } from '../../utils/contractDocument';
+import { ContractGenerationRequest } from './ContractsView';
+import { CalendarClock, FilePlus, RefreshCcw } from 'lucide-react';
+
+interface ContractRenewalPanelProps {
+  clients: Client[];
+  groups: FeeGroup[];
+  templates: ContractTemplate[];
+  latestByClient: Map<string, ServiceContract>;
+  onGenerate: (requests: ContractGenerationRequest[]) => Promise<number>;
+  onGenerated: () => void;
+}
+
+const RENEWAL_WINDOWS = [30, 60, 90, 180];
+
+const ContractRenewalPanel: React.FC<ContractRenewalPanelProps> = ({ clients, groups, templates, latestByClient, onGenerate, onGenerated }) => {
+  const [groupId, setGroupId] = useState('all');
+  const [windowDays, setWindowDays] = useState(60);
+  const [templateId, setTemplateId] = useState(templates[0]?.id || '');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [feeOverrides, setFeeOverrides] = useState<Record<string, number>>({});
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const selectedGroup = groups.find(group => group.id === groupId);
+
+  // Clients whose renewal date falls within the window (overdue renewals included).
+  const candidates = useMemo(() => {
+    const limit = new Date();
+    limit.setDate(limit.getDate() + windowDays);
+    const limitIso = toIsoDate(limit);
+
+    return clients
+      .filter(client => client.status !== 'Cancelado' && client.status !== 'Inativo')
+      .filter(client => !selectedGroup || selectedGroup.clientIds.includes(client.id))
+      .filter(client => !!client.contractRenewalDate && client.contractRenewalDate.slice(0, 10) <= limitIso)
+      .map(client => {
+        const period = getNextContractPeriod(client);
+        const feeGroup = selectedGroup
+          || groups.find(group => group.clientIds.includes(client.id) && group.proposed_fees?.[client.id] != null);
+        const proposedFee = feeGroup?.proposed_fees?.[client.id];
+        const latest = latestByClient.get(client.id);
+        return {
+          client,
+          ...period,
+          feeGroup: proposedFee != null ? feeGroup! : null,
+          proposedFee: proposedFee ?? client.monthlyFee,
+          existing: latest && latest.periodStart >= period.periodStart ? latest : null,
+        };
+      })
+      .sort((a, b) => a.periodStart.localeCompare(b.periodStart) || a.client.name.localeCompare(b.client.name, 'pt-PT'));
+  }, [clients, groups, selectedGroup, windowDays, latestByClient]);
+
+  const candidatesKey = candidates.map(candidate => `${candidate.client.id}:${candidate.existing?.id || ''}`).join(',');
+  useEffect(() => {
+    setSelected(new Set(candidates.filter(candidate => !candidate.existing).map(candidate => candidate.client.id)));
+    setFeeOverrides({});
+  }, [candidatesKey]);
+
+  const selectedCandidates = candidates.filter(candidate => selected.has(candidate.client.id));
+  const newFee = (candidate: typeof candidates[number]) => feeOverrides[candidate.client.id] ?? candidate.proposedFee;
+  const currentTotal = selectedCandidates.reduce((sum, candidate) => sum + candidate.client.monthlyFee, 0);
+  const newTotal = selectedCandidates.reduce((sum, candidate) => sum + newFee(candidate), 0);
+
+  const toggle = (clientId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(clientId)) next.delete(clientId);
+      else next.add(clientId);
+      return next;
+    });
+  };
+
+  const handleGenerate = async () => {
+    if (selectedCandidates.length === 0) return;
+    if (!confirm(`Gerar ${selectedCandidates.length} contrato(s) de renovação?`)) return;
+    setIsGenerating(true);
+    try {
+      const count = await onGenerate(selectedCandidates.map(candidate => ({
+        client: candidate.client,
+        templateId: templateId || null,
+        periodStart: candidate.periodStart,
+        periodEnd: candidate.periodEnd,
+        monthlyFee: newFee(candidate),
+        feeGroupId: candidate.feeGroup?.id || null,
+        notes: candidate.feeGroup ? `Renovação · ${candidate.feeGroup.name}` : 'Renovação',
+      })));
+      if (count > 0) {
+        alert(`${count} contrato(s) gerado(s). A avença e a data de renovação do cliente são atualizadas quando o contrato for marcado como assinado.`);
+        onGenerated();
+      }
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex flex-wrap items-center gap-3">
+        <select value={groupId} onChange={e => setGroupId(e.target.value)} className="px-3 py-2 border border-slate-200 rounded-lg text-xs font-medium bg-white">
+          <option value="all">Todos os clientes</option>
+          {groups.map(group => <option key={group.id} value={group.id}>{group.name}</option>)}
+        </select>
+        <select value={windowDays} onChange={e => setWindowDays(Number(e.target.value))} className="px-3 py-2 border border-slate-200 rounded-lg text-xs font-medium bg-white">
+          {RENEWAL_WINDOWS.map(days => <option key={days} value={days}>Renovam nos próximos {days} dias</option>)}
+        </select>
+        <select value={templateId} onChange={e => setTemplateId(e.target.value)} className="px-3 py-2 border border-slate-200 rounded-lg text-xs font-medium bg-white">
+          {templates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+          <option value="">{DEFAULT_CONTRACT_TEMPLATE_NAME} (modelo base)</option>
+        </select>
+        <div className="md:ml-auto flex items-center gap-3">
+          <span className="text-xs text-slate-500">
+            {selectedCandidates.length} selecionados · {currentTotal.toFixed(2)}€ → <b className="text-slate-700">{newTotal.toFixed(2)}€</b>/mês
+          </span>
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating || selectedCandidates.length === 0}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isGenerating ? <RefreshCcw size={14} className="animate-spin" /> : <FilePlus size={14} />} Gerar Contratos
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+            <tr>
+              <th className="px-4 py-3 w-8"></th>
+              <th className="px-4 py-3">Cliente</th>
+              <th className="px-4 py-3">Renovação</th>
+              <th className="px-4 py-3">Novo período</th>
+              <th className="px-4 py-3 text-right">Avença atual</th>
+              <th className="px-4 py-3 text-right">Nova avença</th>
+              <th className="px-4 py-3">Origem</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {candidates.map(candidate => {
+              const { client, existing } = candidate;
+              const isOverdue = candidate.periodStart < toIsoDate(new Date());
+              const fee = newFee(candidate);
+              const delta = fee - client.monthlyFee;
+              return (
+                <tr key={client.id} className={existing ? 'opacity-60' : 'hover:bg-slate-50'}>
+                  <td className="px-4 py-3">
+                    <input type="checkbox" checked={selected.has(client.id)} onChange={() => toggle(client.id)} className="rounded text-blue-600" />
+                  </td>
+                  <td className="px-4 py-3 font-medium text-slate-800">
+                    {client.name}
+                    {existing && <span className="block text-[11px] font-normal text-slate-500">Já gerado v{existing.version} · {CONTRACT_STATUS_LABELS[existing.status]}</span>}
+                  </td>
+                  <td className={`px-4 py-3 whitespace-nowrap ${isOverdue ? 'text-red-600 font-bold' : 'text-slate-600'}`}>
+                    {new Date(`${candidate.periodStart}T00:00:00`).toLocaleDateString('pt-PT')}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-slate-500 whitespace-nowrap">
+                    até {new Date(`${candidate.periodEnd}T00:00:00`).toLocaleDateString('pt-PT')}
+                  </td>
+                  <td className="px-4 py-3 text-right text-slate-600">{client.monthlyFee.toFixed(2)}€</td>
+                  <td className="px-4 py-3 text-right">
+                    <input
+                      type="number"
+                      value={fee}
+                      onChange={e => setFeeOverrides(prev => ({ ...prev, [client.id]: parseFloat(e.target.value) || 0 }))}
+                      className="w-24 px-2 py-1 border rounded text-right text-sm font-bold"
+                    />
+                    {Math.abs(delta) >= 0.01 && (
+                      <span className={`block text-[10px] ${delta > 0 ? 'text-green-600' : 'text-red-600'}`}>{delta > 0 ? '+' : ''}{delta.toFixed(2)}€</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-slate-500">{candidate.feeGroup ? `Proposta · ${candidate.feeGroup.name}` : 'Avença atual'}</td>
+                </tr>
+              );
+            })}
+            {candidates.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-6 py-12 text-center text-slate-400 italic">
+                  <CalendarClock size={20} className="inline mr-2" />Sem clientes a renovar no período selecionado.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ContractRenewalPanel;
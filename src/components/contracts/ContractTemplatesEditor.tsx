@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ContractTemplate } from '../../types';
+import { contractTemplateService } from '../../services';
+import { CONTRACT_PLACEHOLDERS, DEFAULT_CONTRACT_TEMPLATE_BODY, DEFAULT_CONTRACT_TEMPLATE_NAME } from '../../utils/contractDocument';
+import { FileText, Plus, RefreshCcw, Save, Trash2 } from 'lucide-react';
+
+interface ContractTemplatesEditorProps {
+  templates: ContractTemplate[];
+  setTemplates: React.Dispatch<React.SetStateAction<ContractTemplate[]>>;
+}
+
+type TemplateDraft = Omit<ContractTemplate, 'id' | 'updatedAt'> & { id?: string };
+
+const ContractTemplatesEditor: React.FC<ContractTemplatesEditorProps> = ({ templates, setTemplates }) => {
+  const [draft, setDraft] = useState<TemplateDraft | null>(templates[0] ? { ...templates[0] } : null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startNew = () => setDraft({ name: templates.length === 0 ? DEFAULT_CONTRACT_TEMPLATE_NAME : '', body: DEFAULT_CONTRACT_TEMPLATE_BODY });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.body.trim()) {
+      alert('Indique o nome e o texto do modelo.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const saved = await contractTemplateService.save(draft);
+      setTemplates(prev => (prev.some(item => item.id === saved.id) ? prev.map(item => item.id === saved.id ? saved : item) : [...prev, saved])
+        .sort((a, b) => a.name.localeCompare(b.name, 'pt-PT')));
+      setDraft({ ...saved });
+    } catch (err: any) {
+      alert(`Erro ao guardar o modelo: ${err?.message || err}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft?.id || !confirm(`Eliminar o modelo "${draft.name}"? Os contratos já gerados mantêm o seu documento.`)) return;
+    try {
+      await contractTemplateService.delete(draft.id);
+      setTemplates(prev => prev.filter(item => item.id !== draft.id));
+      setDraft(null);
+    } catch (err: any) {
+      alert(`Erro ao eliminar o modelo: ${err?.message || err}`);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-4 space-y-2 h-fit">
+        <button onClick={startNew} className="w-full bg-blue-600 text-white px-3 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 hover:bg-blue-700">
+          <Plus size={14} /> Novo Modelo
+        </button>
+        {templates.map(template => (
+          <button
+            key={template.id}
+            onClick={() => setDraft({ ...template })}
+            className={`w-full text-left px-3 py-2 rounded-lg text-sm flex items-center gap-2 ${draft?.id === template.id ? 'bg-blue-50 text-blue-700 font-bold' : 'text-slate-600 hover:bg-slate-50'}`}
+          >
+            <FileText size={14} /> {template.name}
+          </button>
+        ))}
+        {templates.length === 0 && (
+          <p className="text-xs text-slate-400 italic">Sem modelos guardados: os contratos usam o modelo base.</p>
+        )}
+      </div>
+
+      <div className="lg:col-span-3 bg-white rounded-xl shadow-sm border border-slate-100 p-4 space-y-4">
+        {draft ? (
+          <>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Nome</label>
+              <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className="w-full px-3 py-2 border rounded-lg text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Texto do contrato</label>
+              <textarea value={draft.body} onChange={e => setDraft({ ...draft, body: e.target.value })} rows={20} className="w-full px-3 py-2 border rounded-lg text-sm font-mono" />
+              <p className="text-[11px] text-slate-400 mt-1">
+                Linhas em branco separam parágrafos e "## " inicia um título. Um parágrafo apenas com {'{{ambito_servicos}}'} é substituído pela lista de tarefas do cliente.
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(CONTRACT_PLACEHOLDERS).map(([key, label]) => (
+                <span key={key} title={label} className="text-[11px] font-mono px-2 py-0.5 rounded bg-slate-100 text-slate-600">{`{{${key}}}`}</span>
+              ))}
+            </div>
+            <div className="flex justify-between gap-3 pt-2 border-t">
+              {draft.id ? (
+                <button onClick={handleDelete} className="px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg text-sm flex items-center gap-2"><Trash2 size={14} /> Eliminar</button>
+              ) : <span />}
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? <RefreshCcw size={16} className="animate-spin" /> : <Save size={16} />} Guardar
+              </button>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-slate-400 italic py-12 text-center">Selecione um modelo ou crie um novo a partir do modelo base.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ContractTemplatesEditor;
@@ -0,0 +1,363 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Client, ContractStatus, ContractTemplate, FeeGroup, GlobalSettings, ServiceContract, Staff, Task } from '../../types';
+import { CONTRACT_STATUS_LABELS, contractService, contractTemplateService, isContractExpired } from '../../services';
+import { resolveProposalCompany } from '../../services/quoteProposal';
+import { toIsoDate } from '../../services/fiscalCalendar';
+import { DEFAULT_CONTRACT_TEMPLATE_BODY, buildContractHtml } from '../../utils/contractDocument';
+import GenerateContractModal from './GenerateContractModal';
+import ContractRenewalPanel from './ContractRenewalPanel';
+import ContractTemplatesEditor from './ContractTemplatesEditor';
+import { ExternalLink, FilePlus, FileSignature, RefreshCcw, Search } from 'lucide-react';
+
+interface ContractsViewProps {
+  clients: Client[];
+  setClients: React.Dispatch<React.SetStateAction<Client[]>>;
+  groups: FeeGroup[];
+  tasks: Task[];
+  staff: Staff[];
+  globalSettings: GlobalSettings;
+  canApplyFees: boolean;
+  onSelectClient?: (client: Client) => void;
+}
+
+export interface ContractGenerationRequest {
+  client: Client;
+  templateId: string | null;
+  periodStart: string;
+  periodEnd: string;
+  monthlyFee: number;
+  feeGroupId: string | null;
+  notes: string;
+}
+
+export const CONTRACT_STATUS_STYLES: Record<ContractStatus | 'expired', string> = {
+  draft: 'bg-slate-100 text-slate-600',
+  sent: 'bg-blue-100 text-blue-700',
+  signed: 'bg-green-100 text-green-700',
+  cancelled: 'bg-red-100 text-red-600',
+  expired: 'bg-amber-100 text-amber-700',
+};
+
+type ContractsTab = 'contracts' | 'renewals' | 'templates';
+
+const addDays = (iso: string, days: number) => {
+  const date = new Date(`${iso}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return toIsoDate(date);
+};
+
+const ContractsView: React.FC<ContractsViewProps> = ({ clients, setClients, groups, tasks, staff, globalSettings, canApplyFees, onSelectClient }) => {
+  const [tab, setTab] = useState<ContractsTab>('contracts');
+  const [contracts, setContracts] = useState<ServiceContract[]>([]);
+  const [templates, setTemplates] = useState<ContractTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<'all' | 'expired' | ContractStatus>('all');
+  const [search, setSearch] = useState('');
+  const [isGenerateOpen, setIsGenerateOpen] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const todayIso = toIsoDate(new Date());
+  const clientsById = useMemo(() => new Map(clients.map(client => [client.id, client])), [clients]);
+
+  useEffect(() => {
+    let isMounted = true;
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const [contractsData, templatesData] = await Promise.all([contractService.getAll(), contractTemplateService.getAll()]);
+        if (isMounted) {
+          setContracts(contractsData);
+          setTemplates(templatesData);
+        }
+      } catch (err) {
+        console.error('Erro ao carregar contratos:', err);
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+    load();
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  // Latest non-cancelled version per client, used by the renewal panel to skip clients already renewed.
+  const latestByClient = useMemo(() => {
+    const latest = new Map<string, ServiceContract>();
+    contracts.forEach(contract => {
+      if (contract.status === 'cancelled') return;
+      const current = latest.get(contract.clientId);
+      if (!current || contract.version > current.version) latest.set(contract.clientId, contract);
+    });
+    return latest;
+  }, [contracts]);
+
+  const rows = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return contracts
+      .filter(contract => clientsById.has(contract.clientId))
+      .filter(contract => {
+        if (statusFilter === 'all') return true;
+        if (statusFilter === 'expired') return isContractExpired(contract, todayIso);
+        return contract.status === statusFilter;
+      })
+      .filter(contract => {
+        if (!term) return true;
+        const client = clientsById.get(contract.clientId);
+        return !!client && (client.name.toLowerCase().includes(term) || (client.nif || '').includes(term));
+      });
+  }, [contracts, clientsById, statusFilter, search, todayIso]);
+
+  const responsibleName = (client: Client) => staff.find(member => member.id === client.responsibleStaff)?.name || client.responsibleStaff || '';
+
+  const generateContracts = async (requests: ContractGenerationRequest[]) => {
+    const company = resolveProposalCompany(globalSettings);
+    const created: ServiceContract[] = [];
+    const failures: string[] = [];
+
+    for (const request of requests) {
+      const clientContracts = [...contracts, ...created].filter(contract => contract.clientId === request.client.id);
+      const version = clientContracts.reduce((max, contract) => Math.max(max, contract.version), 0) + 1;
+      const template = templates.find(item => item.id === request.templateId);
+      try {
+        const html = buildContractHtml(template?.body || DEFAULT_CONTRACT_TEMPLATE_BODY, {
+          client: request.client,
+          tasks,
+          responsibleName: responsibleName(request.client),
+          company,
+          monthlyFee: request.monthlyFee,
+          periodStart: request.periodStart,
+          periodEnd: request.periodEnd,
+          version,
+        });
+        created.push(await contractService.create({
+          clientId: request.client.id,
+          templateId: template?.id || null,
+          version,
+          periodStart: request.periodStart,
+          periodEnd: request.periodEnd,
+          monthlyFee: request.monthlyFee,
+          feeGroupId: request.feeGroupId,
+          notes: request.notes,
+        }, html));
+      } catch (err: any) {
+        failures.push(`${request.client.name}: ${err?.message || err}`);
+      }
+    }
+
+    // A new version replaces earlier unsigned versions of the same period.
+    const superseded = contracts.filter(contract => (contract.status === 'draft' || contract.status === 'sent')
+      && created.some(item => item.clientId === contract.clientId && item.periodStart === contract.periodStart));
+    const cancelled = await Promise.all(superseded.map(contract => contractService.updateStatus(contract.id, 'cancelled').catch(err => {
+      console.error('Erro ao cancelar versão anterior do contrato:', err);
+      return contract;
+    })));
+    const cancelledById = new Map(cancelled.map(contract => [contract.id, contract]));
+
+    setContracts(prev => [...created, ...prev.map(contract => cancelledById.get(contract.id) || contract)]);
+    if (failures.length > 0) alert(`Não foi possível gerar ${failures.length} contrato(s):\n${failures.join('\n')}`);
+    return created.length;
+  };
+
+  // Signing moves the client's renewal date to the end of the new period and applies the contract fee.
+  const handleStatusChange = async (contract: ServiceContract, status: ContractStatus) => {
+    const client = clientsById.get(contract.clientId);
+    if (!client || status === contract.status) return;
+    const feeChanged = Math.abs(contract.monthlyFee - client.monthlyFee) >= 0.01;
+    if (status === 'signed' && feeChanged && !canApplyFees
+      && !confirm(`Sem permissão para aplicar avenças: a avença de ${client.name} mantém-se em ${client.monthlyFee.toFixed(2)}€. Continuar?`)) {
+      return;
+    }
+
+    setUpdatingId(contract.id);
+    try {
+      const applyFee = feeChanged && canApplyFees;
+      const saved = status === 'signed'
+        ? await contractService.sign(contract.id, applyFee)
+        : await contractService.updateStatus(contract.id, status);
+      if (status === 'signed') {
+        // A fee dated in the future is only scheduled; the client keeps the current fee until then.
+        const updatedClient: Client = {
+          ...client,
+          contractRenewalDate: addDays(contract.periodEnd, 1),
+          monthlyFee: applyFee && contract.periodStart <= todayIso ? contract.monthlyFee : client.monthlyFee,
+        };
+        setClients(current => current.map(item => item.id === client.id ? updatedClient : item));
+      }
+      setContracts(prev => prev.map(item => item.id === saved.id ? saved : item));
+    } catch (err: any) {
+      alert(`Erro ao atualizar o contrato: ${err?.message || err}`);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleOpenDocument = async (contract: ServiceContract) => {
+    const preview = window.open('', '_blank');
+    try {
+      const blob = await contractService.downloadDocument(contract.documentPath);
+      const url = URL.createObjectURL(blob);
+      if (preview) preview.location.href = url;
+      else window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err: any) {
+      preview?.close();
+      alert(`Erro ao abrir o contrato: ${err?.message || err}`);
+    }
+  };
+
+  const counts = useMemo(() => ({
+    draft: contracts.filter(contract => contract.status === 'draft').length,
+    sent: contracts.filter(contract => contract.status === 'sent').length,
+    expired: contracts.filter(contract => contract.status === 'signed' && isContractExpired(contract, todayIso)).length,
+  }), [contracts, todayIso]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2"><FileSignature size={24} /> Contratos</h2>
+          <p className="text-sm text-slate-500">
+            Contratos de prestação de serviços gerados a partir de modelos, com o âmbito das tarefas de cada cliente e renovação anual por grupo de avenças.
+          </p>
+        </div>
+        <div className="flex bg-slate-100 rounded-lg p-1 text-xs font-bold">
+          {([['contracts', 'Contratos'], ['renewals', 'Renovações'], ['templates', 'Modelos']] as [ContractsTab, string][]).map(([key, label]) => (
+            <button key={key} onClick={() => setTab(key)} className={`px-3 py-1.5 rounded-md ${tab === key ? 'bg-white shadow text-blue-700' : 'text-slate-500 hover:text-slate-700'}`}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {tab === 'contracts' && (
+        <>
+          <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex flex-wrap items-center gap-3">
+            <div className="relative">
+              <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+              <input type="text" value={search} onChange={e => setSearch(e.target.value)} placeholder="Cliente ou NIF" className="pl-8 pr-3 py-2 border border-slate-200 rounded-lg text-xs font-medium" />
+            </div>
+            <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as 'all' | 'expired' | ContractStatus)} className="px-3 py-2 border border-slate-200 rounded-lg text-xs font-medium bg-white">
+              <option value="all">Todos os estados</option>
+              {(Object.keys(CONTRACT_STATUS_LABELS) as ContractStatus[]).map(value => (
+                <option key={value} value={value}>{CONTRACT_STATUS_LABELS[value]}</option>
+              ))}
+              <option value="expired">Expirados</option>
+            </select>
+            {isLoading && <RefreshCcw size={14} className="animate-spin text-slate-400" />}
+            <div className="flex gap-2 text-xs font-bold">
+              <span className="px-2 py-1 rounded bg-slate-100 text-slate-600">{counts.draft} rascunhos</span>
+              <span className="px-2 py-1 rounded bg-blue-100 text-blue-700">{counts.sent} por assinar</span>
+              {counts.expired > 0 && <span className="px-2 py-1 rounded bg-amber-100 text-amber-700">{counts.expired} expirados</span>}
+            </div>
+            <button onClick={() => setIsGenerateOpen(true)} className="md:ml-auto bg-blue-600 text-white px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-blue-700">
+              <FilePlus size={14} /> Novo Contrato
+            </button>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                <tr>
+                  <th className="px-4 py-3">Cliente</th>
+                  <th className="px-4 py-3">Versão</th>
+                  <th className="px-4 py-3">Período</th>
+                  <th className="px-4 py-3 text-right">Avença</th>
+                  <th className="px-4 py-3">Grupo</th>
+                  <th className="px-4 py-3">Estado</th>
+                  <th className="px-4 py-3">Gerado</th>
+                  <th className="px-4 py-3 text-center">Documento</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {rows.map(contract => {
+                  const client = clientsById.get(contract.clientId)!;
+                  const expired = isContractExpired(contract, todayIso);
+                  const feeChanged = Math.abs(contract.monthlyFee - client.monthlyFee) >= 0.01;
+                  return (
+                    <tr key={contract.id} className={contract.status === 'cancelled' ? 'opacity-50' : 'hover:bg-slate-50'}>
+                      <td className="px-4 py-3">
+                        <button type="button" onClick={() => onSelectClient?.(client)} disabled={!onSelectClient} className="font-medium text-slate-800 hover:underline disabled:no-underline text-left">
+                          {client.name}
+                        </button>
+                      </td>
+                      <td className="px-4 py-3 text-slate-500">v{contract.version}</td>
+                      <td className={`px-4 py-3 whitespace-nowrap ${expired ? 'text-amber-700 font-bold' : 'text-slate-600'}`}>
+                        {new Date(`${contract.periodStart}T00:00:00`).toLocaleDateString('pt-PT')} – {new Date(`${contract.periodEnd}T00:00:00`).toLocaleDateString('pt-PT')}
+                      </td>
+                      <td className="px-4 py-3 text-right font-bold text-slate-700" title={feeChanged ? `Avença atual: ${client.monthlyFee.toFixed(2)}€` : undefined}>
+                        {contract.monthlyFee.toFixed(2)}€
+                        {feeChanged && contract.status !== 'signed' && <span className="block text-[10px] font-normal text-slate-400">atual {client.monthlyFee.toFixed(2)}€</span>}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-slate-500">{groups.find(group => group.id === contract.feeGroupId)?.name || '—'}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={contract.status}
+                            disabled={updatingId === contract.id}
+                            onChange={e => handleStatusChange(contract, e.target.value as ContractStatus)}
+                            className={`text-[11px] font-bold px-2 py-1 rounded border-0 ${CONTRACT_STATUS_STYLES[contract.status]}`}
+                          >
+                            {(Object.keys(CONTRACT_STATUS_LABELS) as ContractStatus[]).map(value => (
+                              // Only drafts and sent contracts can be signed (checked again by sign_service_contract).
+                              <option key={value} value={value} disabled={value === 'signed' && contract.status === 'cancelled'}>{CONTRACT_STATUS_LABELS[value]}</option>
+                            ))}
+                          </select>
+                          {expired && <span className={`text-[11px] font-bold px-2 py-1 rounded ${CONTRACT_STATUS_STYLES.expired}`}>Expirado</span>}
+                          {updatingId === contract.id && <RefreshCcw size={12} className="animate-spin text-slate-400" />}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-xs text-slate-500" title={contract.notes || undefined}>
+                        {contract.createdAt ? new Date(contract.createdAt).toLocaleDateString('pt-PT') : '—'}
+                        {contract.createdBy && <span className="block text-[10px] text-slate-400">{contract.createdBy}</span>}
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <button onClick={() => handleOpenDocument(contract)} title="Abrir para imprimir ou guardar em PDF" className="inline-flex text-blue-600 hover:text-blue-800">
+                          <ExternalLink size={14} />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-12 text-center text-slate-400 italic">Sem contratos para os filtros selecionados.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {tab === 'renewals' && (
+        <ContractRenewalPanel
+          clients={clients}
+          groups={groups}
+          templates={templates}
+          latestByClient={latestByClient}
+          onGenerate={generateContracts}
+          onGenerated={() => setTab('contracts')}
+        />
+      )}
+
+      {tab === 'templates' && (
+        <ContractTemplatesEditor templates={templates} setTemplates={setTemplates} />
+      )}
+
+      {isGenerateOpen && (
+        <GenerateContractModal
+          clients={clients}
+          templates={templates}
+          onClose={() => setIsGenerateOpen(false)}
+          onGenerate={async request => {
+            const count = await generateContracts([request]);
+            if (count > 0) setIsGenerateOpen(false);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ContractsView;
@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react';
+import { Client, ContractTemplate } from '../../types';
+import { getNextContractPeriod } from '../../services';
+import { DEFAULT_CONTRACT_TEMPLATE_NAME } from '../../utils/contractDocument';
+import { ContractGenerationRequest } from './ContractsView';
+import { FilePlus, FileSignature, RefreshCcw, X } from 'lucide-react';
+
+interface GenerateContractModalProps {
+  clients: Client[];
+  templates: ContractTemplate[];
+  onClose: () => void;
+  onGenerate: (request: ContractGenerationRequest) => Promise<void>;
+}
+
+const GenerateContractModal: React.FC<GenerateContractModalProps> = ({ clients, templates, onClose, onGenerate }) => {
+  const sortedClients = useMemo(() => [...clients].sort((a, b) => a.name.localeCompare(b.name, 'pt-PT')), [clients]);
+  const [clientId, setClientId] = useState('');
+  const [templateId, setTemplateId] = useState(templates[0]?.id || '');
+  const [periodStart, setPeriodStart] = useState('');
+  const [periodEnd, setPeriodEnd] = useState('');
+  const [monthlyFee, setMonthlyFee] = useState(0);
+  const [notes, setNotes] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const selectedClient = clients.find(client => client.id === clientId);
+
+  const handleClientChange = (id: string) => {
+    setClientId(id);
+    const client = clients.find(item => item.id === id);
+    if (!client) return;
+    const period = getNextContractPeriod(client);
+    setPeriodStart(period.periodStart);
+    setPeriodEnd(period.periodEnd);
+    setMonthlyFee(client.monthlyFee);
+  };
+
+  const handleGenerate = async () => {
+    if (!selectedClient) {
+      alert('Selecione o cliente.');
+      return;
+    }
+    if (!periodStart || !periodEnd || periodEnd < periodStart) {
+      alert('Indique um período válido.');
+      return;
+    }
+    if (!(monthlyFee > 0)) {
+      alert('Indique a avença mensal.');
+      return;
+    }
+    setIsGenerating(true);
+    try {
+      await onGenerate({
+        client: selectedClient,
+        templateId: templateId || null,
+        periodStart,
+        periodEnd,
+        monthlyFee,
+        feeGroupId: null,
+        notes,
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg">
+        <div className="p-4 border-b flex justify-between items-start gap-4">
+          <div>
+            <h3 className="text-lg font-bold flex items-center gap-2"><FileSignature size={18} /> Novo Contrato</h3>
+            <p className="text-xs text-slate-500">O documento é gerado com os dados e as tarefas atuais do cliente e guardado como nova versão.</p>
+          </div>
+          <button type="button" onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Cliente</label>
+            <select value={clientId} onChange={e => handleClientChange(e.target.value)} className="w-full px-3 py-2 border rounded-lg text-sm bg-white">
+              <option value="">Selecionar cliente...</option>
+              {sortedClients.map(client => <option key={client.id} value={client.id}>{client.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Modelo</label>
+            <select value={templateId} onChange={e => setTemplateId(e.target.value)} className="w-full px-3 py-2 border rounded-lg text-sm bg-white">
+              {templates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+              <option value="">{DEFAULT_CONTRACT_TEMPLATE_NAME} (modelo base)</option>
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Início</label>
+              <input type="date" value={periodStart} onChange={e => setPeriodStart(e.target.value)} className="w-full px-3 py-2 border rounded-lg text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Fim</label>
+              <input type="date" value={periodEnd} onChange={e => setPeriodEnd(e.target.value)} className="w-full px-3 py-2 border rounded-lg text-sm" />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Avença mensal (€)</label>
+            <input type="number" value={monthlyFee} onChange={e => setMonthlyFee(parseFloat(e.target.value) || 0)} className="w-full px-3 py-2 border rounded-lg text-sm" />
+            {selectedClient && <p className="text-[11px] text-slate-400 mt-1">Atual: {selectedClient.monthlyFee.toFixed(2)}€ · {selectedClient.tasks.length} tarefas no âmbito</p>}
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Notas internas</label>
+            <input type="text" value={notes} onChange={e => setNotes(e.target.value)} className="w-full px-3 py-2 border rounded-lg text-sm" />
+          </div>
+        </div>
+
+        <div className="p-4 border-t flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm">Cancelar</button>
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isGenerating ? <RefreshCcw size={16} className="animate-spin" /> : <FilePlus size={16} />} Gerar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GenerateContractModal;
@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Client, ObligationDeadline, ObligationRecord, Staff, Task } from '../../types';
+import { OBLIGATION_STATUS_LABELS, getObligationRecordKey, isObligationDone, obligationService } from '../../services';
+import { generateObligationDeadlines, toIsoDate } from '../../services/fiscalCalendar';
+import ObligationRecordModal, { OBLIGATION_STATUS_STYLES } from './ObligationRecordModal';
+import { ClipboardCheck, Paperclip, RefreshCcw } from 'lucide-react';
+
+interface ClientObligationChecklistProps {
+  client: Client;
+  tasks: Task[];
+  staff: Staff[];
+}
+
+const ClientObligationChecklist: React.FC<ClientObligationChecklistProps> = ({ client, tasks, staff }) => {
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [records, setRecords] = useState<Map<string, ObligationRecord>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingDeadline, setEditingDeadline] = useState<ObligationDeadline | null>(null);
+
+  const todayIso = toIsoDate(new Date());
+
+  // Everything due in the selected year, including the previous year's annual returns.
+  const deadlines = useMemo(
+    () => generateObligationDeadlines([client], tasks, staff, new Date(year, 0, 1), new Date(year, 11, 31)),
+    [client, tasks, staff, year]
+  );
+
+  useEffect(() => {
+    let isMounted = true;
+    const loadRecords = async () => {
+      setIsLoading(true);
+      try {
+        const data = await obligationService.getByClient(client.id);
+        if (isMounted) setRecords(new Map(data.map(record => [getObligationRecordKey(record.clientId, record.taskId, record.period), record])));
+      } catch (err) {
+        console.error('Erro ao carregar obrigações do cliente:', err);
+        if (isMounted) setRecords(new Map());
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+    loadRecords();
+    return () => {
+      isMounted = false;
+    };
+  }, [client.id]);
+
+  const deadlinesByTask = useMemo(() => {
+    const grouped = new Map<string, ObligationDeadline[]>();
+    deadlines.forEach(deadline => grouped.set(deadline.taskId, [...(grouped.get(deadline.taskId) || []), deadline]));
+    return Array.from(grouped.values());
+  }, [deadlines]);
+
+  const handleSaved = (record: ObligationRecord) => {
+    setRecords(prev => new Map(prev).set(getObligationRecordKey(record.clientId, record.taskId, record.period), record));
+    setEditingDeadline(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-4 bg-slate-50 border-b border-slate-100 flex items-center justify-between">
+        <h3 className="font-bold text-slate-700 flex items-center gap-2"><ClipboardCheck size={16} /> Checklist de Obrigações</h3>
+        <div className="flex items-center gap-2">
+          {isLoading && <RefreshCcw size={14} className="animate-spin text-slate-400" />}
+          <select value={year} onChange={e => setYear(Number(e.target.value))} className="border border-slate-200 rounded px-2 py-1 text-xs bg-white">
+            {[-1, 0, 1].map(offset => {
+              const value = new Date().getFullYear() + offset;
+              return <option key={value} value={value}>Prazos de {value}</option>;
+            })}
+          </select>
+        </div>
+      </div>
+      {deadlinesByTask.length === 0 ? (
+        <p className="px-4 py-6 text-center text-xs text-slate-400 italic">Nenhuma tarefa de obrigação aplicada a este cliente.</p>
+      ) : (
+        <div className="divide-y divide-slate-50">
+          {deadlinesByTask.map(taskDeadlines => (
+            <div key={taskDeadlines[0].taskId} className="px-4 py-3 flex flex-col md:flex-row md:items-center gap-2">
+              <span className="md:w-56 text-sm font-medium text-slate-700 shrink-0">{taskDeadlines[0].taskName}</span>
+              <div className="flex flex-wrap gap-1">
+                {taskDeadlines.map(deadline => {
+                  const record = records.get(getObligationRecordKey(deadline.clientId, deadline.taskId, deadline.period));
+                  const status = record?.status || 'pending';
+                  const isOverdue = deadline.dueDate < todayIso && !isObligationDone(status);
+                  return (
+                    <button
+                      key={deadline.id}
+                      type="button"
+                      onClick={() => setEditingDeadline(deadline)}
+                      title={`${OBLIGATION_STATUS_LABELS[status]} · prazo ${new Date(deadline.dueDate).toLocaleDateString('pt-PT')}`}
+                      className={`text-[10px] font-bold px-2 py-1 rounded flex items-center gap-1 ${isOverdue ? 'bg-red-100 text-red-700' : OBLIGATION_STATUS_STYLES[status]}`}
+                    >
+                      {deadline.period}
+                      {record?.proofUrl && <Paperclip size={10} />}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editingDeadline && (
+        <ObligationRecordModal
+          deadline={editingDeadline}
+          record={records.get(getObligationRecordKey(editingDeadline.clientId, editingDeadline.taskId, editingDeadline.period))}
+          staff={staff}
+          onClose={() => setEditingDeadline(null)}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ClientObligationChecklist;
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Client, ObligationDeadline, ObligationRecord, ObligationStatus, Staff, Task } from '../../types';
+import { OBLIGATION_STATUS_LABELS, getObligationRecordKey, isObligationDone, obligationService } from '../../services';
+import { generateObligationDeadlines, toIsoDate } from '../../services/fiscalCalendar';
+import ObligationRecordModal, { OBLIGATION_STATUS_STYLES } from './ObligationRecordModal';
+import { AlertTriangle, ClipboardCheck, Paperclip, RefreshCcw } from 'lucide-react';
+
+interface ObligationBoardProps {
+  clients: Client[];
+  tasks: Task[];
+  staff: Staff[];
+  currentStaffId?: string | null;
+  onSelectClient?: (client: Client) => void;
+}
+
+// How far back unfinished obligations are still listed as overdue.
+const OVERDUE_LOOKBACK_MONTHS = 6;
+
+const ObligationBoard: React.FC<ObligationBoardProps> = ({ clients, tasks, staff, currentStaffId, onSelectClient }) => {
+  const [month, setMonth] = useState(() => toIsoDate(new Date()).slice(0, 7));
+  const [responsibleFilter, setResponsibleFilter] = useState<string>('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | 'open' | ObligationStatus>('open');
+  const [showOverdue, setShowOverdue] = useState(true);
+  const [records, setRecords] = useState<Map<string, ObligationRecord>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingDeadline, setEditingDeadline] = useState<ObligationDeadline | null>(null);
+
+  const todayIso = toIsoDate(new Date());
+  const clientsById = useMemo(() => new Map(clients.map(client => [client.id, client])), [clients]);
+
+  const filteredClients = useMemo(() => {
+    if (responsibleFilter === 'all') return clients;
+    const member = staff.find(item => item.id === responsibleFilter);
+    return clients.filter(client => client.responsibleStaff === responsibleFilter || (!!member && client.responsibleStaff === member.name));
+  }, [clients, staff, responsibleFilter]);
+
+  const deadlines = useMemo(() => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const monthStart = new Date(year, monthNumber - 1, 1);
+    const from = showOverdue ? new Date(year, monthNumber - 1 - OVERDUE_LOOKBACK_MONTHS, 1) : monthStart;
+    return generateObligationDeadlines(filteredClients, tasks, staff, from, new Date(year, monthNumber, 0));
+  }, [filteredClients, tasks, staff, month, showOverdue]);
+
+  const periodsKey = useMemo(() => Array.from(new Set(deadlines.map(deadline => deadline.period))).sort().join(','), [deadlines]);
+
+  useEffect(() => {
+    let isMounted = true;
+    const loadRecords = async () => {
+      setIsLoading(true);
+      try {
+        const data = await obligationService.getByPeriods(periodsKey ? periodsKey.split(',') : []);
+        if (isMounted) setRecords(new Map(data.map(record => [getObligationRecordKey(record.clientId, record.taskId, record.period), record])));
+      } catch (err) {
+        console.error('Erro ao carregar estado das obrigações:', err);
+        if (isMounted) setRecords(new Map());
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+    loadRecords();
+    return () => {
+      isMounted = false;
+    };
+  }, [periodsKey]);
+
+  const rows = useMemo(() => deadlines
+    .map(deadline => {
+      const record = records.get(getObligationRecordKey(deadline.clientId, deadline.taskId, deadline.period));
+      const status = record?.status || 'pending';
+      return { deadline, record, status, isOverdue: deadline.dueDate < todayIso && !isObligationDone(status) };
+    })
+    // Earlier months only contribute what is still overdue.
+    .filter(row => row.deadline.dueDate.slice(0, 7) === month || row.isOverdue)
+    .filter(row => {
+      if (statusFilter === 'all') return true;
+      if (statusFilter === 'open') return !isObligationDone(row.status);
+      return row.status === statusFilter;
+    }), [deadlines, records, todayIso, month, statusFilter]);
+
+  const overdueCount = rows.filter(row => row.isOverdue).length;
+  const staffName = (staffId: string | null) => staff.find(member => member.id === staffId)?.name || '—';
+  const responsibleName = (client?: Client) => {
+    if (!client?.responsibleStaff) return '—';
+    return staff.find(member => member.id === client.responsibleStaff)?.name || client.responsibleStaff;
+  };
+
+  const handleSaved = (record: ObligationRecord) => {
+    setRecords(prev => new Map(prev).set(getObligationRecordKey(record.clientId, record.taskId, record.period), record));
+    setEditingDeadline(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2"><ClipboardCheck size={24} /> Obrigações</h2>
+        <p className="text-sm text-slate-500">
+          Estado de cada tarefa de obrigação por cliente e período. As obrigações por concluir de meses anteriores aparecem como atrasadas.
+        </p>
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex flex-wrap items-center gap-3">
+        <input type="month" value={month} onChange={e => e.target.value && setMonth(e.target.value)} className="px-3 py-2 border border-slate-200 rounded-lg text-xs font-medium" />
+        <select value={responsibleFilter} onChange={e => setResponsibleFilter(e.target.value)} className="px-3 py-2 border border-slate-200 rounded-lg text-xs font-medium bg-white">
+          <option value="all">Todos os responsáveis</option>
+          {staff.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+        </select>
+        <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as 'all' | 'open' | ObligationStatus)} className="px-3 py-2 border border-slate-200 rounded-lg text-xs font-medium bg-white">
+          <option value="open">Por concluir</option>
+          <option value="all">Todos os estados</option>
+          {(Object.keys(OBLIGATION_STATUS_LABELS) as ObligationStatus[]).map(value => (
+            <option key={value} value={value}>{OBLIGATION_STATUS_LABELS[value]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+          <input type="checkbox" checked={showOverdue} onChange={e => setShowOverdue(e.target.checked)} className="rounded text-blue-600" />
+          Incluir atrasadas ({OVERDUE_LOOKBACK_MONTHS} meses)
+        </label>
+        {isLoading && <RefreshCcw size={14} className="animate-spin text-slate-400" />}
+        <div className="md:ml-auto flex gap-2 text-xs font-bold">
+          <span className="px-2 py-1 rounded bg-slate-100 text-slate-600">{rows.length} obrigações</span>
+          {overdueCount > 0 && <span className="px-2 py-1 rounded bg-red-100 text-red-700 flex items-center gap-1"><AlertTriangle size={12} /> {overdueCount} em atraso</span>}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+            <tr>
+              <th className="px-4 py-3">Prazo</th>
+              <th className="px-4 py-3">Cliente</th>
+              <th className="px-4 py-3">Obrigação</th>
+              <th className="px-4 py-3">Período</th>
+              <th className="px-4 py-3">Responsável</th>
+              <th className="px-4 py-3">Estado</th>
+              <th className="px-4 py-3">Submetida</th>
+              <th className="px-4 py-3 text-center">Comprovativo</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {rows.map(({ deadline, record, status, isOverdue }) => {
+              const client = clientsById.get(deadline.clientId);
+              return (
+                <tr key={deadline.id} className={isOverdue ? 'bg-red-50/60 hover:bg-red-50' : 'hover:bg-slate-50'}>
+                  <td className={`px-4 py-3 whitespace-nowrap font-bold ${isOverdue ? 'text-red-600' : 'text-slate-700'}`}>
+                    {new Date(deadline.dueDate).toLocaleDateString('pt-PT')}
+                  </td>
+                  <td className="px-4 py-3">
+                    <button type="button" onClick={() => client && onSelectClient?.(client)} disabled={!onSelectClient} className="font-medium text-slate-800 hover:underline disabled:no-underline text-left">
+                      {deadline.clientName}
+                    </button>
+                  </td>
+                  <td className="px-4 py-3 text-slate-600">{deadline.taskName}</td>
+                  <td className="px-4 py-3 text-slate-500">{deadline.period}</td>
+                  <td className="px-4 py-3 text-slate-500">{responsibleName(client)}</td>
+                  <td className="px-4 py-3">
+                    <button type="button" onClick={() => setEditingDeadline(deadline)} className={`text-[11px] font-bold px-2 py-1 rounded ${OBLIGATION_STATUS_STYLES[status]} hover:opacity-80`}>
+                      {OBLIGATION_STATUS_LABELS[status]}
+                    </button>
+                  </td>
+                  <td className="px-4 py-3 text-xs text-slate-500">
+                    {record?.submittedAt ? `${new Date(record.submittedAt).toLocaleDateString('pt-PT')} · ${staffName(record.submittedByStaffId)}` : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-center">
+                    {record?.proofUrl ? (
+                      <a href={record.proofUrl} target="_blank" rel="noreferrer" title={record.proofName || undefined} className="inline-flex text-blue-600 hover:text-blue-800"><Paperclip size={14} /></a>
+                    ) : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={8} className="px-6 py-12 text-center text-slate-400 italic">Sem obrigações para os filtros selecionados.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {editingDeadline && (
+        <ObligationRecordModal
+          deadline={editingDeadline}
+          record={records.get(getObligationRecordKey(editingDeadline.clientId, editingDeadline.taskId, editingDeadline.period))}
+          staff={staff}
+          currentStaffId={currentStaffId}
+          onClose={() => setEditingDeadline(null)}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ObligationBoard;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { ObligationDeadline, ObligationRecord, ObligationStatus, Staff } from '../../types';
+import { OBLIGATION_STATUS_LABELS, isObligationDone, obligationService } from '../../services';
+import { Paperclip, RefreshCcw, Save, X } from 'lucide-react';
+
+interface ObligationRecordModalProps {
+  deadline: ObligationDeadline;
+  record?: ObligationRecord;
+  staff: Staff[];
+  // Staff member linked to the signed-in user, suggested as the submitter.
+  currentStaffId?: string | null;
+  onClose: () => void;
+  onSaved: (record: ObligationRecord) => void;
+}
+
+export const OBLIGATION_STATUS_STYLES: Record<ObligationStatus, string> = {
+  pending: 'bg-slate-100 text-slate-600',
+  in_progress: 'bg-amber-100 text-amber-700',
+  submitted: 'bg-blue-100 text-blue-700',
+  paid: 'bg-green-100 text-green-700',
+};
+
+const ObligationRecordModal: React.FC<ObligationRecordModalProps> = ({ deadline, record, staff, currentStaffId, onClose, onSaved }) => {
+  const [status, setStatus] = useState<ObligationStatus>(record?.status || 'pending');
+  const [submittedByStaffId, setSubmittedByStaffId] = useState(record?.submittedByStaffId || '');
+  const [submittedAt, setSubmittedAt] = useState(record?.submittedAt ? record.submittedAt.slice(0, 10) : '');
+  const [notes, setNotes] = useState(record?.notes || '');
+  const [proofFile, setProofFile] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleStatusChange = (value: ObligationStatus) => {
+    setStatus(value);
+    if (isObligationDone(value)) {
+      if (!submittedAt) setSubmittedAt(new Date().toISOString().slice(0, 10));
+      if (!submittedByStaffId) setSubmittedByStaffId(currentStaffId || deadline.staffId || '');
+    }
+  };
+
+  const handleSave = async () => {
+    if (isObligationDone(status) && !submittedByStaffId) {
+      alert('Indique quem submeteu a obrigação.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      let proofUrl = record?.proofUrl || null;
+      let proofName = record?.proofName || null;
+      if (proofFile) {
+        proofUrl = await obligationService.uploadProof(proofFile, deadline.clientId, deadline.taskId, deadline.period);
+        proofName = proofFile.name;
+      }
+      const saved = await obligationService.save({
+        clientId: deadline.clientId,
+        taskId: deadline.taskId,
+        period: deadline.period,
+        status,
+        submittedByStaffId: submittedByStaffId || null,
+        submittedAt: submittedAt ? new Date(`${submittedAt}T12:00:00`).toISOString() : null,
+        proofUrl,
+        proofName,
+        notes,
+      });
+      onSaved(saved);
+    } catch (err: any) {
+      alert(`Erro ao guardar obrigação: ${err?.message || err}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg">
+        <div className="p-4 border-b flex justify-between items-start gap-4">
+          <div>
+            <h3 className="text-lg font-bold">{deadline.taskName}</h3>
+            <p className="text-xs text-slate-500">
+              {deadline.clientName} · Período {deadline.period} · Prazo {new Date(deadline.dueDate).toLocaleDateString('pt-PT')}
+            </p>
+          </div>
+          <button type="button" onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Estado</label>
+            <select value={status} onChange={e => handleStatusChange(e.target.value as ObligationStatus)} className="w-full px-3 py-2 border rounded-lg text-sm bg-white">
+              {(Object.keys(OBLIGATION_STATUS_LABELS) as ObligationStatus[]).map(value => (
+                <option key={value} value={value}>{OBLIGATION_STATUS_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Submetida por</label>
+              <select value={submittedByStaffId} onChange={e => setSubmittedByStaffId(e.target.value)} className="w-full px-3 py-2 border rounded-lg text-sm bg-white">
+                <option value="">—</option>
+                {staff.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Data de submissão</label>
+              <input type="date" value={submittedAt} onChange={e => setSubmittedAt(e.target.value)} className="w-full px-3 py-2 border rounded-lg text-sm" />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Comprovativo</label>
+            {record?.proofUrl && !proofFile && (
+              <a href={record.proofUrl} target="_blank" rel="noreferrer" className="text-xs text-blue-600 hover:underline flex items-center gap-1 mb-2">
+                <Paperclip size={12} /> {record.proofName || 'Ver comprovativo'}
+              </a>
+            )}
+            <input type="file" onChange={e => setProofFile(e.target.files?.[0] || null)} className="w-full text-xs" />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Notas</label>
+            <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={2} className="w-full px-3 py-2 border rounded-lg text-sm" />
+          </div>
+        </div>
+
+        <div className="p-4 border-t flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm">Cancelar</button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? <RefreshCcw size={16} className="animate-spin" /> : <Save size={16} />} Guardar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ObligationRecordModal;
@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { Client, QuoteHistory, Staff } from '../../types';
+import { buildClientFromQuote, getUncopiedQuoteItems, quoteHistoryService } from '../../services';
+import { RefreshCcw, UserPlus, X } from 'lucide-react';
+
+interface ConvertQuoteModalProps {
+  quote: QuoteHistory;
+  clients: Client[];
+  staff: Staff[];
+  onClose: () => void;
+  onConverted: (client: Client, quote: QuoteHistory) => void;
+}
+
+const ConvertQuoteModal: React.FC<ConvertQuoteModalProps> = ({ quote, clients, staff, onClose, onConverted }) => {
+  const [draft, setDraft] = useState<Client>(() => buildClientFromQuote(quote, crypto.randomUUID()));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const uncopiedItems = getUncopiedQuoteItems(quote.items || []);
+  const duplicateClient = useMemo(
+    () => (draft.nif ? clients.find(client => (client.nif || '').replace(/\D/g, '') === draft.nif) : undefined),
+    [clients, draft.nif]
+  );
+
+  const handleConvert = async () => {
+    if (!draft.name.trim()) {
+      alert('Indique o nome do cliente.');
+      return;
+    }
+    if (!/^\d{9}$/.test(draft.nif)) {
+      alert('O NIF deve ter 9 dígitos.');
+      return;
+    }
+    if (duplicateClient) {
+      alert(`Já existe um cliente com este NIF: ${duplicateClient.name}.`);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const result = await quoteHistoryService.convertToClient(quote, {
+        ...draft,
+        name: draft.name.trim(),
+        email: draft.email.trim().toLowerCase(),
+        phone: draft.phone.trim(),
+      });
+      onConverted(result.client, result.quote);
+    } catch (err: any) {
+      alert(`Erro ao converter a proposta: ${err?.message || err}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl">
+        <div className="p-4 border-b flex justify-between items-start gap-4">
+          <div>
+            <h3 className="text-lg font-bold flex items-center gap-2"><UserPlus size={18} /> Converter em Cliente</h3>
+            <p className="text-xs text-slate-500">
+              Proposta de {new Date(quote.created_at).toLocaleDateString('pt-PT')} · {draft.tasks.length} tarefa(s) do catálogo passam para o cliente
+            </p>
+          </div>
+          <button type="button" onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="md:col-span-2">
+              <label className="block text-xs font-bold text-slate-500 mb-1">Nome</label>
+              <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className="w-full px-3 py-2 border rounded-lg text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">NIF</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                maxLength={9}
+                value={draft.nif}
+                onChange={e => setDraft({ ...draft, nif: e.target.value.replace(/\D/g, '') })}
+                className={`w-full px-3 py-2 border rounded-lg text-sm ${duplicateClient ? 'border-red-400' : ''}`}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Email</label>
+              <input type="email" value={draft.email} onChange={e => setDraft({ ...draft, email: e.target.value })} className="w-full px-3 py-2 border rounded-lg text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Telefone</label>
+              <input type="text" value={draft.phone} onChange={e => setDraft({ ...draft, phone: e.target.value })} className="w-full px-3 py-2 border rounded-lg text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Tipo de entidade</label>
+              <input type="text" value={draft.entityType || ''} onChange={e => setDraft({ ...draft, entityType: e.target.value })} className="w-full px-3 py-2 border rounded-lg text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Responsável</label>
+              <select value={draft.responsibleStaff} onChange={e => setDraft({ ...draft, responsibleStaff: e.target.value })} className="w-full px-3 py-2 border rounded-lg text-sm bg-white">
+                <option value="">—</option>
+                {staff.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Avença mensal (€)</label>
+              <input type="number" value={draft.monthlyFee} onChange={e => setDraft({ ...draft, monthlyFee: parseFloat(e.target.value) || 0 })} className="w-full px-3 py-2 border rounded-lg text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Renovação do contrato</label>
+              <input type="date" value={draft.contractRenewalDate} onChange={e => setDraft({ ...draft, contractRenewalDate: e.target.value })} className="w-full px-3 py-2 border rounded-lg text-sm" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-xs bg-slate-50 rounded-lg p-3">
+            <div><span className="block text-slate-400">Volume</span><span className="font-bold text-slate-700">{draft.turnover.toLocaleString('pt-PT')}€</span></div>
+            <div><span className="block text-slate-400">Funcionários</span><span className="font-bold text-slate-700">{draft.employeeCount}</span></div>
+            <div><span className="block text-slate-400">Documentos</span><span className="font-bold text-slate-700">{draft.documentCount}</span></div>
+            <div><span className="block text-slate-400">Estabelecimentos</span><span className="font-bold text-slate-700">{draft.establishments}</span></div>
+            <div><span className="block text-slate-400">Bancos</span><span className="font-bold text-slate-700">{draft.banks}</span></div>
+          </div>
+
+          {duplicateClient && (
+            <p className="text-xs text-red-600">Já existe um cliente com este NIF ({duplicateClient.name}).</p>
+          )}
+          {uncopiedItems.length > 0 && (
+            <div className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg p-3">
+              <p className="font-semibold">
+                {uncopiedItems.length} serviço(s) personalizado(s) da proposta não existem no catálogo de tarefas e não são copiados para o cliente:
+              </p>
+              <ul className="list-disc pl-5 mt-1">
+                {uncopiedItems.map((item, index) => (
+                  <li key={item.id || index}>
+                    {item.customName || 'Serviço sem nome'}
+                    {item.customArea ? ` (${item.customArea})` : ''}
+                    {` · ${item.customTimeMinutes || 0} min × ${item.quantity || 1} × ${item.frequency || 1}/ano`}
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-1">Acrescente-os ao catálogo ou às tarefas do cliente depois da conversão.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm">Cancelar</button>
+          <button
+            onClick={handleConvert}
+            disabled={isSaving}
+            className="bg-green-600 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 hover:bg-green-700 disabled:opacity-50"
+          >
+            {isSaving ? <RefreshCcw size={16} className="animate-spin" /> : <UserPlus size={16} />} Criar Cliente
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConvertQuoteModal;
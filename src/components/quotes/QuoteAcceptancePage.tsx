@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, RefreshCcw, XCircle } from 'lucide-react';
+import { quoteHistoryService } from '../../services';
+import { QuoteAcceptanceView } from '../../services/quoteProposal';
+
+interface QuoteAcceptancePageProps {
+  token: string;
+}
+
+const formatEuro = (value: number) =>
+  `${value.toLocaleString('pt-PT', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} €`;
+
+const RESULT_TEXT: Record<'accepted' | 'rejected' | 'expired' | 'closed', (reference: string) => { title: string; text: string }> = {
+  accepted: reference => ({
+    title: 'Proposta aceite',
+    text: `Obrigado. Registámos a aceitação da proposta ${reference} e entraremos em contacto para os próximos passos.`,
+  }),
+  rejected: reference => ({
+    title: 'Proposta recusada',
+    text: `Obrigado pela resposta. Registámos a recusa da proposta ${reference}.`,
+  }),
+  expired: reference => ({
+    title: 'Proposta expirada',
+    text: `A proposta ${reference} já não está válida. Contacte-nos para receber uma proposta atualizada.`,
+  }),
+  closed: reference => ({
+    title: 'Proposta já respondida',
+    text: `A proposta ${reference} já não aceita respostas online. Para qualquer questão, contacte-nos.`,
+  }),
+};
+
+// Public page opened from the link in a proposal email (?proposta=<token>); no login involved.
+const QuoteAcceptancePage: React.FC<QuoteAcceptancePageProps> = ({ token }) => {
+  const [view, setView] = useState<QuoteAcceptanceView | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [name, setName] = useState('');
+  const [confirmed, setConfirmed] = useState(false);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    quoteHistoryService.getAcceptanceView(token)
+      .then(data => { if (isMounted) setView(data); })
+      .catch(err => {
+        console.error('Erro ao carregar a proposta:', err);
+        if (isMounted) setLoadError('Não foi possível carregar a proposta. Tente novamente mais tarde.');
+      });
+    return () => { isMounted = false; };
+  }, [token]);
+
+  const respond = async (response: Parameters<typeof quoteHistoryService.respondToProposal>[1]) => {
+    setIsSubmitting(true);
+    try {
+      setView(await quoteHistoryService.respondToProposal(token, response));
+    } catch (err) {
+      console.error('Erro ao registar a resposta à proposta:', err);
+      setLoadError('Não foi possível registar a resposta. Tente novamente mais tarde.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAccept = (e: React.FormEvent) => {
+    e.preventDefault();
+    respond({ action: 'accept', name, confirm: confirmed });
+  };
+
+  const handleDecline = (e: React.FormEvent) => {
+    e.preventDefault();
+    respond({ action: 'decline', comment });
+  };
+
+  const company = view?.company;
+  const proposal = view?.proposal;
+
+  return (
+    <div className="min-h-screen bg-slate-100 py-8 px-4">
+      <main className="max-w-2xl mx-auto bg-white rounded-2xl shadow-sm p-8">
+        <header className="flex justify-between items-center gap-4 border-b border-slate-200 pb-4 mb-6">
+          {view?.logoUrl && (
+            <img src={view.logoUrl} alt={company?.name || ''} className="max-h-14 max-w-[200px]" onError={e => { e.currentTarget.style.display = 'none'; }} />
+          )}
+          <strong className="text-slate-800">{company?.name}</strong>
+        </header>
+
+        {!view && !loadError && (
+          <div className="flex justify-center py-12 text-slate-400"><RefreshCcw size={24} className="animate-spin" /></div>
+        )}
+
+        {loadError && <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">{loadError}</div>}
+
+        {view?.state === 'not_found' && (
+          <div className="text-center py-6">
+            <h1 className="text-xl font-bold text-slate-800 mb-2">Proposta não encontrada</h1>
+            <p className="text-slate-600">O link pode estar incompleto ou ter sido substituído por uma nova proposta.</p>
+          </div>
+        )}
+
+        {proposal && view && view.state !== 'form' && view.state !== 'not_found' && (
+          <div className="text-center py-6">
+            {view.state === 'accepted'
+              ? <CheckCircle2 size={40} className="mx-auto text-emerald-600 mb-3" />
+              : <XCircle size={40} className="mx-auto text-slate-400 mb-3" />}
+            <h1 className="text-xl font-bold text-slate-800 mb-2">{RESULT_TEXT[view.state](proposal.reference).title}</h1>
+            <p className="text-slate-600">{RESULT_TEXT[view.state](proposal.reference).text}</p>
+          </div>
+        )}
+
+        {proposal && view?.state === 'form' && (
+          <>
+            {view.error && <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">{view.error}</div>}
+            <h1 className="text-2xl font-bold text-slate-800">Proposta de serviços</h1>
+            <p className="text-sm text-slate-500">
+              Ref. {proposal.reference} · Para {proposal.recipient.name || '—'}
+              {proposal.recipient.nif && ` (NIF ${proposal.recipient.nif})`} · Válida até {new Date(proposal.validUntil).toLocaleDateString('pt-PT')}
+            </p>
+
+            <h2 className="text-xs font-bold uppercase tracking-wider text-emerald-800 mt-7 mb-2">Honorários</h2>
+            <div className="bg-emerald-50 rounded-xl px-5 py-4 text-2xl font-bold text-emerald-800">{formatEuro(proposal.pricing.monthlyFee)} / mês + IVA</div>
+            <p className="text-sm text-slate-500 mt-1">
+              {formatEuro(proposal.pricing.monthlyFeeWithVat)} com IVA ({proposal.pricing.vatRate}%) · {formatEuro(proposal.pricing.annualFee)} por ano sem IVA
+            </p>
+
+            <h2 className="text-xs font-bold uppercase tracking-wider text-emerald-800 mt-7 mb-2">Âmbito dos serviços</h2>
+            {proposal.scope.length === 0 && <p className="text-sm text-slate-500">O âmbito detalhado consta da proposta enviada.</p>}
+            {proposal.scope.map(area => (
+              <div key={area.area} className="mb-3">
+                <p className="font-semibold text-slate-700">{area.area}</p>
+                <ul className="list-disc pl-5 text-sm text-slate-700">
+                  {area.items.map(item => (
+                    <li key={item.name}>{item.name} <span className="text-slate-500">({item.detail})</span></li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+
+            <h2 className="text-xs font-bold uppercase tracking-wider text-emerald-800 mt-7 mb-2">Condições</h2>
+            <ul className="list-disc pl-5 text-sm text-slate-700">
+              {proposal.terms.map(term => <li key={term}>{term}</li>)}
+            </ul>
+
+            <form onSubmit={handleAccept} className="border border-slate-200 rounded-xl p-5 mt-6">
+              <h2 className="text-xs font-bold uppercase tracking-wider text-emerald-800 mb-2">Aceitar a proposta</h2>
+              <label className="block text-sm font-semibold text-slate-600 mb-1" htmlFor="acceptance-name">Nome completo de quem aceita</label>
+              <input id="acceptance-name" type="text" value={name} onChange={e => setName(e.target.value)} maxLength={200} required className="w-full px-3 py-2 border border-slate-300 rounded-lg" />
+              <label className="flex items-start gap-2 text-sm text-slate-700 mt-3">
+                <input type="checkbox" checked={confirmed} onChange={e => setConfirmed(e.target.checked)} required className="mt-1" />
+                Declaro que aceito a presente proposta em nome de {proposal.recipient.name || 'entidade destinatária'}.
+              </label>
+              <button type="submit" disabled={isSubmitting} className="mt-4 bg-emerald-600 text-white px-5 py-2.5 rounded-lg font-semibold hover:bg-emerald-700 disabled:opacity-50">
+                Aceitar proposta
+              </button>
+            </form>
+
+            <form onSubmit={handleDecline} className="border border-slate-200 rounded-xl p-5 mt-4">
+              <h2 className="text-xs font-bold uppercase tracking-wider text-emerald-800 mb-2">Recusar a proposta</h2>
+              <label className="block text-sm font-semibold text-slate-600 mb-1" htmlFor="acceptance-comment">Comentário (opcional)</label>
+              <textarea id="acceptance-comment" value={comment} onChange={e => setComment(e.target.value)} rows={3} maxLength={1000} placeholder="Diga-nos o motivo, se quiser." className="w-full px-3 py-2 border border-slate-300 rounded-lg" />
+              <button type="submit" disabled={isSubmitting} className="mt-3 bg-slate-100 text-red-700 px-5 py-2.5 rounded-lg font-semibold hover:bg-slate-200 disabled:opacity-50">
+                Recusar proposta
+              </button>
+            </form>
+          </>
+        )}
+
+        {company && (
+          <footer className="mt-8 border-t border-slate-200 pt-3 text-xs text-slate-400">
+            {[company.name, company.address, company.email, company.phone].filter(Boolean).join(' · ')}
+          </footer>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default QuoteAcceptancePage;
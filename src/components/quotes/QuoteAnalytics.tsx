@@ -0,0 +1,126 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { QuoteHistory, TurnoverBracket } from '../../types';
+import { quoteHistoryService } from '../../services';
+import { QuoteOutcomeGroup, buildQuoteAnalytics } from '../../services/quoteAnalytics';
+import { PieChart, RefreshCcw } from 'lucide-react';
+
+interface QuoteAnalyticsProps {
+  turnoverBrackets: TurnoverBracket[];
+  quoteHistory: QuoteHistory[]; // Reloads whenever the saved list changes
+}
+
+const PERIOD_OPTIONS = [
+  { months: 3, label: 'Últimos 3 meses' },
+  { months: 6, label: 'Últimos 6 meses' },
+  { months: 12, label: 'Últimos 12 meses' },
+  { months: 24, label: 'Últimos 24 meses' },
+];
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`);
+
+const OutcomeTable: React.FC<{ title: string; groups: QuoteOutcomeGroup[] }> = ({ title, groups }) => (
+  <div>
+    <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">{title}</h4>
+    <table className="w-full text-xs text-left">
+      <thead className="text-slate-400 border-b">
+        <tr>
+          <th className="py-1 pr-2"></th>
+          <th className="py-1 px-2 text-right">Propostas</th>
+          <th className="py-1 px-2 text-right">Ganhas</th>
+          <th className="py-1 px-2 text-right">Perdidas</th>
+          <th className="py-1 pl-2 text-right">Taxa de sucesso</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-50">
+        {groups.map(group => (
+          <tr key={group.key}>
+            <td className="py-1 pr-2 text-slate-700">{group.label}</td>
+            <td className="py-1 px-2 text-right">{group.total}</td>
+            <td className="py-1 px-2 text-right text-green-700">{group.accepted}</td>
+            <td className="py-1 px-2 text-right text-red-600">{group.rejected}</td>
+            <td className="py-1 pl-2 text-right font-bold">{formatPercent(group.winRate)}</td>
+          </tr>
+        ))}
+        {groups.length === 0 && (<tr><td colSpan={5} className="py-3 text-center italic text-slate-400">Sem dados.</td></tr>)}
+      </tbody>
+    </table>
+  </div>
+);
+
+const QuoteAnalytics: React.FC<QuoteAnalyticsProps> = ({ turnoverBrackets, quoteHistory }) => {
+  const [periodMonths, setPeriodMonths] = useState(12);
+  const [quotes, setQuotes] = useState<QuoteHistory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+    const from = new Date();
+    from.setMonth(from.getMonth() - periodMonths);
+    setIsLoading(true);
+    quoteHistoryService.getSince(from.toISOString())
+      .then(loaded => { if (isMounted) setQuotes(loaded); })
+      .catch(err => console.error('Erro ao carregar análise de propostas:', err))
+      .finally(() => { if (isMounted) setIsLoading(false); });
+    return () => { isMounted = false; };
+  }, [periodMonths, quoteHistory]);
+
+  const analytics = useMemo(() => buildQuoteAnalytics(quotes, turnoverBrackets), [quotes, turnoverBrackets]);
+  const openCount = analytics.byStatus.draft + analytics.byStatus.sent + analytics.byStatus.negotiating;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2">
+          <PieChart size={18} /> Análise de Propostas
+          {isLoading && <RefreshCcw size={14} className="animate-spin text-slate-400" />}
+        </h3>
+        <select value={periodMonths} onChange={e => setPeriodMonths(parseInt(e.target.value, 10))} className="px-3 py-1.5 border rounded-lg text-xs bg-white">
+          {PERIOD_OPTIONS.map(option => <option key={option.months} value={option.months}>{option.label}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        <div className="bg-slate-50 rounded-lg p-3">
+          <span className="block text-[11px] text-slate-400 uppercase">Taxa de conversão</span>
+          <span className="text-xl font-bold text-slate-800">{formatPercent(analytics.conversionRate)}</span>
+          <span className="block text-[11px] text-slate-400">{analytics.byStatus.accepted} de {analytics.total} propostas</span>
+        </div>
+        <div className="bg-slate-50 rounded-lg p-3">
+          <span className="block text-[11px] text-slate-400 uppercase">Taxa de sucesso</span>
+          <span className="text-xl font-bold text-green-700">{formatPercent(analytics.winRate)}</span>
+          <span className="block text-[11px] text-slate-400">{analytics.byStatus.accepted} ganhas · {analytics.byStatus.rejected} perdidas</span>
+        </div>
+        <div className="bg-slate-50 rounded-lg p-3">
+          <span className="block text-[11px] text-slate-400 uppercase">Desconto médio</span>
+          <span className="text-xl font-bold text-amber-600">{formatPercent(analytics.averageDiscountPercent)}</span>
+          <span className="block text-[11px] text-slate-400">Avença acordada vs proposta</span>
+        </div>
+        <div className="bg-slate-50 rounded-lg p-3">
+          <span className="block text-[11px] text-slate-400 uppercase">Em aberto</span>
+          <span className="text-xl font-bold text-blue-600">{openCount}</span>
+          <span className="block text-[11px] text-slate-400">{analytics.byStatus.sent} enviadas · {analytics.byStatus.negotiating} em negociação</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <OutcomeTable title="Por setor" groups={analytics.bySector} />
+        <OutcomeTable title="Por volume de negócios" groups={analytics.byVolumeBracket} />
+        <div>
+          <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">Motivos de perda</h4>
+          <ul className="space-y-1 text-xs">
+            {analytics.lossReasons.map(item => (
+              <li key={item.reason} className="flex justify-between border-b border-slate-50 py-1">
+                <span className="text-slate-700">{item.reason}</span>
+                <span className="font-bold text-red-600">{item.count}</span>
+              </li>
+            ))}
+            {analytics.lossReasons.length === 0 && <li className="italic text-slate-400 py-3 text-center">Sem propostas perdidas.</li>}
+          </ul>
+        </div>
+      </div>
+      <p className="text-[11px] text-slate-400 mt-4">Cada proposta conta uma vez, pela sua revisão mais recente.</p>
+    </div>
+  );
+};
+
+export default QuoteAnalytics;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { QuoteHistory, QuoteStatus } from '../../types';
+import { QUOTE_STATUS_LABELS, quoteHistoryService } from '../../services';
+import { RefreshCcw, Save, Tag, X } from 'lucide-react';
+
+interface QuoteStatusModalProps {
+  quote: QuoteHistory;
+  onClose: () => void;
+  onSaved: (quote: QuoteHistory) => void;
+}
+
+const LOSS_REASON_SUGGESTIONS = ['Preço', 'Escolheu outro gabinete', 'Sem resposta', 'Adiou decisão', 'Âmbito não se ajusta'];
+
+const QuoteStatusModal: React.FC<QuoteStatusModalProps> = ({ quote, onClose, onSaved }) => {
+  const [status, setStatus] = useState<QuoteStatus>(quote.status);
+  const [lossReason, setLossReason] = useState(quote.loss_reason || '');
+  const [acceptedFee, setAcceptedFee] = useState<number>(quote.accepted_monthly_fee ?? quote.recommended_monthly_fee);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (status === 'rejected' && !lossReason.trim()) {
+      alert('Indique o motivo da perda.');
+      return;
+    }
+    if (status === 'accepted' && !(acceptedFee > 0)) {
+      alert('Indique a avença mensal acordada.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const saved = await quoteHistoryService.updateStatus(quote.id, status, {
+        lossReason: lossReason.trim(),
+        acceptedMonthlyFee: acceptedFee,
+      });
+      onSaved(saved);
+    } catch (err: any) {
+      alert(`Erro ao atualizar o estado: ${err?.message || err}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md">
+        <div className="p-4 border-b flex justify-between items-start gap-4">
+          <div>
+            <h3 className="text-lg font-bold flex items-center gap-2"><Tag size={18} /> Estado da Proposta</h3>
+            <p className="text-xs text-slate-500">
+              {quote.client_name || 'Sem nome'} · v{quote.revision} · {new Date(quote.created_at).toLocaleDateString('pt-PT')}
+            </p>
+          </div>
+          <button type="button" onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {quote.responded_at && (
+            <div className={`rounded-lg p-3 text-xs ${quote.status === 'rejected' ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+              <p className="font-bold">
+                {quote.status === 'rejected' ? 'Recusada' : 'Aceite'} online
+                {quote.response_name ? ` por ${quote.response_name}` : ''} em {new Date(quote.responded_at).toLocaleString('pt-PT')}
+              </p>
+              {quote.response_ip && <p>IP: {quote.response_ip}</p>}
+              {quote.response_comment && <p className="mt-1 italic">"{quote.response_comment}"</p>}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Estado</label>
+            <select value={status} onChange={e => setStatus(e.target.value as QuoteStatus)} className="w-full px-3 py-2 border rounded-lg text-sm bg-white">
+              {(Object.keys(QUOTE_STATUS_LABELS) as QuoteStatus[]).map(key => <option key={key} value={key}>{QUOTE_STATUS_LABELS[key]}</option>)}
+            </select>
+          </div>
+
+          {status === 'rejected' && (
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Motivo da perda</label>
+              <input type="text" list="quote-loss-reasons" value={lossReason} onChange={e => setLossReason(e.target.value)} className="w-full px-3 py-2 border rounded-lg text-sm" />
+              <datalist id="quote-loss-reasons">
+                {LOSS_REASON_SUGGESTIONS.map(reason => <option key={reason} value={reason} />)}
+              </datalist>
+            </div>
+          )}
+
+          {status === 'accepted' && (
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Avença mensal acordada (€)</label>
+              <input type="number" value={acceptedFee} onChange={e => setAcceptedFee(parseFloat(e.target.value) || 0)} className="w-full px-3 py-2 border rounded-lg text-sm" />
+              <p className="text-[11px] text-slate-400 mt-1">Proposto: {quote.recommended_monthly_fee.toFixed(2)}€</p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm">Cancelar</button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? <RefreshCcw size={16} className="animate-spin" /> : <Save size={16} />} Guardar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuoteStatusModal;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { QuoteHistory } from '../../types';
+import { quoteHistoryService } from '../../services';
+import { QuoteProposalCompany, getQuoteReference } from '../../services/quoteProposal';
+import { Download, Mail, RefreshCcw, Send, X } from 'lucide-react';
+
+interface SendProposalModalProps {
+  quote: QuoteHistory;
+  company: QuoteProposalCompany;
+  onClose: () => void;
+  onSent: (quote: QuoteHistory) => void;
+}
+
+const SendProposalModal: React.FC<SendProposalModalProps> = ({ quote, company, onClose, onSent }) => {
+  const reference = getQuoteReference(quote);
+  const [to, setTo] = useState(quote.proposal_sent_to || '');
+  const [subject, setSubject] = useState(`Proposta de serviços — ${quote.client_name || reference}`);
+  const [message, setMessage] = useState(
+    `Exmos. Senhores,\n\nEnviamos em anexo a nossa proposta de prestação de serviços (ref. ${reference}).\n\nFicamos ao dispor para qualquer esclarecimento.\n\nCom os melhores cumprimentos,\n${company.name}`
+  );
+  const [isSending, setIsSending] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const { fileName, blob } = await quoteHistoryService.downloadProposalPdf(quote.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      alert(`Erro ao gerar o PDF: ${err?.message || err}`);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(to.trim())) {
+      alert('Indique um email válido para o destinatário.');
+      return;
+    }
+    setIsSending(true);
+    try {
+      const saved = await quoteHistoryService.sendProposal(quote.id, {
+        to: to.trim(),
+        subject: subject.trim(),
+        message,
+      });
+      alert(`Proposta enviada para ${to.trim()}.`);
+      onSent(saved);
+    } catch (err: any) {
+      alert(`Erro ao enviar a proposta: ${err?.message || err}`);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-xl">
+        <div className="p-4 border-b flex justify-between items-start gap-4">
+          <div>
+            <h3 className="text-lg font-bold flex items-center gap-2"><Mail size={18} /> Enviar Proposta</h3>
+            <p className="text-xs text-slate-500">
+              {quote.client_name || 'Sem nome'} · ref. {reference}
+              {quote.proposal_sent_at && ` · última vez enviada a ${new Date(quote.proposal_sent_at).toLocaleDateString('pt-PT')}`}
+            </p>
+          </div>
+          <button type="button" onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Para</label>
+            <input type="email" value={to} onChange={e => setTo(e.target.value)} placeholder="email@empresa.pt" className="w-full px-3 py-2 border rounded-lg text-sm" />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Assunto</label>
+            <input type="text" value={subject} onChange={e => setSubject(e.target.value)} className="w-full px-3 py-2 border rounded-lg text-sm" />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Mensagem</label>
+            <textarea value={message} onChange={e => setMessage(e.target.value)} rows={8} className="w-full px-3 py-2 border rounded-lg text-sm" />
+          </div>
+          <p className="text-[11px] text-slate-400">A proposta segue em anexo, em PDF (capa, âmbito, honorários, condições e aceitação).</p>
+        </div>
+
+        <div className="p-4 border-t flex justify-between gap-3">
+          <button
+            onClick={handleDownload}
+            disabled={isDownloading}
+            className="px-4 py-2 text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+          >
+            {isDownloading ? <RefreshCcw size={16} className="animate-spin" /> : <Download size={16} />} Descarregar PDF
+          </button>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm">Cancelar</button>
+            <button
+              onClick={handleSend}
+              disabled={isSending}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSending ? <RefreshCcw size={16} className="animate-spin" /> : <Send size={16} />} Enviar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SendProposalModal;
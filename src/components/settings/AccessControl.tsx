@@ -0,0 +1,328 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, Pencil, Plus, RefreshCcw, Save, Trash2, X } from 'lucide-react';
+import { AppPermission, AppRole, InsurancePolicy, Staff, UserRoleAssignment } from '../../types';
+import { APP_PERMISSION_LABELS, APP_VIEW_LABELS, roleService } from '../../services';
+
+interface AccessControlProps {
+  staff: Staff[];
+}
+
+type RoleDraft = Omit<AppRole, 'id' | 'isSystem'> & { id?: string; isSystem?: boolean };
+
+const EMPTY_ASSIGNMENT: UserRoleAssignment = { email: '', roleId: '', staffId: null, insuranceAgent: null };
+// The admin role must keep these, otherwise nobody could reach this screen again.
+const ADMIN_LOCKED_VIEWS = ['settings'];
+const ADMIN_LOCKED_PERMISSIONS: AppPermission[] = ['manage_roles'];
+
+const toRoleKey = (name: string) => name
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '_')
+  .replace(/^_+|_+$/g, '');
+
+const toggleItem = <T,>(items: T[], item: T) => (items.includes(item) ? items.filter(i => i !== item) : [...items, item]);
+
+const AccessControl: React.FC<AccessControlProps> = ({ staff }) => {
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [assignments, setAssignments] = useState<UserRoleAssignment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [roleDraft, setRoleDraft] = useState<RoleDraft | null>(null);
+  const [newAssignment, setNewAssignment] = useState<UserRoleAssignment>(EMPTY_ASSIGNMENT);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    Promise.all([roleService.getRoles(), roleService.getAssignments()])
+      .then(([loadedRoles, loadedAssignments]) => {
+        if (!isMounted) return;
+        setRoles(loadedRoles);
+        setAssignments(loadedAssignments);
+      })
+      .catch(err => { if (isMounted) setLoadError(err.message); })
+      .finally(() => { if (isMounted) setIsLoading(false); });
+    return () => { isMounted = false; };
+  }, []);
+
+  const roleById = new Map(roles.map(role => [role.id, role]));
+  const isLockedAdmin = (draft: RoleDraft) => draft.key === 'admin';
+
+  const handleSaveRole = async () => {
+    if (!roleDraft) return;
+    const name = roleDraft.name.trim();
+    if (!name) {
+      alert('Indique o nome do perfil.');
+      return;
+    }
+    const draft: RoleDraft = isLockedAdmin(roleDraft)
+      ? {
+          ...roleDraft,
+          views: Array.from(new Set([...roleDraft.views, ...ADMIN_LOCKED_VIEWS])),
+          permissions: Array.from(new Set([...roleDraft.permissions, ...ADMIN_LOCKED_PERMISSIONS])),
+        }
+      : roleDraft;
+
+    setSavingKey('role');
+    try {
+      const saved = await roleService.saveRole({ ...draft, name, key: draft.key || toRoleKey(name) });
+      setRoles(prev => (prev.some(role => role.id === saved.id) ? prev.map(role => (role.id === saved.id ? saved : role)) : [...prev, saved]));
+      setRoleDraft(null);
+    } catch (err: any) {
+      alert('Erro ao guardar perfil: ' + err.message);
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleDeleteRole = async (role: AppRole) => {
+    if (assignments.some(assignment => assignment.roleId === role.id)) {
+      alert('Este perfil está atribuído a utilizadores. Reatribua-os antes de o remover.');
+      return;
+    }
+    if (!confirm(`Remover o perfil "${role.name}"?`)) return;
+    try {
+      await roleService.deleteRole(role.id);
+      setRoles(prev => prev.filter(item => item.id !== role.id));
+    } catch (err: any) {
+      alert('Erro ao remover perfil: ' + err.message);
+    }
+  };
+
+  const saveAssignment = async (assignment: UserRoleAssignment) => {
+    setSavingKey(assignment.email);
+    try {
+      const saved = await roleService.saveAssignment(assignment);
+      setAssignments(prev => [...prev.filter(item => item.email !== saved.email), saved].sort((a, b) => a.email.localeCompare(b.email)));
+      return true;
+    } catch (err: any) {
+      alert('Erro ao guardar atribuição: ' + err.message);
+      return false;
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleAddAssignment = async () => {
+    const email = newAssignment.email.trim().toLowerCase();
+    if (!email || !newAssignment.roleId) {
+      alert('Indique o email e o perfil.');
+      return;
+    }
+    if (await saveAssignment({ ...newAssignment, email })) setNewAssignment(EMPTY_ASSIGNMENT);
+  };
+
+  const handleRemoveAssignment = async (email: string) => {
+    if (!confirm(`Remover o perfil atribuído a ${email}? O utilizador passa a ter o perfil Colaborador.`)) return;
+    try {
+      await roleService.removeAssignment(email);
+      setAssignments(prev => prev.filter(item => item.email !== email));
+    } catch (err: any) {
+      alert('Erro ao remover atribuição: ' + err.message);
+    }
+  };
+
+  const renderAssignmentFields = (assignment: UserRoleAssignment, onChange: (next: UserRoleAssignment) => void) => (
+    <>
+      <td className="px-3 py-2">
+        <select value={assignment.roleId} onChange={e => onChange({ ...assignment, roleId: e.target.value })} className="w-full px-2 py-1 border rounded text-xs bg-white">
+          <option value="">Selecione...</option>
+          {roles.map(role => <option key={role.id} value={role.id}>{role.name}</option>)}
+        </select>
+      </td>
+      <td className="px-3 py-2">
+        <select value={assignment.staffId || ''} onChange={e => onChange({ ...assignment, staffId: e.target.value || null })} className="w-full px-2 py-1 border rounded text-xs bg-white">
+          <option value="">—</option>
+          {staff.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+        </select>
+      </td>
+      <td className="px-3 py-2">
+        <select
+          value={assignment.insuranceAgent || ''}
+          onChange={e => onChange({ ...assignment, insuranceAgent: (e.target.value || null) as InsurancePolicy['agent'] | null })}
+          className="w-full px-2 py-1 border rounded text-xs bg-white"
+        >
+          <option value="">—</option>
+          <option value="MPR">MPR</option>
+          <option value="Paula">Paula</option>
+        </select>
+      </td>
+    </>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 text-sm text-slate-400 flex items-center gap-2">
+        <RefreshCcw size={14} className="animate-spin" /> A carregar perfis de acesso...
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-6">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h3 className="font-bold text-slate-800 flex items-center gap-2"><KeyRound size={18} /> Utilizadores e Permissões</h3>
+          <p className="text-xs text-slate-500">Perfis definem as áreas visíveis, as ações permitidas e o âmbito dos dados. Quem não tem perfil atribuído fica como Colaborador.</p>
+        </div>
+        <button
+          onClick={() => setRoleDraft({ key: '', name: '', description: '', views: [], permissions: [], dataScope: 'all' })}
+          className="bg-blue-100 text-blue-700 px-3 py-1 rounded text-xs font-bold hover:bg-blue-200 flex items-center gap-1 shrink-0"
+        >
+          <Plus size={14} /> Novo Perfil
+        </button>
+      </div>
+
+      {loadError && <p className="text-sm font-bold text-red-600">Erro ao carregar perfis: {loadError}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {roles.map(role => (
+          <div key={role.id} className="border border-slate-200 rounded-lg p-4 space-y-2">
+            <div className="flex justify-between items-start">
+              <div>
+                <p className="font-bold text-slate-800">{role.name}</p>
+                <p className="text-[11px] text-slate-500">{role.description || '—'}</p>
+              </div>
+              <div className="flex gap-1">
+                <button onClick={() => setRoleDraft({ ...role })} className="p-1 text-slate-400 hover:text-blue-600"><Pencil size={14} /></button>
+                {!role.isSystem && (
+                  <button onClick={() => handleDeleteRole(role)} className="p-1 text-slate-400 hover:text-red-600"><Trash2 size={14} /></button>
+                )}
+              </div>
+            </div>
+            <p className="text-[11px] text-slate-500">Âmbito: <span className="font-bold">{role.dataScope === 'own' ? 'Só os próprios clientes' : 'Todos os dados'}</span></p>
+            <div className="flex flex-wrap gap-1">
+              {role.views.map(view => (
+                <span key={view} className="text-[10px] bg-slate-100 text-slate-600 px-2 py-0.5 rounded">{APP_VIEW_LABELS[view] || view}</span>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {role.permissions.map(permission => (
+                <span key={permission} className="text-[10px] bg-blue-50 text-blue-700 px-2 py-0.5 rounded">{APP_PERMISSION_LABELS[permission] || permission}</span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {roleDraft && (
+        <div className="border border-blue-200 bg-blue-50/40 rounded-lg p-4 space-y-4">
+          <div className="flex justify-between items-center">
+            <p className="font-bold text-slate-800">{roleDraft.id ? `Editar perfil ${roleDraft.name}` : 'Novo perfil'}</p>
+            <button onClick={() => setRoleDraft(null)} className="text-slate-400 hover:text-slate-700"><X size={16} /></button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Nome</label>
+              <input type="text" value={roleDraft.name} onChange={e => setRoleDraft({ ...roleDraft, name: e.target.value })} className="w-full px-3 py-2 border rounded-lg text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Descrição</label>
+              <input type="text" value={roleDraft.description} onChange={e => setRoleDraft({ ...roleDraft, description: e.target.value })} className="w-full px-3 py-2 border rounded-lg text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Âmbito dos dados</label>
+              <select value={roleDraft.dataScope} onChange={e => setRoleDraft({ ...roleDraft, dataScope: e.target.value as AppRole['dataScope'] })} className="w-full px-3 py-2 border rounded-lg text-sm bg-white">
+                <option value="all">Todos os dados</option>
+                <option value="own">Só os próprios clientes / apólices</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <p className="text-xs font-bold text-slate-500 mb-2">Áreas</p>
+            <div className="flex flex-wrap gap-3">
+              {Object.entries(APP_VIEW_LABELS).map(([view, label]) => (
+                <label key={view} className="flex items-center gap-1 text-xs text-slate-700">
+                  <input
+                    type="checkbox"
+                    className="rounded"
+                    checked={roleDraft.views.includes(view)}
+                    disabled={isLockedAdmin(roleDraft) && ADMIN_LOCKED_VIEWS.includes(view)}
+                    onChange={() => setRoleDraft({ ...roleDraft, views: toggleItem(roleDraft.views, view) })}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-xs font-bold text-slate-500 mb-2">Ações</p>
+            <div className="flex flex-wrap gap-3">
+              {(Object.keys(APP_PERMISSION_LABELS) as AppPermission[]).map(permission => (
+                <label key={permission} className="flex items-center gap-1 text-xs text-slate-700">
+                  <input
+                    type="checkbox"
+                    className="rounded"
+                    checked={roleDraft.permissions.includes(permission)}
+                    disabled={isLockedAdmin(roleDraft) && ADMIN_LOCKED_PERMISSIONS.includes(permission)}
+                    onChange={() => setRoleDraft({ ...roleDraft, permissions: toggleItem(roleDraft.permissions, permission) })}
+                  />
+                  {APP_PERMISSION_LABELS[permission]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button onClick={handleSaveRole} disabled={savingKey === 'role'} className="bg-green-600 text-white px-4 py-2 rounded-lg text-xs font-bold hover:bg-green-700 flex items-center gap-1 disabled:opacity-50">
+              {savingKey === 'role' ? <RefreshCcw size={14} className="animate-spin" /> : <Save size={14} />} Guardar Perfil
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs font-bold text-slate-500 mb-1">Atribuições</p>
+        <p className="text-[11px] text-slate-400 mb-2">O colaborador associado define os "próprios clientes"; o mediador limita as apólices visíveis em Seguros.</p>
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+            <tr>
+              <th className="px-3 py-2">Email de acesso</th>
+              <th className="px-3 py-2">Perfil</th>
+              <th className="px-3 py-2">Colaborador</th>
+              <th className="px-3 py-2">Mediador</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {assignments.map(assignment => (
+              <tr key={assignment.email}>
+                <td className="px-3 py-2 text-xs font-bold text-slate-700">
+                  {assignment.email}
+                  {!roleById.has(assignment.roleId) && <span className="block text-[10px] text-red-500">perfil inexistente</span>}
+                </td>
+                {renderAssignmentFields(assignment, next => { void saveAssignment(next); })}
+                <td className="px-3 py-2 text-right">
+                  {savingKey === assignment.email
+                    ? <RefreshCcw size={14} className="animate-spin text-slate-400 inline" />
+                    : <button onClick={() => handleRemoveAssignment(assignment.email)} className="text-slate-400 hover:text-red-600"><Trash2 size={14} /></button>}
+                </td>
+              </tr>
+            ))}
+            <tr className="bg-slate-50/60">
+              <td className="px-3 py-2">
+                <input
+                  type="email"
+                  placeholder="utilizador@dominio.pt"
+                  value={newAssignment.email}
+                  onChange={e => setNewAssignment({ ...newAssignment, email: e.target.value })}
+                  className="w-full px-2 py-1 border rounded text-xs"
+                />
+              </td>
+              {renderAssignmentFields(newAssignment, next => {
+                const member = staff.find(s => s.id === next.staffId);
+                setNewAssignment(!next.email && member?.email ? { ...next, email: member.email } : next);
+              })}
+              <td className="px-3 py-2 text-right">
+                <button onClick={handleAddAssignment} className="bg-blue-600 text-white px-3 py-1 rounded text-xs font-bold hover:bg-blue-700 flex items-center gap-1 ml-auto">
+                  <Plus size={12} /> Atribuir
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AccessControl;
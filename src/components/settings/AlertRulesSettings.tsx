@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { BellRing, Plus, RefreshCcw, RotateCcw, Save, Trash2, X } from 'lucide-react';
+import { AlertRule, AlertRuleCondition, AlertRuleField, AlertRuleOperator, AppNotification } from '../../types';
+import { appConfigService } from '../../services';
+import { ALERT_RULE_FIELDS, ALERT_RULE_OPERATOR_LABELS, DEFAULT_ALERT_RULES } from '../../services/alertRules';
+
+const SEVERITY_LABELS: Record<AppNotification['type'], string> = {
+  critical: 'Crítica',
+  warning: 'Aviso',
+  info: 'Informação',
+  success: 'Sucesso',
+};
+
+const TEXT_OPERATORS: AlertRuleOperator[] = ['eq', 'neq'];
+const FIELD_KEYS = Object.keys(ALERT_RULE_FIELDS) as AlertRuleField[];
+
+const createRule = (): AlertRule => ({
+  id: `rule-${Date.now().toString(36)}`,
+  name: 'Nova regra',
+  enabled: true,
+  severity: 'warning',
+  conditions: [{ field: 'profitability', operator: 'lt', value: 0 }],
+  messageTemplate: '{{name}}: ',
+});
+
+const AlertRulesSettings: React.FC = () => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    appConfigService.getAlertRules()
+      .then(loaded => { if (isMounted) setRules(loaded); })
+      .catch(err => {
+        console.error('Erro ao carregar regras de alertas:', err);
+        if (isMounted) setRules(DEFAULT_ALERT_RULES);
+      })
+      .finally(() => { if (isMounted) setIsLoading(false); });
+    return () => { isMounted = false; };
+  }, []);
+
+  const updateRule = (id: string, changes: Partial<AlertRule>) => {
+    setRules(prev => prev.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const updateCondition = (rule: AlertRule, index: number, changes: Partial<AlertRuleCondition>) => {
+    const conditions = rule.conditions.map((condition, i) => {
+      if (i !== index) return condition;
+      const next = { ...condition, ...changes };
+      // Switching between numeric and text fields resets what no longer applies.
+      if (changes.field && ALERT_RULE_FIELDS[changes.field].kind !== ALERT_RULE_FIELDS[condition.field].kind) {
+        const isText = ALERT_RULE_FIELDS[changes.field].kind === 'text';
+        next.operator = isText ? 'eq' : 'lt';
+        next.value = isText ? '' : 0;
+      }
+      return next;
+    });
+    updateRule(rule.id, { conditions });
+  };
+
+  const handleSave = async () => {
+    const invalid = rules.find(rule => !rule.name.trim() || !rule.messageTemplate.trim() || rule.conditions.length === 0);
+    if (invalid) {
+      alert(`A regra "${invalid.name || invalid.id}" precisa de nome, mensagem e pelo menos uma condição.`);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await appConfigService.saveAlertRules(rules.map(rule => ({ ...rule, name: rule.name.trim(), actionLabel: rule.actionLabel?.trim() || undefined })));
+      alert('Regras de alertas guardadas. Aplicam-se na próxima geração de notificações ("Atualizar" no painel).');
+    } catch (err: any) {
+      alert(`Erro ao guardar regras: ${err?.message || err}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Repor as regras predefinidas? As alterações não guardadas perdem-se.')) return;
+    setRules(DEFAULT_ALERT_RULES);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-1">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2"><BellRing size={18} /> Regras de Alertas</h3>
+        <div className="flex gap-2">
+          <button onClick={() => setRules(prev => [...prev, createRule()])} className="bg-blue-100 text-blue-700 px-3 py-1 rounded text-xs font-bold hover:bg-blue-200 flex items-center gap-1">
+            <Plus size={14} /> Adicionar Regra
+          </button>
+          <button onClick={handleReset} className="bg-slate-100 text-slate-600 px-3 py-1 rounded text-xs font-bold hover:bg-slate-200 flex items-center gap-1">
+            <RotateCcw size={14} /> Repor Predefinidas
+          </button>
+          <button onClick={handleSave} disabled={isSaving || isLoading} className="bg-green-600 text-white px-4 py-1 rounded text-xs font-bold hover:bg-green-700 flex items-center gap-1 disabled:opacity-50">
+            {isSaving ? <RefreshCcw size={14} className="animate-spin" /> : <Save size={14} />} Salvar
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        Cada regra gera uma notificação por cliente ativo quando todas as condições se verificam.
+        Na mensagem pode usar {'{{campo}}'}, por exemplo {'{{name}}'} ou {'{{profitability}}'}.
+      </p>
+
+      {isLoading ? (
+        <p className="text-xs text-slate-400 flex items-center gap-2"><RefreshCcw size={14} className="animate-spin" /> A carregar regras...</p>
+      ) : (
+        <div className="space-y-4">
+          {rules.length === 0 && <p className="text-xs text-slate-400 italic">Sem regras: não serão geradas notificações de clientes.</p>}
+          {rules.map(rule => (
+            <div key={rule.id} className={`border rounded-lg p-4 space-y-3 ${rule.enabled ? 'border-slate-200' : 'border-slate-100 bg-slate-50 opacity-75'}`}>
+              <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+                <label className="md:col-span-1 flex items-center gap-2 text-xs text-slate-600 cursor-pointer pb-2">
+                  <input type="checkbox" checked={rule.enabled} onChange={e => updateRule(rule.id, { enabled: e.target.checked })} className="rounded text-blue-600" />
+                  Ativa
+                </label>
+                <div className="md:col-span-4">
+                  <label className="block text-xs font-bold text-slate-500 mb-1">Título</label>
+                  <input type="text" value={rule.name} onChange={e => updateRule(rule.id, { name: e.target.value })} className="w-full px-3 py-2 border rounded-lg text-sm" />
+                </div>
+                <div className="md:col-span-3">
+                  <label className="block text-xs font-bold text-slate-500 mb-1">Gravidade</label>
+                  <select value={rule.severity} onChange={e => updateRule(rule.id, { severity: e.target.value as AppNotification['type'] })} className="w-full px-3 py-2 border rounded-lg text-sm bg-white">
+                    {(Object.keys(SEVERITY_LABELS) as AppNotification['type'][]).map(type => <option key={type} value={type}>{SEVERITY_LABELS[type]}</option>)}
+                  </select>
+                </div>
+                <div className="md:col-span-3">
+                  <label className="block text-xs font-bold text-slate-500 mb-1">Ação (opcional)</label>
+                  <input type="text" value={rule.actionLabel || ''} onChange={e => updateRule(rule.id, { actionLabel: e.target.value })} placeholder="Ver Detalhes" className="w-full px-3 py-2 border rounded-lg text-sm" />
+                </div>
+                <button onClick={() => setRules(prev => prev.filter(item => item.id !== rule.id))} title="Remover regra" className="md:col-span-1 text-red-400 hover:text-red-600 p-2 justify-self-end">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-xs font-bold text-slate-500">Condições (todas)</p>
+                {rule.conditions.map((condition, index) => {
+                  const isText = ALERT_RULE_FIELDS[condition.field].kind === 'text';
+                  const operators = isText ? TEXT_OPERATORS : (Object.keys(ALERT_RULE_OPERATOR_LABELS) as AlertRuleOperator[]);
+                  return (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                      <select value={condition.field} onChange={e => updateCondition(rule, index, { field: e.target.value as AlertRuleField })} className="px-2 py-1.5 border rounded-lg text-xs bg-white">
+                        <optgroup label="Cliente">
+                          {FIELD_KEYS.filter(key => ALERT_RULE_FIELDS[key].source === 'client').map(key => <option key={key} value={key}>{ALERT_RULE_FIELDS[key].label}</option>)}
+                        </optgroup>
+                        <optgroup label="Análise">
+                          {FIELD_KEYS.filter(key => ALERT_RULE_FIELDS[key].source === 'analysis').map(key => <option key={key} value={key}>{ALERT_RULE_FIELDS[key].label}</option>)}
+                        </optgroup>
+                      </select>
+                      <select value={condition.operator} onChange={e => updateCondition(rule, index, { operator: e.target.value as AlertRuleOperator })} className="px-2 py-1.5 border rounded-lg text-xs bg-white">
+                        {operators.map(operator => <option key={operator} value={operator}>{ALERT_RULE_OPERATOR_LABELS[operator]}</option>)}
+                      </select>
+                      <input
+                        type={isText ? 'text' : 'number'}
+                        value={condition.value}
+                        onChange={e => updateCondition(rule, index, { value: isText ? e.target.value : parseFloat(e.target.value) || 0 })}
+                        className="w-40 px-2 py-1.5 border rounded-lg text-xs"
+                      />
+                      <button
+                        onClick={() => updateRule(rule.id, { conditions: rule.conditions.filter((_, i) => i !== index) })}
+                        title="Remover condição"
+                        className="text-slate-400 hover:text-red-600 p-1"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                  );
+                })}
+                <button
+                  onClick={() => updateRule(rule.id, { conditions: [...rule.conditions, { field: 'monthlyFee', operator: 'lt', value: 0 }] })}
+                  className="text-xs text-blue-600 hover:underline flex items-center gap-1"
+                >
+                  <Plus size={12} /> Adicionar condição
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-1">Mensagem</label>
+                <textarea value={rule.messageTemplate} onChange={e => updateRule(rule.id, { messageTemplate: e.target.value })} rows={2} className="w-full px-3 py-2 border rounded-lg text-sm" />
+              </div>
+            </div>
+          ))}
+          <p className="text-[11px] text-slate-400">
+            Campos disponíveis: {FIELD_KEYS.map(key => `{{${key}}}`).join(', ')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertRulesSettings;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { Landmark, Plus, RefreshCcw, Save, Trash2 } from 'lucide-react';
+import { OverheadDriver, OverheadPool } from '../../types';
+import { appConfigService } from '../../services';
+import { OVERHEAD_DRIVER_LABELS } from '../../services/overheadAllocation';
+
+interface OverheadPoolsSettingsProps {
+  pools: OverheadPool[];
+  setPools: (pools: OverheadPool[]) => void;
+}
+
+const createPool = (): OverheadPool => ({
+  id: `pool-${Date.now().toString(36)}`,
+  name: '',
+  annualAmount: 0,
+  driver: 'hours',
+  enabled: true,
+});
+
+const OverheadPoolsSettings: React.FC<OverheadPoolsSettingsProps> = ({ pools, setPools }) => {
+  const [draft, setDraft] = useState<OverheadPool[]>(pools);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(pools);
+  }, [pools]);
+
+  const updatePool = (id: string, changes: Partial<OverheadPool>) => {
+    setDraft(prev => prev.map(pool => (pool.id === id ? { ...pool, ...changes } : pool)));
+  };
+
+  const totalAnnual = draft.filter(pool => pool.enabled).reduce((sum, pool) => sum + (pool.annualAmount || 0), 0);
+
+  const handleSave = async () => {
+    const invalid = draft.find(pool => !pool.name.trim());
+    if (invalid) {
+      alert('Todos os centros de custo precisam de nome.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const cleaned = draft.map(pool => ({ ...pool, name: pool.name.trim(), annualAmount: Math.max(0, pool.annualAmount || 0) }));
+      await appConfigService.saveOverheadPools(cleaned);
+      setPools(cleaned);
+      alert('Custos indiretos guardados.');
+    } catch (err: any) {
+      alert(`Erro ao guardar custos indiretos: ${err?.message || err}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-1">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2"><Landmark size={18} /> Custos Indiretos</h3>
+        <div className="flex gap-2">
+          <button onClick={() => setDraft(prev => [...prev, createPool()])} className="bg-blue-100 text-blue-700 px-3 py-1 rounded text-xs font-bold hover:bg-blue-200 flex items-center gap-1">
+            <Plus size={14} /> Adicionar Centro de Custo
+          </button>
+          <button onClick={handleSave} disabled={isSaving} className="bg-green-600 text-white px-4 py-1 rounded text-xs font-bold hover:bg-green-700 flex items-center gap-1 disabled:opacity-50">
+            {isSaving ? <RefreshCcw size={14} className="animate-spin" /> : <Save size={14} />} Salvar
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        Renda, licenças de software, pessoal administrativo ou tempo dos sócios. Cada valor anual é repartido pelos clientes ativos
+        na proporção do critério escolhido e entra na margem líquida; a margem de contribuição considera apenas o trabalho direto.
+      </p>
+
+      <div className="space-y-2">
+        {draft.length === 0 && <p className="text-xs text-slate-400 italic">Sem custos indiretos: as margens consideram apenas o trabalho direto.</p>}
+        {draft.map(pool => (
+          <div key={pool.id} className={`grid grid-cols-1 md:grid-cols-12 gap-3 items-center border rounded-lg p-3 ${pool.enabled ? 'border-slate-200' : 'border-slate-100 bg-slate-50 opacity-75'}`}>
+            <label className="md:col-span-1 flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={pool.enabled} onChange={e => updatePool(pool.id, { enabled: e.target.checked })} className="rounded text-blue-600" />
+              Ativo
+            </label>
+            <input
+              type="text"
+              value={pool.name}
+              onChange={e => updatePool(pool.id, { name: e.target.value })}
+              placeholder="Ex.: Renda do escritório"
+              className="md:col-span-5 px-3 py-2 border rounded-lg text-sm"
+            />
+            <div className="md:col-span-2 relative">
+              <input
+                type="number"
+                min={0}
+                value={pool.annualAmount}
+                onChange={e => updatePool(pool.id, { annualAmount: parseFloat(e.target.value) || 0 })}
+                className="w-full px-3 py-2 pr-12 border rounded-lg text-sm text-right"
+              />
+              <span className="absolute right-3 top-2 text-xs text-slate-400">€/ano</span>
+            </div>
+            <select value={pool.driver} onChange={e => updatePool(pool.id, { driver: e.target.value as OverheadDriver })} className="md:col-span-3 px-3 py-2 border rounded-lg text-sm bg-white">
+              {(Object.keys(OVERHEAD_DRIVER_LABELS) as OverheadDriver[]).map(driver => (
+                <option key={driver} value={driver}>Por {OVERHEAD_DRIVER_LABELS[driver].toLowerCase()}</option>
+              ))}
+            </select>
+            <button onClick={() => setDraft(prev => prev.filter(item => item.id !== pool.id))} title="Remover centro de custo" className="md:col-span-1 text-red-400 hover:text-red-600 p-2 justify-self-end">
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+      {draft.length > 0 && (
+        <p className="text-xs text-slate-500 mt-3 text-right">
+          Total anual a imputar: <span className="font-bold text-slate-700">{totalAnnual.toFixed(0)}€</span> ({(totalAnnual / 12).toFixed(0)}€/mês)
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default OverheadPoolsSettings;
@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Car, ExternalLink, RefreshCcw, Save } from 'lucide-react';
+import { Client, GlobalSettings } from '../../types';
+import { clientService } from '../../services';
+import { DEFAULT_TRAVEL_RATES } from '../../services/calculator';
+
+interface TravelCostSettingsProps {
+  globalSettings: GlobalSettings;
+  setGlobalSettings: (settings: GlobalSettings) => void;
+  clients: Client[];
+  setClients: (clients: Client[]) => void;
+}
+
+interface TravelDraft {
+  km: string;
+  minutes: string;
+  tolls: string;
+}
+
+const toInput = (value?: number | null) => (value === null || value === undefined ? '' : String(value));
+
+const parseOptional = (value: string): number | null => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return value.trim() && Number.isFinite(parsed) ? Math.max(0, parsed) : null;
+};
+
+const draftOf = (client: Client): TravelDraft => ({
+  km: toInput(client.travelDistanceKm),
+  minutes: toInput(client.travelMinutesOneWay),
+  tolls: toInput(client.travelTollsPerTrip),
+});
+
+const isSameDraft = (a: TravelDraft, b: TravelDraft) => a.km === b.km && a.minutes === b.minutes && a.tolls === b.tolls;
+
+const TravelCostSettings: React.FC<TravelCostSettingsProps> = ({ globalSettings, setGlobalSettings, clients, setClients }) => {
+  const [drafts, setDrafts] = useState<Record<string, TravelDraft>>({});
+  const [onlyWithTrips, setOnlyWithTrips] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDrafts({});
+  }, [clients]);
+
+  const officeAddress = [globalSettings.companyAddress, globalSettings.companyPostalCode, globalSettings.companyCity].filter(Boolean).join(', ');
+
+  const rows = useMemo(
+    () => clients
+      .filter(client => client.status !== 'Inativo' && client.status !== 'Cancelado')
+      .filter(client => !onlyWithTrips || client.travelCount > 0)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [clients, onlyWithTrips]
+  );
+
+  const changedClients = clients.filter(client => drafts[client.id] && !isSameDraft(drafts[client.id], draftOf(client)));
+
+  const updateDraft = (client: Client, changes: Partial<TravelDraft>) => {
+    setDrafts(prev => ({ ...prev, [client.id]: { ...(prev[client.id] || draftOf(client)), ...changes } }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved: Client[] = [];
+    try {
+      // One client at a time, so a failure leaves the rows already stored in place.
+      for (const client of changedClients) {
+        const draft = drafts[client.id];
+        saved.push(await clientService.upsert({
+          ...client,
+          travelDistanceKm: parseOptional(draft.km),
+          travelMinutesOneWay: draft.minutes.trim() ? Math.round(parseOptional(draft.minutes) ?? 0) : null,
+          travelTollsPerTrip: parseOptional(draft.tolls),
+          travelDistanceAddress: client.address || null,
+        }));
+      }
+      alert('Distâncias guardadas.');
+    } catch (err: any) {
+      alert(`Erro ao guardar distâncias: ${err?.message || err}`);
+    } finally {
+      if (saved.length > 0) {
+        const savedById = new Map(saved.map(client => [client.id, client]));
+        setClients(clients.map(client => savedById.get(client.id) || client));
+      }
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-1">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2"><Car size={18} /> Deslocações</h3>
+        <button onClick={handleSave} disabled={isSaving || changedClients.length === 0} className="bg-green-600 text-white px-4 py-1 rounded text-xs font-bold hover:bg-green-700 flex items-center gap-1 disabled:opacity-50">
+          {isSaving ? <RefreshCcw size={14} className="animate-spin" /> : <Save size={14} />} Salvar Distâncias{changedClients.length > 0 && ` (${changedClients.length})`}
+        </button>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        Distância (só ida) desde o gabinete até à morada do cliente. O tempo de viagem conta como trabalho; quilómetros e portagens
+        (ida e volta) entram como despesa direta. Sem distância registada, cada deslocação conta 60 minutos e nenhuma despesa.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-xs font-bold text-slate-500 mb-1">Custo por km (€)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            value={globalSettings.travelCostPerKm ?? DEFAULT_TRAVEL_RATES.costPerKm}
+            onChange={e => setGlobalSettings({ ...globalSettings, travelCostPerKm: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="w-full px-3 py-2 border rounded-lg text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-slate-500 mb-1">Portagens por deslocação (€, ida e volta)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.05}
+            value={globalSettings.travelTollAllowance ?? DEFAULT_TRAVEL_RATES.tollAllowancePerTrip}
+            onChange={e => setGlobalSettings({ ...globalSettings, travelTollAllowance: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="w-full px-3 py-2 border rounded-lg text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="text-sm font-bold text-slate-700">Distâncias por cliente</h4>
+        <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+          <input type="checkbox" checked={onlyWithTrips} onChange={e => setOnlyWithTrips(e.target.checked)} className="rounded text-blue-600" />
+          Só clientes com deslocações
+        </label>
+      </div>
+      <div className="overflow-x-auto max-h-96 overflow-y-auto border border-slate-100 rounded-lg">
+        <table className="w-full text-xs">
+          <thead className="text-slate-500 uppercase bg-slate-50 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left">Cliente</th>
+              <th className="px-3 py-2 text-left">Morada</th>
+              <th className="px-3 py-2 text-center">Desl./ano</th>
+              <th className="px-3 py-2 text-center">Km (ida)</th>
+              <th className="px-3 py-2 text-center">Min. (ida)</th>
+              <th className="px-3 py-2 text-center">Portagens (€)</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {rows.map(client => {
+              const draft = drafts[client.id] || draftOf(client);
+              const isStale = client.travelDistanceKm != null && (client.travelDistanceAddress || '') !== (client.address || '');
+              const routeUrl = officeAddress && client.address
+                ? `https://www.google.com/maps/dir/?api=1&origin=${encodeURIComponent(officeAddress)}&destination=${encodeURIComponent(client.address)}`
+                : null;
+              return (
+                <tr key={client.id}>
+                  <td className="px-3 py-2 font-medium text-slate-700 whitespace-nowrap">{client.name}</td>
+                  <td className="px-3 py-2 text-slate-500">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate max-w-[16rem]" title={client.address || ''}>{client.address || <span className="italic text-slate-400">Sem morada</span>}</span>
+                      {routeUrl && (
+                        <a href={routeUrl} target="_blank" rel="noopener noreferrer" title="Ver percurso" className="text-blue-500 hover:text-blue-700">
+                          <ExternalLink size={12} />
+                        </a>
+                      )}
+                      {isStale && (
+                        <span title={`Distância medida para: ${client.travelDistanceAddress || 'morada desconhecida'}`} className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 whitespace-nowrap">
+                          Morada alterada
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-center text-slate-600">{client.travelCount}</td>
+                  <td className="px-3 py-1 text-center">
+                    <input type="text" inputMode="decimal" value={draft.km} onChange={e => updateDraft(client, { km: e.target.value })} className="w-20 px-2 py-1 border rounded text-center" />
+                  </td>
+                  <td className="px-3 py-1 text-center">
+                    <input type="text" inputMode="numeric" value={draft.minutes} onChange={e => updateDraft(client, { minutes: e.target.value })} placeholder="auto" className="w-20 px-2 py-1 border rounded text-center" />
+                  </td>
+                  <td className="px-3 py-1 text-center">
+                    <input type="text" inputMode="decimal" value={draft.tolls} onChange={e => updateDraft(client, { tolls: e.target.value })} placeholder="padrão" className="w-20 px-2 py-1 border rounded text-center" />
+                  </td>
+                </tr>
+              );
+            })}
+            {rows.length === 0 && (
+              <tr><td colSpan={6} className="px-3 py-4 text-center text-slate-400 italic">Sem clientes para mostrar.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {!officeAddress && <p className="text-[11px] text-slate-400 mt-2">Preencha a morada do gabinete nos dados fiscais para abrir o percurso no mapa.</p>}
+    </div>
+  );
+};
+
+export default TravelCostSettings;
@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import { Client, Staff, StaffAbsence, Task } from '../../types';
+import { buildStaffCapacityForecast } from '../../services/staffCapacity';
+import { AlertTriangle, CalendarRange } from 'lucide-react';
+
+interface CapacityForecastCardProps {
+  staff: Staff[];
+  clients: Client[];
+  tasks: Task[];
+  absences: StaffAbsence[];
+  members?: Staff[]; // Rows to show; defaults to every member with capacity
+  monthCount?: number;
+  title?: string;
+}
+
+const cellTone = (utilization: number) => {
+  if (utilization > 100) return 'bg-red-100 text-red-700 font-bold';
+  if (utilization > 85) return 'bg-amber-50 text-amber-700';
+  return 'text-slate-600';
+};
+
+const CapacityForecastCard: React.FC<CapacityForecastCardProps> = ({ staff, clients, tasks, absences, members, monthCount = 6, title = 'Capacidade Real vs. Carga' }) => {
+  const forecast = useMemo(
+    () => buildStaffCapacityForecast(staff, clients, tasks, absences, new Date(), monthCount, (members || staff).filter(member => member.capacityHoursPerMonth > 0)),
+    [staff, clients, tasks, absences, members, monthCount]
+  );
+  const months = forecast[0]?.months || [];
+  const overCount = forecast.reduce((sum, row) => sum + row.months.filter(month => month.isOverCapacity).length, 0);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+      <div className="flex justify-between items-start mb-4 gap-4">
+        <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+          <CalendarRange size={20} className="text-blue-600" /> {title}
+        </h3>
+        {overCount > 0 && (
+          <span className="flex items-center gap-1 text-xs font-bold px-2 py-1 rounded-lg bg-red-50 text-red-600">
+            <AlertTriangle size={14} /> {overCount} {overCount === 1 ? 'mês' : 'meses'} acima da capacidade
+          </span>
+        )}
+      </div>
+      {forecast.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">Sem colaboradores com capacidade definida.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="text-slate-500 uppercase bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-left">Colaborador</th>
+                {months.map(month => (
+                  <th key={month.month} className="px-3 py-2 text-center">
+                    {new Date(`${month.month}-01T00:00:00`).toLocaleDateString('pt-PT', { month: 'short', year: '2-digit' })}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {forecast.map(row => (
+                <tr key={row.staffId}>
+                  <td className="px-3 py-2 font-medium text-slate-700 whitespace-nowrap">{row.staffName}</td>
+                  {row.months.map(month => {
+                    const details = [
+                      `${month.workingDays} dias úteis`,
+                      ...month.holidays.map(holiday => `${new Date(`${holiday.date}T00:00:00`).toLocaleDateString('pt-PT')} ${holiday.name}`),
+                      month.absenceHours > 0 ? `Ausências: ${month.absenceHours.toFixed(0)}h` : '',
+                    ].filter(Boolean).join('\n');
+                    return (
+                      <td key={month.month} title={details} className={`px-3 py-2 text-center whitespace-nowrap rounded ${cellTone(month.utilization)}`}>
+                        {month.demandHours.toFixed(0)}h / {month.availableHours.toFixed(0)}h
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[11px] text-slate-400 mt-2">
+            Carga estimada / horas disponíveis no mês, descontando feriados nacionais, férias, baixas e formação. As obrigações contam no mês do prazo.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CapacityForecastCard;
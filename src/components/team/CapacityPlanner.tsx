@@ -0,0 +1,263 @@
+import React, { useMemo, useState } from 'react';
+import { Client, Staff, StaffAbsence, Task } from '../../types';
+import { clientService } from '../../services';
+import {
+  CAPACITY_OVERLOAD_PERCENT,
+  CAPACITY_TARGET_PERCENT,
+  CAPACITY_UNDERLOAD_PERCENT,
+  CapacityMove,
+  getStaffWorkUnits,
+  simulateCapacityMoves,
+  suggestCapacityMoves,
+} from '../../services/capacityPlanning';
+import { ArrowRight, CheckCircle2, Gauge, Plus, RefreshCcw, Sparkles, Trash2 } from 'lucide-react';
+
+interface CapacityPlannerProps {
+  staff: Staff[];
+  clients: Client[];
+  setClients: React.Dispatch<React.SetStateAction<Client[]>>;
+  tasks: Task[];
+  areaCosts: Record<string, number>;
+  absences: StaffAbsence[];
+  canViewCosts: boolean;
+}
+
+const utilizationTone = (utilization: number) => {
+  if (utilization > CAPACITY_OVERLOAD_PERCENT) return { bar: 'bg-red-500', text: 'text-red-600', label: 'Sobrecarregado' };
+  if (utilization < CAPACITY_UNDERLOAD_PERCENT) return { bar: 'bg-amber-400', text: 'text-amber-600', label: 'Subaproveitado' };
+  return { bar: 'bg-green-500', text: 'text-green-600', label: 'Equilibrado' };
+};
+
+const moveKey = (move: Pick<CapacityMove, 'clientId' | 'taskId'>) => `${move.clientId}:${move.taskId ?? ''}`;
+
+const CapacityPlanner: React.FC<CapacityPlannerProps> = ({ staff, clients, setClients, tasks, areaCosts, absences, canViewCosts }) => {
+  const [targetUtilization, setTargetUtilization] = useState(CAPACITY_TARGET_PERCENT);
+  const [moves, setMoves] = useState<CapacityMove[]>([]);
+  const [focusStaffId, setFocusStaffId] = useState<string | null>(null);
+  const [receivers, setReceivers] = useState<Record<string, string>>({});
+  const [isApplying, setIsApplying] = useState(false);
+
+  const simulation = useMemo(
+    () => simulateCapacityMoves(staff, clients, tasks, moves, areaCosts, absences),
+    [staff, clients, tasks, moves, areaCosts, absences]
+  );
+
+  const staffName = (id: string) => staff.find(member => member.id === id)?.name || '—';
+  const clientName = (id: string) => clients.find(client => client.id === id)?.name || '—';
+  const taskName = (id: string | null) => (id ? tasks.find(task => task.id === id)?.name || id : 'Cliente completo');
+
+  const overloaded = simulation.staff.filter(row => row.currentUtilization > CAPACITY_OVERLOAD_PERCENT).length;
+  const underloaded = simulation.staff.filter(row => row.capacityHoursPerMonth > 0 && row.currentUtilization < CAPACITY_UNDERLOAD_PERCENT).length;
+
+  const focusStaff = staff.find(member => member.id === focusStaffId) || null;
+  const focusUnits = useMemo(() => {
+    if (!focusStaff) return [];
+    const planned = new Set(moves.map(moveKey));
+    return getStaffWorkUnits(focusStaff, clients, tasks)
+      .filter(unit => !planned.has(moveKey(unit)))
+      .sort((a, b) => b.hoursPerMonth - a.hoursPerMonth);
+  }, [focusStaff, clients, tasks, moves]);
+
+  const handleSuggest = () => {
+    const suggested = suggestCapacityMoves(staff, clients, tasks, absences, targetUtilization);
+    if (suggested.length === 0) {
+      alert('Sem redistribuições possíveis: ninguém está acima da capacidade ou não há colegas com a mesma área e margem disponível.');
+      return;
+    }
+    setMoves(suggested);
+  };
+
+  const addMove = (move: CapacityMove) => {
+    setMoves(prev => [...prev.filter(item => moveKey(item) !== moveKey(move)), move]);
+  };
+
+  const handleApply = async () => {
+    if (simulation.changedClients.length === 0) return;
+    if (!confirm(`Aplicar ${moves.length} alteração(ões) em ${simulation.changedClients.length} cliente(s)?`)) return;
+    setIsApplying(true);
+    try {
+      const saved = await clientService.updateAssignments(simulation.changedClients);
+      const savedById = new Map(saved.map(client => [client.id, client]));
+      setClients(current => current.map(client => savedById.get(client.id) || client));
+      setMoves([]);
+    } catch (err: any) {
+      alert(`Não foi possível aplicar as alterações: ${err?.message || err}`);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const costDelta = simulation.proposedAnnualCost - simulation.currentAnnualCost;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2"><Gauge size={24} /> Capacidade da Equipa</h2>
+          <p className="text-sm text-slate-500">
+            Horas alocadas face à capacidade mensal de cada colaborador. Redistribua clientes ou tarefas e veja o efeito antes de aplicar.
+          </p>
+        </div>
+        <div className="flex gap-2 text-xs font-bold">
+          <span className="px-2 py-1 rounded bg-red-100 text-red-700">{overloaded} sobrecarregados</span>
+          <span className="px-2 py-1 rounded bg-amber-100 text-amber-700">{underloaded} subaproveitados</span>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex flex-wrap items-center gap-3">
+        <label className="text-xs text-slate-600 flex items-center gap-2">
+          Utilização alvo
+          <input type="number" min={50} max={100} value={targetUtilization} onChange={e => setTargetUtilization(Number(e.target.value) || CAPACITY_TARGET_PERCENT)} className="w-16 px-2 py-1 border border-slate-200 rounded text-xs font-bold" />%
+        </label>
+        <button onClick={handleSuggest} className="bg-blue-50 text-blue-700 px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-blue-100 border border-blue-100">
+          <Sparkles size={14} /> Sugerir Redistribuição
+        </button>
+        {moves.length > 0 && (
+          <button onClick={() => setMoves([])} className="px-3 py-2 text-slate-500 hover:bg-slate-100 rounded-lg text-xs">Limpar</button>
+        )}
+        <div className="md:ml-auto flex items-center gap-3">
+          {canViewCosts && moves.length > 0 && (
+            <span className="text-xs text-slate-500">
+              Custo anual dos clientes afetados: {simulation.currentAnnualCost.toFixed(0)}€ → <b className={costDelta > 0 ? 'text-red-600' : 'text-green-600'}>{simulation.proposedAnnualCost.toFixed(0)}€</b>
+            </span>
+          )}
+          <button
+            onClick={handleApply}
+            disabled={isApplying || moves.length === 0}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isApplying ? <RefreshCcw size={14} className="animate-spin" /> : <CheckCircle2 size={14} />} Aplicar {moves.length > 0 ? `(${moves.length})` : ''}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+            <tr>
+              <th className="px-4 py-3">Colaborador</th>
+              <th className="px-4 py-3">Áreas</th>
+              <th className="px-4 py-3 text-right" title="Horas disponíveis este mês, descontados feriados e ausências">Capacidade</th>
+              <th className="px-4 py-3 text-right">Alocado (h/mês)</th>
+              <th className="px-4 py-3 w-64">Utilização</th>
+              {canViewCosts && <th className="px-4 py-3 text-right">Custo anual</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {simulation.staff.map(row => {
+              const tone = utilizationTone(row.proposedUtilization);
+              const changed = Math.abs(row.proposedHoursPerMonth - row.currentHoursPerMonth) >= 0.05;
+              return (
+                <tr
+                  key={row.staffId}
+                  onClick={() => setFocusStaffId(row.staffId === focusStaffId ? null : row.staffId)}
+                  className={`cursor-pointer ${row.staffId === focusStaffId ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                >
+                  <td className="px-4 py-3 font-medium text-slate-800">{row.staffName}</td>
+                  <td className="px-4 py-3 text-xs text-slate-500">{row.assignedAreas.join(', ') || '—'}</td>
+                  <td className="px-4 py-3 text-right text-slate-600" title={`${row.capacityHoursPerMonth}h/mês contratadas`}>{row.availableHoursPerMonth.toFixed(0)}h</td>
+                  <td className="px-4 py-3 text-right text-slate-700">
+                    {row.currentHoursPerMonth.toFixed(1)}
+                    {changed && <span className="font-bold"> → {row.proposedHoursPerMonth.toFixed(1)}</span>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                        <div className={`h-full ${tone.bar}`} style={{ width: `${Math.min(row.proposedUtilization, 100)}%` }} />
+                      </div>
+                      <span className={`text-xs font-bold w-24 text-right ${tone.text}`}>
+                        {changed && <span className="font-normal text-slate-400">{row.currentUtilization.toFixed(0)}% → </span>}
+                        {row.proposedUtilization.toFixed(0)}%
+                      </span>
+                    </div>
+                    <span className={`text-[10px] ${tone.text}`}>{row.capacityHoursPerMonth > 0 ? tone.label : 'Sem capacidade definida'}</span>
+                  </td>
+                  {canViewCosts && (
+                    <td className="px-4 py-3 text-right text-slate-600">
+                      {row.currentAnnualCost.toFixed(0)}€
+                      {changed && <span className="font-bold"> → {row.proposedAnnualCost.toFixed(0)}€</span>}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {focusStaff && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-4 space-y-3">
+          <h3 className="font-bold text-slate-800">Trabalho de {focusStaff.name}</h3>
+          <div className="max-h-80 overflow-y-auto divide-y divide-slate-50">
+            {focusUnits.map(unit => {
+              const key = moveKey(unit);
+              const options = staff.filter(member => member.id !== focusStaff.id && member.capacityHoursPerMonth > 0);
+              const receiverId = receivers[key] || '';
+              return (
+                <div key={key} className="flex flex-wrap items-center gap-3 py-2 text-sm">
+                  <span className="flex-1 min-w-[200px]">
+                    <span className="font-medium text-slate-800">{unit.clientName}</span>
+                    <span className="text-slate-500"> · {unit.label}</span>
+                    <span className="block text-[11px] text-slate-400">{unit.area} · {unit.hoursPerMonth.toFixed(1)} h/mês</span>
+                  </span>
+                  <select value={receiverId} onChange={e => setReceivers(prev => ({ ...prev, [key]: e.target.value }))} className="px-2 py-1 border border-slate-200 rounded text-xs bg-white">
+                    <option value="">Passar para...</option>
+                    {options.map(member => (
+                      <option key={member.id} value={member.id}>
+                        {member.name}{(member.assignedAreas || []).includes(unit.area) ? '' : ' (outra área)'}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => addMove({ clientId: unit.clientId, taskId: unit.taskId, fromStaffId: focusStaff.id, toStaffId: receiverId, hoursPerMonth: unit.hoursPerMonth })}
+                    disabled={!receiverId}
+                    className="text-blue-600 hover:bg-blue-50 p-1.5 rounded disabled:opacity-30"
+                    title="Adicionar ao plano"
+                  >
+                    <Plus size={14} />
+                  </button>
+                </div>
+              );
+            })}
+            {focusUnits.length === 0 && <p className="text-sm text-slate-400 italic py-6 text-center">Sem trabalho atribuído por redistribuir.</p>}
+          </div>
+        </div>
+      )}
+
+      {moves.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+              <tr>
+                <th className="px-4 py-3">Cliente</th>
+                <th className="px-4 py-3">Trabalho</th>
+                <th className="px-4 py-3">Redistribuição</th>
+                <th className="px-4 py-3 text-right">h/mês</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {moves.map(move => (
+                <tr key={moveKey(move)} className="hover:bg-slate-50">
+                  <td className="px-4 py-3 font-medium text-slate-800">{clientName(move.clientId)}</td>
+                  <td className="px-4 py-3 text-slate-600">{taskName(move.taskId)}</td>
+                  <td className="px-4 py-3 text-slate-600">
+                    <span className="flex items-center gap-2">{staffName(move.fromStaffId)} <ArrowRight size={12} /> <b>{staffName(move.toStaffId)}</b></span>
+                  </td>
+                  <td className="px-4 py-3 text-right text-slate-600">{move.hoursPerMonth.toFixed(1)}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button onClick={() => setMoves(prev => prev.filter(item => moveKey(item) !== moveKey(move)))} className="text-red-500 hover:bg-red-50 p-1.5 rounded">
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CapacityPlanner;
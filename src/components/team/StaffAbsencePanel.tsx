@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Staff, StaffAbsence, StaffAbsenceType } from '../../types';
+import { STAFF_ABSENCE_TYPE_LABELS, staffAbsenceService } from '../../services';
+import { toIsoDate } from '../../services/fiscalCalendar';
+import { CalendarOff, Plus, RefreshCcw, Trash2 } from 'lucide-react';
+
+interface StaffAbsencePanelProps {
+  staffMember: Staff;
+  absences: StaffAbsence[];
+  setAbsences: React.Dispatch<React.SetStateAction<StaffAbsence[]>>;
+}
+
+const StaffAbsencePanel: React.FC<StaffAbsencePanelProps> = ({ staffMember, absences, setAbsences }) => {
+  const today = toIsoDate(new Date());
+  const [type, setType] = useState<StaffAbsenceType>('vacation');
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [hoursPerDay, setHoursPerDay] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const memberAbsences = absences
+    .filter(absence => absence.staffId === staffMember.id)
+    .sort((a, b) => b.startDate.localeCompare(a.startDate));
+
+  const handleAdd = async () => {
+    if (!startDate || !endDate || endDate < startDate) {
+      alert('Indique um período válido.');
+      return;
+    }
+    const partialHours = hoursPerDay.trim() ? parseFloat(hoursPerDay.replace(',', '.')) : null;
+    if (partialHours !== null && !(partialHours > 0)) {
+      alert('As horas por dia devem ser superiores a zero.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const saved = await staffAbsenceService.create({
+        staffId: staffMember.id,
+        type,
+        startDate,
+        endDate,
+        hoursPerDay: partialHours,
+        notes,
+      });
+      setAbsences(prev => [saved, ...prev]);
+      setHoursPerDay('');
+      setNotes('');
+    } catch (err: any) {
+      alert(`Erro ao registar a ausência: ${err?.message || err}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (absence: StaffAbsence) => {
+    if (!confirm('Eliminar esta ausência?')) return;
+    try {
+      await staffAbsenceService.delete(absence.id);
+      setAbsences(prev => prev.filter(item => item.id !== absence.id));
+    } catch (err: any) {
+      alert(`Erro ao eliminar a ausência: ${err?.message || err}`);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+      <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2"><CalendarOff size={18} /> Ausências</h3>
+      <div className="space-y-2">
+        <select value={type} onChange={e => setType(e.target.value as StaffAbsenceType)} className="w-full px-3 py-2 border rounded-lg text-sm bg-white">
+          {(Object.keys(STAFF_ABSENCE_TYPE_LABELS) as StaffAbsenceType[]).map(value => (
+            <option key={value} value={value}>{STAFF_ABSENCE_TYPE_LABELS[value]}</option>
+          ))}
+        </select>
+        <div className="grid grid-cols-2 gap-2">
+          <input type="date" value={startDate} onChange={e => { setStartDate(e.target.value); if (e.target.value > endDate) setEndDate(e.target.value); }} className="px-3 py-2 border rounded-lg text-sm" />
+          <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="px-3 py-2 border rounded-lg text-sm" />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <input type="text" inputMode="decimal" value={hoursPerDay} onChange={e => setHoursPerDay(e.target.value)} placeholder="Horas/dia (parcial)" className="px-3 py-2 border rounded-lg text-sm" />
+          <input type="text" value={notes} onChange={e => setNotes(e.target.value)} placeholder="Notas" className="px-3 py-2 border rounded-lg text-sm" />
+        </div>
+        <button
+          onClick={handleAdd}
+          disabled={isSaving}
+          className="w-full bg-blue-600 text-white px-3 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? <RefreshCcw size={14} className="animate-spin" /> : <Plus size={14} />} Registar Ausência
+        </button>
+      </div>
+
+      <div className="mt-4 divide-y divide-slate-100 max-h-64 overflow-y-auto">
+        {memberAbsences.map(absence => (
+          <div key={absence.id} className={`flex items-start justify-between gap-2 py-2 text-xs ${absence.endDate < today ? 'opacity-60' : ''}`}>
+            <div>
+              <p className="font-bold text-slate-700">{STAFF_ABSENCE_TYPE_LABELS[absence.type]}</p>
+              <p className="text-slate-500">
+                {new Date(`${absence.startDate}T00:00:00`).toLocaleDateString('pt-PT')}
+                {absence.endDate !== absence.startDate && ` – ${new Date(`${absence.endDate}T00:00:00`).toLocaleDateString('pt-PT')}`}
+                {absence.hoursPerDay !== null && ` · ${absence.hoursPerDay}h/dia`}
+              </p>
+              {absence.notes && <p className="text-slate-400 italic">{absence.notes}</p>}
+            </div>
+            <button onClick={() => handleDelete(absence)} className="text-red-400 hover:text-red-600 p-1"><Trash2 size={12} /></button>
+          </div>
+        ))}
+        {memberAbsences.length === 0 && <p className="text-xs text-slate-400 italic py-2">Sem ausências registadas.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default StaffAbsencePanel;
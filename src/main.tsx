@@ -2,17 +2,21 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import ErrorBoundary from './components/ErrorBoundary';
+import QuoteAcceptancePage from './components/quotes/QuoteAcceptancePage';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Links in proposal emails open the public acceptance page instead of the app.
+const proposalToken = new URLSearchParams(window.location.search).get('proposta');
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <ErrorBoundary>
-      <App />
+      {proposalToken !== null ? <QuoteAcceptancePage token={proposalToken} /> : <App />}
     </ErrorBoundary>
   </React.StrictMode>
 );
@@ -1,7 +1,15 @@
-import { GlobalSettings, Task, TaskArea, TaskType, MultiplierLogic } from '../types';
+import { AlertRule, GlobalSettings, OverheadDriver, OverheadPool, Task, TaskArea, TaskType, MultiplierLogic } from '../types';
 import { ensureStoreClient } from './supabaseClient';
+import { APP_CONFIG_ALERT_RULES_KEY, normalizeAlertRules } from './alertRules';
+import {
+  APP_CONFIG_OVERHEAD_DRIVER_TOTALS_KEY,
+  APP_CONFIG_OVERHEAD_POOLS_KEY,
+  normalizeOverheadDriverTotals,
+  normalizeOverheadPools,
+} from './overheadAllocation';
+import { APP_CONFIG_GLOBAL_SETTINGS_KEY } from '../constants';
 
-export const APP_CONFIG_GLOBAL_SETTINGS_KEY = 'global_settings';
+export { APP_CONFIG_GLOBAL_SETTINGS_KEY };
 
 export interface VersionedGlobalSettings {
   value: Partial<GlobalSettings>;
@@ -126,6 +134,25 @@ export const appConfigService = {
   async upsertGlobalSettings(settings: GlobalSettings): Promise<void> {
     await this.upsertGlobalSettingsWithConflict(settings, null);
   },
+  // Notification rules evaluated by the daily-notifications job; defaults until an admin saves their own.
+  async getAlertRules(): Promise<AlertRule[]> {
+    return normalizeAlertRules(await this.getValueByKey(APP_CONFIG_ALERT_RULES_KEY));
+  },
+  async saveAlertRules(rules: AlertRule[]): Promise<void> {
+    await this.upsertValueByKey(APP_CONFIG_ALERT_RULES_KEY, rules);
+  },
+  async getOverheadPools(): Promise<OverheadPool[]> {
+    return normalizeOverheadPools(await this.getValueByKey(APP_CONFIG_OVERHEAD_POOLS_KEY));
+  },
+  async saveOverheadPools(pools: OverheadPool[]): Promise<void> {
+    await this.upsertValueByKey(APP_CONFIG_OVERHEAD_POOLS_KEY, pools);
+  },
+  async getOverheadDriverTotals(): Promise<Record<OverheadDriver, number> | null> {
+    return normalizeOverheadDriverTotals(await this.getValueByKey(APP_CONFIG_OVERHEAD_DRIVER_TOTALS_KEY));
+  },
+  async saveOverheadDriverTotals(totals: Record<OverheadDriver, number>): Promise<void> {
+    await this.upsertValueByKey(APP_CONFIG_OVERHEAD_DRIVER_TOTALS_KEY, totals);
+  },
 };
 
 const mapDbTaskToTask = (db: any): Task => ({
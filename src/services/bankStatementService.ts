@@ -0,0 +1,78 @@
+import { BankStatementLine } from '../types';
+import { ParsedStatementLine } from '../types/cashier';
+import { ensureStoreClient } from './supabaseClient';
+
+const mapDbToBankStatementLine = (db: any): BankStatementLine => ({
+  id: db.id,
+  fingerprint: db.fingerprint,
+  statementDate: db.statement_date,
+  description: db.description || '',
+  amount: Number(db.amount || 0),
+  reference: db.reference || null,
+  channel: db.channel || 'other',
+  sourceFormat: db.source_format || 'csv',
+  status: db.status || 'pending',
+  clientId: db.client_id || null,
+  cashPaymentId: db.cash_payment_id || null,
+  importedAt: db.imported_at,
+  reconciledAt: db.reconciled_at || null,
+});
+
+export const bankStatementService = {
+  async getAll(): Promise<BankStatementLine[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('bank_statement_lines')
+      .select('*')
+      .order('statement_date', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapDbToBankStatementLine);
+  },
+  // Lines already imported keep their status, so re-uploading an overlapping statement is safe.
+  async importLines(lines: ParsedStatementLine[]): Promise<{ lines: BankStatementLine[]; insertedCount: number }> {
+    if (lines.length === 0) return { lines: [], insertedCount: 0 };
+    const storeClient = ensureStoreClient();
+    const { data: inserted, error } = await storeClient
+      .from('bank_statement_lines')
+      .upsert(lines.map(line => ({
+        fingerprint: line.fingerprint,
+        statement_date: line.statementDate,
+        description: line.description,
+        amount: line.amount,
+        reference: line.reference,
+        channel: line.channel,
+        source_format: line.sourceFormat,
+      })), { onConflict: 'fingerprint', ignoreDuplicates: true })
+      .select('id');
+    if (error) throw error;
+
+    const { data, error: fetchError } = await storeClient
+      .from('bank_statement_lines')
+      .select('*')
+      .in('fingerprint', lines.map(line => line.fingerprint));
+    if (fetchError) throw fetchError;
+    return { lines: (data || []).map(mapDbToBankStatementLine), insertedCount: (inserted || []).length };
+  },
+  async markMatched(id: string, clientId: string, cashPaymentId: string): Promise<BankStatementLine> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('bank_statement_lines')
+      .update({ status: 'matched', client_id: clientId, cash_payment_id: cashPaymentId, reconciled_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('*')
+      .single();
+    if (error) throw error;
+    return mapDbToBankStatementLine(data);
+  },
+  async setIgnored(id: string, ignored: boolean): Promise<BankStatementLine> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('bank_statement_lines')
+      .update({ status: ignored ? 'ignored' : 'pending' })
+      .eq('id', id)
+      .select('*')
+      .single();
+    if (error) throw error;
+    return mapDbToBankStatementLine(data);
+  },
+};
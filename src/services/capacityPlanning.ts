@@ -0,0 +1,261 @@
+import { Client, Staff, StaffAbsence, Task, TaskArea } from '../types';
+import { calculateClientProfitability, calculateStaffStats, getClientTravelMinutes, getEstimatedTaskMinutes } from './calculator';
+import { getStaffMonthCapacity } from './staffCapacity';
+
+// Utilization bands used to flag staff and to decide when the suggestion stops moving work.
+export const CAPACITY_OVERLOAD_PERCENT = 100;
+export const CAPACITY_TARGET_PERCENT = 85;
+export const CAPACITY_UNDERLOAD_PERCENT = 60;
+
+// taskId null moves the whole client (responsibleStaff); otherwise only that task's assignedStaffId.
+export interface CapacityMove {
+  clientId: string;
+  taskId: string | null;
+  fromStaffId: string;
+  toStaffId: string;
+  hoursPerMonth: number;
+}
+
+export interface StaffCapacityRow {
+  staffId: string;
+  staffName: string;
+  assignedAreas: TaskArea[];
+  capacityHoursPerMonth: number;
+  // This month's capacity after holidays and absences; utilization is measured against it.
+  availableHoursPerMonth: number;
+  currentHoursPerMonth: number;
+  proposedHoursPerMonth: number;
+  currentUtilization: number;
+  proposedUtilization: number;
+  currentAnnualCost: number;
+  proposedAnnualCost: number;
+}
+
+export interface CapacitySimulationResult {
+  staff: StaffCapacityRow[];
+  changedClients: Client[];
+  currentAnnualCost: number;
+  proposedAnnualCost: number;
+}
+
+export interface CapacityWorkUnit {
+  clientId: string;
+  clientName: string;
+  taskId: string | null;
+  label: string;
+  area: TaskArea;
+  hoursPerMonth: number;
+}
+
+const isManagedBy = (client: Client, staff: Staff) => client.responsibleStaff === staff.id || client.responsibleStaff === staff.name;
+
+const activeClientsOf = (clients: Client[]) => clients.filter(c => c.status !== 'Inativo');
+
+// Work a staff member can hand over: each client they manage (with every task not assigned to someone else,
+// plus calls and travel) and each individual task they execute.
+export function getStaffWorkUnits(staff: Staff, clients: Client[], tasks: Task[]): CapacityWorkUnit[] {
+  const units: CapacityWorkUnit[] = [];
+
+  activeClientsOf(clients).forEach(client => {
+    const isManager = isManagedBy(client, staff);
+    const minutesByArea = new Map<TaskArea, number>();
+    let managedMinutes = 0;
+
+    tasks.forEach(taskDef => {
+      const minutes = getEstimatedTaskMinutes(client, taskDef);
+      if (minutes <= 0) return;
+      const override = client.tasks.find(t => t.taskId === taskDef.id);
+      const isDirect = override?.assignedStaffId === staff.id;
+      const isFallback = !override?.assignedStaffId && isManager;
+      if (!isDirect && !isFallback) return;
+
+      units.push({
+        clientId: client.id,
+        clientName: client.name,
+        taskId: taskDef.id,
+        label: taskDef.name,
+        area: taskDef.area,
+        hoursPerMonth: minutes / 60 / 12,
+      });
+      if (isFallback) {
+        managedMinutes += minutes;
+        minutesByArea.set(taskDef.area, (minutesByArea.get(taskDef.area) || 0) + minutes);
+      }
+    });
+
+    if (isManager) {
+      managedMinutes += client.callTimeBalance * 12 + getClientTravelMinutes(client);
+      const mainArea = Array.from(minutesByArea.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || TaskArea.CONTABILIDADE;
+      if (managedMinutes > 0) {
+        units.push({
+          clientId: client.id,
+          clientName: client.name,
+          taskId: null,
+          label: 'Cliente completo',
+          area: mainArea,
+          hoursPerMonth: managedMinutes / 60 / 12,
+        });
+      }
+    }
+  });
+
+  return units;
+}
+
+// Tasks without an override (catalog multiplier logic) get one so the assignment can be stored.
+export function applyCapacityMoves(clients: Client[], moves: CapacityMove[], tasks: Task[]): Client[] {
+  if (moves.length === 0) return clients;
+  const movesByClient = new Map<string, CapacityMove[]>();
+  moves.forEach(move => movesByClient.set(move.clientId, [...(movesByClient.get(move.clientId) || []), move]));
+
+  return clients.map(client => {
+    const clientMoves = movesByClient.get(client.id);
+    if (!clientMoves) return client;
+    let updated: Client = { ...client, tasks: [...client.tasks] };
+    clientMoves.forEach(move => {
+      if (move.taskId === null) {
+        updated = { ...updated, responsibleStaff: move.toStaffId };
+        return;
+      }
+      const index = updated.tasks.findIndex(t => t.taskId === move.taskId);
+      if (index >= 0) {
+        updated.tasks[index] = { ...updated.tasks[index], assignedStaffId: move.toStaffId };
+      } else {
+        const taskDef = tasks.find(t => t.id === move.taskId);
+        updated.tasks.push({
+          taskId: move.taskId,
+          frequencyPerYear: taskDef?.defaultFrequencyPerYear || 0,
+          multiplier: 0,
+          assignedStaffId: move.toStaffId,
+        });
+      }
+    });
+    return updated;
+  });
+}
+
+// Before/after utilization and cost per staff member, plus the office-wide labour cost of the affected clients.
+const getAvailableHoursThisMonth = (member: Staff, absences: StaffAbsence[], today: Date) =>
+  getStaffMonthCapacity(member, absences, today.getFullYear(), today.getMonth()).availableHours;
+
+export function simulateCapacityMoves(
+  staffList: Staff[],
+  clients: Client[],
+  tasks: Task[],
+  moves: CapacityMove[],
+  areaCosts: Record<string, number>,
+  absences: StaffAbsence[] = [],
+  today: Date = new Date()
+): CapacitySimulationResult {
+  const proposedClients = applyCapacityMoves(clients, moves, tasks);
+  const changedIds = new Set(moves.map(move => move.clientId));
+
+  const staff = staffList.map(member => {
+    const availableHours = getAvailableHoursThisMonth(member, absences, today);
+    const current = calculateStaffStats(member, clients, tasks, availableHours);
+    const proposed = moves.length > 0 ? calculateStaffStats(member, proposedClients, tasks, availableHours) : current;
+    return {
+      staffId: member.id,
+      staffName: member.name,
+      assignedAreas: member.assignedAreas || [],
+      capacityHoursPerMonth: member.capacityHoursPerMonth,
+      availableHoursPerMonth: availableHours,
+      currentHoursPerMonth: current.allocatedHoursMonth,
+      proposedHoursPerMonth: proposed.allocatedHoursMonth,
+      currentUtilization: current.capacityUtilization,
+      proposedUtilization: proposed.capacityUtilization,
+      currentAnnualCost: current.totalCost,
+      proposedAnnualCost: proposed.totalCost,
+    };
+  });
+
+  const changedClients = proposedClients.filter(client => changedIds.has(client.id));
+  const costOf = (list: Client[]) => list
+    .filter(client => changedIds.has(client.id))
+    .reduce((sum, client) => sum + calculateClientProfitability(client, tasks, areaCosts as Record<TaskArea, number>, staffList).totalAnnualCost, 0);
+
+  return {
+    staff,
+    changedClients,
+    currentAnnualCost: costOf(clients),
+    proposedAnnualCost: costOf(changedClients),
+  };
+}
+
+const utilizationOf = (hours: number, availableHours: number) => (availableHours > 0 ? (hours / availableHours) * 100 : 0);
+
+// Greedy proposal: the most overloaded member hands over work (largest first) to the least loaded
+// colleague covering that area, as long as the receiver stays at or below the target utilization.
+// Utilization is measured against this month's available hours, so absent members don't receive work.
+export function suggestCapacityMoves(
+  staffList: Staff[],
+  clients: Client[],
+  tasks: Task[],
+  absences: StaffAbsence[],
+  targetUtilization: number = CAPACITY_TARGET_PERCENT,
+  overloadUtilization: number = CAPACITY_OVERLOAD_PERCENT,
+  today: Date = new Date()
+): CapacityMove[] {
+  const available = new Map(staffList.map(member => [member.id, getAvailableHoursThisMonth(member, absences, today)]));
+  const availableOf = (member: Staff) => available.get(member.id) || 0;
+  const eligible = staffList.filter(member => member.capacityHoursPerMonth > 0 && availableOf(member) > 0);
+  const moves: CapacityMove[] = [];
+  let working = clients;
+  const hours = new Map(eligible.map(member => [member.id, calculateStaffStats(member, working, tasks, availableOf(member)).allocatedHoursMonth]));
+  const exhausted = new Set<string>();
+  // Once a member starts handing over work, they keep going until they reach the target.
+  const donors = new Set<string>();
+
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const donor = eligible
+      .filter(member => {
+        if (exhausted.has(member.id)) return false;
+        const utilization = utilizationOf(hours.get(member.id) || 0, availableOf(member));
+        return utilization > overloadUtilization || (donors.has(member.id) && utilization > targetUtilization);
+      })
+      .sort((a, b) => utilizationOf(hours.get(b.id) || 0, availableOf(b)) - utilizationOf(hours.get(a.id) || 0, availableOf(a)))[0];
+    if (!donor) break;
+
+    const movedKeys = new Set(moves.map(move => `${move.clientId}:${move.taskId ?? ''}`));
+    const units = getStaffWorkUnits(donor, working, tasks)
+      .filter(unit => !movedKeys.has(`${unit.clientId}:${unit.taskId ?? ''}`))
+      .sort((a, b) => b.hoursPerMonth - a.hoursPerMonth);
+    const donorHours = hours.get(donor.id) || 0;
+    // Hand over just enough: skip units larger than the excess unless nothing smaller fits.
+    const excess = donorHours - (availableOf(donor) * targetUtilization) / 100;
+
+    let chosen: { unit: CapacityWorkUnit; receiver: Staff } | null = null;
+    const ordered = [...units.filter(unit => unit.hoursPerMonth <= excess), ...units.filter(unit => unit.hoursPerMonth > excess)];
+    for (const unit of ordered) {
+      const receiver = eligible
+        .filter(member => member.id !== donor.id && (member.assignedAreas || []).includes(unit.area))
+        .map(member => ({ member, after: utilizationOf((hours.get(member.id) || 0) + unit.hoursPerMonth, availableOf(member)) }))
+        .filter(candidate => candidate.after <= targetUtilization)
+        .sort((a, b) => a.after - b.after)[0];
+      if (receiver) {
+        chosen = { unit, receiver: receiver.member };
+        break;
+      }
+    }
+
+    if (!chosen) {
+      exhausted.add(donor.id);
+      continue;
+    }
+
+    donors.add(donor.id);
+    const move: CapacityMove = {
+      clientId: chosen.unit.clientId,
+      taskId: chosen.unit.taskId,
+      fromStaffId: donor.id,
+      toStaffId: chosen.receiver.id,
+      hoursPerMonth: chosen.unit.hoursPerMonth,
+    };
+    moves.push(move);
+    working = applyCapacityMoves(working, [move], tasks);
+    hours.set(donor.id, calculateStaffStats(donor, working, tasks, availableOf(donor)).allocatedHoursMonth);
+    hours.set(chosen.receiver.id, calculateStaffStats(chosen.receiver, working, tasks, availableOf(chosen.receiver)).allocatedHoursMonth);
+  }
+
+  return moves;
+}
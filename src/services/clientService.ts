@@ -1,5 +1,6 @@
-import { Client } from '../types';
+import { Client, FeeChangeContext } from '../types';
 import { importClient, ensureStoreClient } from './supabaseClient';
+import { getClientScopeFilter } from './roleService';
 
 const normalizeClientStatus = (rawStatus: unknown): Client['status'] => {
   const value = String(rawStatus || '').trim().toLowerCase();
@@ -32,6 +33,10 @@ const mapDbToClient = (db: any): Client => ({
   banks: Number(db.banks || 1),
   callTimeBalance: Number(db.call_time_balance || 0),
   travelCount: Number(db.travel_count || 0),
+  travelDistanceKm: db.travel_distance_km === null || db.travel_distance_km === undefined ? null : Number(db.travel_distance_km),
+  travelMinutesOneWay: db.travel_minutes_one_way === null || db.travel_minutes_one_way === undefined ? null : Number(db.travel_minutes_one_way),
+  travelTollsPerTrip: db.travel_tolls_per_trip === null || db.travel_tolls_per_trip === undefined ? null : Number(db.travel_tolls_per_trip),
+  travelDistanceAddress: db.travel_distance_address || null,
   deliversOrganizedDocs: db.delivers_organized_docs === null ? true : db.delivers_organized_docs,
   vatRefunds: db.vat_refunds || false,
   hasIneReport: db.has_ine_report || false,
@@ -44,11 +49,19 @@ const mapDbToClient = (db: any): Client => ({
   meetingCount: Number(db.meeting_count || 0),
   previousYearProfit: Number(db.previous_year_profit || 0),
   saftCollectEnabled: db.saft_collect_enabled === null || db.saft_collect_enabled === undefined ? true : Boolean(db.saft_collect_enabled),
+  vatRegime: db.vat_regime || undefined,
   tasks: db.tasks || [],
   contractRenewalDate: db.contract_renewal_date || '',
   aiAnalysisCache: db.ai_analysis_cache || null
 });
 
+const mapFeeChangeToDb = (feeChange?: FeeChangeContext) => ({
+  effective_from: feeChange?.effectiveFrom || null,
+  reason: feeChange?.reason?.trim() || null,
+  source: feeChange?.source || 'manual',
+  source_id: feeChange?.sourceId || null,
+});
+
 const mapClientToDb = (c: Client) => ({
   id: c.id,
   name: c.name,
@@ -68,6 +81,10 @@ monthly_fee: c.monthlyFee,
   document_count: c.documentCount,
   call_time_balance: c.callTimeBalance,
   travel_count: c.travelCount,
+  travel_distance_km: c.travelDistanceKm ?? null,
+  travel_minutes_one_way: c.travelMinutesOneWay ?? null,
+  travel_tolls_per_trip: c.travelTollsPerTrip ?? null,
+  travel_distance_address: c.travelDistanceAddress ?? null,
   delivers_organized_docs: c.deliversOrganizedDocs,
   vat_refunds: c.vatRefunds,
   has_ine_report: c.hasIneReport,
@@ -80,6 +97,7 @@ monthly_fee: c.monthlyFee,
   meeting_count: c.meetingCount,
   previous_year_profit: c.previousYearProfit,
   saft_collect_enabled: c.saftCollectEnabled === undefined ? true : Boolean(c.saftCollectEnabled),
+  vat_regime: c.vatRegime || null,
   tasks: c.tasks,
   contract_renewal_date: c.contractRenewalDate || null,
   ai_analysis_cache: c.aiAnalysisCache
@@ -88,7 +106,11 @@ monthly_fee: c.monthlyFee,
 export const clientService = {
   async getAll(): Promise<Client[]> {
     const storeClient = ensureStoreClient();
-    const { data, error } = await storeClient.from('clients').select('*');
+    let query = storeClient.from('clients').select('*');
+    // RLS enforces the same scope; filtering here keeps the request explicit.
+    const scopeFilter = getClientScopeFilter();
+    if (scopeFilter) query = query.or(scopeFilter);
+    const { data, error } = await query;
     if (error) throw error;
     return (data || []).map(mapDbToClient);
   },
@@ -139,6 +161,9 @@ export const clientService = {
       query = query.eq('responsavel_interno_id', options.responsibleStaffId);
     }
 
+    const scopeFilter = getClientScopeFilter();
+    if (scopeFilter) query = query.or(scopeFilter);
+
     if (Array.isArray(options.groupClientIds) && options.groupClientIds.length > 0) {
       query = query.in('id', options.groupClientIds);
     }
@@ -196,10 +221,40 @@ export const clientService = {
     const { error } = await storeClient.rpc('bulk_upsert_clients_jsonb', { clients_data: clientsToUpsert });
     if (error) throw error;
   },
-  async upsert(client: Client): Promise<Client> {
+  // Saves the responsible and task assignments of several clients at once, all or nothing.
+  async updateAssignments(clients: Client[]): Promise<Client[]> {
+    const storeClient = ensureStoreClient();
+    const assignments = clients.map(client => {
+      const row = mapClientToDb(client);
+      return { id: row.id, responsavel_interno_id: row.responsavel_interno_id, tasks: row.tasks };
+    });
+    const { data, error } = await storeClient.rpc('update_client_assignments', { p_assignments: assignments });
+    if (error) throw error;
+    return (data || []).map(mapDbToClient);
+  },
+  async upsert(client: Client, feeChange?: FeeChangeContext): Promise<Client> {
     const storeClient = ensureStoreClient();
-    const { data, error } = await storeClient.from('clients').upsert(mapClientToDb(client)).select().single();
+    // The client and its fee history row are written together; a fee dated in the future only goes
+    // to the history and the client keeps the fee in force until that date.
+    const { data, error } = await storeClient
+      .rpc('upsert_client_with_fee_history', {
+        p_client: mapClientToDb(client),
+        p_fee_change: mapFeeChangeToDb(feeChange),
+      })
+      .single();
     if (error) throw error;
     return mapDbToClient(data);
+  },
+  // Saves the client created from a quote and marks the quote as won in one transaction;
+  // the quote row comes back unmapped for the pricing service.
+  async convertQuote(quoteId: string, client: Client, feeChange?: FeeChangeContext): Promise<{ client: Client; quoteRow: any }> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient.rpc('convert_quote_to_client', {
+      p_quote_id: quoteId,
+      p_client: mapClientToDb(client),
+      p_fee_change: mapFeeChangeToDb(feeChange),
+    });
+    if (error) throw error;
+    return { client: mapDbToClient(data.client), quoteRow: data.quote };
   }
 };
@@ -0,0 +1,151 @@
+import { Client, ContractStatus, ContractTemplate, ServiceContract } from '../types';
+import { ensureStoreClient } from './supabaseClient';
+import { toIsoDate } from './fiscalCalendar';
+
+export const CONTRACT_STATUS_LABELS: Record<ContractStatus, string> = {
+  draft: 'Rascunho',
+  sent: 'Enviado',
+  signed: 'Assinado',
+  cancelled: 'Cancelado',
+};
+
+export const isContractExpired = (contract: Pick<ServiceContract, 'status' | 'periodEnd'>, todayIso: string = toIsoDate(new Date())) =>
+  contract.status !== 'cancelled' && contract.periodEnd < todayIso;
+
+// A renewal covers one year from the current renewal date (or from today when the client has none).
+export const getNextContractPeriod = (client: Pick<Client, 'contractRenewalDate'>, today: Date = new Date()) => {
+  const renewal = client.contractRenewalDate ? new Date(`${client.contractRenewalDate.slice(0, 10)}T00:00:00`) : null;
+  const start = renewal && !Number.isNaN(renewal.getTime()) ? renewal : new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const end = new Date(start.getFullYear() + 1, start.getMonth(), start.getDate() - 1);
+  return { periodStart: toIsoDate(start), periodEnd: toIsoDate(end) };
+};
+
+const mapDbToContractTemplate = (db: any): ContractTemplate => ({
+  id: db.id,
+  name: db.name,
+  body: db.body || '',
+  updatedAt: db.updated_at,
+});
+
+const mapDbToServiceContract = (db: any): ServiceContract => ({
+  id: db.id,
+  clientId: db.client_id,
+  templateId: db.template_id || null,
+  version: Number(db.version || 1),
+  periodStart: db.period_start,
+  periodEnd: db.period_end,
+  monthlyFee: Number(db.monthly_fee || 0),
+  feeGroupId: db.fee_group_id || null,
+  status: db.status,
+  documentPath: db.document_path,
+  notes: db.notes || '',
+  statusChangedAt: db.status_changed_at || null,
+  createdBy: db.created_by || null,
+  createdAt: db.created_at,
+});
+
+export const contractTemplateService = {
+  async getAll(): Promise<ContractTemplate[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient.from('contract_templates').select('*').order('name');
+    if (error) throw error;
+    return (data || []).map(mapDbToContractTemplate);
+  },
+  async save(template: Omit<ContractTemplate, 'id' | 'updatedAt'> & { id?: string }): Promise<ContractTemplate> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('contract_templates')
+      .upsert({
+        ...(template.id ? { id: template.id } : {}),
+        name: template.name.trim(),
+        body: template.body,
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+    if (error) throw error;
+    return mapDbToContractTemplate(data);
+  },
+  async delete(id: string): Promise<void> {
+    const storeClient = ensureStoreClient();
+    const { error } = await storeClient.from('contract_templates').delete().eq('id', id);
+    if (error) throw error;
+  },
+};
+
+export const contractService = {
+  async getAll(): Promise<ServiceContract[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('service_contracts')
+      .select('*')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapDbToServiceContract);
+  },
+  // Stores the rendered document as a new version; older versions stay in storage untouched.
+  async create(
+    contract: Omit<ServiceContract, 'id' | 'documentPath' | 'status' | 'statusChangedAt' | 'createdBy' | 'createdAt'>,
+    html: string
+  ): Promise<ServiceContract> {
+    const storeClient = ensureStoreClient();
+    const documentPath = `contracts/${contract.clientId}/v${contract.version}-${Date.now()}.html`;
+
+    const { error: uploadError } = await storeClient.storage
+      .from('attachments')
+      .upload(documentPath, new Blob([html], { type: 'text/html;charset=utf-8' }), {
+        cacheControl: '3600',
+        upsert: false,
+      });
+    if (uploadError) throw uploadError;
+
+    const { data, error } = await storeClient
+      .from('service_contracts')
+      .insert({
+        client_id: contract.clientId,
+        template_id: contract.templateId,
+        version: contract.version,
+        period_start: contract.periodStart,
+        period_end: contract.periodEnd,
+        monthly_fee: contract.monthlyFee,
+        fee_group_id: contract.feeGroupId,
+        status: 'draft',
+        document_path: documentPath,
+        notes: contract.notes.trim() || null,
+      })
+      .select()
+      .single();
+    if (error) {
+      await storeClient.storage.from('attachments').remove([documentPath]);
+      throw error;
+    }
+    return mapDbToServiceContract(data);
+  },
+  async updateStatus(id: string, status: ContractStatus): Promise<ServiceContract> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('service_contracts')
+      .update({ status, status_changed_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return mapDbToServiceContract(data);
+  },
+  // Signing also updates the client (renewal date and, optionally, the fee) in the same transaction.
+  async sign(id: string, applyFee: boolean): Promise<ServiceContract> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .rpc('sign_service_contract', { p_contract_id: id, p_apply_fee: applyFee })
+      .single();
+    if (error) throw error;
+    return mapDbToServiceContract(data);
+  },
+  // Storage serves .html as plain text, so the document is downloaded and opened as a blob.
+  async downloadDocument(documentPath: string): Promise<Blob> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient.storage.from('attachments').download(documentPath);
+    if (error) throw error;
+    return new Blob([await data.text()], { type: 'text/html;charset=utf-8' });
+  },
+};
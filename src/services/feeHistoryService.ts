@@ -0,0 +1,39 @@
+import { ClientFeeChange } from '../types';
+import { ensureStoreClient } from './supabaseClient';
+
+const mapDbToFeeChange = (db: any): ClientFeeChange => ({
+  id: db.id,
+  clientId: db.client_id,
+  previousFee: db.previous_fee === null || db.previous_fee === undefined ? null : Number(db.previous_fee),
+  monthlyFee: Number(db.monthly_fee || 0),
+  effectiveFrom: db.effective_from,
+  reason: db.reason || '',
+  source: db.source || 'manual',
+  sourceId: db.source_id || null,
+  changedBy: db.changed_by || null,
+  createdAt: db.created_at,
+});
+
+export const feeHistoryService = {
+  async getAll(): Promise<ClientFeeChange[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('client_fee_history')
+      .select('*')
+      .order('effective_from', { ascending: true })
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(mapDbToFeeChange);
+  },
+  async getByClient(clientId: string): Promise<ClientFeeChange[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('client_fee_history')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('effective_from', { ascending: true })
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(mapDbToFeeChange);
+  },
+};
@@ -0,0 +1,121 @@
+import { Client, Staff, StaffAbsence, Task, TaskArea, TurnoverBracket } from '../types';
+import { calculateClientProfitability, calculateStaffStats } from './calculator';
+import { getStaffMonthCapacity } from './staffCapacity';
+
+type TurnoverStatus = 'Subavaliado' | 'Ajustado' | 'Acima da Média' | null;
+
+export interface ClientFeeSimulation {
+  clientId: string;
+  clientName: string;
+  currentFee: number;
+  proposedFee: number;
+  currentProfitability: number;
+  proposedProfitability: number;
+  currentStatus: TurnoverStatus;
+  proposedStatus: TurnoverStatus;
+}
+
+export interface StaffFeeSimulation {
+  staffId: string;
+  staffName: string;
+  currentRevenue: number;
+  proposedRevenue: number;
+  currentProfitability: number;
+  proposedProfitability: number;
+}
+
+export interface FeeSimulationResult {
+  currentAnnualRevenue: number;
+  proposedAnnualRevenue: number;
+  totalAnnualCost: number;
+  currentMargin: number;
+  proposedMargin: number;
+  changedClients: ClientFeeSimulation[];
+  staff: StaffFeeSimulation[];
+  leavingUndervalued: number;
+  enteringUndervalued: number;
+}
+
+const marginOf = (revenue: number, cost: number) => (revenue > 0 ? ((revenue - cost) / revenue) * 100 : 0);
+
+// What-if run over the whole office: every active client is recalculated, with the proposed fee where one exists.
+export function simulateFeeChange(
+  clients: Client[],
+  proposedFees: Record<string, number>,
+  tasks: Task[],
+  areaCosts: Record<string, number>,
+  staffList: Staff[],
+  turnoverBrackets: TurnoverBracket[],
+  absences: StaffAbsence[] = [],
+  today: Date = new Date()
+): FeeSimulationResult {
+  const activeClients = clients.filter(c => c.status !== 'Inativo');
+  const hasProposal = (client: Client) => proposedFees[client.id] !== undefined && proposedFees[client.id] > 0;
+  const proposedClients = activeClients.map(client => hasProposal(client) ? { ...client, monthlyFee: proposedFees[client.id] } : client);
+
+  let currentAnnualRevenue = 0;
+  let proposedAnnualRevenue = 0;
+  let totalAnnualCost = 0;
+  let leavingUndervalued = 0;
+  let enteringUndervalued = 0;
+  const changedClients: ClientFeeSimulation[] = [];
+
+  activeClients.forEach((client, index) => {
+    const current = calculateClientProfitability(client, tasks, areaCosts as Record<TaskArea, number>, staffList, turnoverBrackets);
+    currentAnnualRevenue += current.totalAnnualRevenue;
+    totalAnnualCost += current.totalAnnualCost;
+
+    if (!hasProposal(client)) {
+      proposedAnnualRevenue += current.totalAnnualRevenue;
+      return;
+    }
+
+    // Fees do not change cost, so only revenue, margin and bracket status move.
+    const proposed = calculateClientProfitability(proposedClients[index], tasks, areaCosts as Record<TaskArea, number>, staffList, turnoverBrackets);
+    proposedAnnualRevenue += proposed.totalAnnualRevenue;
+
+    const currentStatus = current.turnoverAnalysis?.status || null;
+    const proposedStatus = proposed.turnoverAnalysis?.status || null;
+    if (currentStatus === 'Subavaliado' && proposedStatus !== 'Subavaliado') leavingUndervalued += 1;
+    if (currentStatus !== 'Subavaliado' && proposedStatus === 'Subavaliado') enteringUndervalued += 1;
+
+    changedClients.push({
+      clientId: client.id,
+      clientName: client.name,
+      currentFee: client.monthlyFee,
+      proposedFee: proposedFees[client.id],
+      currentProfitability: current.profitability,
+      proposedProfitability: proposed.profitability,
+      currentStatus,
+      proposedStatus,
+    });
+  });
+
+  const staff = staffList
+    .map(member => {
+      const availableHours = getStaffMonthCapacity(member, absences, today.getFullYear(), today.getMonth()).availableHours;
+      const current = calculateStaffStats(member, activeClients, tasks, availableHours);
+      const proposed = calculateStaffStats(member, proposedClients, tasks, availableHours);
+      return {
+        staffId: member.id,
+        staffName: member.name,
+        currentRevenue: current.totalRevenue,
+        proposedRevenue: proposed.totalRevenue,
+        currentProfitability: current.profitability,
+        proposedProfitability: proposed.profitability,
+      };
+    })
+    .filter(row => row.currentRevenue > 0 || row.proposedRevenue > 0);
+
+  return {
+    currentAnnualRevenue,
+    proposedAnnualRevenue,
+    totalAnnualCost,
+    currentMargin: marginOf(currentAnnualRevenue, totalAnnualCost),
+    proposedMargin: marginOf(proposedAnnualRevenue, totalAnnualCost),
+    changedClients,
+    staff,
+    leavingUndervalued,
+    enteringUndervalued,
+  };
+}
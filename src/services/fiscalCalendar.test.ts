@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { Client } from '../types';
+import { generateFiscalDeadlines } from './fiscalCalendar';
+
+const soleTrader = {
+  id: 'eni-1',
+  name: 'Trabalhador Independente',
+  entityType: 'ENI',
+  status: 'Ativo',
+  employeeCount: 0,
+  tasks: [],
+} as unknown as Client;
+
+describe('generateFiscalDeadlines', () => {
+  it('puts the quarterly self-employed social security returns at the end of the month after each quarter', () => {
+    const deadlines = generateFiscalDeadlines([soleTrader], [], new Date(2026, 0, 1), new Date(2026, 11, 31))
+      .filter(deadline => deadline.obligation === 'ss_independentes');
+
+    // 31 Jan and 31 Oct 2026 fall on a Saturday and move to the following Monday.
+    expect(deadlines.map(deadline => [deadline.period, deadline.dueDate])).toEqual([
+      ['2025-T4', '2026-02-02'],
+      ['2026-T1', '2026-04-30'],
+      ['2026-T2', '2026-07-31'],
+      ['2026-T3', '2026-11-02'],
+    ]);
+  });
+});
@@ -1,4 +1,4 @@
-import { FeeGroup } from '../types';
+import { FeeGroup, FeeScenario } from '../types';
 import { ensureStoreClient } from './supabaseClient';
 
 export const groupService = {
@@ -17,3 +17,39 @@ export const groupService = {
     return { id: data.id, name: data.name, description: data.description, clientIds: data.client_ids || [], proposed_fees: data.proposed_fees || {} };
   }
 };
+
+const mapDbToFeeScenario = (db: any): FeeScenario => ({
+  id: db.id,
+  groupId: db.group_id,
+  name: db.name || '',
+  proposedFees: db.proposed_fees || {},
+  createdAt: db.created_at,
+});
+
+export const feeScenarioService = {
+  async getByGroup(groupId: string): Promise<FeeScenario[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('fee_group_scenarios')
+      .select('*')
+      .eq('group_id', groupId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapDbToFeeScenario);
+  },
+  async create(scenario: Pick<FeeScenario, 'groupId' | 'name' | 'proposedFees'>): Promise<FeeScenario> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('fee_group_scenarios')
+      .insert({ group_id: scenario.groupId, name: scenario.name.trim(), proposed_fees: scenario.proposedFees })
+      .select('*')
+      .single();
+    if (error) throw error;
+    return mapDbToFeeScenario(data);
+  },
+  async delete(id: string): Promise<void> {
+    const storeClient = ensureStoreClient();
+    const { error } = await storeClient.from('fee_group_scenarios').delete().eq('id', id);
+    if (error) throw error;
+  }
+};
@@ -10,3 +10,15 @@ export * from './workSafetyService';
 export * from './cashService';
 export * from './pricingService';
 export * from './insuranceService';
+export * from './timeEntryService';
+export * from './staffAbsenceService';
+export * from './staffCostHistoryService';
+export * from './profitabilitySnapshotService';
+export * from './feeHistoryService';
+export * from './bankStatementService';
+export * from './receiptService';
+export * from './roleService';
+export * from './obligationService';
+export * from './contractService';
+export * from './notificationInboxService';
+export * from './pushSubscriptionService';
@@ -1,5 +1,6 @@
 import { InsurancePolicy, InsuranceCommissionSettlement } from '../types';
 import { ensureStoreClient } from './supabaseClient';
+import { getActiveDataScope } from './roleService';
 
 const LEGACY_MEDIATOR_PARTNERS = ['Finiconde', 'Nepseguros', 'Neoseguros'];
 
@@ -82,10 +83,20 @@ const mapDbToInsuranceCommissionSettlement = (row: any): InsuranceCommissionSett
 export const insuranceService = {
   async getAll(): Promise<InsurancePolicy[]> {
     const storeClient = ensureStoreClient();
-    const { data, error } = await storeClient.from('insurance_policies').select(`
+    let query = storeClient.from('insurance_policies').select(`
       *,
       clients (id, name)
-    `).order('policy_date', { ascending: false });
+    `);
+    // Scoped users see their own agent's policies and client-linked ones, which RLS narrows to their clients.
+    // Same agent rule as RLS: coalesce(internal_responsible, agent), so legacy rows with only agent set still match.
+    const scope = getActiveDataScope();
+    if (scope) {
+      const agent = scope.insuranceAgent;
+      query = query.or(agent
+        ? `internal_responsible.eq.${agent},and(internal_responsible.is.null,agent.eq.${agent}),client_id.not.is.null`
+        : 'client_id.not.is.null');
+    }
+    const { data, error } = await query.order('policy_date', { ascending: false });
     if (error) throw error;
     return (data || []).map(mapDbToInsurancePolicy);
   },
@@ -0,0 +1,82 @@
+import { StoredNotification } from '../types';
+import { ensureStoreClient } from './supabaseClient';
+
+export interface DailyNotificationsRunResult {
+  created: number;
+  updated: number;
+  resolved: number;
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const mapDbToStoredNotification = (db: any): StoredNotification => {
+  const state = (db.notification_user_states || [])[0] || {};
+  return {
+    id: db.id,
+    type: db.type,
+    title: db.title,
+    message: db.message,
+    date: db.notification_date,
+    clientId: db.client_id || undefined,
+    actionLabel: db.action_label || undefined,
+    ruleId: db.rule_id || undefined,
+    assignedStaffId: db.assigned_staff_id || null,
+    createdAt: db.created_at,
+    readAt: state.read_at || null,
+    dismissedAt: state.dismissed_at || null,
+    snoozedUntil: state.snoozed_until || null,
+  };
+};
+
+export const isNotificationSnoozed = (notification: StoredNotification, now: Date = new Date()) =>
+  !!notification.snoozedUntil && new Date(notification.snoozedUntil) > now;
+
+export const notificationInboxService = {
+  // Open notifications (not resolved by the daily job) with the user's own state.
+  async getOpen(userEmail: string): Promise<StoredNotification[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('notifications')
+      .select('*, notification_user_states(*)')
+      .is('resolved_at', null)
+      .eq('notification_user_states.user_email', normalizeEmail(userEmail))
+      .order('notification_date', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapDbToStoredNotification);
+  },
+  async updateState(
+    userEmail: string,
+    notificationIds: string[],
+    state: Partial<Pick<StoredNotification, 'readAt' | 'dismissedAt' | 'snoozedUntil'>>
+  ): Promise<void> {
+    if (notificationIds.length === 0) return;
+    const storeClient = ensureStoreClient();
+    const payload: Record<string, string | null> = { updated_at: new Date().toISOString() };
+    if (state.readAt !== undefined) payload.read_at = state.readAt;
+    if (state.dismissedAt !== undefined) payload.dismissed_at = state.dismissedAt;
+    if (state.snoozedUntil !== undefined) payload.snoozed_until = state.snoozedUntil;
+    const { error } = await storeClient
+      .from('notification_user_states')
+      .upsert(
+        notificationIds.map(id => ({ notification_id: id, user_email: normalizeEmail(userEmail), ...payload })),
+        { onConflict: 'notification_id,user_email' }
+      );
+    if (error) throw error;
+  },
+  async assign(notificationId: string, staffId: string | null): Promise<void> {
+    const storeClient = ensureStoreClient();
+    const { error } = await storeClient
+      .from('notifications')
+      .update({ assigned_staff_id: staffId })
+      .eq('id', notificationId);
+    if (error) throw error;
+  },
+  // Runs the daily generation job now instead of waiting for the schedule.
+  async runDailyJob(): Promise<DailyNotificationsRunResult> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient.functions.invoke('daily-notifications', { body: {} });
+    if (error) throw error;
+    if (data && data.ok === false) throw new Error(data.error || 'Erro ao gerar notificações.');
+    return { created: Number(data?.created || 0), updated: Number(data?.updated || 0), resolved: Number(data?.resolved || 0) };
+  },
+};
@@ -0,0 +1,89 @@
+import { ObligationRecord } from '../types';
+import { ensureStoreClient } from './supabaseClient';
+
+export const OBLIGATION_STATUS_LABELS: Record<ObligationRecord['status'], string> = {
+  pending: 'Pendente',
+  in_progress: 'Em curso',
+  submitted: 'Submetida',
+  paid: 'Paga',
+};
+
+export const isObligationDone = (status: ObligationRecord['status'] | undefined) => status === 'submitted' || status === 'paid';
+
+export const getObligationRecordKey = (clientId: string, taskId: string, period: string) => `${clientId}-${taskId}-${period}`;
+
+const mapDbToObligationRecord = (db: any): ObligationRecord => ({
+  id: db.id,
+  clientId: db.client_id,
+  taskId: db.task_id,
+  period: db.period,
+  status: db.status,
+  submittedByStaffId: db.submitted_by_staff_id || null,
+  submittedAt: db.submitted_at || null,
+  proofUrl: db.proof_url || null,
+  proofName: db.proof_name || null,
+  notes: db.notes || '',
+  updatedAt: db.updated_at,
+});
+
+export const obligationService = {
+  async getByPeriods(periods: string[]): Promise<ObligationRecord[]> {
+    if (periods.length === 0) return [];
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient.from('obligation_records').select('*').in('period', periods);
+    if (error) throw error;
+    return (data || []).map(mapDbToObligationRecord);
+  },
+  async getByClient(clientId: string): Promise<ObligationRecord[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('obligation_records')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('period', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapDbToObligationRecord);
+  },
+  async save(record: Omit<ObligationRecord, 'id' | 'updatedAt'>): Promise<ObligationRecord> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('obligation_records')
+      .upsert({
+        client_id: record.clientId,
+        task_id: record.taskId,
+        period: record.period,
+        status: record.status,
+        submitted_by_staff_id: record.submittedByStaffId,
+        submitted_at: record.submittedAt,
+        proof_url: record.proofUrl,
+        proof_name: record.proofName,
+        notes: record.notes.trim() || null,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'client_id,task_id,period' })
+      .select()
+      .single();
+    if (error) throw error;
+    return mapDbToObligationRecord(data);
+  },
+  async uploadProof(file: File, clientId: string, taskId: string, period: string): Promise<string> {
+    const storeClient = ensureStoreClient();
+    const filePath = `obligations/${clientId}/${taskId}/${period}/${file.name}`;
+
+    const { error: uploadError } = await storeClient.storage
+      .from('attachments')
+      .upload(filePath, file, {
+        cacheControl: '3600',
+        upsert: true,
+      });
+
+    if (uploadError) {
+      throw uploadError;
+    }
+
+    const { data } = storeClient.storage
+      .from('attachments')
+      .getPublicUrl(filePath);
+
+    return data.publicUrl;
+  },
+};
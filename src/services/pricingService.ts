@@ -1,5 +1,7 @@
-import { TurnoverBracket, QuoteHistory } from '../types';
+import { TurnoverBracket, QuoteHistory, QuoteItem, QuoteStatus, Client, ClientTaskOverride } from '../types';
 import { ensureStoreClient } from './supabaseClient';
+import { clientService } from './clientService';
+import { QuoteAcceptanceView } from './quoteProposal';
 
 const mapDbToTurnoverBracket = (db: any): TurnoverBracket => ({
   id: db.id,
@@ -64,6 +66,25 @@ const mapDbToQuoteHistory = (db: any): QuoteHistory => ({
   recommended_monthly_fee: db.recommended_monthly_fee,
   total_annual_cost: db.total_annual_cost,
   total_annual_hours: db.total_annual_hours,
+  client_id: db.client_id || null,
+  won_at: db.won_at || null,
+  client_sector: db.client_sector || '',
+  status: db.status || 'draft',
+  status_changed_at: db.status_changed_at || null,
+  loss_reason: db.loss_reason || null,
+  accepted_monthly_fee: db.accepted_monthly_fee === null || db.accepted_monthly_fee === undefined ? null : Number(db.accepted_monthly_fee),
+  revision: Number(db.revision || 1),
+  parent_quote_id: db.parent_quote_id || null,
+  proposal_presentation_text: db.proposal_presentation_text || null,
+  proposal_conditions_text: db.proposal_conditions_text || null,
+  proposal_sent_at: db.proposal_sent_at || null,
+  proposal_sent_to: db.proposal_sent_to || null,
+  proposal_sent_by: db.proposal_sent_by || null,
+  acceptance_token: db.acceptance_token || null,
+  responded_at: db.responded_at || null,
+  response_name: db.response_name || null,
+  response_ip: db.response_ip || null,
+  response_comment: db.response_comment || null,
 });
 
 const mapQuoteHistoryToDb = (q: Partial<QuoteHistory>) => ({
@@ -80,8 +101,84 @@ const mapQuoteHistoryToDb = (q: Partial<QuoteHistory>) => ({
   recommended_monthly_fee: q.recommended_monthly_fee,
   total_annual_cost: q.total_annual_cost,
   total_annual_hours: q.total_annual_hours,
+  client_sector: q.client_sector || null,
+  status: q.status || 'draft',
+  // revision is numbered by the database from parent_quote_id.
+  parent_quote_id: q.parent_quote_id || null,
+  proposal_presentation_text: q.proposal_presentation_text || null,
+  proposal_conditions_text: q.proposal_conditions_text || null,
 });
 
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: 'Rascunho',
+  sent: 'Enviada',
+  negotiating: 'Em negociação',
+  accepted: 'Aceite',
+  rejected: 'Recusada',
+};
+
+export const isQuoteOpen = (status: QuoteStatus) => status === 'draft' || status === 'sent' || status === 'negotiating';
+
+// Catalog items become task overrides; the same task quoted twice is merged at the first item's frequency.
+// Custom items (no taskId) have no catalog task to point at and are left out; see getUncopiedQuoteItems.
+export const quoteItemsToTaskOverrides = (items: QuoteItem[]): ClientTaskOverride[] => {
+  const overrides = new Map<string, ClientTaskOverride>();
+  items.forEach(item => {
+    if (!item.taskId) return;
+    const quantity = item.quantity > 0 ? item.quantity : 1;
+    const frequency = item.frequency > 0 ? item.frequency : 1;
+    const existing = overrides.get(item.taskId);
+    if (!existing) {
+      overrides.set(item.taskId, { taskId: item.taskId, frequencyPerYear: frequency, multiplier: quantity });
+      return;
+    }
+    existing.multiplier += (quantity * frequency) / existing.frequencyPerYear;
+  });
+  return Array.from(overrides.values());
+};
+
+// Custom items of a quote that quoteItemsToTaskOverrides cannot carry over to the client.
+export const getUncopiedQuoteItems = (items: QuoteItem[]): QuoteItem[] => items.filter(item => !item.taskId);
+
+export const buildClientFromQuote = (quote: QuoteHistory, id: string): Client => {
+  const renewalDate = new Date();
+  renewalDate.setFullYear(renewalDate.getFullYear() + 1);
+  return {
+    id,
+    name: (quote.client_name || '').trim(),
+    email: '',
+    phone: '',
+    address: '',
+    nif: (quote.client_nif || '').replace(/\D/g, ''),
+    sector: (quote.client_sector || '').trim() || 'Geral',
+    entityType: 'SOCIEDADE',
+    responsibleStaff: '',
+    monthlyFee: Number(quote.accepted_monthly_fee ?? quote.recommended_monthly_fee ?? 0),
+    employeeCount: quote.employee_count || 0,
+    turnover: quote.client_volume || 0,
+    documentCount: quote.document_count || 0,
+    establishments: quote.establishments || 1,
+    banks: quote.banks || 1,
+    callTimeBalance: 0,
+    travelCount: 0,
+    deliversOrganizedDocs: true,
+    vatRefunds: false,
+    hasIneReport: false,
+    hasCostCenters: false,
+    hasInternationalOps: false,
+    hasManagementReports: false,
+    supplierCount: 0,
+    customerCount: 0,
+    communicationCount: 0,
+    meetingCount: 0,
+    previousYearProfit: 0,
+    saftCollectEnabled: true,
+    tasks: quoteItemsToTaskOverrides(quote.items || []),
+    status: 'Ativo',
+    contractRenewalDate: renewalDate.toISOString().split('T')[0],
+  };
+};
+
 export const quoteHistoryService = {
   async getAll(): Promise<QuoteHistory[]> {
     const storeClient = ensureStoreClient();
@@ -99,9 +196,93 @@ export const quoteHistoryService = {
     if (error) throw error;
     return mapDbToQuoteHistory(data);
   },
+  // Every quote created since the given date (including older revisions), for the win/loss reports.
+  async getSince(fromIso: string): Promise<QuoteHistory[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('quote_history')
+      .select('*')
+      .gte('created_at', fromIso)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapDbToQuoteHistory);
+  },
+  async updateStatus(
+    id: string,
+    status: QuoteStatus,
+    details: { lossReason?: string | null; acceptedMonthlyFee?: number | null } = {}
+  ): Promise<QuoteHistory> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('quote_history')
+      .update({
+        status,
+        status_changed_at: new Date().toISOString(),
+        loss_reason: status === 'rejected' ? details.lossReason || null : null,
+        accepted_monthly_fee: status === 'accepted' ? details.acceptedMonthlyFee ?? null : null,
+      })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return mapDbToQuoteHistory(data);
+  },
   async delete(id: string): Promise<void> {
     const storeClient = ensureStoreClient();
     const { error } = await storeClient.from('quote_history').delete().match({ id });
     if (error) throw error;
+  },
+  // Creates the client and marks the quote as won (accepted at the client's fee), linked to it.
+  async convertToClient(quote: QuoteHistory, client: Client): Promise<{ client: Client; quote: QuoteHistory }> {
+    const { client: savedClient, quoteRow } = await clientService.convertQuote(quote.id, client, {
+      source: 'quote',
+      sourceId: quote.id,
+      reason: 'Conversão de proposta em cliente',
+    });
+    return { client: savedClient, quote: mapDbToQuoteHistory(quoteRow) };
+  },
+  // The proposal PDF is rendered by the quote-proposal edge function (logo from branding storage).
+  async downloadProposalPdf(id: string): Promise<{ fileName: string; blob: Blob }> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient.functions.invoke('quote-proposal', {
+      body: { action: 'pdf', quoteId: id },
+    });
+    if (error) throw error;
+    if (!data?.ok) throw new Error(data?.error || 'Erro ao gerar a proposta.');
+    const bytes = Uint8Array.from(atob(data.pdfBase64), char => char.charCodeAt(0));
+    return { fileName: data.fileName, blob: new Blob([bytes], { type: 'application/pdf' }) };
+  },
+  // Emails the PDF to the prospect; a draft quote becomes 'sent'.
+  async sendProposal(
+    id: string,
+    email: { to: string; subject: string; message: string }
+  ): Promise<QuoteHistory> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient.functions.invoke('quote-proposal', {
+      body: { action: 'send', quoteId: id, ...email },
+    });
+    if (error) throw error;
+    if (!data?.ok) throw new Error(data?.error || 'Erro ao enviar a proposta.');
+    return mapDbToQuoteHistory(data.quote);
+  },
+  // Public acceptance page: the token from the emailed link identifies the quote, no login needed.
+  async getAcceptanceView(token: string): Promise<QuoteAcceptanceView> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient.functions.invoke('quote-acceptance', {
+      body: { action: 'view', token },
+    });
+    if (error) throw error;
+    return data as QuoteAcceptanceView;
+  },
+  async respondToProposal(
+    token: string,
+    response: { action: 'accept'; name: string; confirm: boolean } | { action: 'decline'; comment: string }
+  ): Promise<QuoteAcceptanceView> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient.functions.invoke('quote-acceptance', {
+      body: { token, ...response },
+    });
+    if (error) throw error;
+    return data as QuoteAcceptanceView;
   }
 };
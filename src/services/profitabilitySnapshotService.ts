@@ -0,0 +1,42 @@
+import { ProfitabilitySnapshot } from '../types';
+import { ensureStoreClient } from './supabaseClient';
+
+// Snapshots are captured by the daily-notifications job; the app only reads them.
+export { toSnapshotMonth } from '../../supabase/functions/_shared/profitabilitySnapshots';
+
+const mapDbToProfitabilitySnapshot = (db: any): ProfitabilitySnapshot => ({
+  id: db.id,
+  clientId: db.client_id,
+  snapshotMonth: db.snapshot_month,
+  monthlyFee: Number(db.monthly_fee || 0),
+  totalAnnualRevenue: Number(db.total_annual_revenue || 0),
+  totalAnnualCost: Number(db.total_annual_cost || 0),
+  totalAnnualHours: Number(db.total_annual_hours || 0),
+  profitability: Number(db.profitability || 0),
+  hourlyReturn: Number(db.hourly_return || 0),
+  turnoverStatus: db.turnover_status || null,
+  createdAt: db.created_at,
+});
+
+export const profitabilitySnapshotService = {
+  async getByClient(clientId: string): Promise<ProfitabilitySnapshot[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('profitability_snapshots')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('snapshot_month', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(mapDbToProfitabilitySnapshot);
+  },
+  async getSince(fromMonth: string): Promise<ProfitabilitySnapshot[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('profitability_snapshots')
+      .select('*')
+      .gte('snapshot_month', fromMonth)
+      .order('snapshot_month', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(mapDbToProfitabilitySnapshot);
+  },
+};
@@ -0,0 +1,72 @@
+import { ensureStoreClient } from './supabaseClient';
+
+export interface StaffDigestRunResult {
+  emailed: number;
+  pushed: number;
+  failures: string[];
+}
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY || '';
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// The push API wants the VAPID key as bytes, not base64url text.
+const urlBase64ToUint8Array = (base64String: string) => {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+export const isPushSupported = () =>
+  Boolean(VAPID_PUBLIC_KEY) && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+export const pushSubscriptionService = {
+  async isSubscribed(): Promise<boolean> {
+    if (!isPushSupported()) return false;
+    const registration = await navigator.serviceWorker.ready;
+    return Boolean(await registration.pushManager.getSubscription());
+  },
+  // Asks for permission, subscribes this browser and stores the subscription for the signed-in user.
+  async subscribe(userEmail: string): Promise<void> {
+    if (!isPushSupported()) throw new Error('Este browser não suporta notificações push.');
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') throw new Error('Permissão de notificações recusada.');
+
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = (await registration.pushManager.getSubscription())
+      || (await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY) }));
+    const json = subscription.toJSON();
+
+    const storeClient = ensureStoreClient();
+    const { error } = await storeClient
+      .from('push_subscriptions')
+      .upsert({
+        endpoint: subscription.endpoint,
+        user_email: normalizeEmail(userEmail),
+        p256dh: json.keys?.p256dh || '',
+        auth: json.keys?.auth || '',
+        user_agent: navigator.userAgent,
+      }, { onConflict: 'endpoint' });
+    if (error) throw error;
+  },
+  async unsubscribe(): Promise<void> {
+    if (!isPushSupported()) return;
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription();
+    if (!subscription) return;
+
+    const storeClient = ensureStoreClient();
+    const { error } = await storeClient.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+    if (error) throw error;
+    await subscription.unsubscribe();
+  },
+  // Sends the digest now; with a staffId only that staff member's digest goes out.
+  async runDigest(staffId?: string | null): Promise<StaffDigestRunResult> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient.functions.invoke('staff-digest', { body: staffId ? { staffId } : {} });
+    if (error) throw error;
+    if (data && data.ok === false) throw new Error(data.error || 'Erro ao enviar resumo.');
+    return { emailed: Number(data?.emailed || 0), pushed: Number(data?.pushed || 0), failures: data?.failures || [] };
+  },
+};
@@ -0,0 +1,107 @@
+import { QuoteHistory, QuoteStatus, TurnoverBracket } from '../types';
+
+export interface QuoteOutcomeGroup {
+  key: string;
+  label: string;
+  total: number;
+  accepted: number;
+  rejected: number;
+  winRate: number | null; // accepted / decided, null until something was decided
+}
+
+export interface QuoteAnalytics {
+  total: number;
+  byStatus: Record<QuoteStatus, number>;
+  conversionRate: number | null; // accepted / all quotes
+  winRate: number | null; // accepted / (accepted + rejected)
+  averageDiscountPercent: number | null; // agreed fee vs the fee proposed on the quote, accepted quotes only
+  bySector: QuoteOutcomeGroup[];
+  byVolumeBracket: QuoteOutcomeGroup[];
+  lossReasons: { reason: string; count: number }[];
+}
+
+export const getQuoteRootId = (quote: QuoteHistory) => quote.parent_quote_id || quote.id;
+
+// Only the newest revision of each quote counts; older ones were superseded.
+export const getLatestQuoteRevisions = (quotes: QuoteHistory[]) => {
+  const latest = new Map<string, QuoteHistory>();
+  quotes.forEach(quote => {
+    const rootId = getQuoteRootId(quote);
+    const current = latest.get(rootId);
+    if (!current || quote.revision > current.revision || (quote.revision === current.revision && quote.created_at > current.created_at)) {
+      latest.set(rootId, quote);
+    }
+  });
+  return Array.from(latest.values());
+};
+
+const ratio = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : null);
+
+const groupOutcomes = (quotes: QuoteHistory[], getGroup: (quote: QuoteHistory) => { key: string; label: string }) => {
+  const groups = new Map<string, QuoteOutcomeGroup>();
+  quotes.forEach(quote => {
+    const { key, label } = getGroup(quote);
+    const group = groups.get(key) || { key, label, total: 0, accepted: 0, rejected: 0, winRate: null };
+    group.total += 1;
+    if (quote.status === 'accepted') group.accepted += 1;
+    if (quote.status === 'rejected') group.rejected += 1;
+    groups.set(key, group);
+  });
+  return Array.from(groups.values())
+    .map(group => ({ ...group, winRate: ratio(group.accepted, group.accepted + group.rejected) }))
+    .sort((a, b) => b.total - a.total);
+};
+
+export const buildQuoteAnalytics = (quotes: QuoteHistory[], turnoverBrackets: TurnoverBracket[]): QuoteAnalytics => {
+  const current = getLatestQuoteRevisions(quotes);
+  const byStatus: Record<QuoteStatus, number> = { draft: 0, sent: 0, negotiating: 0, accepted: 0, rejected: 0 };
+  current.forEach(quote => { byStatus[quote.status] += 1; });
+
+  const discounts = current
+    .filter(quote => quote.status === 'accepted')
+    .map(quote => {
+      const proposedFee = Number(quote.recommended_monthly_fee || 0);
+      if (proposedFee <= 0) return null;
+      const agreedFee = quote.accepted_monthly_fee ?? proposedFee;
+      return ((proposedFee - agreedFee) / proposedFee) * 100;
+    })
+    .filter((value): value is number => value !== null && Number.isFinite(value));
+
+  const sortedBrackets = [...turnoverBrackets].sort((a, b) => a.minTurnover - b.minTurnover);
+  const byVolumeBracket = groupOutcomes(current, quote => {
+    const bracket = sortedBrackets.find(b => quote.client_volume >= b.minTurnover && quote.client_volume <= b.maxTurnover);
+    if (!bracket) return { key: 'none', label: 'Sem patamar' };
+    return {
+      key: bracket.id,
+      label: `${bracket.minTurnover.toLocaleString('pt-PT')}€ – ${bracket.maxTurnover.toLocaleString('pt-PT')}€`,
+    };
+  });
+  byVolumeBracket.sort((a, b) => {
+    const indexOf = (key: string) => (key === 'none' ? Number.MAX_SAFE_INTEGER : sortedBrackets.findIndex(bracket => bracket.id === key));
+    return indexOf(a.key) - indexOf(b.key);
+  });
+
+  const lossReasonCounts = new Map<string, number>();
+  current
+    .filter(quote => quote.status === 'rejected')
+    .forEach(quote => {
+      const reason = (quote.loss_reason || '').trim() || 'Sem motivo indicado';
+      lossReasonCounts.set(reason, (lossReasonCounts.get(reason) || 0) + 1);
+    });
+
+  return {
+    total: current.length,
+    byStatus,
+    conversionRate: ratio(byStatus.accepted, current.length),
+    winRate: ratio(byStatus.accepted, byStatus.accepted + byStatus.rejected),
+    averageDiscountPercent: discounts.length > 0 ? discounts.reduce((sum, value) => sum + value, 0) / discounts.length : null,
+    bySector: groupOutcomes(current, quote => {
+      const sector = (quote.client_sector || '').trim();
+      return sector ? { key: sector.toLowerCase(), label: sector } : { key: 'none', label: 'Sem setor' };
+    }),
+    byVolumeBracket,
+    lossReasons: Array.from(lossReasonCounts.entries())
+      .map(([reason, count]) => ({ reason, count }))
+      .sort((a, b) => b.count - a.count),
+  };
+};
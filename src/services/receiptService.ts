@@ -0,0 +1,98 @@
+import { Receipt } from '../types';
+import { ensureStoreClient } from './supabaseClient';
+
+export const DEFAULT_RECEIPT_SERIES = 'RC';
+
+const mapDbToReceipt = (db: any): Receipt => ({
+  id: db.id,
+  series: db.series,
+  receiptYear: Number(db.receipt_year),
+  receiptNumber: Number(db.receipt_number),
+  documentNumber: `${db.series} ${db.receipt_year}/${db.receipt_number}`,
+  issuedAt: db.issued_at,
+  clientId: db.client_id || null,
+  clientName: db.client_name || '',
+  clientNif: db.client_nif || null,
+  clientAddress: db.client_address || null,
+  description: db.description || '',
+  amount: Number(db.amount || 0),
+  vatRate: Number(db.vat_rate ?? 23),
+  paymentMethod: db.payment_method,
+  cashPaymentId: db.cash_payment_id || null,
+  cashOperationId: db.cash_operation_id || null,
+  reportLineIndex: db.report_line_index ?? null,
+  status: db.status || 'issued',
+  voidReason: db.void_reason || null,
+  voidedAt: db.voided_at || null,
+  voidedBy: db.voided_by || null,
+  emailedTo: db.emailed_to || null,
+  emailedAt: db.emailed_at || null,
+  createdBy: db.created_by || null,
+});
+
+export interface IssueReceiptInput {
+  series?: string;
+  clientId: string | null;
+  clientName: string;
+  clientNif?: string;
+  clientAddress?: string;
+  description: string;
+  amount: number;
+  paymentMethod: Receipt['paymentMethod'];
+  cashPaymentId?: string | null;
+  cashOperationId?: string | null;
+  reportLineIndex?: number | null;
+}
+
+export const receiptService = {
+  async getAll(): Promise<Receipt[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('receipts')
+      .select('*')
+      .order('issued_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapDbToReceipt);
+  },
+  // Numbering is allocated in the database so it stays sequential per series and year.
+  async issue(input: IssueReceiptInput): Promise<Receipt> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient.rpc('issue_receipt', {
+      p_series: input.series || DEFAULT_RECEIPT_SERIES,
+      p_client_id: input.clientId,
+      p_client_name: input.clientName,
+      p_client_nif: input.clientNif || null,
+      p_client_address: input.clientAddress || null,
+      p_description: input.description,
+      p_amount: Number(input.amount.toFixed(2)),
+      p_payment_method: input.paymentMethod,
+      p_cash_payment_id: input.cashPaymentId || null,
+      p_cash_operation_id: input.cashOperationId || null,
+      p_report_line_index: input.reportLineIndex ?? null,
+    }).single();
+    if (error) throw error;
+    return mapDbToReceipt(data);
+  },
+  async void(id: string, reason: string): Promise<Receipt> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('receipts')
+      .update({ status: 'voided', void_reason: reason.trim() })
+      .eq('id', id)
+      .select('*')
+      .single();
+    if (error) throw error;
+    return mapDbToReceipt(data);
+  },
+  async markEmailed(id: string, emailedTo: string): Promise<Receipt> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('receipts')
+      .update({ emailed_to: emailedTo, emailed_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('*')
+      .single();
+    if (error) throw error;
+    return mapDbToReceipt(data);
+  },
+};
@@ -0,0 +1,184 @@
+import { AppPermission, AppRole, Client, UserRoleAssignment } from '../types';
+import { ensureStoreClient } from './supabaseClient';
+
+export const APP_VIEW_LABELS: Record<string, string> = {
+  dashboard: 'Dashboard',
+  clients: 'Clientes',
+  calendar: 'Calendário Fiscal',
+  obligations: 'Obrigações',
+  groups: 'Grupos Avenças',
+  contracts: 'Contratos',
+  insurance: 'Seguros',
+  sht: 'SHT',
+  cashier: 'Caixa Numerário',
+  'irs-control': 'Control IRS',
+  emails: 'Email Marketing',
+  team: 'Equipa',
+  capacity: 'Capacidade Equipa',
+  tasks: 'Catálogo Tarefas',
+  calculator: 'Orçamentador',
+  settings: 'Configurações',
+};
+
+export const APP_PERMISSION_LABELS: Record<AppPermission, string> = {
+  view_profitability: 'Ver custos e rentabilidade',
+  view_commissions: 'Ver comissões de seguros',
+  apply_fees: 'Aplicar alterações de avenças',
+  close_register: 'Fechar a caixa',
+  manage_roles: 'Gerir perfis e permissões',
+  manage_alert_rules: 'Gerir regras de alertas',
+  manage_staff: 'Gerir custos da equipa',
+};
+
+// Mirrors the seeded 'staff' role; used for users without an assignment when that role row is missing.
+export const DEFAULT_APP_ROLE: AppRole = {
+  id: 'default',
+  key: 'staff',
+  name: 'Colaborador',
+  description: '',
+  views: ['clients', 'calendar', 'obligations', 'groups', 'contracts', 'insurance', 'sht', 'cashier', 'irs-control', 'tasks'],
+  permissions: ['close_register'],
+  dataScope: 'all',
+  isSystem: true,
+};
+
+export interface CurrentAccess {
+  role: AppRole;
+  assignment: UserRoleAssignment | null;
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const mapDbToAppRole = (db: any): AppRole => ({
+  id: db.id,
+  key: db.key,
+  name: db.name,
+  description: db.description || '',
+  views: db.views || [],
+  permissions: (db.permissions || []) as AppPermission[],
+  dataScope: db.data_scope === 'own' ? 'own' : 'all',
+  isSystem: Boolean(db.is_system),
+});
+
+const mapDbToAssignment = (db: any): UserRoleAssignment => ({
+  email: db.email,
+  roleId: db.role_id,
+  staffId: db.staff_id || null,
+  insuranceAgent: db.insurance_agent || null,
+  updatedAt: db.updated_at,
+});
+
+export const roleService = {
+  async getRoles(): Promise<AppRole[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient.from('app_roles').select('*').order('name');
+    if (error) throw error;
+    return (data || []).map(mapDbToAppRole);
+  },
+  async getAssignments(): Promise<UserRoleAssignment[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient.from('app_user_roles').select('*').order('email');
+    if (error) throw error;
+    return (data || []).map(mapDbToAssignment);
+  },
+  async getCurrentAccess(email: string): Promise<CurrentAccess> {
+    const storeClient = ensureStoreClient();
+    const { data: assignmentRow, error } = await storeClient
+      .from('app_user_roles')
+      .select('*, app_roles(*)')
+      .eq('email', normalizeEmail(email))
+      .maybeSingle();
+    if (error) throw error;
+    if (assignmentRow?.app_roles) {
+      return { role: mapDbToAppRole(assignmentRow.app_roles), assignment: mapDbToAssignment(assignmentRow) };
+    }
+
+    const { data: defaultRow, error: defaultError } = await storeClient
+      .from('app_roles')
+      .select('*')
+      .eq('key', DEFAULT_APP_ROLE.key)
+      .maybeSingle();
+    if (defaultError) throw defaultError;
+    return { role: defaultRow ? mapDbToAppRole(defaultRow) : DEFAULT_APP_ROLE, assignment: null };
+  },
+  async saveRole(role: Omit<AppRole, 'id' | 'isSystem'> & { id?: string }): Promise<AppRole> {
+    const storeClient = ensureStoreClient();
+    const payload = {
+      key: role.key,
+      name: role.name,
+      description: role.description,
+      views: role.views,
+      permissions: role.permissions,
+      data_scope: role.dataScope,
+      updated_at: new Date().toISOString(),
+    };
+    const query = role.id
+      ? storeClient.from('app_roles').update(payload).eq('id', role.id)
+      : storeClient.from('app_roles').insert(payload);
+    const { data, error } = await query.select().single();
+    if (error) throw error;
+    return mapDbToAppRole(data);
+  },
+  async deleteRole(id: string): Promise<void> {
+    const storeClient = ensureStoreClient();
+    const { error } = await storeClient.from('app_roles').delete().eq('id', id);
+    if (error) throw error;
+  },
+  async saveAssignment(assignment: UserRoleAssignment): Promise<UserRoleAssignment> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('app_user_roles')
+      .upsert({
+        email: normalizeEmail(assignment.email),
+        role_id: assignment.roleId,
+        staff_id: assignment.staffId,
+        insurance_agent: assignment.insuranceAgent,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'email' })
+      .select()
+      .single();
+    if (error) throw error;
+    return mapDbToAssignment(data);
+  },
+  async removeAssignment(email: string): Promise<void> {
+    const storeClient = ensureStoreClient();
+    const { error } = await storeClient.from('app_user_roles').delete().eq('email', normalizeEmail(email));
+    if (error) throw error;
+  },
+};
+
+// Set when the signed-in user's role has the 'own' data scope; null means every row is visible.
+export interface DataScope {
+  staffId: string | null;
+  insuranceAgent: UserRoleAssignment['insuranceAgent'];
+}
+
+let activeDataScope: DataScope | null = null;
+
+export const getDataScopeForAccess = (access: CurrentAccess | null): DataScope | null => (
+  access?.role.dataScope === 'own'
+    ? { staffId: access.assignment?.staffId || null, insuranceAgent: access.assignment?.insuranceAgent || null }
+    : null
+);
+
+export const setActiveDataScope = (scope: DataScope | null) => {
+  activeDataScope = scope;
+};
+
+export const getActiveDataScope = () => activeDataScope;
+
+// Same rule as public.is_client_in_scope: responsible staff member or assigned on one of the client's tasks.
+export const isClientInScope = (client: Client, scope: DataScope | null = activeDataScope, staffName?: string): boolean => {
+  if (!scope) return true;
+  if (!scope.staffId) return false;
+  return client.responsibleStaff === scope.staffId
+    || (!!staffName && client.responsibleStaff === staffName)
+    || (client.tasks || []).some(task => task.assignedStaffId === scope.staffId);
+};
+
+// PostgREST filter for the clients table matching isClientInScope, or null when unscoped.
+export const getClientScopeFilter = (scope: DataScope | null = activeDataScope): string | null => {
+  if (!scope) return null;
+  if (!scope.staffId) return 'id.is.null';
+  return `responsavel_interno_id.eq.${scope.staffId},tasks.cs.${JSON.stringify([{ assignedStaffId: scope.staffId }])}`;
+};
@@ -0,0 +1,54 @@
+import { StaffAbsence } from '../types';
+import { ensureStoreClient } from './supabaseClient';
+
+export const STAFF_ABSENCE_TYPE_LABELS: Record<StaffAbsence['type'], string> = {
+  vacation: 'Férias',
+  sick: 'Baixa médica',
+  training: 'Formação',
+  other: 'Outra ausência',
+};
+
+const mapDbToStaffAbsence = (db: any): StaffAbsence => ({
+  id: db.id,
+  staffId: db.staff_id,
+  type: db.absence_type,
+  startDate: db.start_date,
+  endDate: db.end_date,
+  hoursPerDay: db.hours_per_day === null || db.hours_per_day === undefined ? null : Number(db.hours_per_day),
+  notes: db.notes || '',
+  createdAt: db.created_at,
+});
+
+export const staffAbsenceService = {
+  async getAll(): Promise<StaffAbsence[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('staff_absences')
+      .select('*')
+      .order('start_date', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapDbToStaffAbsence);
+  },
+  async create(absence: Omit<StaffAbsence, 'id' | 'createdAt'>): Promise<StaffAbsence> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('staff_absences')
+      .insert({
+        staff_id: absence.staffId,
+        absence_type: absence.type,
+        start_date: absence.startDate,
+        end_date: absence.endDate,
+        hours_per_day: absence.hoursPerDay,
+        notes: absence.notes.trim() || null,
+      })
+      .select()
+      .single();
+    if (error) throw error;
+    return mapDbToStaffAbsence(data);
+  },
+  async delete(id: string): Promise<void> {
+    const storeClient = ensureStoreClient();
+    const { error } = await storeClient.from('staff_absences').delete().eq('id', id);
+    if (error) throw error;
+  },
+};
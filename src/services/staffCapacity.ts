@@ -0,0 +1,169 @@
+import { Client, Staff, StaffAbsence, Task, TaskType } from '../types';
+import { AVERAGE_WORKING_DAYS_PER_MONTH, calculateStaffStats, getEstimatedTaskMinutes } from './calculator';
+import { generateObligationDeadlines, toIsoDate } from './fiscalCalendar';
+
+export interface PublicHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface StaffMonthCapacity {
+  month: string; // YYYY-MM
+  workingDays: number;
+  holidays: PublicHoliday[]; // Only those falling on weekdays
+  absenceHours: number;
+  availableHours: number;
+}
+
+export interface StaffCapacityForecastMonth extends StaffMonthCapacity {
+  demandHours: number;
+  utilization: number;
+  isOverCapacity: boolean;
+}
+
+export interface StaffCapacityForecast {
+  staffId: string;
+  staffName: string;
+  months: StaffCapacityForecastMonth[];
+}
+
+// Anonymous Gregorian algorithm.
+const getEasterSunday = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+// National public holidays (art. 234.º do Código do Trabalho); municipal holidays and Carnaval are optional and left out.
+export const getPortugueseHolidays = (year: number): PublicHoliday[] => {
+  const easter = getEasterSunday(year);
+  const fromEaster = (days: number) => toIsoDate(new Date(year, easter.getMonth(), easter.getDate() + days));
+  const fixed = (month: number, day: number) => toIsoDate(new Date(year, month - 1, day));
+
+  return [
+    { date: fixed(1, 1), name: 'Ano Novo' },
+    { date: fromEaster(-2), name: 'Sexta-feira Santa' },
+    { date: fromEaster(0), name: 'Páscoa' },
+    { date: fixed(4, 25), name: 'Dia da Liberdade' },
+    { date: fixed(5, 1), name: 'Dia do Trabalhador' },
+    { date: fromEaster(60), name: 'Corpo de Deus' },
+    { date: fixed(6, 10), name: 'Dia de Portugal' },
+    { date: fixed(8, 15), name: 'Assunção de Nossa Senhora' },
+    { date: fixed(10, 5), name: 'Implantação da República' },
+    { date: fixed(11, 1), name: 'Todos os Santos' },
+    { date: fixed(12, 1), name: 'Restauração da Independência' },
+    { date: fixed(12, 8), name: 'Imaculada Conceição' },
+    { date: fixed(12, 25), name: 'Natal' },
+  ].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const toMonthKey = (year: number, monthIndex: number) => `${year}-${String(monthIndex + 1).padStart(2, '0')}`;
+
+// Real hours for one month: working days (weekdays that are not public holidays) minus absences.
+export function getStaffMonthCapacity(staff: Staff, absences: StaffAbsence[], year: number, monthIndex: number): StaffMonthCapacity {
+  const monthKey = toMonthKey(year, monthIndex);
+  const holidays = getPortugueseHolidays(year).filter(holiday => holiday.date.startsWith(monthKey));
+  const holidayDates = new Set(holidays.map(holiday => holiday.date));
+  const hoursPerDay = (staff.capacityHoursPerMonth || 0) / AVERAGE_WORKING_DAYS_PER_MONTH;
+  const staffAbsences = absences.filter(absence => absence.staffId === staff.id && absence.startDate.slice(0, 7) <= monthKey && absence.endDate.slice(0, 7) >= monthKey);
+
+  let workingDays = 0;
+  let absenceHours = 0;
+  const daysInMonth = new Date(year, monthIndex + 1, 0).getDate();
+  for (let day = 1; day <= daysInMonth; day++) {
+    const date = new Date(year, monthIndex, day);
+    const weekday = date.getDay();
+    const iso = toIsoDate(date);
+    if (weekday === 0 || weekday === 6 || holidayDates.has(iso)) continue;
+    workingDays += 1;
+    // Overlapping absences on the same day count once, at the largest share of the day.
+    const absentHours = staffAbsences
+      .filter(absence => absence.startDate <= iso && absence.endDate >= iso)
+      .reduce((max, absence) => Math.max(max, Math.min(hoursPerDay, absence.hoursPerDay ?? hoursPerDay)), 0);
+    absenceHours += absentHours;
+  }
+
+  return {
+    month: monthKey,
+    workingDays,
+    holidays: holidays.filter(holiday => {
+      const weekday = new Date(`${holiday.date}T00:00:00`).getDay();
+      return weekday !== 0 && weekday !== 6;
+    }),
+    absenceHours,
+    availableHours: Math.max(0, workingDays * hoursPerDay - absenceHours),
+  };
+}
+
+const isManagedBy = (client: Client, staff: Staff) => client.responsibleStaff === staff.id || client.responsibleStaff === staff.name;
+
+// Month-by-month demand: recurring work stays spread evenly (annual / 12), while obligation-type
+// tasks are placed in the month each occurrence is due, so quarterly and annual peaks show up.
+// staffList resolves who does each obligation; members limits the rows returned.
+export function buildStaffCapacityForecast(
+  staffList: Staff[],
+  clients: Client[],
+  tasks: Task[],
+  absences: StaffAbsence[],
+  from: Date,
+  monthCount: number,
+  members: Staff[] = staffList
+): StaffCapacityForecast[] {
+  const workingClients = clients.filter(c => c.status !== 'Inativo' && c.status !== 'Cancelado');
+  const obligationTasks = tasks.filter(task => task.type === TaskType.OBRIGACAO);
+  const start = new Date(from.getFullYear(), from.getMonth(), 1);
+  const end = new Date(from.getFullYear(), from.getMonth() + monthCount, 0);
+
+  const occurrenceHours = new Map<string, number>();
+  const taskById = new Map(obligationTasks.map(task => [task.id, task]));
+  const clientById = new Map(workingClients.map(client => [client.id, client]));
+  generateObligationDeadlines(workingClients, obligationTasks, staffList, start, end).forEach(deadline => {
+    const client = clientById.get(deadline.clientId);
+    const task = taskById.get(deadline.taskId);
+    if (!client || !task || !deadline.staffId) return;
+    const override = client.tasks.find(t => t.taskId === task.id);
+    const frequency = override?.frequencyPerYear || task.defaultFrequencyPerYear;
+    if (!(frequency > 0)) return;
+    const key = `${deadline.staffId}:${deadline.dueDate.slice(0, 7)}`;
+    occurrenceHours.set(key, (occurrenceHours.get(key) || 0) + getEstimatedTaskMinutes(client, task) / frequency / 60);
+  });
+
+  return members.map(member => {
+    const flatHours = calculateStaffStats(member, workingClients, tasks).allocatedHoursMonth;
+    const flatObligationHours = workingClients.reduce((sum, client) => {
+      const isManager = isManagedBy(client, member);
+      return sum + obligationTasks.reduce((taskSum, task) => {
+        const override = client.tasks.find(t => t.taskId === task.id);
+        const isAssigned = override?.assignedStaffId ? override.assignedStaffId === member.id : isManager;
+        return isAssigned ? taskSum + getEstimatedTaskMinutes(client, task) / 60 / 12 : taskSum;
+      }, 0);
+    }, 0);
+    const recurringHours = Math.max(0, flatHours - flatObligationHours);
+
+    const months = Array.from({ length: monthCount }, (_, offset) => {
+      const monthDate = new Date(start.getFullYear(), start.getMonth() + offset, 1);
+      const capacity = getStaffMonthCapacity(member, absences, monthDate.getFullYear(), monthDate.getMonth());
+      const demandHours = recurringHours + (occurrenceHours.get(`${member.id}:${capacity.month}`) || 0);
+      return {
+        ...capacity,
+        demandHours,
+        utilization: capacity.availableHours > 0 ? (demandHours / capacity.availableHours) * 100 : (demandHours > 0 ? Infinity : 0),
+        isOverCapacity: demandHours > capacity.availableHours,
+      };
+    });
+
+    return { staffId: member.id, staffName: member.name, months };
+  });
+}
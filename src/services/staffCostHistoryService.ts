@@ -0,0 +1,42 @@
+import { StaffCostRecord } from '../types';
+import { ensureStoreClient } from './supabaseClient';
+
+const mapDbToStaffCostRecord = (db: any): StaffCostRecord => ({
+  id: db.id,
+  staffId: db.staff_id,
+  effectiveFrom: db.effective_from,
+  baseSalary: Number(db.base_salary || 0),
+  socialChargesPercent: Number(db.social_charges_percent || 0),
+  mealAllowance: Number(db.meal_allowance || 0),
+  otherMonthlyCosts: Number(db.other_monthly_costs || 0),
+  insuranceAnnual: Number(db.insurance_annual || 0),
+  capacityHoursPerMonth: Number(db.capacity_hours_per_month || 160),
+  hourlyCost: Number(db.hourly_cost || 0),
+  reason: db.reason || '',
+  changedBy: db.changed_by || null,
+  createdAt: db.created_at,
+});
+
+export const staffCostHistoryService = {
+  async getAll(): Promise<StaffCostRecord[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('staff_cost_history')
+      .select('*')
+      .order('effective_from', { ascending: true })
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(mapDbToStaffCostRecord);
+  },
+  async getByStaff(staffId: string): Promise<StaffCostRecord[]> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('staff_cost_history')
+      .select('*')
+      .eq('staff_id', staffId)
+      .order('effective_from', { ascending: true })
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(mapDbToStaffCostRecord);
+  },
+};
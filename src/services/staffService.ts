@@ -1,4 +1,4 @@
-import { Staff } from '../types';
+import { Staff, StaffCostChangeContext } from '../types';
 import { importClient, ensureStoreClient } from './supabaseClient';
 
 const mapDbToStaff = (s: any): Staff => ({
@@ -11,6 +11,7 @@ const mapDbToStaff = (s: any): Staff => ({
   socialChargesPercent: Number(s.social_charges_percent || 23.75),
   mealAllowance: Number(s.meal_allowance || 0),
   otherMonthlyCosts: Number(s.other_monthly_costs || 0),
+  insuranceAnnual: Number(s.insurance_annual || 0),
   capacityHoursPerMonth: Number(s.capacity_hours_per_month || 160),
   hourlyCost: Number(s.hourly_cost || 0),
   assignedAreas: s.assigned_areas || []
@@ -26,6 +27,7 @@ const mapStaffToDb = (s: Staff) => ({
   social_charges_percent: s.socialChargesPercent,
   meal_allowance: s.mealAllowance,
   other_monthly_costs: s.otherMonthlyCosts,
+  insurance_annual: s.insuranceAnnual,
   capacity_hours_per_month: s.capacityHoursPerMonth,
   hourly_cost: s.hourlyCost,
   assigned_areas: s.assignedAreas
@@ -59,9 +61,19 @@ export const staffService = {
     const { error } = await storeClient.from('staff').upsert(staffToUpsert, { onConflict: 'id' });
     if (error) throw error;
   },
-  async upsert(member: Staff): Promise<Staff> {
+  async upsert(member: Staff, costChange?: StaffCostChangeContext): Promise<Staff> {
     const storeClient = ensureStoreClient();
-    const { data, error } = await storeClient.from('staff').upsert(mapStaffToDb(member)).select().single();
+    // The staff row and its cost history row are written together; a change dated in the future is
+    // only recorded in the history until the nightly apply_due_staff_costs job copies it over.
+    const { data, error } = await storeClient
+      .rpc('upsert_staff_with_cost_history', {
+        p_staff: mapStaffToDb(member),
+        p_cost_change: {
+          effective_from: costChange?.effectiveFrom || null,
+          reason: costChange?.reason?.trim() || null,
+        },
+      })
+      .single();
     if (error) throw error;
     return mapDbToStaff(data);
   }
@@ -4,7 +4,7 @@ import { GlobalSettings } from '../types';
 export let importClient: SupabaseClient | null = null;
 export let storeClient: SupabaseClient | null = null;
 
-export const initSupabase = (settings: GlobalSettings) => {
+export const initSupabase = (settings: Partial<GlobalSettings>) => {
   const iUrl = import.meta.env.VITE_SUPABASE_URL_IMPORT || settings.supabaseImportUrl;
   const iKey = import.meta.env.VITE_SUPABASE_KEY_IMPORT || settings.supabaseImportKey;
   const sUrl = import.meta.env.VITE_SUPABASE_URL_CMR || settings.supabaseStoreUrl;
@@ -45,6 +45,10 @@ export const ensureStoreClient = (): SupabaseClient => {
       }
     }
   }
+  if (!storeClient) {
+    // Public pages (a prospect answering a proposal) have no saved settings; the build's server is used.
+    initSupabase({});
+  }
   if (!storeClient) {
     throw new Error("Servidor de Gestão não configurado. Verifique as configurações e recarregue a página.");
   }
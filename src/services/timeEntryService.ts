@@ -0,0 +1,82 @@
+import { TimeEntry } from '../types';
+import { ensureStoreClient } from './supabaseClient';
+
+const mapDbToTimeEntry = (db: any): TimeEntry => ({
+  id: db.id,
+  clientId: db.client_id,
+  taskId: db.task_id,
+  staffId: db.staff_id,
+  entryDate: db.entry_date,
+  minutes: Number(db.minutes || 0),
+  notes: db.notes || '',
+  createdAt: db.created_at,
+});
+
+const mapTimeEntryToDb = (entry: Omit<TimeEntry, 'id' | 'createdAt'>) => ({
+  client_id: entry.clientId,
+  task_id: entry.taskId,
+  staff_id: entry.staffId,
+  entry_date: entry.entryDate,
+  minutes: Math.round(entry.minutes),
+  notes: entry.notes?.trim() || null,
+});
+
+export { getTimeEntryWindowStart } from './calculator';
+
+export const timeEntryService = {
+  async getByClient(clientId: string, fromDate?: string): Promise<TimeEntry[]> {
+    const storeClient = ensureStoreClient();
+    let query = storeClient
+      .from('time_entries')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('entry_date', { ascending: false });
+    if (fromDate) query = query.gte('entry_date', fromDate);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(mapDbToTimeEntry);
+  },
+  // Date of the client's first logged entry; null while nothing has been logged.
+  async getFirstEntryDate(clientId: string): Promise<string | null> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('time_entries')
+      .select('entry_date')
+      .eq('client_id', clientId)
+      .order('entry_date', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    return data?.entry_date || null;
+  },
+  async getByStaff(staffId: string, fromDate?: string): Promise<TimeEntry[]> {
+    const storeClient = ensureStoreClient();
+    let query = storeClient
+      .from('time_entries')
+      .select('*')
+      .eq('staff_id', staffId)
+      .order('entry_date', { ascending: false });
+    if (fromDate) query = query.gte('entry_date', fromDate);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(mapDbToTimeEntry);
+  },
+  async create(entry: Omit<TimeEntry, 'id' | 'createdAt'>): Promise<TimeEntry> {
+    const storeClient = ensureStoreClient();
+    const { data, error } = await storeClient
+      .from('time_entries')
+      .insert(mapTimeEntryToDb(entry))
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return mapDbToTimeEntry(data);
+  },
+  async delete(id: string): Promise<void> {
+    const storeClient = ensureStoreClient();
+    const { error } = await storeClient.from('time_entries').delete().eq('id', id);
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,152 @@
+import { BankStatementLine, CashPayment, Client } from '../types';
+import { BankMatchProposal, ClientLedger } from '../types/cashier';
+
+const AMOUNT_TOLERANCE = 0.01;
+const NAME_STOPWORDS = new Set(['LDA', 'LIMITADA', 'UNIPESSOAL', 'UNIP', 'SOCIEDADE', 'SOC', 'COMPANHIA', 'CIA', 'DE', 'DA', 'DO', 'DAS', 'DOS', 'E', 'SA']);
+
+const normalizeText = (value: string) => value
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toUpperCase()
+  .replace(/[^A-Z0-9 ]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const sameAmount = (a: number, b: number) => Math.abs(a - b) <= AMOUNT_TOLERANCE;
+
+const matchByNif = (description: string, clients: Client[]): Client | undefined => {
+  const nifs: string[] = description.match(/\d{9}/g) || [];
+  if (nifs.length === 0) return undefined;
+  return clients.find(client => nifs.includes((client.nif || '').replace(/\D/g, '')));
+};
+
+// Share of the client's significant name words found in the description; ambiguous ties give no match.
+const matchByName = (description: string, clients: Client[]): Client | undefined => {
+  const descriptionTokens = new Set(normalizeText(description).split(' '));
+  let best: { client: Client; score: number } | undefined;
+  let isTie = false;
+
+  clients.forEach(client => {
+    const tokens = normalizeText(client.name).split(' ').filter(token => token.length >= 3 && !NAME_STOPWORDS.has(token));
+    if (tokens.length === 0) return;
+    const hits = tokens.filter(token => descriptionTokens.has(token)).length;
+    const isStrong = tokens.length === 1 ? hits === 1 && tokens[0].length >= 4 : hits >= 2;
+    const score = hits / tokens.length;
+    if (!isStrong || score < 0.6) return;
+    if (!best || score > best.score) {
+      best = { client, score };
+      isTie = false;
+    } else if (score === best.score) {
+      isTie = true;
+    }
+  });
+
+  return isTie ? undefined : best?.client;
+};
+
+interface ReconciliationContext {
+  clients: Client[];
+  ledgers: Map<string, ClientLedger>;
+  payments: Partial<CashPayment>[];
+  reconciledPaymentIds: Set<string>;
+}
+
+const getUnreconciledMbWayPayments = (clientId: string, context: ReconciliationContext, claimedPaymentIds: Set<string>) => (
+  context.payments.filter(payment =>
+    payment.clientId === clientId &&
+    payment.paymentMethod === 'MB Way' &&
+    payment.amountPaid !== -1 &&
+    payment.id &&
+    !context.reconciledPaymentIds.has(payment.id) &&
+    !claimedPaymentIds.has(payment.id)
+  )
+);
+
+// Only one client can owe exactly this amount, otherwise the amount alone is not evidence enough.
+const matchByAmount = (amount: number, context: ReconciliationContext, claimedPaymentIds: Set<string>): Client | undefined => {
+  const candidates = context.clients.filter(client => {
+    const ledger = context.ledgers.get(client.id);
+    const owesAmount = ledger?.entries.some(entry => entry.outstanding > 0 && sameAmount(entry.outstanding, amount));
+    const hasPayment = getUnreconciledMbWayPayments(client.id, context, claimedPaymentIds).some(payment => sameAmount(payment.amountPaid || 0, amount));
+    return owesAmount || hasPayment;
+  });
+  return candidates.length === 1 ? candidates[0] : undefined;
+};
+
+const buildProposalForClient = (
+  line: BankStatementLine,
+  clientId: string,
+  matchedBy: BankMatchProposal['matchedBy'],
+  context: ReconciliationContext,
+  claimedPaymentIds: Set<string>,
+  claimedMonths: Set<string>
+): BankMatchProposal => {
+  const existingPayment = getUnreconciledMbWayPayments(clientId, context, claimedPaymentIds)
+    .find(payment => sameAmount(payment.amountPaid || 0, line.amount));
+  if (existingPayment?.id) {
+    claimedPaymentIds.add(existingPayment.id);
+    return {
+      lineId: line.id,
+      clientId,
+      matchedBy,
+      action: 'link',
+      paymentId: existingPayment.id,
+      paymentYear: existingPayment.paymentYear || null,
+      paymentMonth: existingPayment.paymentMonth || null,
+      amount: line.amount,
+    };
+  }
+
+  const openEntries = (context.ledgers.get(clientId)?.entries || [])
+    .filter(entry => entry.outstanding > 0 && entry.paid === 0 && !claimedMonths.has(`${clientId}-${entry.year}-${entry.month}`));
+  const target = openEntries.find(entry => sameAmount(entry.outstanding, line.amount)) || openEntries[0];
+  if (target) claimedMonths.add(`${clientId}-${target.year}-${target.month}`);
+
+  return {
+    lineId: line.id,
+    clientId,
+    matchedBy,
+    action: target ? 'create' : null,
+    paymentId: null,
+    paymentYear: target?.year ?? null,
+    paymentMonth: target?.month ?? null,
+    amount: line.amount,
+  };
+};
+
+/**
+ * Proposes a client and a target month for every pending statement line.
+ * Evidence order: NIF in the description, then the client name, then a unique matching amount.
+ * Lines are taken oldest first so older debts are settled first.
+ */
+export const proposeBankMatches = (
+  lines: BankStatementLine[],
+  context: ReconciliationContext,
+  clientOverrides: Record<string, string | null> = {}
+): BankMatchProposal[] => {
+  const claimedPaymentIds = new Set<string>();
+  const claimedMonths = new Set<string>();
+
+  return [...lines]
+    .sort((a, b) => a.statementDate.localeCompare(b.statementDate))
+    .map(line => {
+      // A null override is an explicit "no client" and must not fall back to the automatic match.
+      if (Object.prototype.hasOwnProperty.call(clientOverrides, line.id)) {
+        const overrideClientId = clientOverrides[line.id];
+        if (!overrideClientId) {
+          return { lineId: line.id, clientId: null, matchedBy: null, action: null, paymentId: null, paymentYear: null, paymentMonth: null, amount: line.amount };
+        }
+        return buildProposalForClient(line, overrideClientId, 'manual', context, claimedPaymentIds, claimedMonths);
+      }
+
+      const byNif = matchByNif(line.description, context.clients);
+      const byName = byNif ? undefined : matchByName(line.description, context.clients);
+      const byAmount = byNif || byName ? undefined : matchByAmount(line.amount, context, claimedPaymentIds);
+      const client = byNif || byName || byAmount;
+      if (!client) {
+        return { lineId: line.id, clientId: null, matchedBy: null, action: null, paymentId: null, paymentYear: null, paymentMonth: null, amount: line.amount };
+      }
+      const matchedBy: BankMatchProposal['matchedBy'] = byNif ? 'nif' : byName ? 'nome' : 'valor';
+      return buildProposalForClient(line, client.id, matchedBy, context, claimedPaymentIds, claimedMonths);
+    });
+};
@@ -0,0 +1,222 @@
+import { BankStatementLine } from '../types';
+import { ParsedStatementLine } from '../types/cashier';
+
+const normalizeHeader = (value: string) => value
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9 ]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// Accepts "1.234,56", "1234,56", "-12.50", "12,50 €" and "1 234,56".
+export const parseStatementAmount = (raw: string): number | null => {
+  let value = String(raw || '').replace(/[€\s\u00a0]/g, '').replace(/EUR/i, '');
+  if (!value) return null;
+  const isNegative = /^-|-$|^\(.*\)$/.test(value);
+  value = value.replace(/[()+-]/g, '');
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) return null;
+  return isNegative ? -parsed : parsed;
+};
+
+// Returns YYYY-MM-DD from dd-mm-yyyy, dd/mm/yy, dd.mm.yyyy or ISO dates.
+export const parseStatementDate = (raw: string): string | null => {
+  const value = String(raw || '').trim();
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const pt = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (!pt) return null;
+  const year = pt[3].length === 2 ? `20${pt[3]}` : pt[3];
+  return `${year}-${pt[2].padStart(2, '0')}-${pt[1].padStart(2, '0')}`;
+};
+
+export const detectStatementChannel = (description: string): BankStatementLine['channel'] => {
+  const normalized = normalizeHeader(description);
+  if (/mb ?way/.test(normalized)) return 'mbway';
+  if (/\b(trf|transf|transferencia|sepa|tfi|tra)\b/.test(normalized)) return 'transfer';
+  return 'other';
+};
+
+const splitCsvRow = (row: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (char === '"') {
+      if (inQuotes && row[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const detectDelimiter = (rows: string[]): string => {
+  const sample = rows.slice(0, 30).join('\n');
+  const candidates = [';', '\t', ','];
+  return candidates
+    .map(delimiter => ({ delimiter, count: sample.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+interface CsvColumns {
+  date: number;
+  description: number;
+  amount: number;
+  credit: number;
+  debit: number;
+  reference: number;
+}
+
+const findColumn = (headers: string[], patterns: RegExp[], exclude: RegExp[] = []) => {
+  for (const pattern of patterns) {
+    const index = headers.findIndex(header => pattern.test(header) && !exclude.some(ex => ex.test(header)));
+    if (index >= 0) return index;
+  }
+  return -1;
+};
+
+// Portuguese bank exports (CGD, Millennium, Santander, Novo Banco, BPI, Montepio...) start with a
+// preamble of account details; the header row is the first one naming both a date and an amount.
+const detectColumns = (headers: string[]): CsvColumns | null => {
+  const date = findColumn(headers, [/^data (mov|lanc|operac)/, /^data$/, /^data valor/, /data/, /date/]);
+  const amount = findColumn(headers, [/^montante/, /^valor$/, /^importancia/, /^amount/, /valor/], [/saldo/, /^data/]);
+  const credit = findColumn(headers, [/credito/, /^credit/]);
+  const debit = findColumn(headers, [/debito/, /^debit/]);
+  if (date < 0 || (amount < 0 && credit < 0)) return null;
+  return {
+    date,
+    description: findColumn(headers, [/descri/, /^movimento/, /detalhe/, /historico/, /observa/, /^texto/]),
+    amount,
+    credit,
+    debit,
+    reference: findColumn(headers, [/refer/]),
+  };
+};
+
+const withFingerprints = (lines: Omit<ParsedStatementLine, 'fingerprint'>[]): ParsedStatementLine[] => {
+  const seen = new Map<string, number>();
+  return lines.map(line => {
+    const base = [line.statementDate, line.amount.toFixed(2), normalizeHeader(line.description), line.reference || ''].join('|');
+    const occurrence = (seen.get(base) || 0) + 1;
+    seen.set(base, occurrence);
+    // Two identical movements on the same day are legitimate, so the occurrence is part of the key.
+    return { ...line, fingerprint: occurrence > 1 ? `${base}#${occurrence}` : base };
+  });
+};
+
+export const parseCsvStatement = (content: string): ParsedStatementLine[] => {
+  const rows = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(row => row.trim().length > 0);
+  const delimiter = detectDelimiter(rows);
+
+  let columns: CsvColumns | null = null;
+  let headerIndex = -1;
+  for (let i = 0; i < rows.length && !columns; i++) {
+    columns = detectColumns(splitCsvRow(rows[i], delimiter).map(normalizeHeader));
+    if (columns) headerIndex = i;
+  }
+  if (!columns) throw new Error('Não foi possível identificar as colunas de data e montante no ficheiro.');
+
+  const lines: Omit<ParsedStatementLine, 'fingerprint'>[] = [];
+  rows.slice(headerIndex + 1).forEach(row => {
+    const cells = splitCsvRow(row, delimiter);
+    const statementDate = parseStatementDate(cells[columns!.date] || '');
+    if (!statementDate) return;
+
+    let amount: number | null = null;
+    if (columns!.credit >= 0) {
+      const credit = parseStatementAmount(cells[columns!.credit] || '');
+      const debit = columns!.debit >= 0 ? parseStatementAmount(cells[columns!.debit] || '') : null;
+      if (credit) amount = Math.abs(credit);
+      else if (debit) amount = -Math.abs(debit);
+    }
+    if (amount === null && columns!.amount >= 0) {
+      amount = parseStatementAmount(cells[columns!.amount] || '');
+    }
+    if (amount === null || amount <= 0) return; // Only incoming money can settle a fee.
+
+    const description = columns!.description >= 0 ? cells[columns!.description] || '' : '';
+    lines.push({
+      statementDate,
+      description,
+      amount: Number(amount.toFixed(2)),
+      reference: columns!.reference >= 0 ? cells[columns!.reference] || null : null,
+      channel: detectStatementChannel(description),
+      sourceFormat: 'csv',
+    });
+  });
+
+  return withFingerprints(lines);
+};
+
+const firstText = (parent: Element, localName: string): string => {
+  const element = parent.getElementsByTagNameNS('*', localName)[0];
+  return element?.textContent?.trim() || '';
+};
+
+// ISO 20022 camt.053 bank-to-customer statement.
+export const parseCamt053Statement = (content: string): ParsedStatementLine[] => {
+  const document = new DOMParser().parseFromString(content, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('O ficheiro XML não é válido.');
+  }
+
+  const lines: Omit<ParsedStatementLine, 'fingerprint'>[] = [];
+  Array.from(document.getElementsByTagNameNS('*', 'Ntry')).forEach(entry => {
+    if (firstText(entry, 'CdtDbtInd') !== 'CRDT') return;
+    const amount = Number(firstText(entry, 'Amt'));
+    const bookingDate = entry.getElementsByTagNameNS('*', 'BookgDt')[0];
+    const statementDate = parseStatementDate(bookingDate ? (firstText(bookingDate, 'Dt') || firstText(bookingDate, 'DtTm')) : '');
+    if (!statementDate || !Number.isFinite(amount) || amount <= 0) return;
+
+    const remittance = Array.from(entry.getElementsByTagNameNS('*', 'Ustrd')).map(node => node.textContent?.trim() || '');
+    const debtor = entry.getElementsByTagNameNS('*', 'Dbtr')[0];
+    const description = [debtor ? firstText(debtor, 'Nm') : '', ...remittance, firstText(entry, 'AddtlNtryInf')]
+      .filter(Boolean)
+      .join(' ');
+
+    lines.push({
+      statementDate,
+      description,
+      amount: Number(amount.toFixed(2)),
+      reference: firstText(entry, 'AcctSvcrRef') || firstText(entry, 'EndToEndId') || firstText(entry, 'NtryRef') || null,
+      channel: detectStatementChannel(description),
+      sourceFormat: 'camt053',
+    });
+  });
+
+  return withFingerprints(lines);
+};
+
+export const parseBankStatement = (fileName: string, content: string): ParsedStatementLine[] => {
+  const isXml = /\.xml$/i.test(fileName) || content.trimStart().startsWith('<');
+  return isXml ? parseCamt053Statement(content) : parseCsvStatement(content);
+};
+
+// Bank exports are often Windows-1252; fall back to it when the file is not valid UTF-8.
+export const decodeStatementFile = async (file: File): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+};
@@ -0,0 +1,175 @@
+import { Client, Task, TaskArea } from '../types';
+import { QuoteProposalCompany, QuoteProposalScopeArea, formatFrequency } from '../services/quoteProposal';
+
+export const CONTRACT_PLACEHOLDERS: Record<string, string> = {
+  cliente_nome: 'Nome do cliente',
+  cliente_nif: 'NIF do cliente',
+  cliente_morada: 'Morada do cliente',
+  cliente_email: 'Email do cliente',
+  avenca_mensal: 'Avença mensal',
+  avenca_anual: 'Avença anual',
+  data_inicio: 'Início do período',
+  data_fim: 'Fim do período',
+  ambito_servicos: 'Âmbito (tarefas do cliente por área)',
+  responsavel: 'Responsável pelo cliente',
+  gabinete_nome: 'Nome do gabinete',
+  gabinete_nif: 'NIF do gabinete',
+  gabinete_morada: 'Morada do gabinete',
+  gabinete_email: 'Email do gabinete',
+  versao: 'Versão do contrato',
+  data_emissao: 'Data de emissão',
+};
+
+export const DEFAULT_CONTRACT_TEMPLATE_NAME = 'Contrato de prestação de serviços';
+
+export const DEFAULT_CONTRACT_TEMPLATE_BODY = `## Contrato de Prestação de Serviços de Contabilidade
+
+Entre {{gabinete_nome}}, NIF {{gabinete_nif}}, com sede em {{gabinete_morada}}, adiante designado por Primeiro Outorgante, e {{cliente_nome}}, NIF {{cliente_nif}}, com sede em {{cliente_morada}}, adiante designado por Segundo Outorgante, é celebrado o presente contrato, que se rege pelas cláusulas seguintes.
+
+## Cláusula 1.ª — Objeto
+O Primeiro Outorgante presta ao Segundo Outorgante os serviços de contabilidade e apoio à gestão descritos abaixo:
+
+{{ambito_servicos}}
+
+## Cláusula 2.ª — Honorários
+Pelos serviços descritos, o Segundo Outorgante paga uma avença mensal de {{avenca_mensal}} ({{avenca_anual}} por ano), acrescida de IVA à taxa legal em vigor, até ao dia 8 de cada mês.
+Os trabalhos não incluídos no âmbito acima são orçamentados à parte.
+
+## Cláusula 3.ª — Duração
+O presente contrato vigora de {{data_inicio}} a {{data_fim}}, renovando-se por iguais períodos salvo denúncia de qualquer das partes com 60 dias de antecedência.
+
+## Cláusula 4.ª — Obrigações do Segundo Outorgante
+O Segundo Outorgante entrega a documentação necessária até ao dia 10 do mês seguinte àquele a que respeita e comunica qualquer alteração relevante da sua atividade.
+
+## Cláusula 5.ª — Confidencialidade e proteção de dados
+As partes asseguram a confidencialidade da informação trocada e o tratamento de dados pessoais nos termos do RGPD.
+
+O acompanhamento do Segundo Outorgante é assegurado por {{responsavel}}.`;
+
+export interface ContractDocumentInput {
+  client: Pick<Client, 'name' | 'nif' | 'address' | 'email' | 'tasks'>;
+  tasks: Pick<Task, 'id' | 'name' | 'area'>[];
+  responsibleName: string;
+  company: QuoteProposalCompany;
+  monthlyFee: number;
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string; // YYYY-MM-DD
+  version: number;
+  issuedAt?: Date;
+}
+
+const AREA_ORDER: string[] = Object.values(TaskArea);
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const formatEuro = (value: number) => `${value.toFixed(2).replace('.', ',')} €`;
+
+const formatIsoDate = (iso: string) => {
+  const date = new Date(`${iso}T00:00:00`);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleDateString('pt-PT');
+};
+
+// The client's active task overrides, grouped by catalog area in the usual area order.
+export const buildContractScope = (
+  client: Pick<Client, 'tasks'>,
+  tasks: Pick<Task, 'id' | 'name' | 'area'>[]
+): QuoteProposalScopeArea[] => {
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  const areas = new Map<string, QuoteProposalScopeArea>();
+
+  (client.tasks || []).forEach(override => {
+    const task = tasksById.get(override.taskId);
+    if (!task || !(override.frequencyPerYear > 0)) return;
+    const area = String(task.area);
+    const group = areas.get(area) || { area, items: [] };
+    if (!group.items.some(existing => existing.name === task.name)) {
+      group.items.push({ name: task.name, detail: formatFrequency(override.frequencyPerYear) });
+    }
+    areas.set(area, group);
+  });
+
+  return Array.from(areas.values()).sort((a, b) => AREA_ORDER.indexOf(a.area) - AREA_ORDER.indexOf(b.area));
+};
+
+const buildScopeHtml = (scope: QuoteProposalScopeArea[]) => {
+  if (scope.length === 0) return '<p><i>Sem tarefas atribuídas ao cliente.</i></p>';
+  return scope.map(group => [
+    `<h3>${escapeHtml(group.area)}</h3>`,
+    '<ul>',
+    ...group.items.map(item => `<li>${escapeHtml(item.name)} <span class="muted">(${escapeHtml(item.detail)})</span></li>`),
+    '</ul>',
+  ].join('')).join('');
+};
+
+export const buildContractValues = (input: ContractDocumentInput): Record<string, string> => ({
+  cliente_nome: input.client.name || '',
+  cliente_nif: input.client.nif || '',
+  cliente_morada: input.client.address || '',
+  cliente_email: input.client.email || '',
+  avenca_mensal: formatEuro(input.monthlyFee),
+  avenca_anual: formatEuro(input.monthlyFee * 12),
+  data_inicio: formatIsoDate(input.periodStart),
+  data_fim: formatIsoDate(input.periodEnd),
+  responsavel: input.responsibleName || '',
+  gabinete_nome: input.company.name,
+  gabinete_nif: input.company.nif,
+  gabinete_morada: input.company.address,
+  gabinete_email: input.company.email,
+  versao: String(input.version),
+  data_emissao: (input.issuedAt || new Date()).toLocaleDateString('pt-PT'),
+});
+
+// Blank lines separate paragraphs, "## " starts a heading and a paragraph holding only
+// {{ambito_servicos}} becomes the scope list. Unknown placeholders are left visible.
+const renderTemplateBody = (body: string, values: Record<string, string>, scope: QuoteProposalScopeArea[]) => {
+  const scopeText = scope.map(group => `${group.area}: ${group.items.map(item => item.name).join(', ')}`).join('; ');
+  const fill = (text: string) => escapeHtml(text).replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => {
+    if (key === 'ambito_servicos') return escapeHtml(scopeText);
+    return key in values ? escapeHtml(values[key]) : match;
+  });
+
+  return body
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(block => {
+      if (/^\{\{\s*ambito_servicos\s*\}\}$/.test(block)) return buildScopeHtml(scope);
+      const lines = block.split('\n');
+      const heading = lines[0].startsWith('## ') ? `<h2>${fill(lines.shift()!.slice(3).trim())}</h2>` : '';
+      const paragraph = lines.length > 0 ? `<p>${lines.map(fill).join('<br/>')}</p>` : '';
+      return heading + paragraph;
+    })
+    .join('\n');
+};
+
+// Standalone, printable HTML document stored as the contract version.
+export const buildContractHtml = (templateBody: string, input: ContractDocumentInput): string => {
+  const values = buildContractValues(input);
+  const scope = buildContractScope(input.client, input.tasks);
+  const title = `Contrato — ${input.client.name} — v${input.version}`;
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="pt-PT"><head><meta charset="utf-8"/>',
+    `<title>${escapeHtml(title)}</title>`,
+    '<style>',
+    'body{font-family:Arial,Helvetica,sans-serif;color:#1e293b;font-size:13px;line-height:1.55;max-width:780px;margin:32px auto;padding:0 24px;}',
+    'h2{font-size:15px;margin:22px 0 6px;color:#0f172a;}h3{font-size:13px;margin:12px 0 4px;}ul{margin:0 0 8px 18px;padding:0;}',
+    '.muted{color:#64748b;}.header{border-bottom:2px solid #1e3a8a;padding-bottom:10px;margin-bottom:16px;}',
+    '.signatures{display:flex;gap:48px;margin-top:56px;}.signatures div{flex:1;border-top:1px solid #94a3b8;padding-top:6px;text-align:center;}',
+    '.footer{margin-top:40px;font-size:11px;color:#94a3b8;text-align:center;}',
+    '@media print{body{margin:0 auto;}}',
+    '</style></head><body>',
+    `<div class="header"><b>${escapeHtml(input.company.name)}</b><br/><span class="muted">${escapeHtml([input.company.address, input.company.email].filter(Boolean).join(' · '))}</span></div>`,
+    renderTemplateBody(templateBody, values, scope),
+    `<p>${escapeHtml(values.data_emissao)}</p>`,
+    `<div class="signatures"><div>O Primeiro Outorgante<br/>${escapeHtml(input.company.name)}</div><div>O Segundo Outorgante<br/>${escapeHtml(input.client.name)}</div></div>`,
+    `<div class="footer">Versão ${input.version} · emitido em ${escapeHtml(values.data_emissao)}</div>`,
+    '</body></html>',
+  ].join('\n');
+};
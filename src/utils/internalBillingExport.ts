@@ -0,0 +1,305 @@
+import { CashPayment, Client, Receipt } from '../types';
+import { SaftBillingExport, SaftCompanyInfo } from '../types/cashier';
+import { SAFT_NAMESPACE } from './saftSchema';
+
+type XmlNode = [string, string | number | XmlNode[]];
+
+const FINAL_CONSUMER_NIF = '999999990';
+const UNKNOWN = 'Desconhecido';
+const FEE_PRODUCT = { code: 'AVENCA', description: 'Avença mensal de serviços de contabilidade' };
+const AGREEMENT_PRODUCT = { code: 'ACORDO', description: 'Regularização de avenças em atraso (acordo de pagamento)' };
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+const money = (value: number) => round2(value).toFixed(2);
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const renderXml = (node: XmlNode, indent = ''): string => {
+  const [name, content] = node;
+  if (!Array.isArray(content)) return `${indent}<${name}>${escapeXml(String(content))}</${name}>`;
+  const children = content.map(child => renderXml(child, `${indent}  `)).join('\n');
+  return `${indent}<${name}>\n${children}\n${indent}</${name}>`;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const toLocalDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const toLocalDateTime = (date: Date) => `${toLocalDate(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+// Free-text client addresses usually end in "1234-567 Cidade".
+const splitAddress = (address: string | undefined) => {
+  const value = (address || '').replace(/\s+/g, ' ').trim();
+  const match = value.match(/(\d{4})\s*-\s*(\d{3})\s*(.*)$/);
+  if (!match) return { detail: value || UNKNOWN, postalCode: UNKNOWN, city: UNKNOWN };
+  const detail = value.slice(0, match.index).replace(/[,\s]+$/, '');
+  return {
+    detail: detail || UNKNOWN,
+    postalCode: `${match[1]}-${match[2]}`,
+    city: match[3].replace(/^[,\s]+/, '').trim() || UNKNOWN,
+  };
+};
+
+export interface SaftBillingInput {
+  company: SaftCompanyInfo;
+  clients: Client[];
+  payments: CashPayment[];
+  receipts: Receipt[];
+  startDate: string;
+  endDate: string;
+  isAgreementPayment: (payment: CashPayment) => boolean;
+  getPaymentDescription: (payment: CashPayment) => string;
+  // Gross fee (VAT included) in force for the referenced month, to flag payments that differ from it.
+  getExpectedAmount: (client: Client, year: number, month: number) => number;
+  productVersion?: string;
+}
+
+const PAYMENT_MECHANISMS: Record<Receipt['paymentMethod'], string> = {
+  'Numerário': 'NU',
+  'MB Way': 'MB',
+  'Transferência': 'TB',
+};
+
+// Receipts without a client keep only a snapshot; they are grouped per NIF, or as the final consumer.
+const getReceiptCustomerId = (receipt: Receipt) => {
+  if (receipt.clientId) return receipt.clientId;
+  const nif = (receipt.clientNif || '').replace(/\D/g, '');
+  return `CF-${nif || FINAL_CONSUMER_NIF}`;
+};
+
+/**
+ * Builds an internal, non-certified billing file in the SAF-T (PT) billing layout for the receipts issued
+ * in a period, for reconciliation with the accounting. It is not a SAF-T to submit to the tax authority:
+ * the receipts are not issued by certified software, so there is no signature (Hash) nor ATCUD, and each
+ * receipt is laid out as an invoice-receipt (FR) under the number stored when it was issued (series RC2026,
+ * number 12 for "RC 2026/12"). Voided receipts stay in the file with status A and out of the totals.
+ * Payments that were never given a receipt are not invented a number: they are listed as warnings instead.
+ */
+export const buildInternalBillingExport = (input: SaftBillingInput): SaftBillingExport => {
+  const { company, startDate, endDate } = input;
+  if (!startDate || !endDate || startDate > endDate) throw new Error('Período inválido.');
+  const fiscalYear = Number(startDate.slice(0, 4));
+  if (Number(endDate.slice(0, 4)) !== fiscalYear) throw new Error('O período tem de estar contido num único ano fiscal.');
+
+  const clientsById = new Map(input.clients.map(client => [client.id, client]));
+  const paymentsById = new Map(input.payments.map(payment => [payment.id, payment]));
+  const warnings: string[] = [];
+  const isInPeriod = (value: string) => {
+    const date = toLocalDate(new Date(value));
+    return date >= startDate && date <= endDate;
+  };
+
+  const periodReceipts = input.receipts
+    .filter(receipt => isInPeriod(receipt.issuedAt))
+    .sort((a, b) => a.series.localeCompare(b.series) || a.receiptYear - b.receiptYear || a.receiptNumber - b.receiptNumber);
+
+  const receiptedPaymentIds = new Set(input.receipts.filter(receipt => receipt.status === 'issued' && receipt.cashPaymentId).map(receipt => receipt.cashPaymentId));
+  const missingReceipts = input.payments.filter(payment => payment.amountPaid > 0 && payment.paidAt && isInPeriod(payment.paidAt) && !receiptedPaymentIds.has(payment.id));
+  if (missingReceipts.length > 0) {
+    const total = missingReceipts.reduce((sum, payment) => sum + payment.amountPaid, 0);
+    warnings.push(`${missingReceipts.length} pagamento(s) do período sem recibo emitido (${total.toFixed(2)}€) não foram exportados. Emita os recibos em falta e volte a gerar o ficheiro.`);
+  }
+
+  const customersById = new Map<string, Receipt>();
+  const usedProducts = new Map<string, { code: string; description: string }>();
+  const usedTaxRates = new Set<string>();
+  let netTotal = 0;
+  let taxTotal = 0;
+  let grossTotal = 0;
+
+  const invoices: XmlNode[] = periodReceipts.map(receipt => {
+    const isVoided = receipt.status === 'voided';
+    const customerId = getReceiptCustomerId(receipt);
+    // The latest receipt carries the most recent customer data.
+    const knownCustomer = customersById.get(customerId);
+    if (!knownCustomer || knownCustomer.issuedAt < receipt.issuedAt) customersById.set(customerId, receipt);
+
+    const payment = receipt.cashPaymentId ? paymentsById.get(receipt.cashPaymentId) : undefined;
+    const isAgreement = payment ? input.isAgreementPayment(payment) : false;
+    const product = isAgreement ? AGREEMENT_PRODUCT : FEE_PRODUCT;
+    usedProducts.set(product.code, product);
+
+    const client = receipt.clientId ? clientsById.get(receipt.clientId) : undefined;
+    if (payment && client && !isAgreement && !isVoided) {
+      const expected = input.getExpectedAmount(client, payment.paymentYear, payment.paymentMonth);
+      if (expected > 0 && Math.abs(expected - receipt.amount) > 0.01) {
+        warnings.push(`${client.name}: recibo ${receipt.documentNumber} (${receipt.amount.toFixed(2)}€) difere da avença em vigor (${expected.toFixed(2)}€).`);
+      }
+    }
+
+    const taxPercentage = round2(receipt.vatRate).toFixed(2);
+    usedTaxRates.add(taxPercentage);
+    const gross = round2(receipt.amount);
+    const net = round2(gross / (1 + receipt.vatRate / 100));
+    const tax = round2(gross - net);
+    if (!isVoided) {
+      netTotal += net;
+      taxTotal += tax;
+      grossTotal += gross;
+    }
+
+    const issuedAt = new Date(receipt.issuedAt);
+    const invoiceDate = toLocalDate(issuedAt);
+    const systemEntryDate = toLocalDateTime(issuedAt);
+    const series = `${receipt.series}${receipt.receiptYear}`;
+
+    return ['Invoice', [
+      ['InvoiceNo', `FR ${series}/${receipt.receiptNumber}`],
+      // Not a certified document: no series registered at the tax authority, so no ATCUD validation code.
+      ['ATCUD', `0-${receipt.receiptNumber}`],
+      ['DocumentStatus', [
+        ['InvoiceStatus', isVoided ? 'A' : 'N'],
+        ['InvoiceStatusDate', isVoided && receipt.voidedAt ? toLocalDateTime(new Date(receipt.voidedAt)) : systemEntryDate],
+        ...(isVoided && receipt.voidReason ? [['Reason', receipt.voidReason.slice(0, 50)] as XmlNode] : []),
+        ['SourceID', ((isVoided ? receipt.voidedBy : receipt.createdBy) || 'Caixa').slice(0, 30)],
+        ['SourceBilling', 'P'],
+      ]],
+      ['Hash', '0'],
+      ['HashControl', '0'],
+      ['Period', issuedAt.getMonth() + 1],
+      ['InvoiceDate', invoiceDate],
+      ['InvoiceType', 'FR'],
+      ['SpecialRegimes', [
+        ['SelfBillingIndicator', 0],
+        ['CashVATSchemeIndicator', 0],
+        ['ThirdPartiesBillingIndicator', 0],
+      ]],
+      ['SourceID', (receipt.createdBy || 'Caixa').slice(0, 30)],
+      ['SystemEntryDate', systemEntryDate],
+      ['CustomerID', customerId],
+      ['Line', [
+        ['LineNumber', 1],
+        ['ProductCode', product.code],
+        ['ProductDescription', product.description],
+        ['Quantity', '1'],
+        ['UnitOfMeasure', 'UN'],
+        ['UnitPrice', money(net)],
+        ['TaxPointDate', invoiceDate],
+        ['Description', (receipt.description || (payment ? input.getPaymentDescription(payment) : product.description)).slice(0, 200)],
+        ['CreditAmount', money(net)],
+        ['Tax', [
+          ['TaxType', 'IVA'],
+          ['TaxCountryRegion', 'PT'],
+          ['TaxCode', 'NOR'],
+          ['TaxPercentage', taxPercentage],
+        ]],
+      ]],
+      ['DocumentTotals', [
+        ['TaxPayable', money(tax)],
+        ['NetTotal', money(net)],
+        ['GrossTotal', money(gross)],
+        ['Payment', [
+          ['PaymentMechanism', PAYMENT_MECHANISMS[receipt.paymentMethod] || 'OU'],
+          ['PaymentAmount', money(gross)],
+          ['PaymentDate', invoiceDate],
+        ]],
+      ]],
+    ]] as XmlNode;
+  });
+
+  const customers: XmlNode[] = Array.from(customersById.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([customerId, receipt]) => {
+      const nif = (receipt.clientNif || '').replace(/\D/g, '');
+      const address = splitAddress(receipt.clientAddress || undefined);
+      if (!nif) warnings.push(`${receipt.clientName}: sem NIF, exportado como consumidor final.`);
+      return ['Customer', [
+        ['CustomerID', customerId],
+        ['AccountID', UNKNOWN],
+        ['CustomerTaxID', nif || FINAL_CONSUMER_NIF],
+        ['CompanyName', (receipt.clientName || 'Consumidor final').slice(0, 100)],
+        ['BillingAddress', [
+          ['AddressDetail', address.detail.slice(0, 210)],
+          ['City', address.city.slice(0, 50)],
+          ['PostalCode', address.postalCode],
+          ['Country', 'PT'],
+        ]],
+        ['SelfBillingIndicator', 0],
+      ]] as XmlNode;
+    });
+
+  const products: XmlNode[] = Array.from(usedProducts.values()).map(product => ['Product', [
+    ['ProductType', 'S'],
+    ['ProductCode', product.code],
+    ['ProductDescription', product.description],
+    ['ProductNumberCode', product.code],
+  ]]);
+
+  const companyNif = company.taxRegistrationNumber.replace(/\D/g, '');
+  const auditFile: XmlNode = ['AuditFile', [
+    ['Header', [
+      ['AuditFileVersion', '1.04_01'],
+      ['CompanyID', companyNif],
+      ['TaxRegistrationNumber', companyNif],
+      ['TaxAccountingBasis', 'F'],
+      ['CompanyName', company.companyName],
+      ['CompanyAddress', [
+        ['AddressDetail', company.addressDetail],
+        ['City', company.city],
+        ['PostalCode', company.postalCode],
+        ['Country', 'PT'],
+      ]],
+      ['FiscalYear', fiscalYear],
+      ['StartDate', startDate],
+      ['EndDate', endDate],
+      ['CurrencyCode', 'EUR'],
+      ['DateCreated', toLocalDate(new Date())],
+      ['TaxEntity', 'Global'],
+      ['ProductCompanyTaxID', companyNif],
+      ['SoftwareCertificateNumber', 0],
+      ['ProductID', `CMR MPR/${company.companyName.replace(/\//g, ' ')}`],
+      ['ProductVersion', input.productVersion || '1.0'],
+    ]],
+    ['MasterFiles', [
+      ...customers,
+      ...products,
+      ...(usedTaxRates.size > 0 ? [['TaxTable', Array.from(usedTaxRates).map(taxPercentage => ['TaxTableEntry', [
+        ['TaxType', 'IVA'],
+        ['TaxCountryRegion', 'PT'],
+        ['TaxCode', 'NOR'],
+        ['Description', 'Taxa Normal'],
+        ['TaxPercentage', taxPercentage],
+      ]] as XmlNode)] as XmlNode] : []),
+    ]],
+    ['SourceDocuments', [
+      ['SalesInvoices', [
+        ['NumberOfEntries', invoices.length],
+        ['TotalDebit', money(0)],
+        ['TotalCredit', money(netTotal)],
+        ...invoices,
+      ]],
+    ]],
+  ]];
+
+  const body = renderXml(auditFile).replace('<AuditFile>', `<AuditFile xmlns="${SAFT_NAMESPACE}">`);
+  return {
+    xml: `<?xml version="1.0" encoding="Windows-1252"?>\n${body}\n`,
+    fileName: `Faturacao-interna_${companyNif}_${startDate}_${endDate}.xml`,
+    invoiceCount: invoices.length,
+    customerCount: customers.length,
+    netTotal: round2(netTotal),
+    taxTotal: round2(taxTotal),
+    grossTotal: round2(grossTotal),
+    warnings,
+  };
+};
+
+// Characters of the 0x80-0x9F block, where Windows-1252 differs from Latin-1.
+const WINDOWS_1252_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// The SAF-T layout is encoded in Windows-1252; unsupported characters become "?".
+export const encodeWindows1252 = (value: string): Uint8Array => {
+  const bytes = new Uint8Array(value.length);
+  let length = 0;
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    bytes[length++] = WINDOWS_1252_EXTRAS[char] ?? (code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : 0x3f);
+  }
+  return bytes.slice(0, length);
+};
@@ -0,0 +1,33 @@
+import { Receipt } from '../types';
+
+export const getReceiptVatBreakdown = (receipt: Receipt) => {
+  const net = receipt.amount / (1 + receipt.vatRate / 100);
+  return { net, vat: receipt.amount - net, total: receipt.amount };
+};
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const formatEuro = (value: number) => `${value.toFixed(2).replace('.', ',')} €`;
+
+// Inner HTML for send-email, which wraps it in the office email layout.
+export const buildReceiptEmailHtml = (receipt: Receipt, officeName: string): string => {
+  const { net, vat, total } = getReceiptVatBreakdown(receipt);
+  const issuedAt = new Date(receipt.issuedAt).toLocaleDateString('pt-PT');
+  return [
+    `<p>Exmo(a). Cliente ${escapeHtml(receipt.clientName)},</p>`,
+    `<p>Segue o recibo <b>${escapeHtml(receipt.documentNumber)}</b>, emitido em ${issuedAt}, referente ao pagamento recebido.</p>`,
+    '<table style="border-collapse:collapse;font-size:14px;margin:12px 0;">',
+    `<tr><td style="padding:4px 12px 4px 0;color:#64748b;">Descrição</td><td style="padding:4px 0;">${escapeHtml(receipt.description)}</td></tr>`,
+    receipt.clientNif ? `<tr><td style="padding:4px 12px 4px 0;color:#64748b;">NIF</td><td style="padding:4px 0;">${escapeHtml(receipt.clientNif)}</td></tr>` : '',
+    `<tr><td style="padding:4px 12px 4px 0;color:#64748b;">Meio de pagamento</td><td style="padding:4px 0;">${escapeHtml(receipt.paymentMethod)}</td></tr>`,
+    `<tr><td style="padding:4px 12px 4px 0;color:#64748b;">Base tributável</td><td style="padding:4px 0;">${formatEuro(net)}</td></tr>`,
+    `<tr><td style="padding:4px 12px 4px 0;color:#64748b;">IVA (${receipt.vatRate}%)</td><td style="padding:4px 0;">${formatEuro(vat)}</td></tr>`,
+    `<tr><td style="padding:4px 12px 4px 0;color:#64748b;"><b>Total pago</b></td><td style="padding:4px 0;"><b>${formatEuro(total)}</b></td></tr>`,
+    '</table>',
+    `<p>Com os melhores cumprimentos,<br/>${escapeHtml(officeName)}</p>`,
+  ].join('');
+};
@@ -0,0 +1,337 @@
+export const SAFT_NAMESPACE = 'urn:OECD:StandardAuditFile-Tax:PT_1.04_01';
+
+interface ValueRule {
+  pattern?: RegExp;
+  maxLength?: number;
+  values?: string[];
+}
+
+interface ElementRule extends ValueRule {
+  // Several names model an xs:choice between elements.
+  name: string | string[];
+  min?: number;
+  max?: number;
+  children?: ElementRule[];
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/;
+const DECIMAL = /^-?\d+(\.\d+)?$/;
+const INTEGER = /^\d+$/;
+const PT_NIF = /^[1-9]\d{8}$/;
+
+const text = (name: string, maxLength: number, extra: Partial<ElementRule> = {}): ElementRule => ({ name, maxLength, ...extra });
+const optional = (rule: ElementRule): ElementRule => ({ ...rule, min: 0 });
+
+const addressRules = (isCompanyAddress: boolean): ElementRule[] => [
+  optional(text('BuildingNumber', 10)),
+  optional(text('StreetName', 200)),
+  text('AddressDetail', 210),
+  text('City', 50),
+  isCompanyAddress ? { name: 'PostalCode', pattern: /^\d{4}-\d{3}$/ } : text('PostalCode', 20),
+  optional(text('Region', 50)),
+  isCompanyAddress ? { name: 'Country', values: ['PT'] } : { name: 'Country', pattern: /^([A-Z]{2}|Desconhecido)$/ },
+];
+
+const taxRules: ElementRule[] = [
+  { name: 'TaxType', values: ['IVA', 'IS', 'NS'] },
+  { name: 'TaxCountryRegion', pattern: /^([A-Z]{2}|PT-AC|PT-MA)$/ },
+  text('TaxCode', 10),
+  { name: ['TaxPercentage', 'TaxAmount'], pattern: DECIMAL },
+];
+
+// Subset of SAFTPT1.04_01.xsd covering what the billing export (TaxAccountingBasis F) produces,
+// in the sequence order the schema imposes.
+const AUDIT_FILE_RULES: ElementRule[] = [
+  {
+    name: 'Header',
+    children: [
+      { name: 'AuditFileVersion', values: ['1.04_01'] },
+      text('CompanyID', 50),
+      { name: 'TaxRegistrationNumber', pattern: PT_NIF },
+      { name: 'TaxAccountingBasis', values: ['C', 'E', 'F', 'I', 'P', 'R', 'S', 'T'] },
+      text('CompanyName', 100),
+      optional(text('BusinessName', 60)),
+      { name: 'CompanyAddress', children: addressRules(true) },
+      { name: 'FiscalYear', pattern: /^\d{4}$/ },
+      { name: 'StartDate', pattern: DATE },
+      { name: 'EndDate', pattern: DATE },
+      { name: 'CurrencyCode', values: ['EUR'] },
+      { name: 'DateCreated', pattern: DATE },
+      text('TaxEntity', 20),
+      { name: 'ProductCompanyTaxID', pattern: PT_NIF },
+      { name: 'SoftwareCertificateNumber', pattern: INTEGER },
+      text('ProductID', 255, { pattern: /^[^/]+\/[^/]+$/ }),
+      text('ProductVersion', 30),
+      optional(text('HeaderComment', 255)),
+      optional(text('Telephone', 20)),
+      optional(text('Fax', 20)),
+      optional(text('Email', 254)),
+      optional(text('Website', 60)),
+    ],
+  },
+  {
+    name: 'MasterFiles',
+    children: [
+      {
+        name: 'Customer',
+        min: 0,
+        max: Infinity,
+        children: [
+          text('CustomerID', 30),
+          text('AccountID', 30),
+          text('CustomerTaxID', 30),
+          text('CompanyName', 100),
+          optional(text('Contact', 50)),
+          { name: 'BillingAddress', children: addressRules(false) },
+          optional(text('Telephone', 20)),
+          optional(text('Fax', 20)),
+          optional(text('Email', 254)),
+          optional(text('Website', 60)),
+          { name: 'SelfBillingIndicator', values: ['0', '1'] },
+        ],
+      },
+      {
+        name: 'Product',
+        min: 0,
+        max: Infinity,
+        children: [
+          { name: 'ProductType', values: ['P', 'S', 'O', 'E', 'I'] },
+          text('ProductCode', 60),
+          optional(text('ProductGroup', 50)),
+          text('ProductDescription', 200),
+          text('ProductNumberCode', 60),
+        ],
+      },
+      {
+        name: 'TaxTable',
+        min: 0,
+        children: [
+          {
+            name: 'TaxTableEntry',
+            max: Infinity,
+            children: [
+              ...taxRules.slice(0, 3),
+              text('Description', 255),
+              optional({ name: 'TaxExpirationDate', pattern: DATE }),
+              taxRules[3],
+            ],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'SourceDocuments',
+    min: 0,
+    children: [
+      {
+        name: 'SalesInvoices',
+        min: 0,
+        children: [
+          { name: 'NumberOfEntries', pattern: INTEGER },
+          { name: 'TotalDebit', pattern: DECIMAL },
+          { name: 'TotalCredit', pattern: DECIMAL },
+          {
+            name: 'Invoice',
+            min: 0,
+            max: Infinity,
+            children: [
+              text('InvoiceNo', 60, { pattern: /^[^ ]+ [^/^ ]+\/[0-9]+$/ }),
+              text('ATCUD', 100),
+              {
+                name: 'DocumentStatus',
+                children: [
+                  { name: 'InvoiceStatus', values: ['N', 'S', 'A', 'R', 'F'] },
+                  { name: 'InvoiceStatusDate', pattern: DATE_TIME },
+                  optional(text('Reason', 50)),
+                  text('SourceID', 30),
+                  { name: 'SourceBilling', values: ['P', 'I', 'M'] },
+                ],
+              },
+              text('Hash', 172),
+              text('HashControl', 70),
+              optional({ name: 'Period', pattern: /^([1-9]|1[0-2])$/ }),
+              { name: 'InvoiceDate', pattern: DATE },
+              { name: 'InvoiceType', values: ['FT', 'FS', 'FR', 'ND', 'NC'] },
+              {
+                name: 'SpecialRegimes',
+                children: [
+                  { name: 'SelfBillingIndicator', values: ['0', '1'] },
+                  { name: 'CashVATSchemeIndicator', values: ['0', '1'] },
+                  { name: 'ThirdPartiesBillingIndicator', values: ['0', '1'] },
+                ],
+              },
+              text('SourceID', 30),
+              optional(text('EACCode', 5)),
+              { name: 'SystemEntryDate', pattern: DATE_TIME },
+              text('CustomerID', 30),
+              {
+                name: 'Line',
+                max: Infinity,
+                children: [
+                  { name: 'LineNumber', pattern: INTEGER },
+                  text('ProductCode', 60),
+                  text('ProductDescription', 200),
+                  { name: 'Quantity', pattern: DECIMAL },
+                  text('UnitOfMeasure', 20),
+                  { name: 'UnitPrice', pattern: DECIMAL },
+                  optional({ name: 'TaxBase', pattern: DECIMAL }),
+                  { name: 'TaxPointDate', pattern: DATE },
+                  text('Description', 200),
+                  { name: ['DebitAmount', 'CreditAmount'], pattern: DECIMAL },
+                  { name: 'Tax', min: 0, children: taxRules },
+                  optional(text('TaxExemptionReason', 60)),
+                  optional(text('TaxExemptionCode', 3)),
+                  optional({ name: 'SettlementAmount', pattern: DECIMAL }),
+                ],
+              },
+              {
+                name: 'DocumentTotals',
+                children: [
+                  { name: 'TaxPayable', pattern: DECIMAL },
+                  { name: 'NetTotal', pattern: DECIMAL },
+                  { name: 'GrossTotal', pattern: DECIMAL },
+                  {
+                    name: 'Payment',
+                    min: 0,
+                    max: Infinity,
+                    children: [
+                      optional({ name: 'PaymentMechanism', values: ['CC', 'CD', 'CH', 'CI', 'CO', 'CS', 'DE', 'LC', 'MB', 'NU', 'OU', 'PR', 'TB', 'TR'] }),
+                      { name: 'PaymentAmount', pattern: DECIMAL },
+                      { name: 'PaymentDate', pattern: DATE },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+];
+
+export const isValidPortugueseNif = (value: string): boolean => {
+  if (!PT_NIF.test(value)) return false;
+  const digits = value.split('').map(Number);
+  const sum = digits.slice(0, 8).reduce((total, digit, index) => total + digit * (9 - index), 0);
+  const check = 11 - (sum % 11);
+  return (check >= 10 ? 0 : check) === digits[8];
+};
+
+// Keys that make a repeated element recognisable in error messages.
+const IDENTIFYING_CHILDREN = ['InvoiceNo', 'CustomerID', 'ProductCode', 'LineNumber'];
+
+const describeElement = (element: Element) => {
+  const key = IDENTIFYING_CHILDREN
+    .map(name => Array.from(element.children).find(child => child.localName === name)?.textContent)
+    .find(Boolean);
+  return key ? `${element.localName}[${key}]` : element.localName;
+};
+
+const validateValue = (element: Element, rule: ElementRule, path: string, errors: string[]) => {
+  const value = element.textContent || '';
+  if (!value.trim()) {
+    errors.push(`${path}: valor vazio.`);
+    return;
+  }
+  if (rule.maxLength && value.length > rule.maxLength) errors.push(`${path}: excede ${rule.maxLength} caracteres.`);
+  if (rule.pattern && !rule.pattern.test(value)) errors.push(`${path}: formato inválido ("${value}").`);
+  if (rule.values && !rule.values.includes(value)) errors.push(`${path}: valor "${value}" não permitido.`);
+};
+
+const validateSequence = (parent: Element, rules: ElementRule[], path: string, errors: string[]) => {
+  const children = Array.from(parent.children);
+  let index = 0;
+
+  rules.forEach(rule => {
+    const names = Array.isArray(rule.name) ? rule.name : [rule.name];
+    const min = rule.min ?? 1;
+    const max = rule.max ?? 1;
+    let count = 0;
+    while (index < children.length && count < max && names.includes(children[index].localName)) {
+      const child = children[index];
+      const childPath = `${path}/${describeElement(child)}`;
+      if (rule.children) validateSequence(child, rule.children, childPath, errors);
+      else validateValue(child, rule, childPath, errors);
+      index++;
+      count++;
+    }
+    if (count < min) errors.push(`${path}: falta o elemento obrigatório ${names.join(' ou ')}.`);
+  });
+
+  children.slice(index).forEach(child => {
+    errors.push(`${path}: elemento ${child.localName} inesperado ou fora de ordem.`);
+  });
+};
+
+const childText = (parent: Element | undefined, name: string) => (
+  parent ? Array.from(parent.children).find(child => child.localName === name)?.textContent || '' : ''
+);
+
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+// Totals and references the XSD cannot express but the tax authority checks on submission.
+const validateConsistency = (root: Element, errors: string[]) => {
+  const customerIds = new Set(
+    Array.from(root.getElementsByTagNameNS(SAFT_NAMESPACE, 'Customer')).map(customer => childText(customer, 'CustomerID'))
+  );
+  Array.from(root.getElementsByTagNameNS(SAFT_NAMESPACE, 'Customer')).forEach(customer => {
+    const taxId = childText(customer, 'CustomerTaxID');
+    if (/^\d{9}$/.test(taxId) && !isValidPortugueseNif(taxId)) {
+      errors.push(`Cliente ${childText(customer, 'CompanyName')}: NIF ${taxId} inválido.`);
+    }
+  });
+
+  const salesInvoices = root.getElementsByTagNameNS(SAFT_NAMESPACE, 'SalesInvoices')[0];
+  if (!salesInvoices) return;
+  const invoices = Array.from(salesInvoices.getElementsByTagNameNS(SAFT_NAMESPACE, 'Invoice'));
+  if (Number(childText(salesInvoices, 'NumberOfEntries')) !== invoices.length) {
+    errors.push('SalesInvoices: NumberOfEntries não corresponde ao número de documentos.');
+  }
+
+  let totalCredit = 0;
+  invoices.forEach(invoice => {
+    const invoiceNo = childText(invoice, 'InvoiceNo');
+    if (!customerIds.has(childText(invoice, 'CustomerID'))) {
+      errors.push(`${invoiceNo}: CustomerID sem correspondência em MasterFiles.`);
+    }
+    const lineTotal = Array.from(invoice.children)
+      .filter(child => child.localName === 'Line')
+      .reduce((total, line) => total + Number(childText(line, 'CreditAmount') || 0), 0);
+    const totals = Array.from(invoice.children).find(child => child.localName === 'DocumentTotals');
+    const netTotal = Number(childText(totals, 'NetTotal'));
+    const taxPayable = Number(childText(totals, 'TaxPayable'));
+    if (!sameAmount(lineTotal, netTotal)) errors.push(`${invoiceNo}: NetTotal difere da soma das linhas.`);
+    if (!sameAmount(netTotal + taxPayable, Number(childText(totals, 'GrossTotal')))) {
+      errors.push(`${invoiceNo}: GrossTotal difere de NetTotal + TaxPayable.`);
+    }
+    if (childText(invoice.getElementsByTagNameNS(SAFT_NAMESPACE, 'DocumentStatus')[0], 'InvoiceStatus') !== 'A') {
+      totalCredit += lineTotal;
+    }
+  });
+  if (!sameAmount(totalCredit, Number(childText(salesInvoices, 'TotalCredit')))) {
+    errors.push('SalesInvoices: TotalCredit difere da soma dos documentos não anulados.');
+  }
+};
+
+/**
+ * Validates a SAF-T (PT) 1.04_01 file against the structure of the official XSD
+ * (element order, cardinality, enumerations, formats and lengths) plus the total checks.
+ * Returns the list of problems found; an empty list means the file can be submitted.
+ */
+export const validateSaftAuditFile = (xml: string): string[] => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) return ['O XML gerado não é válido.'];
+
+  const root = document.documentElement;
+  if (root.localName !== 'AuditFile' || root.namespaceURI !== SAFT_NAMESPACE) {
+    return [`O elemento raiz deve ser AuditFile no namespace ${SAFT_NAMESPACE}.`];
+  }
+
+  const errors: string[] = [];
+  validateSequence(root, AUDIT_FILE_RULES, 'AuditFile', errors);
+  validateConsistency(root, errors);
+  return errors;
+};
@@ -0,0 +1,170 @@
+import { AlertRule, AlertRuleCondition, AlertRuleField, AlertRuleOperator, AnalysisResult, Client } from './types.ts';
+
+export const APP_CONFIG_ALERT_RULES_KEY = 'alert_rules';
+
+interface AlertRuleFieldDefinition {
+  label: string;
+  source: 'client' | 'analysis';
+  kind: 'number' | 'text';
+  decimals?: number; // Rounding used when quoted in a message
+  read: (client: Client, analysis: AnalysisResult, today: Date) => number | string | null | undefined;
+}
+
+const getDaysToRenewal = (client: Client, today: Date) => {
+  if (!client.contractRenewalDate) return null;
+  const renewalDate = new Date(client.contractRenewalDate);
+  if (Number.isNaN(renewalDate.getTime())) return null;
+  return Math.ceil((renewalDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+};
+
+export const ALERT_RULE_FIELDS: Record<AlertRuleField, AlertRuleFieldDefinition> = {
+  name: { label: 'Nome', source: 'client', kind: 'text', read: client => client.name },
+  status: { label: 'Estado', source: 'client', kind: 'text', read: client => client.status },
+  entityType: { label: 'Tipo de entidade', source: 'client', kind: 'text', read: client => client.entityType },
+  sector: { label: 'Setor', source: 'client', kind: 'text', read: client => client.sector },
+  vatRegime: { label: 'Regime IVA', source: 'client', kind: 'text', read: client => client.vatRegime },
+  contractRenewalDate: { label: 'Data de renovação', source: 'client', kind: 'text', read: client => client.contractRenewalDate },
+  monthlyFee: { label: 'Avença mensal (€)', source: 'client', kind: 'number', read: client => client.monthlyFee },
+  documentCount: { label: 'Nº documentos', source: 'client', kind: 'number', read: client => client.documentCount },
+  employeeCount: { label: 'Nº funcionários', source: 'client', kind: 'number', read: client => client.employeeCount },
+  turnover: { label: 'Volume de negócios (€)', source: 'client', kind: 'number', decimals: 0, read: client => client.turnover },
+  establishments: { label: 'Nº estabelecimentos', source: 'client', kind: 'number', read: client => client.establishments },
+  banks: { label: 'Nº bancos', source: 'client', kind: 'number', read: client => client.banks },
+  supplierCount: { label: 'Nº fornecedores', source: 'client', kind: 'number', read: client => client.supplierCount },
+  customerCount: { label: 'Nº clientes do cliente', source: 'client', kind: 'number', read: client => client.customerCount },
+  daysToRenewal: { label: 'Dias até à renovação', source: 'client', kind: 'number', read: (client, _analysis, today) => getDaysToRenewal(client, today) },
+  profitability: { label: 'Margem líquida (%)', source: 'analysis', kind: 'number', decimals: 1, read: (_client, analysis) => analysis.profitability },
+  contributionMarginPercent: { label: 'Margem de contribuição (%)', source: 'analysis', kind: 'number', decimals: 1, read: (_client, analysis) => analysis.contributionMarginPercent },
+  hourlyReturn: { label: 'Retorno por hora (€)', source: 'analysis', kind: 'number', decimals: 2, read: (_client, analysis) => analysis.hourlyReturn },
+  totalAnnualHours: { label: 'Horas anuais', source: 'analysis', kind: 'number', decimals: 1, read: (_client, analysis) => analysis.totalAnnualHours },
+  totalAnnualCost: { label: 'Custo anual (€)', source: 'analysis', kind: 'number', decimals: 0, read: (_client, analysis) => analysis.totalAnnualCost },
+  overheadCost: { label: 'Custos indiretos imputados (€)', source: 'analysis', kind: 'number', decimals: 0, read: (_client, analysis) => analysis.overheadCost },
+  totalAnnualRevenue: { label: 'Receita anual (€)', source: 'analysis', kind: 'number', decimals: 0, read: (_client, analysis) => analysis.totalAnnualRevenue },
+  turnoverStatus: { label: 'Avaliação da avença', source: 'analysis', kind: 'text', read: (_client, analysis) => analysis.turnoverAnalysis?.status },
+  minRecommendedFee: { label: 'Avença mín. recomendada (€)', source: 'analysis', kind: 'number', decimals: 0, read: (_client, analysis) => analysis.turnoverAnalysis?.minRecommendedFee },
+  maxRecommendedFee: { label: 'Avença máx. recomendada (€)', source: 'analysis', kind: 'number', decimals: 0, read: (_client, analysis) => analysis.turnoverAnalysis?.maxRecommendedFee },
+};
+
+export const ALERT_RULE_OPERATOR_LABELS: Record<AlertRuleOperator, string> = {
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥',
+  eq: '=',
+  neq: '≠',
+};
+
+// The rules that used to be hard-coded in the notification generator.
+// Their ids keep the notification ids (prof-<client id>, ...) stable across the change.
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'prof',
+    name: 'Rentabilidade Crítica',
+    enabled: true,
+    severity: 'critical',
+    conditions: [{ field: 'profitability', operator: 'lt', value: 15 }],
+    messageTemplate: 'O cliente {{name}} tem uma margem de {{profitability}}%.',
+    actionLabel: 'Ver Detalhes',
+  },
+  {
+    id: 'fair',
+    name: 'Avença Desajustada',
+    enabled: true,
+    severity: 'warning',
+    conditions: [{ field: 'turnoverStatus', operator: 'eq', value: 'Subavaliado' }],
+    messageTemplate: '{{name}} paga {{monthlyFee}}€, mas o volume de negócios sugere mín. {{minRecommendedFee}}€.',
+    actionLabel: 'Ver Análise',
+  },
+  {
+    id: 'renew',
+    name: 'Renovação de Avença',
+    enabled: true,
+    severity: 'info',
+    conditions: [
+      { field: 'daysToRenewal', operator: 'gt', value: 0 },
+      { field: 'daysToRenewal', operator: 'lte', value: 60 },
+    ],
+    messageTemplate: 'O contrato de {{name}} renova em {{daysToRenewal}} dias ({{contractRenewalDate}}).',
+    actionLabel: 'Preparar Proposta',
+  },
+  {
+    id: 'expired',
+    name: 'Contrato Vencido',
+    enabled: true,
+    severity: 'warning',
+    conditions: [
+      { field: 'daysToRenewal', operator: 'lte', value: 0 },
+      { field: 'daysToRenewal', operator: 'gt', value: -30 },
+    ],
+    messageTemplate: 'O contrato de {{name}} venceu em {{contractRenewalDate}}.',
+  },
+  {
+    id: 'vol',
+    name: 'Volume vs Faturação',
+    enabled: true,
+    severity: 'warning',
+    conditions: [
+      { field: 'documentCount', operator: 'gt', value: 50 },
+      { field: 'monthlyFee', operator: 'lt', value: 300 },
+    ],
+    messageTemplate: '{{name}} tem volume ALTO ({{documentCount}} docs) mas avença inferior a 300€.',
+  },
+];
+
+const isAlertRule = (value: any): value is AlertRule =>
+  Boolean(value)
+  && typeof value.id === 'string'
+  && typeof value.messageTemplate === 'string'
+  && Array.isArray(value.conditions)
+  && value.conditions.every((condition: any) => condition && condition.field in ALERT_RULE_FIELDS && condition.operator in ALERT_RULE_OPERATOR_LABELS);
+
+// Stored rules come from app_config as raw JSON; fall back to the defaults when nothing usable is there.
+export const normalizeAlertRules = (value: unknown): AlertRule[] => {
+  if (!Array.isArray(value)) return DEFAULT_ALERT_RULES;
+  return value.filter(isAlertRule).map(rule => ({
+    ...rule,
+    name: rule.name || rule.id,
+    enabled: rule.enabled !== false,
+    severity: rule.severity || 'warning',
+  }));
+};
+
+const matchesCondition = (condition: AlertRuleCondition, actual: number | string | null | undefined) => {
+  if (actual === null || actual === undefined || actual === '') return false;
+  if (ALERT_RULE_FIELDS[condition.field].kind === 'text') {
+    const left = String(actual).trim().toLowerCase();
+    const right = String(condition.value).trim().toLowerCase();
+    if (condition.operator === 'eq') return left === right;
+    if (condition.operator === 'neq') return left !== right;
+    return false;
+  }
+
+  const left = Number(actual);
+  const right = Number(condition.value);
+  if (!Number.isFinite(left) || !Number.isFinite(right)) return false;
+  switch (condition.operator) {
+    case 'lt': return left < right;
+    case 'lte': return left <= right;
+    case 'gt': return left > right;
+    case 'gte': return left >= right;
+    case 'eq': return left === right;
+    case 'neq': return left !== right;
+    default: return false;
+  }
+};
+
+export const matchesAlertRule = (rule: AlertRule, client: Client, analysis: AnalysisResult, today: Date = new Date()) =>
+  rule.enabled
+  && rule.conditions.length > 0
+  && rule.conditions.every(condition => matchesCondition(condition, ALERT_RULE_FIELDS[condition.field].read(client, analysis, today)));
+
+// Replaces {{field}} placeholders; unknown placeholders are left as typed so mistakes stay visible.
+export const renderAlertMessage = (template: string, client: Client, analysis: AnalysisResult, today: Date = new Date()) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) => {
+    const definition = ALERT_RULE_FIELDS[key as AlertRuleField];
+    if (!definition) return placeholder;
+    const value = definition.read(client, analysis, today);
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number' && definition.decimals !== undefined) return value.toFixed(definition.decimals);
+    return String(value);
+  });
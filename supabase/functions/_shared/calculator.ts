@@ -0,0 +1,504 @@
+
+import { Client, GlobalSettings, Task, AnalysisResult, Staff, StaffStats, TaskArea, TurnoverBracket, MultiplierLogic, TimeEntry, ProfitabilityMode, TaskTimeVariance, ClientFeeChange, StaffCostRecord, OverheadAllocation, OverheadDriver, OverheadShare } from './types.ts';
+
+export interface ProfitabilityOptions {
+  mode?: ProfitabilityMode;
+  // Logged time for the client. Should cover a 12-month window so the totals stay annual.
+  timeEntries?: TimeEntry[];
+  // First day with logged time for the client (YYYY-MM-DD). 'actual' mode keeps the estimate until logging
+  // covers the whole 12-month window ending at referenceDate; a shorter history would understate the year.
+  timeTrackingStart?: string | null;
+  // When given, revenue is the sum of the fees in force over the 12 months ending at referenceDate.
+  feeHistory?: ClientFeeChange[];
+  referenceDate?: Date;
+  // When given, logged time is costed at the hourly cost in force on the day it was logged.
+  staffCostHistory?: StaffCostRecord[];
+  // When given, the enabled pools are shared out and reported below the contribution margin.
+  overhead?: OverheadAllocation;
+  // Mileage and toll rates for travel expenses; defaults to DEFAULT_TRAVEL_RATES.
+  travelRates?: TravelRates;
+}
+
+export interface TravelRates {
+  costPerKm: number;
+  tollAllowancePerTrip: number;
+}
+
+// 0,40 €/km is the usual own-car mileage allowance; tolls only count where the client or the office sets them.
+export const DEFAULT_TRAVEL_RATES: TravelRates = { costPerKm: 0.4, tollAllowancePerTrip: 0 };
+
+// Office travel rates from the global settings, falling back to the defaults for unset values.
+export const getTravelRates = (settings: Partial<GlobalSettings> | null | undefined): TravelRates => ({
+  costPerKm: settings?.travelCostPerKm ?? DEFAULT_TRAVEL_RATES.costPerKm,
+  tollAllowancePerTrip: settings?.travelTollAllowance ?? DEFAULT_TRAVEL_RATES.tollAllowancePerTrip,
+});
+// Driving time when only the distance is known.
+export const AVERAGE_TRAVEL_SPEED_KMH = 50;
+// Legacy assumption, kept for clients without a distance on file.
+export const DEFAULT_TRAVEL_MINUTES_PER_TRIP = 60;
+
+// Fee in force in a given month (1-12). A change applies from the month of its effective date;
+// months before the first recorded change use the fee that change replaced.
+export function getFeeForMonth(client: Client, feeHistory: ClientFeeChange[], year: number, month: number): number {
+  const entries = feeHistory
+    .filter(change => change.clientId === client.id)
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom) || (a.createdAt || '').localeCompare(b.createdAt || ''));
+  if (entries.length === 0) return client.monthlyFee;
+
+  const monthKey = `${year}-${String(month).padStart(2, '0')}`;
+  let applied: ClientFeeChange | undefined;
+  entries.forEach(change => {
+    if (change.effectiveFrom.slice(0, 7) <= monthKey) applied = change;
+  });
+  if (applied) return applied.monthlyFee;
+  return entries[0].previousFee ?? entries[0].monthlyFee;
+}
+
+const getTrailingAnnualRevenue = (client: Client, feeHistory: ClientFeeChange[], referenceDate: Date = new Date()): number => {
+  let revenue = 0;
+  for (let offset = 11; offset >= 0; offset--) {
+    const monthDate = new Date(referenceDate.getFullYear(), referenceDate.getMonth() - offset, 1);
+    revenue += getFeeForMonth(client, feeHistory, monthDate.getFullYear(), monthDate.getMonth() + 1);
+  }
+  return revenue;
+};
+
+// capacityHoursPerMonth describes an average month: weekdays net of public holidays, averaged over the year.
+export const AVERAGE_WORKING_DAYS_PER_MONTH = 21;
+// Portuguese payroll: 12 salaries plus the holiday and Christmas subsidies, all subject to social charges.
+export const SALARY_PAYMENTS_PER_YEAR = 14;
+// Meal allowance is paid per working day, so the vacation month is left out.
+export const MEAL_ALLOWANCE_MONTHS_PER_YEAR = 11;
+// Statutory minimum (art. 238.º do Código do Trabalho); paid but not worked.
+export const VACATION_DAYS_PER_YEAR = 22;
+
+export type StaffCostInputs = Pick<Staff, 'baseSalary' | 'socialChargesPercent' | 'mealAllowance' | 'otherMonthlyCosts' | 'insuranceAnnual' | 'capacityHoursPerMonth'>;
+
+export function calculateStaffAnnualCost(inputs: StaffCostInputs): number {
+  const salary = Number(inputs.baseSalary) || 0;
+  const charges = (Number(inputs.socialChargesPercent) || 0) / 100;
+  return salary * SALARY_PAYMENTS_PER_YEAR * (1 + charges)
+    + (Number(inputs.mealAllowance) || 0) * MEAL_ALLOWANCE_MONTHS_PER_YEAR
+    + (Number(inputs.otherMonthlyCosts) || 0) * 12
+    + (Number(inputs.insuranceAnnual) || 0);
+}
+
+// Hours actually worked in a year: twelve average months minus the vacation days.
+export function calculateStaffAnnualHours(inputs: Pick<Staff, 'capacityHoursPerMonth'>): number {
+  const monthlyHours = Number(inputs.capacityHoursPerMonth) || 0;
+  return Math.max(0, monthlyHours * 12 - (monthlyHours / AVERAGE_WORKING_DAYS_PER_MONTH) * VACATION_DAYS_PER_YEAR);
+}
+
+export function deriveStaffHourlyCost(inputs: StaffCostInputs): number {
+  const annualHours = calculateStaffAnnualHours(inputs);
+  return annualHours > 0 ? Number((calculateStaffAnnualCost(inputs) / annualHours).toFixed(2)) : 0;
+}
+
+// Cost record in force on a date (YYYY-MM-DD); dates before the first record use that record.
+export function getStaffCostRecordAt(staffId: string, costHistory: StaffCostRecord[], isoDate: string): StaffCostRecord | undefined {
+  const entries = costHistory
+    .filter(record => record.staffId === staffId)
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom) || (a.createdAt || '').localeCompare(b.createdAt || ''));
+  let applied: StaffCostRecord | undefined;
+  entries.forEach(record => {
+    if (record.effectiveFrom <= isoDate) applied = record;
+  });
+  return applied || entries[0];
+}
+
+export function getStaffHourlyCostAt(staff: Staff, costHistory: StaffCostRecord[], isoDate: string): number {
+  return getStaffCostRecordAt(staff.id, costHistory, isoDate)?.hourlyCost ?? staff.hourlyCost;
+}
+
+// Priority: Manual override > Logic-based > Default (which is 0 if not applicable)
+const getTaskMultiplier = (client: Client, taskDef: Task): number => {
+  const override = client.tasks.find(t => t.taskId === taskDef.id);
+  if (override?.multiplier) return override.multiplier;
+  if (taskDef.multiplierLogic && taskDef.multiplierLogic !== 'manual') {
+    return (client[taskDef.multiplierLogic as keyof Client] as number) || 0;
+  }
+  return 0;
+};
+
+export function getEstimatedTaskMinutes(client: Client, taskDef: Task): number {
+  const multiplier = getTaskMultiplier(client, taskDef);
+  if (multiplier <= 0) return 0;
+  const override = client.tasks.find(t => t.taskId === taskDef.id);
+  const frequency = override?.frequencyPerYear || taskDef.defaultFrequencyPerYear;
+  return taskDef.defaultTimeMinutes * multiplier * frequency;
+}
+
+// Start of the trailing 12-month window used to annualise logged time.
+export const getTimeEntryWindowStart = (reference: Date = new Date()): string => {
+  const start = new Date(reference.getFullYear() - 1, reference.getMonth(), reference.getDate() + 1);
+  return `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}-${String(start.getDate()).padStart(2, '0')}`;
+};
+
+export const hasFullTimeEntryWindow = (timeTrackingStart: string | null | undefined, reference: Date = new Date()): boolean =>
+  !!timeTrackingStart && timeTrackingStart <= getTimeEntryWindowStart(reference);
+
+const groupEntriesByTask = (timeEntries: TimeEntry[]): Map<string, TimeEntry[]> => {
+  const byTask = new Map<string, TimeEntry[]>();
+  timeEntries.forEach(entry => {
+    const list = byTask.get(entry.taskId) || [];
+    list.push(entry);
+    byTask.set(entry.taskId, list);
+  });
+  return byTask;
+};
+
+const buildVariance = (taskId: string, estimatedMinutes: number, entries: TimeEntry[]): TaskTimeVariance => {
+  const actualMinutes = entries.reduce((sum, entry) => sum + entry.minutes, 0);
+  const varianceMinutes = actualMinutes - estimatedMinutes;
+  return {
+    taskId,
+    estimatedMinutes,
+    actualMinutes,
+    varianceMinutes,
+    variancePercent: estimatedMinutes > 0 ? (varianceMinutes / estimatedMinutes) * 100 : null,
+    entryCount: entries.length,
+  };
+};
+
+export function getOverheadDriverValue(client: Client, driver: OverheadDriver, annualHours: number, annualRevenue: number): number {
+  switch (driver) {
+    case 'hours': return annualHours;
+    case 'revenue': return annualRevenue;
+    case 'documents': return client.documentCount || 0;
+    case 'headcount': return client.employeeCount || 0;
+    default: return 0;
+  }
+}
+
+// The client's share of each pool, in proportion to its driver value over the office-wide total.
+export function allocateOverhead(client: Client, allocation: OverheadAllocation, annualHours: number, annualRevenue: number): OverheadShare[] {
+  return allocation.pools
+    .filter(pool => pool.enabled && pool.annualAmount > 0)
+    .map(pool => {
+      const total = allocation.driverTotals[pool.driver] || 0;
+      const value = getOverheadDriverValue(client, pool.driver, annualHours, annualRevenue);
+      return {
+        poolId: pool.id,
+        name: pool.name,
+        driver: pool.driver,
+        amount: total > 0 ? (pool.annualAmount * value) / total : 0,
+      };
+    });
+}
+
+export interface ClientTravelPlan {
+  tripsPerYear: number;
+  minutesPerTrip: number; // Round trip
+  kmPerTrip: number; // Round trip
+  expensePerTrip: number; // Mileage plus tolls
+  hasDistance: boolean;
+}
+
+export function getClientTravelPlan(client: Client, rates: TravelRates = DEFAULT_TRAVEL_RATES): ClientTravelPlan {
+  const tripsPerYear = Math.max(0, client.travelCount || 0);
+  const distance = Number(client.travelDistanceKm) || 0;
+  if (distance <= 0) {
+    return { tripsPerYear, minutesPerTrip: DEFAULT_TRAVEL_MINUTES_PER_TRIP, kmPerTrip: 0, expensePerTrip: 0, hasDistance: false };
+  }
+
+  const oneWayMinutes = Number(client.travelMinutesOneWay) || (distance / AVERAGE_TRAVEL_SPEED_KMH) * 60;
+  const kmPerTrip = distance * 2;
+  const tolls = client.travelTollsPerTrip ?? rates.tollAllowancePerTrip;
+  return {
+    tripsPerYear,
+    minutesPerTrip: oneWayMinutes * 2,
+    kmPerTrip,
+    expensePerTrip: kmPerTrip * rates.costPerKm + (Number(tolls) || 0),
+    hasDistance: true,
+  };
+}
+
+// Manager time spent travelling to the client over a year.
+export const getClientTravelMinutes = (client: Client): number => {
+  const plan = getClientTravelPlan(client);
+  return plan.tripsPerYear * plan.minutesPerTrip;
+};
+
+export function calculateClientProfitability(
+  client: Client, 
+  allTasks: Task[], 
+  areaCosts: Record<TaskArea, number>,
+  staffList: Staff[] = [],
+  turnoverBrackets: TurnoverBracket[] = [],
+  options: ProfitabilityOptions = {}
+): AnalysisResult {
+  let totalCost = 0;
+  let totalMinutes = 0;
+  // Overhead is shared on estimated hours and current fees, the same base as the office-wide driver totals,
+  // so the shares still add up to each pool when this client is analysed on logged time.
+  let estimatedMinutes = 0;
+
+  // In 'actual' mode, tasks with logged time use the real minutes; the rest keep the catalog estimate.
+  const actualEntriesByTask = options.mode === 'actual' && hasFullTimeEntryWindow(options.timeTrackingStart, options.referenceDate)
+    ? groupEntriesByTask((options.timeEntries || []).filter(entry => entry.clientId === client.id))
+    : new Map<string, TimeEntry[]>();
+
+  // Base Responsible Staff (Fallback)
+  let clientManager: Staff | undefined;
+  if (client.responsibleStaff) {
+    // Check if it's a UUID (contains hyphen) or a name
+    if (client.responsibleStaff.includes('-')) {
+      clientManager = staffList.find(s => s.id === client.responsibleStaff);
+    } else {
+      clientManager = staffList.find(s => s.name === client.responsibleStaff);
+    }
+  }
+  const defaultAreaCost = areaCosts[TaskArea.CONTABILIDADE] || 25;
+  const managerHourlyRate = clientManager ? clientManager.hourlyCost : defaultAreaCost;
+
+  // 1. Calculate Cost for all applicable tasks
+  allTasks.forEach(taskDef => {
+    const override = client.tasks.find(t => t.taskId === taskDef.id);
+
+    let taskHourlyCost = managerHourlyRate;
+    if (override?.assignedStaffId) {
+      const specificStaff = staffList.find(s => s.id === override.assignedStaffId);
+      if (specificStaff) taskHourlyCost = specificStaff.hourlyCost;
+    } else if (!clientManager) { // Fallback to area cost if no manager and no specific staff
+      taskHourlyCost = areaCosts[taskDef.area] || 25;
+    }
+
+    const annualMinutes = getEstimatedTaskMinutes(client, taskDef);
+    estimatedMinutes += annualMinutes;
+
+    const loggedEntries = actualEntriesByTask.get(taskDef.id);
+    if (loggedEntries && loggedEntries.length > 0) {
+      // Logged time is costed at the rate of whoever actually did the work, as it stood that day.
+      loggedEntries.forEach(entry => {
+        const entryStaff = staffList.find(s => s.id === entry.staffId);
+        const entryRate = entryStaff
+          ? (options.staffCostHistory ? getStaffHourlyCostAt(entryStaff, options.staffCostHistory, entry.entryDate) : entryStaff.hourlyCost)
+          : taskHourlyCost;
+        totalMinutes += entry.minutes;
+        totalCost += (entry.minutes / 60) * entryRate;
+      });
+      return;
+    }
+
+    if (annualMinutes > 0) {
+      totalMinutes += annualMinutes;
+      totalCost += (annualMinutes / 60) * taskHourlyCost;
+    }
+  });
+
+  // 2. Operational Costs (Calls & Travels)
+  // Assumption: Calls are handled by Client Manager or Admin. Using Manager Rate.
+  if (client.callTimeBalance > 0) {
+    const annualCallMinutes = client.callTimeBalance * 12;
+    totalMinutes += annualCallMinutes;
+    estimatedMinutes += annualCallMinutes;
+    totalCost += (annualCallMinutes / 60) * managerHourlyRate;
+  }
+
+  // Travel: the manager's driving time as labour, mileage and tolls as a separate expense.
+  const travelPlan = getClientTravelPlan(client, options.travelRates);
+  const travelTimeMinutes = travelPlan.tripsPerYear * travelPlan.minutesPerTrip;
+  const travelTimeCost = (travelTimeMinutes / 60) * managerHourlyRate;
+  const travelExpenses = travelPlan.tripsPerYear * travelPlan.expensePerTrip;
+  totalMinutes += travelTimeMinutes;
+  estimatedMinutes += travelTimeMinutes;
+  totalCost += travelTimeCost;
+
+  const totalAnnualHours = totalMinutes / 60;
+  const totalAnnualRevenue = options.feeHistory
+    ? getTrailingAnnualRevenue(client, options.feeHistory, options.referenceDate)
+    : client.monthlyFee * 12;
+  
+  const overheadBreakdown = options.overhead ? allocateOverhead(client, options.overhead, estimatedMinutes / 60, client.monthlyFee * 12) : [];
+  const overheadCost = overheadBreakdown.reduce((sum, share) => sum + share.amount, 0);
+  const directCost = totalCost + travelExpenses;
+  const contributionMargin = totalAnnualRevenue - directCost;
+  const profit = contributionMargin - overheadCost;
+  const profitability = totalAnnualRevenue > 0 ? (profit / totalAnnualRevenue) * 100 : 0;
+  const hourlyReturn = totalAnnualHours > 0 ? totalAnnualRevenue / totalAnnualHours : 0;
+
+  let suggestion = "";
+  if (profitability < 10) {
+    suggestion = "CRÍTICO: Avença abaixo do custo ou margem mínima. Necessário renegociar urgente ou otimizar processos.";
+  } else if (profitability < 30) {
+    suggestion = "ATENÇÃO: Margem baixa. Monitorizar horas extras e considerar pequeno ajuste anual.";
+  } else {
+    suggestion = "SAUDÁVEL: Cliente rentável. Manter nível de serviço.";
+  }
+
+  // Turnover Analysis (Fair Value)
+  let turnoverAnalysis = undefined;
+  if (turnoverBrackets && turnoverBrackets.length > 0) {
+    const bracket = turnoverBrackets.find(b => 
+      client.turnover >= b.minTurnover && client.turnover <= b.maxTurnover
+    );
+
+    if (bracket) {
+      const minAnnualFee = client.turnover * (bracket.minPercent / 100);
+      const maxAnnualFee = client.turnover * (bracket.maxPercent / 100);
+      
+      const minMonthly = minAnnualFee / 12;
+      const maxMonthly = maxAnnualFee / 12;
+
+      let status: 'Subavaliado' | 'Ajustado' | 'Acima da Média' = 'Ajustado';
+      
+      if (client.monthlyFee < minMonthly) status = 'Subavaliado';
+      else if (client.monthlyFee > maxMonthly) status = 'Acima da Média';
+
+      turnoverAnalysis = {
+        minRecommendedFee: minMonthly,
+        maxRecommendedFee: maxMonthly,
+        status,
+        bracketPercentUsed: bracket.minPercent // Using min as reference
+      };
+    }
+  }
+
+  return {
+    totalAnnualHours,
+    totalAnnualCost: directCost + overheadCost,
+    totalAnnualRevenue,
+    profitability,
+    hourlyReturn,
+    suggestion,
+    usedHourlyRate: managerHourlyRate, // Displaying base rate, though actual cost varies by task mix
+    directCost,
+    travelTimeCost,
+    travelExpenses,
+    overheadCost,
+    overheadBreakdown,
+    contributionMargin,
+    contributionMarginPercent: totalAnnualRevenue > 0 ? (contributionMargin / totalAnnualRevenue) * 100 : 0,
+    netMargin: profit,
+    turnoverAnalysis
+  };
+}
+
+// availableHoursPerMonth: the month's real capacity (holidays and absences deducted); defaults to the flat capacity.
+export function calculateStaffStats(
+  staff: Staff,
+  clients: Client[],
+  tasks: Task[],
+  availableHoursPerMonth: number = staff.capacityHoursPerMonth
+): StaffStats {
+
+  let totalMinutesAnnually = 0;
+  let totalRevenueAttrib = 0; // Approximate revenue attribution
+  // Inactive clients (company ceased activity) don't count towards staff profitability.
+  const activeClients = clients.filter(c => c.status !== 'Inativo');
+  // A client is this staff's responsibility if the ID matches.
+  // Also check by name for backward compatibility with older data structures.
+  const staffClients = activeClients.filter(c => c.responsibleStaff === staff.id || c.responsibleStaff === staff.name);
+  const staffClientsCount = staffClients.length;
+
+  activeClients.forEach(client => {
+    let clientMinutesForThisStaff = 0;
+    const isResponsibleManager = client.responsibleStaff === staff.id || client.responsibleStaff === staff.name;
+    
+    // Iterate over all possible tasks to apply logic
+    tasks.forEach(taskDef => {
+        const override = client.tasks.find(t => t.taskId === taskDef.id);
+        
+        let multiplier = 0;
+        // Priority: Manual override > Logic-based > Default (which is 0 if not applicable)
+        if (override?.multiplier) {
+            multiplier = override.multiplier;
+        } else if (taskDef.multiplierLogic && taskDef.multiplierLogic !== 'manual') {
+            multiplier = (client[taskDef.multiplierLogic as keyof Client] as number) || 0;
+        }
+
+        if (multiplier > 0) {
+            const frequency = override?.frequencyPerYear || taskDef.defaultFrequencyPerYear;
+            
+            let isAssignedToThisStaff = false;
+            // 1. Direct assignment
+            if (override?.assignedStaffId === staff.id) {
+                isAssignedToThisStaff = true;
+            } 
+            // 2. No direct assignment, falls back to responsible manager
+            else if (!override?.assignedStaffId && isResponsibleManager) {
+                isAssignedToThisStaff = true;
+            }
+
+            if (isAssignedToThisStaff) {
+                const annualMinutes = taskDef.defaultTimeMinutes * multiplier * frequency;
+                clientMinutesForThisStaff += annualMinutes;
+            }
+        }
+    });
+
+    // Operational time attribution (Calls/Travel) - Assign to Client Manager
+    if (isResponsibleManager) {
+       clientMinutesForThisStaff += (client.callTimeBalance * 12);
+       clientMinutesForThisStaff += getClientTravelMinutes(client);
+    }
+
+    totalMinutesAnnually += clientMinutesForThisStaff;
+    
+    // Revenue is attributed to the main responsible manager
+    if (isResponsibleManager) {
+        totalRevenueAttrib += (client.monthlyFee * 12);
+    }
+  });
+
+  const totalHoursAnnually = totalMinutesAnnually / 60;
+  const allocatedHoursMonth = totalHoursAnnually / 12;
+  const capacityUtilization = availableHoursPerMonth > 0
+    ? (allocatedHoursMonth / availableHoursPerMonth) * 100
+    : 0;
+
+  const totalCost = totalHoursAnnually * staff.hourlyCost;
+  
+  // Profitability of the Staff member (Revenue they manage vs their cost)
+  const profit = totalRevenueAttrib - totalCost;
+  const profitability = totalRevenueAttrib > 0 ? (profit / totalRevenueAttrib) * 100 : 0;
+
+  return {
+    staffName: staff.name,
+    clientCount: staffClientsCount,
+    allocatedHoursMonth,
+    availableHoursMonth: availableHoursPerMonth,
+    capacityUtilization,
+    totalRevenue: totalRevenueAttrib,
+    totalCost,
+    profitability
+  };
+}
+
+// Estimated (catalog) vs logged minutes per task for a single client.
+export function compareClientTaskTimes(
+  client: Client,
+  allTasks: Task[],
+  timeEntries: TimeEntry[]
+): TaskTimeVariance[] {
+  const entriesByTask = groupEntriesByTask(timeEntries.filter(entry => entry.clientId === client.id));
+
+  return allTasks
+    .map(taskDef => buildVariance(taskDef.id, getEstimatedTaskMinutes(client, taskDef), entriesByTask.get(taskDef.id) || []))
+    .filter(variance => variance.estimatedMinutes > 0 || variance.entryCount > 0);
+}
+
+// Estimated vs logged minutes per task for one staff member, summed across the clients they execute it for.
+export function compareStaffTaskTimes(
+  staff: Staff,
+  clients: Client[],
+  allTasks: Task[],
+  timeEntries: TimeEntry[]
+): TaskTimeVariance[] {
+  const entriesByTask = groupEntriesByTask(timeEntries.filter(entry => entry.staffId === staff.id));
+  const activeClients = clients.filter(c => c.status !== 'Inativo');
+
+  return allTasks
+    .map(taskDef => {
+      const estimatedMinutes = activeClients.reduce((sum, client) => {
+        const override = client.tasks.find(t => t.taskId === taskDef.id);
+        const isResponsibleManager = client.responsibleStaff === staff.id || client.responsibleStaff === staff.name;
+        const isAssignedToThisStaff = override?.assignedStaffId
+          ? override.assignedStaffId === staff.id
+          : isResponsibleManager;
+        return isAssignedToThisStaff ? sum + getEstimatedTaskMinutes(client, taskDef) : sum;
+      }, 0);
+      return buildVariance(taskDef.id, estimatedMinutes, entriesByTask.get(taskDef.id) || []);
+    })
+    .filter(variance => variance.estimatedMinutes > 0 || variance.entryCount > 0);
+}
@@ -0,0 +1,96 @@
+import { CashAgreement, CashPayment } from './types.ts';
+import { AgeingBucket, ClientLedger, LedgerMonthEntry } from './cashierTypes.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AMOUNT_TOLERANCE = 0.01;
+
+export const AGEING_BUCKETS: AgeingBucket[] = ['0-30', '31-60', '61-90', '90+'];
+
+export const getAgeingBucket = (daysOverdue: number): AgeingBucket => {
+  if (daysOverdue > 90) return '90+';
+  if (daysOverdue > 60) return '61-90';
+  if (daysOverdue > 30) return '31-60';
+  return '0-30';
+};
+
+const toIsoDate = (date: Date) => (
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+);
+
+// Months already rolled into a payment agreement are owed through the agreement, not the monthly grid.
+const isCoveredByAgreement = (agreements: CashAgreement[], year: number, month: number) => (
+  agreements.some(agreement =>
+    agreement.status !== 'Anulado' &&
+    (year < agreement.agreementYear || (year === agreement.agreementYear && month <= agreement.paidUntilMonth))
+  )
+);
+
+interface BuildClientLedgerInput {
+  clientId: string;
+  payments: Partial<CashPayment>[];
+  agreements: CashAgreement[];
+  getExpectedAmount: (year: number, month: number) => number;
+  today?: Date;
+}
+
+/**
+ * Expected vs paid for every month from the client's first recorded monthly payment
+ * (or January of the current year when there is none) up to the current month.
+ * Each month falls due on its last day; the current month only counts as debt (and in the ageing
+ * buckets) once that day has passed, until then its balance is reported as notYetDue.
+ */
+export const buildClientLedger = ({ clientId, payments, agreements, getExpectedAmount, today = new Date() }: BuildClientLedgerInput): ClientLedger => {
+  const regularPayments = payments.filter(payment =>
+    payment.clientId === clientId &&
+    payment.amountPaid !== -1 &&
+    Number(payment.paymentMonth || 0) >= 1 &&
+    Number(payment.paymentMonth || 0) <= 12
+  );
+  const paidByMonth = new Map<string, number>();
+  regularPayments.forEach(payment => {
+    const key = `${payment.paymentYear}-${payment.paymentMonth}`;
+    paidByMonth.set(key, (paidByMonth.get(key) || 0) + (payment.amountPaid || 0));
+  });
+
+  const firstPayment = regularPayments
+    .map(payment => ({ year: Number(payment.paymentYear), month: Number(payment.paymentMonth) }))
+    .sort((a, b) => a.year - b.year || a.month - b.month)[0];
+  let year = firstPayment ? firstPayment.year : today.getFullYear();
+  let month = firstPayment ? firstPayment.month : 1;
+
+  const clientAgreements = agreements.filter(agreement => agreement.clientId === clientId);
+  const entries: LedgerMonthEntry[] = [];
+  const buckets: Record<AgeingBucket, number> = { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+  let totalExpected = 0;
+  let totalPaid = 0;
+  let totalOutstanding = 0;
+  let notYetDue = 0;
+
+  while (year < today.getFullYear() || (year === today.getFullYear() && month <= today.getMonth() + 1)) {
+    if (!isCoveredByAgreement(clientAgreements, year, month)) {
+      const dueDate = new Date(year, month, 0);
+      const expected = getExpectedAmount(year, month);
+      const paid = paidByMonth.get(`${year}-${month}`) || 0;
+      const outstanding = expected - paid > AMOUNT_TOLERANCE ? expected - paid : 0;
+      const daysOverdue = Math.max(0, Math.floor((today.getTime() - dueDate.getTime()) / DAY_MS));
+
+      entries.push({ year, month, dueDate: toIsoDate(dueDate), expected, paid, outstanding, daysOverdue });
+      totalExpected += expected;
+      totalPaid += paid;
+      if (daysOverdue > 0) {
+        totalOutstanding += outstanding;
+        if (outstanding > 0) buckets[getAgeingBucket(daysOverdue)] += outstanding;
+      } else {
+        notYetDue += outstanding;
+      }
+    }
+
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+
+  return { clientId, entries, totalExpected, totalPaid, totalOutstanding, notYetDue, buckets };
+};
@@ -0,0 +1,88 @@
+import { BankStatementLine } from './types.ts';
+
+export interface ClientPaymentPlan {
+  id?: string;
+  clientId: string;
+  year: number;
+  paidUntilMonth: number;
+  monthlyAmount: number;
+  debtAmount: number;
+  status: 'Ativo' | 'Anulado' | 'Concluido';
+  notes: string;
+  called: boolean;
+  letterSent: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface PlanFormState {
+  monthlyAmount: string;
+  debtAmount: string;
+  payUntilMonth: number;
+  payUntilYear: number;
+  notes: string;
+  called: boolean;
+  letterSent: boolean;
+}
+
+export interface SessionExpense {
+  id: string;
+  amount: number;
+  description: string;
+}
+
+export type AgeingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export interface LedgerMonthEntry {
+  year: number;
+  month: number;
+  dueDate: string;
+  expected: number;
+  paid: number;
+  outstanding: number;
+  daysOverdue: number;
+}
+
+export interface ClientLedger {
+  clientId: string;
+  entries: LedgerMonthEntry[];
+  totalExpected: number;
+  totalPaid: number;
+  totalOutstanding: number; // past-due months only
+  notYetDue: number; // unpaid amount of the current month, not yet due
+  buckets: Record<AgeingBucket, number>;
+}
+
+export type ParsedStatementLine = Pick<BankStatementLine, 'fingerprint' | 'statementDate' | 'description' | 'amount' | 'reference' | 'channel' | 'sourceFormat'>;
+
+export interface BankMatchProposal {
+  lineId: string;
+  clientId: string | null;
+  matchedBy: 'nif' | 'nome' | 'valor' | 'manual' | null;
+  // 'link' reconciles an MB Way payment already in the grid; 'create' proposes a new payment.
+  action: 'link' | 'create' | null;
+  paymentId: string | null;
+  paymentYear: number | null;
+  paymentMonth: number | null;
+  amount: number;
+}
+
+export interface SaftCompanyInfo {
+  taxRegistrationNumber: string;
+  companyName: string;
+  addressDetail: string;
+  postalCode: string;
+  city: string;
+}
+
+export interface SaftBillingExport {
+  xml: string;
+  fileName: string;
+  invoiceCount: number;
+  customerCount: number;
+  netTotal: number;
+  taxTotal: number;
+  grossTotal: number;
+  // Data issues that do not break the file, e.g. a payment that differs from the fee in force.
+  warnings: string[];
+}
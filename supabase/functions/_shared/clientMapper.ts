@@ -0,0 +1,42 @@
+import type { Client } from "./types.ts";
+
+// Row mapping for the clients table as read by the edge functions with the service role.
+export function mapClient(db: any): Client {
+  return {
+    ...db,
+    id: db.id,
+    name: db.name || db.nome || "Sem Nome",
+    email: db.email || "",
+    phone: db.phone || "",
+    nif: db.nif || "",
+    sector: db.sector || "Geral",
+    entityType: db.entity_type || "SOCIEDADE",
+    responsibleStaff: db.responsavel_interno_id || db.responsible_staff || "",
+    status: db.status || "Ativo",
+    monthlyFee: Number(db.monthly_fee || 0),
+    employeeCount: Number(db.employee_count || 0),
+    turnover: Number(db.turnover || 0),
+    documentCount: Number(db.document_count || 0),
+    establishments: Number(db.establishments || 1),
+    banks: Number(db.banks || 1),
+    callTimeBalance: Number(db.call_time_balance || 0),
+    travelCount: Number(db.travel_count || 0),
+    travelDistanceKm: db.travel_distance_km === null ? null : Number(db.travel_distance_km),
+    travelMinutesOneWay: db.travel_minutes_one_way === null ? null : Number(db.travel_minutes_one_way),
+    travelTollsPerTrip: db.travel_tolls_per_trip === null ? null : Number(db.travel_tolls_per_trip),
+    deliversOrganizedDocs: db.delivers_organized_docs === null ? true : db.delivers_organized_docs,
+    vatRefunds: db.vat_refunds || false,
+    hasIneReport: db.has_ine_report || false,
+    hasCostCenters: db.has_cost_centers || false,
+    hasInternationalOps: db.has_international_ops || false,
+    hasManagementReports: db.has_management_reports || false,
+    supplierCount: Number(db.supplier_count || 0),
+    customerCount: Number(db.customer_count || 0),
+    communicationCount: Number(db.communication_count || 0),
+    meetingCount: Number(db.meeting_count || 0),
+    previousYearProfit: Number(db.previous_year_profit || 0),
+    vatRegime: db.vat_regime || undefined,
+    tasks: db.tasks || [],
+    contractRenewalDate: db.contract_renewal_date || "",
+  };
+}
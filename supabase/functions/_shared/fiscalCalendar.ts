@@ -0,0 +1,294 @@
+import { Client, FiscalDeadline, FiscalObligationType, ObligationDeadline, Staff, Task, TaskArea, TaskType, VatRegime } from './types.ts';
+import { getEstimatedTaskMinutes } from './calculator.ts';
+
+// Clients with a turnover at or above this value are in the monthly VAT regime (art. 41.º CIVA).
+export const MONTHLY_VAT_TURNOVER_THRESHOLD = 650000;
+
+export const FISCAL_OBLIGATION_LABELS: Record<FiscalObligationType, string> = {
+  iva: 'Declaração Periódica IVA',
+  dmr: 'DMR',
+  ss: 'Segurança Social',
+  ss_independentes: 'Declaração Trimestral SS',
+  saft: 'SAF-T Faturação',
+  modelo10: 'Modelo 10',
+  irs: 'IRS (Modelo 3)',
+  irc: 'IRC (Modelo 22)',
+  ies: 'IES',
+};
+
+// Catalog area whose assigned staff member handles each obligation, before falling back to the client's responsible.
+const OBLIGATION_AREAS: Record<FiscalObligationType, TaskArea[]> = {
+  iva: [TaskArea.FISCALIDADE, TaskArea.CONTABILIDADE],
+  dmr: [TaskArea.RH],
+  ss: [TaskArea.RH],
+  ss_independentes: [TaskArea.RH, TaskArea.FISCALIDADE],
+  saft: [TaskArea.CONTABILIDADE],
+  modelo10: [TaskArea.FISCALIDADE, TaskArea.RH],
+  irs: [TaskArea.FISCALIDADE],
+  irc: [TaskArea.FISCALIDADE, TaskArea.CONTABILIDADE],
+  ies: [TaskArea.CONTABILIDADE],
+};
+
+interface ObligationOccurrence {
+  period: string;
+  dueDate: Date;
+}
+
+interface ObligationRule {
+  obligation: FiscalObligationType;
+  appliesTo: (client: Client) => boolean;
+  // Occurrences whose reporting period belongs to the given year.
+  occurrencesForYear: (year: number) => ObligationOccurrence[];
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toIsoDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Deadlines falling on a weekend move to the next working day (art. 279.º do Código Civil).
+const moveToWorkingDay = (date: Date) => {
+  const result = new Date(date);
+  while (result.getDay() === 0 || result.getDay() === 6) {
+    result.setDate(result.getDate() + 1);
+  }
+  return result;
+};
+
+// Sole traders (ENI / trabalhadores independentes) file IRS instead of IRC.
+export const isIndividualEntity = (client: Client) =>
+  /individual|eni|empres[aá]rio|independente|singular|particular/i.test(client.entityType || '');
+
+export const getVatRegime = (client: Client): VatRegime => {
+  if (client.vatRegime) return client.vatRegime;
+  return Number(client.turnover || 0) >= MONTHLY_VAT_TURNOVER_THRESHOLD ? 'Mensal' : 'Trimestral';
+};
+
+const monthly = (dueDay: number, monthsAfter: number) => (year: number): ObligationOccurrence[] =>
+  Array.from({ length: 12 }, (_, index) => ({
+    period: `${year}-${pad(index + 1)}`,
+    dueDate: new Date(year, index + monthsAfter, dueDay),
+  }));
+
+const quarterly = (getDueDate: (year: number, quarter: number) => Date) => (year: number): ObligationOccurrence[] =>
+  [1, 2, 3, 4].map(quarter => ({
+    period: `${year}-T${quarter}`,
+    dueDate: getDueDate(year, quarter),
+  }));
+
+const annual = (monthIndex: number, dueDay: number) => (year: number): ObligationOccurrence[] => [
+  { period: String(year), dueDate: new Date(year + 1, monthIndex, dueDay) },
+];
+
+const hasEmployees = (client: Client) => Number(client.employeeCount || 0) > 0;
+
+const OBLIGATION_RULES: ObligationRule[] = [
+  {
+    obligation: 'iva',
+    appliesTo: client => getVatRegime(client) === 'Mensal',
+    // Monthly regime: until the 20th of the second month after the period.
+    occurrencesForYear: monthly(20, 2),
+  },
+  {
+    obligation: 'iva',
+    appliesTo: client => getVatRegime(client) === 'Trimestral',
+    // Quarterly regime: until the 20th of the second month after the quarter.
+    occurrencesForYear: quarterly((year, quarter) => new Date(year, quarter * 3 + 1, 20)),
+  },
+  {
+    obligation: 'dmr',
+    appliesTo: hasEmployees,
+    occurrencesForYear: monthly(10, 1),
+  },
+  {
+    obligation: 'ss',
+    // Companies also pay contributions for their managers, even without employees.
+    appliesTo: client => hasEmployees(client) || !isIndividualEntity(client),
+    occurrencesForYear: monthly(20, 1),
+  },
+  {
+    obligation: 'ss_independentes',
+    appliesTo: isIndividualEntity,
+    // Until the last day of the month following the quarter.
+    occurrencesForYear: quarterly((year, quarter) => new Date(year, quarter * 3 + 1, 0)),
+  },
+  {
+    obligation: 'saft',
+    appliesTo: () => true,
+    occurrencesForYear: monthly(5, 1),
+  },
+  {
+    obligation: 'modelo10',
+    appliesTo: client => !isIndividualEntity(client) || hasEmployees(client),
+    occurrencesForYear: annual(1, 10),
+  },
+  {
+    obligation: 'irs',
+    appliesTo: isIndividualEntity,
+    occurrencesForYear: annual(5, 30),
+  },
+  {
+    obligation: 'irc',
+    appliesTo: client => !isIndividualEntity(client),
+    occurrencesForYear: annual(4, 31),
+  },
+  {
+    obligation: 'ies',
+    appliesTo: client => !isIndividualEntity(client),
+    occurrencesForYear: annual(6, 15),
+  },
+];
+
+const resolveStaffId = (value: string | undefined, staff: Staff[]) => {
+  if (!value) return null;
+  const member = staff.find(item => item.id === value) || staff.find(item => item.name === value);
+  return member ? member.id : null;
+};
+
+const resolveObligationStaffId = (
+  client: Client,
+  obligation: FiscalObligationType,
+  staff: Staff[],
+  taskAreas: Map<string, TaskArea>
+) => {
+  const areas = OBLIGATION_AREAS[obligation];
+  for (const area of areas) {
+    const override = (client.tasks || []).find(task => task.assignedStaffId && taskAreas.get(task.taskId) === area);
+    const staffId = resolveStaffId(override?.assignedStaffId, staff);
+    if (staffId) return staffId;
+  }
+  return resolveStaffId(client.responsibleStaff, staff);
+};
+
+// Deadlines of every active client due between `from` and `to` (inclusive), sorted by due date.
+export const generateFiscalDeadlines = (
+  clients: Client[],
+  staff: Staff[],
+  from: Date,
+  to: Date,
+  tasks: Task[] = []
+): FiscalDeadline[] => {
+  const fromIso = toIsoDate(from);
+  const toIso = toIsoDate(to);
+  const taskAreas = new Map(tasks.map(task => [task.id, task.area]));
+  const deadlines: FiscalDeadline[] = [];
+
+  // Periods of the previous year can still be due (annual returns, Q4 VAT, December payroll).
+  const years: number[] = [];
+  for (let year = from.getFullYear() - 1; year <= to.getFullYear(); year++) years.push(year);
+
+  clients
+    .filter(client => client.status !== 'Inativo' && client.status !== 'Cancelado')
+    .forEach(client => {
+      OBLIGATION_RULES.filter(rule => rule.appliesTo(client)).forEach(rule => {
+        const staffId = resolveObligationStaffId(client, rule.obligation, staff, taskAreas);
+        years.forEach(year => {
+          rule.occurrencesForYear(year).forEach(occurrence => {
+            const dueDate = toIsoDate(moveToWorkingDay(occurrence.dueDate));
+            if (dueDate < fromIso || dueDate > toIso) return;
+            deadlines.push({
+              id: `${rule.obligation}-${client.id}-${occurrence.period}`,
+              clientId: client.id,
+              clientName: client.name,
+              staffId,
+              obligation: rule.obligation,
+              label: FISCAL_OBLIGATION_LABELS[rule.obligation],
+              period: occurrence.period,
+              dueDate,
+            });
+          });
+        });
+      });
+    });
+
+  return deadlines.sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.clientName.localeCompare(b.clientName));
+};
+
+// Catalog obligation tasks that follow a legal deadline above; the first matching pattern wins.
+const TASK_FISCAL_OBLIGATIONS: Array<[RegExp, FiscalObligationType | null]> = [
+  [/recapitulativa/i, null],
+  [/\bIVA\b/i, 'iva'],
+  [/\bDMR\b|\bDRI\b/i, 'dmr'],
+  [/seguran[çc]a social/i, 'ss'],
+  [/saf-?t/i, 'saft'],
+  [/modelo 10\b/i, 'modelo10'],
+  [/modelo 22/i, 'irc'],
+  [/\bIES\b/i, 'ies'],
+];
+
+export const getTaskFiscalObligation = (task: Task): FiscalObligationType | null => {
+  const match = TASK_FISCAL_OBLIGATIONS.find(([pattern]) => pattern.test(task.name));
+  return match ? match[1] : null;
+};
+
+const getFiscalDueDate = (obligation: FiscalObligationType, period: string): Date | null => {
+  const year = Number(period.slice(0, 4));
+  for (const rule of OBLIGATION_RULES.filter(item => item.obligation === obligation)) {
+    const occurrence = rule.occurrencesForYear(year).find(item => item.period === period);
+    if (occurrence) return occurrence.dueDate;
+  }
+  return null;
+};
+
+// Period cadence follows the yearly frequency; without a legal deadline a period is due at the end of the following month.
+const getTaskOccurrences = (frequencyPerYear: number, year: number): ObligationOccurrence[] => {
+  if (frequencyPerYear >= 12) {
+    return Array.from({ length: 12 }, (_, index) => ({ period: `${year}-${pad(index + 1)}`, dueDate: new Date(year, index + 2, 0) }));
+  }
+  if (frequencyPerYear >= 4) {
+    return quarterly((periodYear, quarter) => new Date(periodYear, quarter * 3 + 1, 0))(year);
+  }
+  return [{ period: String(year), dueDate: new Date(year + 1, 1, 0) }];
+};
+
+// Occurrences of the obligation-type tasks applied to each active client, due between `from` and `to` (inclusive).
+export const generateObligationDeadlines = (
+  clients: Client[],
+  tasks: Task[],
+  staff: Staff[],
+  from: Date,
+  to: Date
+): ObligationDeadline[] => {
+  const fromIso = toIsoDate(from);
+  const toIso = toIsoDate(to);
+  const obligationTasks = tasks.filter(task => task.type === TaskType.OBRIGACAO);
+  const deadlines: ObligationDeadline[] = [];
+
+  clients
+    .filter(client => client.status !== 'Inativo' && client.status !== 'Cancelado')
+    .forEach(client => {
+      obligationTasks
+        .filter(task => getEstimatedTaskMinutes(client, task) > 0)
+        .forEach(task => {
+          const override = (client.tasks || []).find(item => item.taskId === task.id);
+          const frequency = override?.frequencyPerYear || task.defaultFrequencyPerYear;
+          const fiscalObligation = getTaskFiscalObligation(task);
+          const staffId = resolveStaffId(override?.assignedStaffId, staff) || resolveStaffId(client.responsibleStaff, staff);
+          for (let year = from.getFullYear() - 1; year <= to.getFullYear(); year++) {
+            getTaskOccurrences(frequency, year).forEach(occurrence => {
+              const legalDueDate = fiscalObligation ? getFiscalDueDate(fiscalObligation, occurrence.period) : null;
+              const dueDate = toIsoDate(moveToWorkingDay(legalDueDate || occurrence.dueDate));
+              if (dueDate < fromIso || dueDate > toIso) return;
+              deadlines.push({
+                id: `${client.id}-${task.id}-${occurrence.period}`,
+                clientId: client.id,
+                clientName: client.name,
+                taskId: task.id,
+                taskName: task.name,
+                staffId,
+                period: occurrence.period,
+                dueDate,
+              });
+            });
+          }
+        });
+    });
+
+  return deadlines.sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.clientName.localeCompare(b.clientName));
+};
+
+export const getWeekStart = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const day = start.getDay();
+  start.setDate(start.getDate() - (day === 0 ? 6 : day - 1));
+  return start;
+};
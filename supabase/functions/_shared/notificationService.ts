@@ -0,0 +1,70 @@
+import { AlertRule, Client, Task, AppNotification, Staff, TaskArea, TurnoverBracket, FiscalDeadline, OverheadPool } from './types.ts';
+import { calculateClientProfitability, TravelRates } from './calculator.ts';
+import { generateFiscalDeadlines, toIsoDate } from './fiscalCalendar.ts';
+import { DEFAULT_TURNOVER_BRACKETS } from './constants.ts'; // Fallback
+import { DEFAULT_ALERT_RULES, matchesAlertRule, renderAlertMessage } from './alertRules.ts';
+import { buildOverheadAllocation, computeOverheadDriverTotals } from './overheadAllocation.ts';
+
+export const generateNotifications = (
+  clients: Client[], 
+  tasks: Task[],
+  areaCosts: Record<string, number>,
+  staff: Staff[],
+  turnoverBrackets: TurnoverBracket[] = DEFAULT_TURNOVER_BRACKETS,
+  alertRules: AlertRule[] = DEFAULT_ALERT_RULES,
+  overheadPools: OverheadPool[] = [],
+  travelRates?: TravelRates
+): AppNotification[] => {
+  const notifications: AppNotification[] = [];
+  const today = new Date();
+  // Inactive clients (company ceased activity) shouldn't generate analysis/renewal alerts.
+  const activeClients = clients.filter(client => client.status !== 'Inativo');
+
+  // 1. Client alerts from the admin-editable rules (profitability, fair value, renewals, volume...)
+  const enabledRules = alertRules.filter(rule => rule.enabled);
+  if (enabledRules.length > 0) {
+    const overhead = buildOverheadAllocation(overheadPools, computeOverheadDriverTotals(clients, tasks, areaCosts, staff));
+    activeClients.forEach(client => {
+      const stats = calculateClientProfitability(client, tasks, areaCosts as Record<TaskArea, number>, staff, turnoverBrackets, { overhead, travelRates });
+      enabledRules.forEach(rule => {
+        if (!matchesAlertRule(rule, client, stats, today)) return;
+        notifications.push({
+          id: `${rule.id}-${client.id}`,
+          type: rule.severity,
+          title: rule.name,
+          message: renderAlertMessage(rule.messageTemplate, client, stats, today),
+          date: today.toISOString().split('T')[0],
+          clientId: client.id,
+          actionLabel: rule.actionLabel || undefined,
+          ruleId: rule.id
+        });
+      });
+    });
+  }
+
+  // 2. Fiscal Deadlines (next 7 days, per obligation)
+  const weekAhead = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 7);
+  const upcomingDeadlines = generateFiscalDeadlines(activeClients, staff, today, weekAhead, tasks);
+  const deadlinesByObligation = new Map<string, FiscalDeadline[]>();
+  upcomingDeadlines.forEach(deadline => {
+    const key = `${deadline.obligation}-${deadline.dueDate}`;
+    deadlinesByObligation.set(key, [...(deadlinesByObligation.get(key) || []), deadline]);
+  });
+
+  deadlinesByObligation.forEach((deadlines, key) => {
+    const [first] = deadlines;
+    const isDueToday = first.dueDate === toIsoDate(today);
+    const clientNames = deadlines.slice(0, 3).map(deadline => deadline.clientName).join(', ');
+    const remaining = deadlines.length > 3 ? ` e mais ${deadlines.length - 3}` : '';
+    notifications.push({
+      id: `deadline-${key}`,
+      type: isDueToday ? 'critical' : 'warning',
+      title: `Prazo ${first.label}`,
+      message: `${deadlines.length} cliente(s) até ${first.dueDate.split('-').reverse().join('/')}: ${clientNames}${remaining}.`,
+      date: first.dueDate,
+      clientId: deadlines.length === 1 ? first.clientId : undefined
+    });
+  });
+
+  return notifications;
+};
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { Client, OverheadAllocation, OverheadDriver, OverheadPool, Staff, Task, TaskArea } from './types.ts';
+import { calculateClientProfitability, getOverheadDriverValue } from './calculator.ts';
+
+export const APP_CONFIG_OVERHEAD_POOLS_KEY = 'overhead_pools';
+
+export const OVERHEAD_DRIVER_LABELS: Record<OverheadDriver, string> = {
+  hours: 'Horas de trabalho',
+  revenue: 'Receita (avença)',
+  documents: 'Nº documentos',
+  headcount: 'Nº funcionários',
+};
+
+const isOverheadPool = (value: any): value is OverheadPool =>
+  value && typeof value === 'object' && typeof value.id === 'string' && value.driver in OVERHEAD_DRIVER_LABELS;
+
+// Stored pools come from app_config as raw JSON; nothing usable means no overhead is allocated.
+export const normalizeOverheadPools = (value: unknown): OverheadPool[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isOverheadPool).map(pool => ({
+    id: pool.id,
+    name: pool.name || pool.id,
+    annualAmount: Math.max(0, Number(pool.annualAmount) || 0),
+    driver: pool.driver,
+    enabled: pool.enabled !== false,
+  }));
+};
+
+// Office-wide driver totals, stored next to the pools by the daily-notifications job and by sessions that
+// see every client: users limited to their own clients cannot add them up from what they can read.
+export const APP_CONFIG_OVERHEAD_DRIVER_TOTALS_KEY = 'overhead_driver_totals';
+
+export const EMPTY_OVERHEAD_DRIVER_TOTALS: Record<OverheadDriver, number> = { hours: 0, revenue: 0, documents: 0, headcount: 0 };
+
+export const normalizeOverheadDriverTotals = (value: unknown): Record<OverheadDriver, number> | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  const totals = { ...EMPTY_OVERHEAD_DRIVER_TOTALS };
+  (Object.keys(totals) as OverheadDriver[]).forEach(driver => {
+    totals[driver] = Math.max(0, Number(raw[driver]) || 0);
+  });
+  return totals;
+};
+
+export const isSameOverheadDriverTotals = (a: Record<OverheadDriver, number>, b: Record<OverheadDriver, number>) =>
+  (Object.keys(EMPTY_OVERHEAD_DRIVER_TOTALS) as OverheadDriver[]).every(driver => Math.abs(a[driver] - b[driver]) < 0.005);
+
+// Driver totals over the active clients, measured on their direct (estimated) hours and current fees,
+// so every client's share is taken from the same base whichever screen asks for it.
+// The clients passed in must be the whole office, not a user's scoped slice.
+export function computeOverheadDriverTotals(
+  clients: Client[],
+  tasks: Task[],
+  areaCosts: Record<string, number>,
+  staff: Staff[]
+): Record<OverheadDriver, number> {
+  const driverTotals = { ...EMPTY_OVERHEAD_DRIVER_TOTALS };
+  clients
+    .filter(client => client.status !== 'Inativo')
+    .forEach(client => {
+      const direct = calculateClientProfitability(client, tasks, areaCosts as Record<TaskArea, number>, staff);
+      (Object.keys(driverTotals) as OverheadDriver[]).forEach(driver => {
+        driverTotals[driver] += getOverheadDriverValue(client, driver, direct.totalAnnualHours, direct.totalAnnualRevenue);
+      });
+    });
+  return driverTotals;
+}
+
+export function buildOverheadAllocation(pools: OverheadPool[], driverTotals: Record<OverheadDriver, number>): OverheadAllocation {
+  return { pools: pools.filter(pool => pool.enabled && pool.annualAmount > 0), driverTotals };
+}
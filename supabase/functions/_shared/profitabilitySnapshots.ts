@@ -0,0 +1,33 @@
+import { Client, OverheadAllocation, ProfitabilitySnapshot, Staff, Task, TaskArea, TurnoverBracket } from './types.ts';
+import { calculateClientProfitability, TravelRates } from './calculator.ts';
+
+export const toSnapshotMonth = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-01`;
+
+// Inactive clients are left out, as in the other profitability analyses.
+export const buildProfitabilitySnapshots = (
+  clients: Client[],
+  tasks: Task[],
+  areaCosts: Record<string, number>,
+  staff: Staff[],
+  turnoverBrackets: TurnoverBracket[],
+  overhead?: OverheadAllocation,
+  travelRates?: TravelRates,
+  snapshotMonth: string = toSnapshotMonth()
+): Omit<ProfitabilitySnapshot, 'id' | 'createdAt'>[] =>
+  clients
+    .filter(client => client.status !== 'Inativo')
+    .map(client => {
+      const analysis = calculateClientProfitability(client, tasks, areaCosts as Record<TaskArea, number>, staff, turnoverBrackets, { overhead, travelRates });
+      return {
+        clientId: client.id,
+        snapshotMonth,
+        monthlyFee: client.monthlyFee,
+        totalAnnualRevenue: analysis.totalAnnualRevenue,
+        totalAnnualCost: analysis.totalAnnualCost,
+        totalAnnualHours: analysis.totalAnnualHours,
+        profitability: analysis.profitability,
+        hourlyReturn: analysis.hourlyReturn,
+        turnoverStatus: analysis.turnoverAnalysis?.status || null,
+      };
+    });
@@ -0,0 +1,171 @@
+import { GlobalSettings, QuoteHistory, Task, TaskArea } from './types.ts';
+
+export const MPR_OFFICIAL_NAME = 'MPR Negócios';
+export const MPR_OFFICIAL_ADDRESS = 'Rua Nossa Senhora da Ajuda 107F, 4815-364 Moreira de Cónegos';
+export const MPR_OFFICIAL_EMAIL = 'mpr@mpr.pt';
+export const MPR_OFFICIAL_PHONE = '253089591';
+export const DEFAULT_MPR_PRESENTATION_TEXT = 'A MPR Negócios assegura acompanhamento por responsável dedicado, resposta célere e reporte regular, combinando rigor técnico com proximidade operacional para garantir previsibilidade e confiança na gestão diária.';
+export const DEFAULT_PROPOSAL_CONDITIONS_TEXT = 'Valores acrescidos de IVA à taxa legal em vigor.\nConfidencialidade e proteção de dados asseguradas nos termos legais aplicáveis.\nA proposta é válida por 30 dias.';
+
+export const PROPOSAL_VALIDITY_DAYS = 30;
+export const PROPOSAL_VAT_RATE = 23;
+
+// Notifications raised when a prospect answers online; not owned by the daily generator.
+export const QUOTE_RESPONSE_NOTIFICATION_PREFIX = 'quote-response-';
+
+export interface QuoteProposalCompany {
+  name: string;
+  nif: string;
+  address: string;
+  email: string;
+  phone: string;
+}
+
+export interface QuoteProposalScopeArea {
+  area: string;
+  items: { name: string; detail: string }[];
+}
+
+export interface QuoteProposalDocument {
+  reference: string;
+  issuedAt: Date;
+  validUntil: Date;
+  recipient: { name: string; nif: string; sector: string };
+  company: QuoteProposalCompany;
+  presentationText: string;
+  scope: QuoteProposalScopeArea[];
+  excludedServices: string[];
+  pricing: {
+    monthlyFee: number;
+    vatRate: number;
+    monthlyFeeWithVat: number;
+    annualFee: number;
+  };
+  terms: string[];
+}
+
+// What the public acceptance page receives from the quote-acceptance function (dates as ISO strings).
+export type QuoteAcceptanceState = 'form' | 'accepted' | 'rejected' | 'expired' | 'closed' | 'not_found';
+
+export interface QuoteAcceptanceView {
+  state: QuoteAcceptanceState;
+  error?: string;
+  company: QuoteProposalCompany;
+  logoUrl: string;
+  proposal: {
+    reference: string;
+    validUntil: string;
+    recipient: QuoteProposalDocument['recipient'];
+    pricing: QuoteProposalDocument['pricing'];
+    scope: QuoteProposalScopeArea[];
+    terms: string[];
+  } | null;
+}
+
+// A sent proposal can be answered online until its validity runs out.
+export const isProposalExpired = (sentAt: string | null | undefined, today: Date = new Date()) => {
+  if (!sentAt) return false;
+  const expiresAt = new Date(sentAt);
+  if (Number.isNaN(expiresAt.getTime())) return false;
+  expiresAt.setDate(expiresAt.getDate() + PROPOSAL_VALIDITY_DAYS);
+  return today.getTime() > expiresAt.getTime();
+};
+
+const AREA_ORDER: string[] = Object.values(TaskArea);
+const OTHER_AREA = 'Outros serviços';
+
+// Office identity printed on the proposal, taken from the global settings with the official details as fallback.
+export const resolveProposalCompany = (settings: Partial<GlobalSettings> | null | undefined): QuoteProposalCompany => {
+  const address = [settings?.companyAddress, [settings?.companyPostalCode, settings?.companyCity].filter(Boolean).join(' ')]
+    .map(part => (part || '').trim())
+    .filter(Boolean)
+    .join(', ');
+  return {
+    name: (settings?.companyName || '').trim() || MPR_OFFICIAL_NAME,
+    nif: (settings?.companyNif || '').trim(),
+    address: address || MPR_OFFICIAL_ADDRESS,
+    email: (settings?.fromEmail || '').trim() || MPR_OFFICIAL_EMAIL,
+    phone: MPR_OFFICIAL_PHONE,
+  };
+};
+
+export const getQuoteReference = (quote: Pick<QuoteHistory, 'id' | 'created_at' | 'revision'>) => {
+  const year = new Date(quote.created_at).getFullYear() || new Date().getFullYear();
+  const base = `MPR-${year}-${quote.id.replace(/-/g, '').slice(0, 6).toUpperCase()}`;
+  return quote.revision > 1 ? `${base}-v${quote.revision}` : base;
+};
+
+export const formatFrequency = (frequency: number) => {
+  if (frequency === 12) return 'Mensal';
+  if (frequency === 4) return 'Trimestral';
+  if (frequency === 2) return 'Semestral';
+  if (frequency === 1) return 'Anual';
+  return `${frequency}x por ano`;
+};
+
+const splitLines = (text: string | null | undefined, fallback: string) => {
+  const lines = (text || '').split('\n').map(line => line.trim().replace(/^•\s*/, '')).filter(Boolean);
+  return lines.length > 0 ? lines : fallback.split('\n');
+};
+
+export const buildQuoteProposal = (
+  quote: QuoteHistory,
+  tasks: Pick<Task, 'id' | 'name' | 'area'>[],
+  company: QuoteProposalCompany,
+  issuedAt: Date = new Date()
+): QuoteProposalDocument => {
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  const areas = new Map<string, QuoteProposalScopeArea>();
+
+  (quote.items || []).forEach(item => {
+    const task = item.taskId ? tasksById.get(item.taskId) : undefined;
+    const name = (task?.name || item.customName || '').trim();
+    if (!name) return;
+    const area = String(task?.area || item.customArea || OTHER_AREA);
+    const detail = item.quantity > 1 ? `${formatFrequency(item.frequency)} · ${item.quantity} un.` : formatFrequency(item.frequency);
+    const group = areas.get(area) || { area, items: [] };
+    if (!group.items.some(existing => existing.name === name)) group.items.push({ name, detail });
+    areas.set(area, group);
+  });
+
+  const scope = Array.from(areas.values()).sort((a, b) => {
+    const indexOf = (area: string) => (AREA_ORDER.includes(area) ? AREA_ORDER.indexOf(area) : AREA_ORDER.length);
+    return indexOf(a.area) - indexOf(b.area) || a.area.localeCompare(b.area, 'pt-PT');
+  });
+
+  const excludedServices = [
+    'Recuperação de contabilidade em atraso.',
+    'Representação em inspeções, contencioso ou procedimentos especiais.',
+    'Candidaturas, estudos económico-financeiros e projetos.',
+    'Outros trabalhos extraordinários não abrangidos pela avença mensal.',
+  ];
+  if (!areas.has(TaskArea.RH)) {
+    excludedServices.splice(1, 0, 'Processamento salarial e obrigações laborais.');
+  }
+
+  const monthlyFee = Number(quote.recommended_monthly_fee || 0);
+  const validUntil = new Date(issuedAt);
+  validUntil.setDate(validUntil.getDate() + PROPOSAL_VALIDITY_DAYS);
+
+  return {
+    reference: getQuoteReference(quote),
+    issuedAt,
+    validUntil,
+    recipient: {
+      name: (quote.client_name || '').trim(),
+      nif: (quote.client_nif || '').trim(),
+      sector: (quote.client_sector || '').trim(),
+    },
+    company,
+    presentationText: (quote.proposal_presentation_text || '').trim() || DEFAULT_MPR_PRESENTATION_TEXT,
+    scope,
+    excludedServices,
+    pricing: {
+      monthlyFee,
+      vatRate: PROPOSAL_VAT_RATE,
+      monthlyFeeWithVat: monthlyFee * (1 + PROPOSAL_VAT_RATE / 100),
+      annualFee: monthlyFee * 12,
+    },
+    terms: splitLines(quote.proposal_conditions_text, DEFAULT_PROPOSAL_CONDITIONS_TEXT),
+  };
+};
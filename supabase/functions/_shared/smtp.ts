@@ -0,0 +1,95 @@
+import nodemailer from "npm:nodemailer@6.9.15";
+
+// SMTP path shared by staff-digest and the quote functions; same secrets as send-email / monthly-obligations.
+
+export type SmtpAttachment = {
+  filename: string;
+  base64: string;
+  contentType: string;
+};
+
+export type SmtpEmail = {
+  to: string;
+  subject: string;
+  html: string;
+  fromName?: string;
+  replyTo?: string;
+  attachments?: SmtpAttachment[];
+};
+
+function mustEnv(name: string): string {
+  const v = Deno.env.get(name);
+  if (!v) throw new Error(`Missing secret/env: ${name}`);
+  return v;
+}
+
+function parseBool(value: string | undefined, fallback: boolean): boolean {
+  if (value == null) return fallback;
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return fallback;
+  return ["1", "true", "yes", "on"].includes(normalized);
+}
+
+function stripHtmlToText(input: string): string {
+  return input
+    .replace(/<style[\s\S]*?<\/style>/gi, " ")
+    .replace(/<script[\s\S]*?<\/script>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function cleanHeaderValue(input: string): string {
+  return (input || "").replace(/[\r\n\t]+/g, " ").replace(/\s+/g, " ").trim();
+}
+
+export async function sendSmtpEmail(params: SmtpEmail): Promise<void> {
+  const smtpHost = mustEnv("SMTP_HOST");
+  const smtpUsername = mustEnv("SMTP_USERNAME");
+  const smtpPassword = mustEnv("SMTP_PASSWORD");
+  const smtpPortRaw = Deno.env.get("SMTP_PORT") ?? "465";
+  const smtpPort = Number.parseInt(smtpPortRaw, 10);
+  if (!Number.isInteger(smtpPort) || smtpPort <= 0) {
+    throw new Error("SMTP_PORT is invalid. Use a numeric value (example: 465).");
+  }
+
+  const smtpTls = parseBool(Deno.env.get("SMTP_TLS"), true);
+  if ([25, 587].includes(smtpPort)) {
+    throw new Error("SMTP port 25/587 is blocked in hosted Edge Functions. Configure SMTP_PORT=465 and SMTP_TLS=true.");
+  }
+
+  const envFromEmail = (Deno.env.get("SMTP_FROM_EMAIL") || smtpUsername).trim();
+  if (!envFromEmail.includes("@")) {
+    throw new Error("SMTP_FROM_EMAIL (or SMTP_USERNAME) must be a valid email.");
+  }
+  const fromName = (params.fromName || Deno.env.get("SMTP_FROM_NAME") || "").trim();
+
+  const transport = nodemailer.createTransport({
+    host: smtpHost,
+    port: smtpPort,
+    secure: smtpTls,
+    auth: {
+      user: smtpUsername,
+      pass: smtpPassword,
+    },
+  });
+
+  try {
+    await transport.sendMail({
+      from: { name: cleanHeaderValue(fromName || envFromEmail.split("@")[0]), address: envFromEmail },
+      to: cleanHeaderValue(params.to),
+      replyTo: params.replyTo ? cleanHeaderValue(params.replyTo) : undefined,
+      subject: cleanHeaderValue(params.subject),
+      html: params.html,
+      text: stripHtmlToText(params.html) || "Mensagem",
+      attachments: params.attachments?.map(attachment => ({
+        filename: attachment.filename,
+        content: attachment.base64,
+        encoding: "base64",
+        contentType: attachment.contentType,
+      })),
+    });
+  } finally {
+    transport.close();
+  }
+}
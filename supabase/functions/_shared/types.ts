@@ -0,0 +1,727 @@
+// Browser-free: imported by the app (through src/types.ts) and by the Deno edge functions, which cannot reach src/.
+export enum TaskArea {
+  CONTABILIDADE = 'Contabilidade',
+  RH = 'Recursos Humanos',
+  ADMINISTRATIVO = 'Administrativo',
+  CONSULTORIA = 'Consultoria',
+  FISCALIDADE = 'Fiscalidade',
+  GESTAO = 'Gestão'
+}
+
+export type MultiplierLogic = 'manual' | 'employeeCount' | 'documentCount' | 'establishments' | 'banks';
+
+export enum TaskType {
+  OBRIGACAO = 'Obrigação',
+  NECESSIDADE = 'Necessidade',
+  EXTRA = 'Extra'
+}
+
+export interface Task {
+  id: string;
+  name: string;
+  area: TaskArea;
+  type: TaskType;
+  defaultTimeMinutes: number;
+  defaultFrequencyPerYear: number;
+  multiplierLogic?: MultiplierLogic;
+}
+
+export interface QuoteItem {
+  id?: string;
+  taskId?: string;
+  quantity: number;
+  frequency: number;
+  customName?: string;
+  customArea?: TaskArea | string;
+  customTimeMinutes?: number;
+  customHourlyCost?: number;
+}
+
+export interface ClientTaskOverride {
+  taskId: string;
+  frequencyPerYear: number;
+  multiplier: number;
+  assignedStaffId?: string;
+}
+
+export interface Staff {
+  id: string;
+  name: string;
+  role: string;
+  email?: string;
+  phone?: string;
+  baseSalary: number;
+  socialChargesPercent: number;
+  mealAllowance: number;
+  otherMonthlyCosts: number;
+  insuranceAnnual: number; // Work accident insurance premium
+  capacityHoursPerMonth: number;
+  hourlyCost: number;
+  assignedAreas: TaskArea[];
+}
+
+export interface StaffCostRecord {
+  id: string;
+  staffId: string;
+  effectiveFrom: string; // YYYY-MM-DD, applies from that day onwards
+  baseSalary: number;
+  socialChargesPercent: number;
+  mealAllowance: number;
+  otherMonthlyCosts: number;
+  insuranceAnnual: number;
+  capacityHoursPerMonth: number;
+  hourlyCost: number; // Derived when recorded, so later formula changes do not rewrite history
+  reason: string;
+  changedBy?: string | null;
+  createdAt?: string;
+}
+
+export interface StaffCostChangeContext {
+  effectiveFrom?: string;
+  reason?: string;
+}
+
+export type StaffAbsenceType = 'vacation' | 'sick' | 'training' | 'other';
+
+export interface StaffAbsence {
+  id: string;
+  staffId: string;
+  type: StaffAbsenceType;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  hoursPerDay: number | null; // Partial absence; null means whole working days
+  notes: string;
+  createdAt?: string;
+}
+
+export interface FeeGroup {
+  id: string;
+  name: string;
+  description: string;
+  clientIds: string[];
+  proposed_fees?: Record<string, number>;
+}
+
+export interface FeeScenario {
+  id: string;
+  groupId: string;
+  name: string;
+  proposedFees: Record<string, number>;
+  createdAt: string;
+}
+
+export interface Client {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  address?: string;
+  nif: string;
+  sector: string;
+  entityType?: string; // ex: Lda, Unipessoal, Individual
+  responsibleStaff: string;
+  monthlyFee: number;
+  
+  employeeCount: number;
+  establishments: number;
+  banks: number;
+  turnover: number;
+  documentCount: number;
+  callTimeBalance: number;
+  travelCount: number; // Trips per year
+  // Travel model: one-way distance and driving time from the office, measured for travelDistanceAddress.
+  // Without a distance each trip falls back to a flat hour of manager time and no expenses.
+  travelDistanceKm?: number | null;
+  travelMinutesOneWay?: number | null;
+  travelTollsPerTrip?: number | null; // Round trip; unset uses the office toll allowance
+  travelDistanceAddress?: string | null;
+  
+  // Complexity Indicators
+  deliversOrganizedDocs?: boolean;
+  vatRefunds?: boolean;
+  hasIneReport?: boolean;
+  hasCostCenters?: boolean;
+  hasInternationalOps?: boolean;
+  hasManagementReports?: boolean;
+  supplierCount?: number;
+  customerCount?: number;
+  communicationCount?: number;
+  meetingCount?: number;
+  previousYearProfit?: number;
+  saftCollectEnabled?: boolean;
+  vatRegime?: VatRegime; // Sem valor: deduzido do volume de negócios
+
+  tasks: ClientTaskOverride[];
+  status: 'Ativo' | 'Em Análise' | 'Risco' | 'Cancelado' | 'Inativo';
+  contractRenewalDate: string;
+  aiAnalysisCache?: AiAnalysis | null;
+}
+
+export interface SaftDossierData {
+  attachments?: SaftDossierAttachment[];
+  clientNif: string;
+  clientName: string;
+  sourceDetailUrl?: string;
+  atStatus?: string;
+  atCollectedAt?: string | null;
+  ssStatus?: string;
+  ssCollectedAt?: string | null;
+  certidaoAtStatus?: string;
+  certidaoSsStatus?: string;
+  certidaoPermanenteStatus?: string;
+  certidaoPermanenteCode?: string;
+  rawList?: Record<string, any>;
+  rawDetail?: Record<string, any>;
+  syncedAt: string;
+  updatedAt: string;
+}
+
+export interface SaftDossierAttachment {
+  label: string;
+  actionPath: string;
+  fileName?: string;
+  contentType?: string;
+  sizeBytes?: number;
+  storagePath?: string;
+  publicUrl?: string;
+  syncedAt?: string;
+}
+
+export interface GlobalSettings {
+  payrollUnitCost: number;
+  documentUnitCost: number;
+  supabaseImportUrl: string;
+  supabaseImportKey: string;
+  supabaseImportClientsTable?: string;
+  supabaseImportStaffTable?: string;
+  supabaseStoreUrl: string;
+  supabaseStoreKey: string;
+  fromEmail?: string;
+  fromName?: string;
+  emailSignature?: string;
+  // Office tax identity, used in the SAF-T billing export.
+  companyName?: string;
+  companyNif?: string;
+  companyAddress?: string;
+  companyPostalCode?: string;
+  companyCity?: string;
+  // Travel expenses per trip: mileage on the round-trip distance plus tolls.
+  travelCostPerKm?: number;
+  travelTollAllowance?: number;
+}
+
+// What an overhead pool is shared by: the client's share of hours, revenue, monthly documents or employees.
+export type OverheadDriver = 'hours' | 'revenue' | 'documents' | 'headcount';
+
+// Indirect annual cost (rent, licences, admin staff, partner time) spread over the active clients.
+export interface OverheadPool {
+  id: string;
+  name: string;
+  annualAmount: number;
+  driver: OverheadDriver;
+  enabled: boolean;
+}
+
+// Pools plus the office-wide driver totals each client's share is measured against.
+export interface OverheadAllocation {
+  pools: OverheadPool[];
+  driverTotals: Record<OverheadDriver, number>;
+}
+
+export interface OverheadShare {
+  poolId: string;
+  name: string;
+  driver: OverheadDriver;
+  amount: number;
+}
+
+export interface AnalysisResult {
+  totalAnnualHours: number;
+  totalAnnualCost: number; // Direct labour plus allocated overhead
+  totalAnnualRevenue: number;
+  profitability: number; // Net margin (%)
+  hourlyReturn: number;
+  suggestion: string;
+  usedHourlyRate: number;
+  directCost: number; // Labour (travel time included) plus travel expenses
+  travelTimeCost: number;
+  travelExpenses: number; // Mileage and tolls
+  overheadCost: number;
+  overheadBreakdown: OverheadShare[];
+  contributionMargin: number; // Revenue minus direct costs (€)
+  contributionMarginPercent: number;
+  netMargin: number; // Contribution margin minus allocated overhead (€)
+  turnoverAnalysis?: {
+    minRecommendedFee: number;
+    maxRecommendedFee: number;
+    status: 'Subavaliado' | 'Ajustado' | 'Acima da Média';
+    bracketPercentUsed: number;
+  };
+}
+
+export interface AiAnalysis {
+  parecer: string;
+  avenca_sugerida: number;
+}
+
+export interface AiTemplateAnalysis {
+  subject: string;
+  body: string;
+}
+
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+}
+
+export interface CampaignRecipientResult {
+  name: string;
+  email: string;
+  status: 'success' | 'error';
+  error?: string;
+}
+
+export interface CampaignHistory {
+  id: string;
+  sent_at: string;
+  subject: string;
+  body: string;
+  recipient_count: number;
+  recipient_ids?: string[];
+  recipient_results?: CampaignRecipientResult[];
+  group_name: string;
+  status: string;
+  scheduled_at?: string | null;
+  send_delay?: number | null;
+  template_id?: string | null;
+}
+
+export type QuoteStatus = 'draft' | 'sent' | 'negotiating' | 'accepted' | 'rejected';
+
+export interface QuoteHistory {
+  id: string;
+  created_at: string;
+  client_name: string;
+  client_nif: string;
+  client_volume: number;
+  employee_count: number;
+  document_count: number;
+  establishments: number;
+  banks: number;
+  items: QuoteItem[];
+  target_margin: number;
+  recommended_monthly_fee: number;
+  total_annual_cost: number;
+  total_annual_hours: number;
+  client_id?: string | null; // Client created from this quote
+  won_at?: string | null;
+  client_sector?: string;
+  status: QuoteStatus;
+  status_changed_at?: string | null;
+  loss_reason?: string | null;
+  accepted_monthly_fee?: number | null; // Fee actually agreed, when it differs from the proposal
+  revision: number;
+  parent_quote_id?: string | null; // First version of the quote; revisions share it
+  proposal_presentation_text?: string | null;
+  proposal_conditions_text?: string | null; // One condition per line
+  proposal_sent_at?: string | null;
+  proposal_sent_to?: string | null;
+  proposal_sent_by?: string | null; // Staff login that emailed it; told when the prospect answers
+  acceptance_token?: string | null; // Secret for the public acceptance page
+  responded_at?: string | null; // Prospect answered on the acceptance page
+  response_name?: string | null;
+  response_ip?: string | null;
+  response_comment?: string | null;
+}
+
+export interface InsurancePolicy {
+  id: string;
+  clientId?: string;
+  clientName?: string; // For display
+  policyHolder?: string;
+  agent?: 'MPR' | 'Paula';
+  mediatorPartner?: 'Finiconde' | 'Neoseguros' | 'Outra' | string;
+  internalResponsible?: 'MPR' | 'Paula';
+  policyDate: string;
+  renewalDate?: string;
+  policyNumber?: string;
+  company?: string;
+  branch?: string;
+  insuranceProvider?: string;
+  paymentFrequency: 'Mensal' | 'Trimestral' | 'Semestral' | 'Anual';
+  policyType: string;
+  premiumValue: number;
+  netPremiumValue?: number;
+  commissionRate: number;
+  commissionPaid: boolean;
+  hasReceipt?: boolean;
+  status: 'Proposta' | 'Aceite' | 'Cancelada';
+  communicationType?: string;
+  notes?: string;
+  policyTier?: 'Base' | 'Flexível';
+  attachment_url?: string;
+  documentChecklist?: Record<string, boolean>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface InsuranceCommissionSettlement {
+  id: string;
+  policyId: string;
+  dueDate: string;
+  amount: number;
+  paidAt: string;
+  createdAt: string;
+}
+
+export type VatRegime = 'Mensal' | 'Trimestral' | 'Isento';
+
+export type FiscalObligationType = 'iva' | 'dmr' | 'ss' | 'ss_independentes' | 'saft' | 'modelo10' | 'irs' | 'irc' | 'ies';
+
+export interface FiscalDeadline {
+  id: string;
+  clientId: string;
+  clientName: string;
+  staffId: string | null;
+  obligation: FiscalObligationType;
+  label: string;
+  period: string; // ex: 2026-09, 2026-T3, 2025
+  dueDate: string;
+}
+
+export type ObligationStatus = 'pending' | 'in_progress' | 'submitted' | 'paid';
+
+// One occurrence of an obligation-type catalog task for a client.
+export interface ObligationDeadline {
+  id: string;
+  clientId: string;
+  clientName: string;
+  taskId: string;
+  taskName: string;
+  staffId: string | null;
+  period: string;
+  dueDate: string;
+}
+
+export interface ObligationRecord {
+  id: string;
+  clientId: string;
+  taskId: string;
+  period: string;
+  status: ObligationStatus;
+  submittedByStaffId: string | null;
+  submittedAt: string | null;
+  proofUrl: string | null;
+  proofName: string | null;
+  notes: string;
+  updatedAt?: string;
+}
+
+export type ContractStatus = 'draft' | 'sent' | 'signed' | 'cancelled';
+
+// Contract text with {{placeholders}} filled from the client when the document is generated.
+export interface ContractTemplate {
+  id: string;
+  name: string;
+  body: string;
+  updatedAt?: string;
+}
+
+// One generated version of a client's service contract; the document itself lives in storage.
+export interface ServiceContract {
+  id: string;
+  clientId: string;
+  templateId: string | null;
+  version: number;
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string; // YYYY-MM-DD
+  monthlyFee: number;
+  feeGroupId: string | null; // Set when generated by a bulk renewal from a FeeGroup
+  status: ContractStatus;
+  documentPath: string;
+  notes: string;
+  statusChangedAt: string | null;
+  createdBy?: string | null;
+  createdAt?: string;
+}
+
+export interface AppNotification {
+  id: string;
+  type: 'critical' | 'warning' | 'info' | 'success';
+  title: string;
+  message: string;
+  date: string;
+  clientId?: string;
+  actionLabel?: string;
+  // Alert rule that raised it; unset for deadline and quote notifications.
+  ruleId?: string;
+}
+
+// Persisted notification joined with the signed-in user's read/dismissed/snoozed state.
+export interface StoredNotification extends AppNotification {
+  assignedStaffId: string | null;
+  createdAt: string;
+  readAt: string | null;
+  dismissedAt: string | null;
+  snoozedUntil: string | null;
+}
+
+// Client / AnalysisResult values an alert rule can test and quote in its message.
+export type AlertRuleField =
+  | 'name' | 'status' | 'entityType' | 'sector' | 'vatRegime' | 'contractRenewalDate'
+  | 'monthlyFee' | 'documentCount' | 'employeeCount' | 'turnover' | 'establishments' | 'banks'
+  | 'supplierCount' | 'customerCount' | 'daysToRenewal'
+  | 'profitability' | 'contributionMarginPercent' | 'hourlyReturn' | 'totalAnnualHours' | 'totalAnnualCost' | 'overheadCost' | 'totalAnnualRevenue'
+  | 'turnoverStatus' | 'minRecommendedFee' | 'maxRecommendedFee';
+
+export type AlertRuleOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'neq';
+
+export interface AlertRuleCondition {
+  field: AlertRuleField;
+  operator: AlertRuleOperator;
+  value: number | string;
+}
+
+// Admin-editable notification rule; every condition must hold for a client to be flagged.
+export interface AlertRule {
+  id: string; // Prefix of the notification id (<id>-<client id>)
+  name: string; // Shown as the notification title
+  enabled: boolean;
+  severity: AppNotification['type'];
+  conditions: AlertRuleCondition[];
+  messageTemplate: string; // {{field}} placeholders
+  actionLabel?: string;
+}
+
+export interface WorkSafetyService {
+  id: string;
+  clientId: string;
+  clientName?: string; // For display
+  serviceDate: string;
+  renewalTerm: 'Anual' | 'Bi-anual';
+  provider: string;
+  totalValue: number;
+  hasCommission: boolean;
+  isCommissionPaid: boolean;
+  proposalStatus: 'Não enviada' | 'Enviada' | 'Aceite' | 'Recusada';
+  attachment_url?: string;
+  documentChecklist?: Record<string, boolean>;
+  profileData?: WorkSafetyProfileData;
+  aiObligationsSummary?: string;
+}
+
+export interface WorkSafetyProfileData {
+  nif?: string;
+  nic?: string;
+  cae?: string;
+  irct?: string;
+  workSchedule?: string;
+  occupationalMedicineAdmissionDate?: string;
+  occupationalMedicinePeriodicDate?: string;
+  occupationalMedicineHasRecords?: boolean;
+  safetyVisitsNotes?: string;
+  safetyReportMeasuresNotes?: string;
+  providerDetails?: string;
+  providerPeriodicity?: 'Semestral' | 'Anual' | 'Bi-anual';
+  nextDueDate?: string;
+  paidValue?: number;
+  commissionValue?: number;
+}
+
+// Bank statement credits that are not MB Way are recorded as transfers.
+export type CashPaymentMethod = 'Numerário' | 'MB Way' | 'Transferência';
+
+export interface CashPayment {
+  id: string;
+  clientId: string;
+  paymentYear: number;
+  paymentMonth: number;
+  amountPaid: number;
+  paidAt: string;
+  paymentMethod: CashPaymentMethod;
+  cashOperationId: string | null;
+}
+
+export interface CashAgreement {
+  id: string;
+  clientId: string;
+  agreementYear: number;
+  paidUntilMonth: number;
+  monthlyAmount: number;
+  debtAmount: number;
+  status: 'Ativo' | 'Anulado' | 'Concluido';
+  notes: string;
+  called: boolean;
+  letterSent: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+export interface CashOperation {
+  id: string;
+  createdAt: string;
+  depositedAmount: number;
+  spentAmount: number;
+  mbWayDepositedAmount?: number;
+  adjustmentAmount?: number;
+  spentDescription: string;
+  reportDetails: {
+    clientId?: string; // missing on reports closed before it was stored
+    clientName: string;
+    months: string[];
+    total: number;
+    method: CashPaymentMethod;
+  }[];
+}
+
+export interface BankStatementLine {
+  id: string;
+  fingerprint: string;
+  statementDate: string;
+  description: string;
+  amount: number;
+  reference: string | null;
+  channel: 'mbway' | 'transfer' | 'other';
+  sourceFormat: 'csv' | 'camt053';
+  status: 'pending' | 'matched' | 'ignored';
+  clientId: string | null;
+  cashPaymentId: string | null;
+  importedAt: string;
+  reconciledAt: string | null;
+}
+
+export interface Receipt {
+  id: string;
+  series: string;
+  receiptYear: number;
+  receiptNumber: number;
+  documentNumber: string; // e.g. "RC 2026/12"
+  issuedAt: string;
+  clientId: string | null;
+  clientName: string;
+  clientNif: string | null;
+  clientAddress: string | null;
+  description: string;
+  amount: number; // VAT included
+  vatRate: number;
+  paymentMethod: CashPaymentMethod;
+  cashPaymentId: string | null;
+  cashOperationId: string | null;
+  reportLineIndex: number | null;
+  status: 'issued' | 'voided';
+  voidReason: string | null;
+  voidedAt: string | null;
+  voidedBy: string | null;
+  emailedTo: string | null;
+  emailedAt: string | null;
+  createdBy: string | null;
+}
+
+export interface CashSessionExpense {
+  id: string;
+  amount: number;
+  description: string;
+  cashOperationId: string | null;
+  createdAt: string;
+}
+
+export interface StaffStats {
+  staffName: string;
+  clientCount: number;
+  allocatedHoursMonth: number;
+  availableHoursMonth: number; // capacityHoursPerMonth unless the month's real (absence-adjusted) hours are given
+  capacityUtilization: number;
+  totalRevenue: number;
+  totalCost: number;
+  profitability: number;
+}
+
+export interface TimeEntry {
+  id: string;
+  clientId: string;
+  taskId: string;
+  staffId: string;
+  entryDate: string;
+  minutes: number;
+  notes?: string;
+  createdAt?: string;
+}
+
+export type ProfitabilityMode = 'estimated' | 'actual';
+
+export interface TaskTimeVariance {
+  taskId: string;
+  estimatedMinutes: number;
+  actualMinutes: number;
+  varianceMinutes: number;
+  variancePercent: number | null; // null when there is no estimate to compare against
+  entryCount: number;
+}
+
+export interface ProfitabilitySnapshot {
+  id: string;
+  clientId: string;
+  snapshotMonth: string; // YYYY-MM-01
+  monthlyFee: number;
+  totalAnnualRevenue: number;
+  totalAnnualCost: number;
+  totalAnnualHours: number;
+  profitability: number;
+  hourlyReturn: number;
+  turnoverStatus: 'Subavaliado' | 'Ajustado' | 'Acima da Média' | null;
+  createdAt?: string;
+}
+
+export type FeeChangeSource = 'manual' | 'fee_group' | 'quote' | 'import';
+
+export interface ClientFeeChange {
+  id: string;
+  clientId: string;
+  previousFee: number | null;
+  monthlyFee: number;
+  effectiveFrom: string; // YYYY-MM-DD, applies from that month onwards
+  reason: string;
+  source: FeeChangeSource;
+  sourceId?: string | null; // FeeGroup id or quote id that caused the change
+  changedBy?: string | null;
+  createdAt?: string;
+}
+
+export interface FeeChangeContext {
+  effectiveFrom?: string;
+  reason?: string;
+  source?: FeeChangeSource;
+  sourceId?: string | null;
+}
+
+// Added TurnoverBracket interface to fix missing export errors across the application
+export interface TurnoverBracket {
+  id: string;
+  minTurnover: number;
+  maxTurnover: number;
+  minPercent: number;
+  maxPercent: number;
+}
+
+
+export type AppPermission = 'view_profitability' | 'view_commissions' | 'apply_fees' | 'close_register' | 'manage_roles' | 'manage_alert_rules' | 'manage_staff';
+
+export interface AppRole {
+  id: string;
+  key: string;
+  name: string;
+  description: string;
+  views: string[]; // Sidebar view ids, 'settings' included
+  permissions: AppPermission[];
+  dataScope: 'all' | 'own'; // 'own': only the clients (or insurance policies) the user is responsible for
+  isSystem: boolean;
+}
+
+export interface UserRoleAssignment {
+  email: string;
+  roleId: string;
+  staffId: string | null;
+  insuranceAgent: InsurancePolicy['agent'] | null;
+  updatedAt?: string;
+}
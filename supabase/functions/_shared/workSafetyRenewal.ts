@@ -0,0 +1,64 @@
+import { WorkSafetyProfileData, WorkSafetyService } from './types.ts';
+
+export type RenewalAlertLevel = 'D-60' | 'D-30' | 'D-7';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addMonths = (date: Date, months: number) => {
+  const next = new Date(date);
+  next.setMonth(next.getMonth() + months);
+  return next;
+};
+
+const getRenewalMonths = (
+  term: WorkSafetyService['renewalTerm'],
+  profilePeriodicity?: WorkSafetyProfileData['providerPeriodicity']
+) => {
+  if (profilePeriodicity === 'Semestral') return 6;
+  if (profilePeriodicity === 'Bi-anual') return 24;
+  if (term === 'Bi-anual') return 24;
+  return 12;
+};
+
+export const getNextRenewalDate = (
+  serviceDate: string,
+  renewalTerm: WorkSafetyService['renewalTerm'],
+  profilePeriodicity?: WorkSafetyProfileData['providerPeriodicity'],
+  referenceDate: Date = new Date()
+) => {
+  const start = startOfDay(new Date(serviceDate));
+  const today = startOfDay(referenceDate);
+  if (Number.isNaN(start.getTime())) return null;
+
+  const stepMonths = getRenewalMonths(renewalTerm, profilePeriodicity);
+  let next = new Date(start);
+  while (next < today) {
+    next = addMonths(next, stepMonths);
+  }
+  return next;
+};
+
+export const getDaysUntil = (date: Date, referenceDate: Date = new Date()) =>
+  Math.ceil((date.getTime() - startOfDay(referenceDate).getTime()) / DAY_MS);
+
+export const getAlertLevel = (daysUntilRenewal: number): RenewalAlertLevel | null => {
+  if (daysUntilRenewal < 0 || daysUntilRenewal > 60) return null;
+  if (daysUntilRenewal <= 7) return 'D-7';
+  if (daysUntilRenewal <= 30) return 'D-30';
+  return 'D-60';
+};
+
+// Only the most recent service of each client drives its renewal.
+export const getLatestServicesByClient = (services: WorkSafetyService[]) => {
+  const map = new Map<string, WorkSafetyService>();
+  const sortedServices = [...services].sort((a, b) => new Date(b.serviceDate).getTime() - new Date(a.serviceDate).getTime());
+
+  for (const service of sortedServices) {
+    if (!map.has(service.clientId)) {
+      map.set(service.clientId, service);
+    }
+  }
+  return map;
+};
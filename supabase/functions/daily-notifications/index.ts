@@ -0,0 +1,219 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { generateNotifications } from "../_shared/notificationService.ts";
+import { APP_CONFIG_ALERT_RULES_KEY, normalizeAlertRules } from "../_shared/alertRules.ts";
+import {
+  APP_CONFIG_OVERHEAD_DRIVER_TOTALS_KEY,
+  APP_CONFIG_OVERHEAD_POOLS_KEY,
+  buildOverheadAllocation,
+  computeOverheadDriverTotals,
+  normalizeOverheadPools,
+} from "../_shared/overheadAllocation.ts";
+import { QUOTE_RESPONSE_NOTIFICATION_PREFIX } from "../_shared/quoteProposal.ts";
+import { getTravelRates } from "../_shared/calculator.ts";
+import { buildProfitabilitySnapshots } from "../_shared/profitabilitySnapshots.ts";
+import { mapClient } from "../_shared/clientMapper.ts";
+import { APP_CONFIG_GLOBAL_SETTINGS_KEY, DEFAULT_AREA_COSTS, DEFAULT_TASKS, DEFAULT_TURNOVER_BRACKETS } from "../_shared/constants.ts";
+import type { Staff, Task, TurnoverBracket } from "../_shared/types.ts";
+
+const corsHeaders: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-cron-secret",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function mustEnv(name: string): string {
+  const v = Deno.env.get(name);
+  if (!v) throw new Error(`Missing secret/env: ${name}`);
+  return v;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+}
+
+// Same column fallbacks as clientService in the app.
+function mapStaff(db: any): Staff {
+  return {
+    id: db.id,
+    name: db.name || "Sem Nome",
+    role: db.role || "Colaborador",
+    baseSalary: Number(db.base_salary || 0),
+    socialChargesPercent: Number(db.social_charges_percent || 23.75),
+    mealAllowance: Number(db.meal_allowance || 0),
+    otherMonthlyCosts: Number(db.other_monthly_costs || 0),
+    insuranceAnnual: Number(db.insurance_annual || 0),
+    capacityHoursPerMonth: Number(db.capacity_hours_per_month || 160),
+    hourlyCost: Number(db.hourly_cost || 0),
+    assignedAreas: db.assigned_areas || [],
+  } as Staff;
+}
+
+function mapTask(db: any): Task {
+  return {
+    id: db.id,
+    name: db.name,
+    area: db.area,
+    type: db.type,
+    defaultTimeMinutes: db.default_time_minutes,
+    defaultFrequencyPerYear: db.default_frequency_per_year,
+    multiplierLogic: db.multiplier_logic || undefined,
+  };
+}
+
+function mapTurnoverBracket(db: any): TurnoverBracket {
+  return {
+    id: db.id,
+    minTurnover: db.min_turnover,
+    maxTurnover: db.max_turnover,
+    minPercent: db.min_percent,
+    maxPercent: db.max_percent,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const SUPABASE_URL = mustEnv("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = mustEnv("SUPABASE_SERVICE_ROLE_KEY");
+
+    // 🔒 Called by pg_cron with the cron secret, or on demand by a signed-in user.
+    const expectedSecret = Deno.env.get("CRON_SECRET");
+    const cronSecret = req.headers.get("x-cron-secret");
+    if (!expectedSecret || cronSecret !== expectedSecret) {
+      const authHeader = req.headers.get("authorization") || "";
+      const jwt = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : "";
+      const userClient = createClient(SUPABASE_URL, mustEnv("SUPABASE_ANON_KEY"), {
+        global: { headers: { Authorization: `Bearer ${jwt}` } },
+        auth: { persistSession: false },
+      });
+      const { data: userData, error: userErr } = jwt ? await userClient.auth.getUser() : { data: null, error: null };
+      if (userErr || !userData?.user) {
+        return jsonResponse({ error: "Unauthorized" }, 401);
+      }
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+
+    const [clientsRes, staffRes, tasksRes, bracketsRes, rulesRes, overheadRes, settingsRes, existingRes] = await Promise.all([
+      supabase.from("clients").select("*"),
+      supabase.from("staff").select("*"),
+      supabase.from("app_tasks").select("*"),
+      supabase.from("turnover_brackets").select("*").order("min_turnover"),
+      supabase.from("app_config").select("value").eq("key", APP_CONFIG_ALERT_RULES_KEY).maybeSingle(),
+      supabase.from("app_config").select("value").eq("key", APP_CONFIG_OVERHEAD_POOLS_KEY).maybeSingle(),
+      supabase.from("app_config").select("value").eq("key", APP_CONFIG_GLOBAL_SETTINGS_KEY).maybeSingle(),
+      supabase.from("notifications").select("id, resolved_at"),
+    ]);
+    for (const res of [clientsRes, staffRes, tasksRes, bracketsRes, rulesRes, overheadRes, settingsRes, existingRes]) {
+      if (res.error) throw res.error;
+    }
+
+    const clients = (clientsRes.data ?? []).map(mapClient);
+    const staff = (staffRes.data ?? []).map(mapStaff);
+    const tasks = tasksRes.data?.length ? tasksRes.data.map(mapTask) : DEFAULT_TASKS;
+    const brackets = bracketsRes.data?.length ? bracketsRes.data.map(mapTurnoverBracket) : DEFAULT_TURNOVER_BRACKETS;
+    const alertRules = normalizeAlertRules(rulesRes.data?.value ?? null);
+    const overheadPools = normalizeOverheadPools(overheadRes.data?.value ?? null);
+    const travelRates = getTravelRates(settingsRes.data?.value ?? null);
+
+    // Refreshed on every run for users limited to their own clients, who cannot add up the whole office themselves.
+    const driverTotals = computeOverheadDriverTotals(clients, tasks, DEFAULT_AREA_COSTS, staff);
+    const { error: totalsErr } = await supabase.from("app_config").upsert(
+      { key: APP_CONFIG_OVERHEAD_DRIVER_TOTALS_KEY, value: driverTotals },
+      { onConflict: "key" },
+    );
+    if (totalsErr) throw totalsErr;
+
+    // Monthly profitability snapshot: the first run of each month stores every active client; later runs
+    // only add clients created since, and never overwrite a stored month.
+    const snapshots = buildProfitabilitySnapshots(
+      clients, tasks, DEFAULT_AREA_COSTS, staff, brackets, buildOverheadAllocation(overheadPools, driverTotals), travelRates,
+    );
+    for (let i = 0; i < snapshots.length; i += 500) {
+      const { error } = await supabase.from("profitability_snapshots").upsert(
+        snapshots.slice(i, i + 500).map((snapshot) => ({
+          client_id: snapshot.clientId,
+          snapshot_month: snapshot.snapshotMonth,
+          monthly_fee: Number(snapshot.monthlyFee.toFixed(2)),
+          total_annual_revenue: Number(snapshot.totalAnnualRevenue.toFixed(2)),
+          total_annual_cost: Number(snapshot.totalAnnualCost.toFixed(2)),
+          total_annual_hours: Number(snapshot.totalAnnualHours.toFixed(2)),
+          profitability: Number(snapshot.profitability.toFixed(2)),
+          hourly_return: Number(snapshot.hourlyReturn.toFixed(2)),
+          turnover_status: snapshot.turnoverStatus,
+        })),
+        { onConflict: "client_id,snapshot_month", ignoreDuplicates: true },
+      );
+      if (error) throw error;
+    }
+
+    const generated = generateNotifications(clients, tasks, DEFAULT_AREA_COSTS, staff, brackets, alertRules, overheadPools, travelRates);
+    // The generator keys each notification deterministically; keep the first one per id.
+    const uniqueById = new Map(generated.map((note) => [note.id, note]));
+    const now = new Date().toISOString();
+
+    const rows = Array.from(uniqueById.values()).map((note) => ({
+      id: note.id,
+      type: note.type,
+      title: note.title,
+      message: note.message,
+      notification_date: note.date,
+      client_id: note.clientId ?? null,
+      action_label: note.actionLabel ?? null,
+      rule_id: note.ruleId ?? null,
+      last_generated_at: now,
+      resolved_at: null,
+    }));
+
+    const existing = (existingRes.data ?? []) as { id: string; resolved_at: string | null }[];
+    const existingIds = new Set(existing.map((row) => row.id));
+
+    // Upsert in chunks to stay under the request size limit.
+    for (let i = 0; i < rows.length; i += 500) {
+      const { error } = await supabase.from("notifications").upsert(rows.slice(i, i + 500), { onConflict: "id" });
+      if (error) throw error;
+    }
+
+    // An alert that was resolved and now fires again is a new occurrence under the same id:
+    // earlier read/dismiss/snooze states must not hide it.
+    const reopenedIds = existing
+      .filter((row) => row.resolved_at && uniqueById.has(row.id))
+      .map((row) => row.id);
+    for (let i = 0; i < reopenedIds.length; i += 500) {
+      const { error } = await supabase
+        .from("notification_user_states")
+        .delete()
+        .in("notification_id", reopenedIds.slice(i, i + 500));
+      if (error) throw error;
+    }
+
+    // Event notifications (a prospect answering a proposal) are not regenerated, so they are never stale.
+    const staleIds = existing
+      .filter((row) => !row.resolved_at && !uniqueById.has(row.id) && !row.id.startsWith(QUOTE_RESPONSE_NOTIFICATION_PREFIX))
+      .map((row) => row.id);
+    for (let i = 0; i < staleIds.length; i += 500) {
+      const { error } = await supabase
+        .from("notifications")
+        .update({ resolved_at: now })
+        .in("id", staleIds.slice(i, i + 500));
+      if (error) throw error;
+    }
+
+    const created = rows.filter((row) => !existingIds.has(row.id)).length;
+    return jsonResponse({ ok: true, created, updated: rows.length - created, reopened: reopenedIds.length, resolved: staleIds.length });
+  } catch (err: any) {
+    const msg = typeof err?.message === "string" ? err.message : String(err);
+    console.error("daily-notifications error:", msg);
+    return jsonResponse({ ok: false, error: msg }, 500);
+  }
+});
@@ -0,0 +1,265 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  QUOTE_RESPONSE_NOTIFICATION_PREFIX,
+  buildQuoteProposal,
+  isProposalExpired,
+  resolveProposalCompany,
+} from "../_shared/quoteProposal.ts";
+import type { QuoteAcceptanceState, QuoteAcceptanceView, QuoteProposalDocument } from "../_shared/quoteProposal.ts";
+import { APP_CONFIG_GLOBAL_SETTINGS_KEY } from "../_shared/constants.ts";
+import { sendSmtpEmail } from "../_shared/smtp.ts";
+import type { QuoteHistory } from "../_shared/types.ts";
+
+// Backs the public acceptance page of the app: no login, the secret token in the link identifies the quote.
+// Supabase serves edge function HTML as plain text, so the page itself is rendered by the app.
+const LOGO_STORAGE_BUCKET = "attachments";
+const LOGO_STORAGE_PATH = "branding/app-logo";
+const OPEN_STATUSES = ["draft", "sent", "negotiating"];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_TEXT_LENGTH = 1000;
+
+const corsHeaders: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+type RequestBody = {
+  token?: string;
+  action?: "view" | "accept" | "decline";
+  name?: string;
+  comment?: string;
+  confirm?: boolean;
+};
+
+function mustEnv(name: string): string {
+  const v = Deno.env.get(name);
+  if (!v) throw new Error(`Missing secret/env: ${name}`);
+  return v;
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#039;");
+}
+
+function formatEuro(value: number): string {
+  return `${value.toLocaleString("pt-PT", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} €`;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json", "Cache-Control": "no-store" },
+    status,
+  });
+}
+
+function getClientIp(req: Request): string {
+  const forwarded = req.headers.get("x-forwarded-for") || "";
+  return (forwarded.split(",")[0] || req.headers.get("x-real-ip") || req.headers.get("cf-connecting-ip") || "").trim();
+}
+
+function mapQuote(db: any): QuoteHistory {
+  return {
+    id: db.id,
+    created_at: db.created_at,
+    client_name: db.client_name || "",
+    client_nif: db.client_nif || "",
+    client_volume: Number(db.client_volume || 0),
+    employee_count: Number(db.employee_count || 0),
+    document_count: Number(db.document_count || 0),
+    establishments: Number(db.establishments || 1),
+    banks: Number(db.banks || 1),
+    items: Array.isArray(db.items) ? db.items : [],
+    target_margin: Number(db.target_margin || 0),
+    recommended_monthly_fee: Number(db.recommended_monthly_fee || 0),
+    total_annual_cost: Number(db.total_annual_cost || 0),
+    total_annual_hours: Number(db.total_annual_hours || 0),
+    client_sector: db.client_sector || "",
+    status: db.status || "draft",
+    revision: Number(db.revision || 1),
+    parent_quote_id: db.parent_quote_id || null,
+    proposal_presentation_text: db.proposal_presentation_text || null,
+    proposal_conditions_text: db.proposal_conditions_text || null,
+    proposal_sent_at: db.proposal_sent_at || null,
+    proposal_sent_by: db.proposal_sent_by || null,
+    acceptance_token: db.acceptance_token || null,
+    responded_at: db.responded_at || null,
+    response_name: db.response_name || null,
+  };
+}
+
+async function notifyOffice(
+  supabase: ReturnType<typeof createClient>,
+  quote: QuoteHistory,
+  doc: QuoteProposalDocument,
+  accepted: boolean,
+  details: { name: string; comment: string; ip: string; at: string },
+): Promise<void> {
+  const who = quote.client_name || doc.reference;
+  const message = accepted
+    ? `${details.name} aceitou online a proposta ${doc.reference} (${formatEuro(doc.pricing.monthlyFee)}/mês) para ${who}.`
+    : `${who} recusou online a proposta ${doc.reference}.${details.comment ? ` Comentário: ${details.comment}` : ""}`;
+
+  const { error: notificationErr } = await supabase.from("notifications").upsert({
+    id: `${QUOTE_RESPONSE_NOTIFICATION_PREFIX}${quote.id}`,
+    type: accepted ? "success" : "warning",
+    title: accepted ? "Proposta Aceite" : "Proposta Recusada",
+    message,
+    notification_date: details.at.slice(0, 10),
+    client_id: null,
+    action_label: "Ver Propostas",
+    last_generated_at: details.at,
+    resolved_at: null,
+  }, { onConflict: "id" });
+  if (notificationErr) console.error("quote-acceptance: notification failed", notificationErr);
+
+  const officeEmail = quote.proposal_sent_by || (Deno.env.get("SMTP_FROM_EMAIL") || "").trim();
+  if (!officeEmail) return;
+  try {
+    await sendSmtpEmail({
+      to: officeEmail,
+      subject: `${accepted ? "Proposta aceite" : "Proposta recusada"}: ${who} (${doc.reference})`,
+      html: `<div style="font-family:'Segoe UI',Calibri,Arial,Helvetica,sans-serif;font-size:15px;line-height:1.6;color:#111827;">
+        <p>${escapeHtml(message)}</p>
+        <p style="font-size:13px;color:#6B7280;">Data: ${escapeHtml(new Date(details.at).toLocaleString("pt-PT"))}${details.ip ? ` · IP: ${escapeHtml(details.ip)}` : ""}</p>
+      </div>`,
+    });
+  } catch (err) {
+    console.error("quote-acceptance: office email failed", err);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // Links from emails sent before the page moved to the app point here; send them on to it.
+    if (req.method === "GET") {
+      const appUrl = (Deno.env.get("QUOTE_ACCEPTANCE_URL") || Deno.env.get("APP_URL") || "").trim();
+      const token = new URL(req.url).searchParams.get("token") || "";
+      if (!appUrl) return jsonResponse({ error: "Method not allowed" }, 405);
+      return new Response(null, {
+        status: 302,
+        headers: { Location: `${appUrl}${appUrl.includes("?") ? "&" : "?"}proposta=${encodeURIComponent(token)}` },
+      });
+    }
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const body = (await req.json().catch(() => ({}))) as RequestBody;
+    const token = String(body.token || "").trim();
+
+    const SUPABASE_URL = mustEnv("SUPABASE_URL");
+    const supabase = createClient(SUPABASE_URL, mustEnv("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const { data: settingsRow, error: settingsErr } = await supabase
+      .from("app_config")
+      .select("value")
+      .eq("key", APP_CONFIG_GLOBAL_SETTINGS_KEY)
+      .maybeSingle();
+    if (settingsErr) throw settingsErr;
+    const company = resolveProposalCompany(settingsRow?.value ?? null);
+    const { data: logoData } = supabase.storage.from(LOGO_STORAGE_BUCKET).getPublicUrl(LOGO_STORAGE_PATH);
+    const logoUrl = logoData?.publicUrl || "";
+
+    const notFound = () => jsonResponse({ state: "not_found", company, logoUrl, proposal: null } satisfies QuoteAcceptanceView);
+
+    if (!UUID_PATTERN.test(token)) return notFound();
+
+    const [quoteRes, tasksRes] = await Promise.all([
+      supabase.from("quote_history").select("*").eq("acceptance_token", token).maybeSingle(),
+      supabase.from("app_tasks").select("id, name, area"),
+    ]);
+    if (quoteRes.error) throw quoteRes.error;
+    if (tasksRes.error) throw tasksRes.error;
+    if (!quoteRes.data) return notFound();
+
+    const quote = mapQuote(quoteRes.data);
+    // A link from an earlier revision must not answer a quote that has since been revised.
+    const rootId = quote.parent_quote_id || quote.id;
+    const { data: newer, error: newerErr } = await supabase
+      .from("quote_history")
+      .select("id")
+      .or(`id.eq.${rootId},parent_quote_id.eq.${rootId}`)
+      .gt("revision", quote.revision)
+      .limit(1);
+    if (newerErr) throw newerErr;
+    if (newer && newer.length > 0) return notFound();
+
+    const doc = buildQuoteProposal(quote, tasksRes.data || [], company, new Date(quote.proposal_sent_at || quote.created_at));
+    const view = (state: QuoteAcceptanceState, error?: string) =>
+      jsonResponse({
+        state,
+        ...(error ? { error } : {}),
+        company,
+        logoUrl,
+        proposal: {
+          reference: doc.reference,
+          validUntil: doc.validUntil.toISOString(),
+          recipient: doc.recipient,
+          pricing: doc.pricing,
+          scope: doc.scope,
+          terms: doc.terms,
+        },
+      } satisfies QuoteAcceptanceView);
+
+    const closedState = (): QuoteAcceptanceState => {
+      if (quote.responded_at && quote.status === "accepted") return "accepted";
+      if (quote.responded_at && quote.status === "rejected") return "rejected";
+      return "closed";
+    };
+
+    if (!OPEN_STATUSES.includes(quote.status)) return view(closedState());
+    if (isProposalExpired(quote.proposal_sent_at)) return view("expired");
+    if (!body.action || body.action === "view") return view("form");
+
+    const action = body.action;
+    const name = String(body.name || "").replace(/\s+/g, " ").trim().slice(0, 200);
+    const comment = String(body.comment || "").trim().slice(0, MAX_TEXT_LENGTH);
+    if (action !== "accept" && action !== "decline") return view("form");
+    if (action === "accept" && (name.length < 3 || body.confirm !== true)) {
+      return view("form", "Indique o seu nome completo e confirme a aceitação.");
+    }
+
+    const accepted = action === "accept";
+    const at = new Date().toISOString();
+    const ip = getClientIp(req);
+    // Only an open quote can be answered; the status filter also stops a double submit from answering twice,
+    // and the token filter a revision saved in the meantime.
+    const { data: updated, error: updateErr } = await supabase
+      .from("quote_history")
+      .update({
+        status: accepted ? "accepted" : "rejected",
+        status_changed_at: at,
+        responded_at: at,
+        response_name: name || null,
+        response_ip: ip || null,
+        response_comment: comment || null,
+        loss_reason: accepted ? null : "Recusada pelo cliente (online)",
+        accepted_monthly_fee: accepted ? quote.recommended_monthly_fee : null,
+      })
+      .eq("id", quote.id)
+      .eq("acceptance_token", token)
+      .in("status", OPEN_STATUSES)
+      .select("id");
+    if (updateErr) throw updateErr;
+    if (!updated || updated.length === 0) return view(closedState());
+
+    await notifyOffice(supabase, quote, doc, accepted, { name, comment, ip, at });
+    return view(accepted ? "accepted" : "rejected");
+  } catch (error) {
+    console.error("Error in quote-acceptance function:", error);
+    return jsonResponse({ error: "Ocorreu um erro. Tente novamente mais tarde." }, 500);
+  }
+});
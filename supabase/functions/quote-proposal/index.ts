@@ -0,0 +1,555 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from "npm:pdf-lib@1.17.1";
+import { buildQuoteProposal, resolveProposalCompany } from "../_shared/quoteProposal.ts";
+import type { QuoteProposalDocument } from "../_shared/quoteProposal.ts";
+import { APP_CONFIG_GLOBAL_SETTINGS_KEY } from "../_shared/constants.ts";
+import { sendSmtpEmail } from "../_shared/smtp.ts";
+import type { QuoteHistory } from "../_shared/types.ts";
+
+const corsHeaders: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// Same object brandingService uploads the app logo to.
+const LOGO_STORAGE_BUCKET = "attachments";
+const LOGO_STORAGE_PATH = "branding/app-logo";
+
+// A4 in points.
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const FOOTER_HEIGHT = 36;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const BRAND = rgb(0.02, 0.37, 0.27);
+const BRAND_LIGHT = rgb(0.93, 0.98, 0.96);
+const TEXT = rgb(0.12, 0.16, 0.22);
+const MUTED = rgb(0.42, 0.45, 0.5);
+const LINE = rgb(0.82, 0.84, 0.87);
+
+type RequestBody = {
+  action?: "pdf" | "send";
+  quoteId?: string;
+  to?: string;
+  subject?: string;
+  message?: string;
+};
+
+type Layout = {
+  pdf: PDFDocument;
+  font: PDFFont;
+  bold: PDFFont;
+  page: PDFPage;
+  y: number;
+};
+
+function mustEnv(name: string): string {
+  const v = Deno.env.get(name);
+  if (!v) throw new Error(`Missing secret/env: ${name}`);
+  return v;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#039;");
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("pt-PT");
+}
+
+function formatEuro(value: number): string {
+  return `${value.toLocaleString("pt-PT", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} €`;
+}
+
+// The standard PDF fonts only encode WinAnsi; anything else would make pdf-lib throw.
+function pdfSafe(text: string): string {
+  return (text || "")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/\u2026/g, "...")
+    .replace(/\s+/g, " ")
+    .replace(/[^\x20-\x7E\u00A0-\u00FF\u20AC\u2013\u2014\u2022]/g, "");
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const words = pdfSafe(text).split(" ").filter(Boolean);
+  const lines: string[] = [];
+  let current = "";
+  words.forEach((word) => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+}
+
+function addPage(layout: Layout): void {
+  layout.page = layout.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  layout.y = PAGE_HEIGHT - MARGIN;
+}
+
+function ensureSpace(layout: Layout, height: number): void {
+  if (layout.y - height < MARGIN + FOOTER_HEIGHT) addPage(layout);
+}
+
+function drawParagraph(
+  layout: Layout,
+  text: string,
+  options: { size?: number; font?: PDFFont; color?: ReturnType<typeof rgb>; indent?: number; gapAfter?: number } = {},
+): void {
+  const size = options.size ?? 10;
+  const font = options.font ?? layout.font;
+  const indent = options.indent ?? 0;
+  const lineHeight = size * 1.45;
+  wrapText(text, font, size, CONTENT_WIDTH - indent).forEach((line) => {
+    ensureSpace(layout, lineHeight);
+    layout.page.drawText(line, { x: MARGIN + indent, y: layout.y - size, size, font, color: options.color ?? TEXT });
+    layout.y -= lineHeight;
+  });
+  layout.y -= options.gapAfter ?? 6;
+}
+
+function drawSectionTitle(layout: Layout, title: string): void {
+  ensureSpace(layout, 60);
+  layout.y -= 8;
+  layout.page.drawText(pdfSafe(title.toUpperCase()), { x: MARGIN, y: layout.y - 13, size: 13, font: layout.bold, color: BRAND });
+  layout.y -= 20;
+  layout.page.drawLine({ start: { x: MARGIN, y: layout.y }, end: { x: PAGE_WIDTH - MARGIN, y: layout.y }, thickness: 1, color: BRAND });
+  layout.y -= 14;
+}
+
+function drawBullet(layout: Layout, text: string, detail?: string): void {
+  const size = 10;
+  const detailWidth = detail ? layout.font.widthOfTextAtSize(pdfSafe(detail), 9) + 12 : 0;
+  const lines = wrapText(text, layout.font, size, CONTENT_WIDTH - 14 - detailWidth);
+  ensureSpace(layout, lines.length * size * 1.45);
+  lines.forEach((line, index) => {
+    if (index === 0) {
+      layout.page.drawText("•", { x: MARGIN + 2, y: layout.y - size, size, font: layout.bold, color: BRAND });
+      if (detail) {
+        const safeDetail = pdfSafe(detail);
+        layout.page.drawText(safeDetail, {
+          x: PAGE_WIDTH - MARGIN - layout.font.widthOfTextAtSize(safeDetail, 9),
+          y: layout.y - size,
+          size: 9,
+          font: layout.font,
+          color: MUTED,
+        });
+      }
+    }
+    layout.page.drawText(line, { x: MARGIN + 14, y: layout.y - size, size, font: layout.font, color: TEXT });
+    layout.y -= size * 1.45;
+  });
+  layout.y -= 2;
+}
+
+function drawPriceRow(layout: Layout, label: string, value: string, highlight = false): void {
+  const size = highlight ? 12 : 10;
+  const font = highlight ? layout.bold : layout.font;
+  ensureSpace(layout, 24);
+  if (highlight) {
+    layout.page.drawRectangle({ x: MARGIN, y: layout.y - 22, width: CONTENT_WIDTH, height: 24, color: BRAND_LIGHT });
+  }
+  layout.page.drawText(pdfSafe(label), { x: MARGIN + 8, y: layout.y - 15, size, font, color: TEXT });
+  const safeValue = pdfSafe(value);
+  layout.page.drawText(safeValue, {
+    x: PAGE_WIDTH - MARGIN - 8 - font.widthOfTextAtSize(safeValue, size),
+    y: layout.y - 15,
+    size,
+    font,
+    color: highlight ? BRAND : TEXT,
+  });
+  layout.y -= 24;
+  layout.page.drawLine({ start: { x: MARGIN, y: layout.y }, end: { x: PAGE_WIDTH - MARGIN, y: layout.y }, thickness: 0.5, color: LINE });
+}
+
+async function embedLogo(pdf: PDFDocument, bytes: Uint8Array | null): Promise<PDFImage | null> {
+  if (!bytes || bytes.length < 4) return null;
+  try {
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return await pdf.embedPng(bytes);
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return await pdf.embedJpg(bytes);
+  } catch (err) {
+    console.warn("quote-proposal: logo could not be embedded", err);
+  }
+  // SVG/WebP logos are not supported by pdf-lib: the cover falls back to the office name.
+  return null;
+}
+
+function drawCover(layout: Layout, doc: QuoteProposalDocument, logo: PDFImage | null): void {
+  const { page, font, bold } = layout;
+  page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 8, width: PAGE_WIDTH, height: 8, color: BRAND });
+
+  let top = PAGE_HEIGHT - MARGIN;
+  if (logo) {
+    const scale = Math.min(180 / logo.width, 60 / logo.height, 1);
+    page.drawImage(logo, { x: MARGIN, y: top - logo.height * scale, width: logo.width * scale, height: logo.height * scale });
+    top -= logo.height * scale;
+  } else {
+    page.drawText(pdfSafe(doc.company.name), { x: MARGIN, y: top - 22, size: 22, font: bold, color: BRAND });
+    top -= 22;
+  }
+
+  const meta = [
+    `Ref.: ${doc.reference}`,
+    `Data: ${formatDate(doc.issuedAt)}`,
+    `Válida até: ${formatDate(doc.validUntil)}`,
+  ];
+  meta.forEach((line, index) => {
+    const safeLine = pdfSafe(line);
+    page.drawText(safeLine, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(safeLine, 9),
+      y: PAGE_HEIGHT - MARGIN - 10 - index * 13,
+      size: 9,
+      font,
+      color: MUTED,
+    });
+  });
+
+  layout.y = Math.min(top, PAGE_HEIGHT - MARGIN - 50) - 150;
+  page.drawText("PROPOSTA DE SERVIÇOS", { x: MARGIN, y: layout.y, size: 28, font: bold, color: TEXT });
+  layout.y -= 32;
+  page.drawText(pdfSafe("Contabilidade, fiscalidade e apoio à gestão"), { x: MARGIN, y: layout.y, size: 14, font, color: MUTED });
+  layout.y -= 60;
+
+  const boxHeight = doc.recipient.sector ? 96 : 80;
+  page.drawRectangle({ x: MARGIN, y: layout.y - boxHeight, width: CONTENT_WIDTH, height: boxHeight, color: BRAND_LIGHT });
+  page.drawText("PREPARADA PARA", { x: MARGIN + 16, y: layout.y - 22, size: 9, font: bold, color: BRAND });
+  page.drawText(pdfSafe(doc.recipient.name || "Exmo(a). Senhor(a)"), { x: MARGIN + 16, y: layout.y - 44, size: 18, font: bold, color: TEXT });
+  page.drawText(pdfSafe(`NIF: ${doc.recipient.nif || "---"}`), { x: MARGIN + 16, y: layout.y - 64, size: 10, font, color: MUTED });
+  if (doc.recipient.sector) {
+    page.drawText(pdfSafe(`Setor: ${doc.recipient.sector}`), { x: MARGIN + 16, y: layout.y - 80, size: 10, font, color: MUTED });
+  }
+  layout.y -= boxHeight + 40;
+
+  page.drawText(pdfSafe(`SOBRE A ${doc.company.name.toUpperCase()}`), { x: MARGIN, y: layout.y, size: 9, font: bold, color: BRAND });
+  layout.y -= 8;
+  drawParagraph(layout, doc.presentationText, { size: 11 });
+
+  const companyLines = [
+    doc.company.name,
+    doc.company.address,
+    [doc.company.email, doc.company.phone].filter(Boolean).join(" · "),
+    doc.company.nif ? `NIF ${doc.company.nif}` : "",
+  ].filter(Boolean);
+  page.drawLine({ start: { x: MARGIN, y: MARGIN + 64 }, end: { x: PAGE_WIDTH - MARGIN, y: MARGIN + 64 }, thickness: 0.5, color: LINE });
+  companyLines.forEach((line, index) => {
+    page.drawText(pdfSafe(line), {
+      x: MARGIN,
+      y: MARGIN + 48 - index * 13,
+      size: index === 0 ? 10 : 9,
+      font: index === 0 ? bold : font,
+      color: index === 0 ? TEXT : MUTED,
+    });
+  });
+}
+
+async function renderProposalPdf(
+  doc: QuoteProposalDocument,
+  logoBytes: Uint8Array | null,
+  acceptanceUrl: string | null,
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Proposta ${doc.reference}`);
+  pdf.setAuthor(doc.company.name);
+  pdf.setSubject(`Proposta de serviços para ${doc.recipient.name || "cliente"}`);
+
+  const layout: Layout = {
+    pdf,
+    font: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    page: pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]),
+    y: PAGE_HEIGHT - MARGIN,
+  };
+
+  drawCover(layout, doc, await embedLogo(pdf, logoBytes));
+
+  // Scope
+  addPage(layout);
+  drawSectionTitle(layout, "1. Âmbito dos serviços");
+  if (doc.scope.length === 0) {
+    drawParagraph(layout, "O âmbito detalhado será acordado com o cliente.", { color: MUTED });
+  }
+  doc.scope.forEach((area) => {
+    ensureSpace(layout, 40);
+    drawParagraph(layout, area.area, { size: 11, font: layout.bold, gapAfter: 2 });
+    area.items.forEach((item) => drawBullet(layout, item.name, item.detail));
+    layout.y -= 8;
+  });
+  ensureSpace(layout, 60);
+  drawParagraph(layout, "Serviços não incluídos", { size: 11, font: layout.bold, gapAfter: 2 });
+  doc.excludedServices.forEach((item) => drawBullet(layout, item));
+
+  // Pricing
+  drawSectionTitle(layout, "2. Honorários");
+  drawPriceRow(layout, "Avença mensal", `${formatEuro(doc.pricing.monthlyFee)} + IVA`, true);
+  drawPriceRow(layout, `IVA (${doc.pricing.vatRate}%)`, formatEuro(doc.pricing.monthlyFeeWithVat - doc.pricing.monthlyFee));
+  drawPriceRow(layout, "Total mensal com IVA", formatEuro(doc.pricing.monthlyFeeWithVat));
+  drawPriceRow(layout, "Total anual (sem IVA)", formatEuro(doc.pricing.annualFee));
+  layout.y -= 10;
+  drawParagraph(
+    layout,
+    "O valor mensal pressupõe o volume corrente de atividade atualmente conhecido. Alterações relevantes na estrutura operacional, número de colaboradores ou volume documental poderão determinar revisão da avença. Pagamento mensal, até ao dia 8 de cada mês.",
+    { size: 9, color: MUTED },
+  );
+
+  // Terms
+  drawSectionTitle(layout, "3. Condições");
+  doc.terms.forEach((term) => drawBullet(layout, term));
+
+  // Acceptance block stays together on one page.
+  ensureSpace(layout, 230);
+  drawSectionTitle(layout, "4. Aceitação da proposta");
+  drawParagraph(
+    layout,
+    `Em nome de ${doc.recipient.name || "________________________________"}, declara-se a aceitação da presente proposta de prestação de serviços (ref. ${doc.reference}).`,
+  );
+  layout.y -= 10;
+  ["Local e data", "Nome", "Cargo", "Assinatura"].forEach((label) => {
+    layout.page.drawText(pdfSafe(`${label}:`), { x: MARGIN, y: layout.y - 10, size: 10, font: layout.font, color: TEXT });
+    layout.page.drawLine({
+      start: { x: MARGIN + 90, y: layout.y - 12 },
+      end: { x: PAGE_WIDTH - MARGIN, y: layout.y - 12 },
+      thickness: 0.5,
+      color: MUTED,
+    });
+    layout.y -= 34;
+  });
+  if (acceptanceUrl) {
+    layout.y -= 6;
+    drawParagraph(layout, "Pode também aceitar ou recusar esta proposta online, no endereço:", { size: 9, color: MUTED, gapAfter: 2 });
+    drawParagraph(layout, acceptanceUrl, { size: 8, color: BRAND });
+  }
+
+  // Footer on every page but the cover.
+  const pages = pdf.getPages();
+  pages.forEach((page, index) => {
+    if (index === 0) return;
+    const left = pdfSafe(`${doc.company.name} · ${doc.reference}`);
+    const right = `Página ${index + 1} de ${pages.length}`;
+    page.drawLine({ start: { x: MARGIN, y: MARGIN }, end: { x: PAGE_WIDTH - MARGIN, y: MARGIN }, thickness: 0.5, color: LINE });
+    page.drawText(left, { x: MARGIN, y: MARGIN - 14, size: 8, font: layout.font, color: MUTED });
+    page.drawText(pdfSafe(right), {
+      x: PAGE_WIDTH - MARGIN - layout.font.widthOfTextAtSize(pdfSafe(right), 8),
+      y: MARGIN - 14,
+      size: 8,
+      font: layout.font,
+      color: MUTED,
+    });
+  });
+
+  return await pdf.save();
+}
+
+function mapQuote(db: any): QuoteHistory {
+  return {
+    id: db.id,
+    created_at: db.created_at,
+    client_name: db.client_name || "",
+    client_nif: db.client_nif || "",
+    client_volume: Number(db.client_volume || 0),
+    employee_count: Number(db.employee_count || 0),
+    document_count: Number(db.document_count || 0),
+    establishments: Number(db.establishments || 1),
+    banks: Number(db.banks || 1),
+    items: Array.isArray(db.items) ? db.items : [],
+    target_margin: Number(db.target_margin || 0),
+    recommended_monthly_fee: Number(db.recommended_monthly_fee || 0),
+    total_annual_cost: Number(db.total_annual_cost || 0),
+    total_annual_hours: Number(db.total_annual_hours || 0),
+    client_sector: db.client_sector || "",
+    status: db.status || "draft",
+    revision: Number(db.revision || 1),
+    proposal_presentation_text: db.proposal_presentation_text || null,
+    proposal_conditions_text: db.proposal_conditions_text || null,
+  };
+}
+
+// The public page is served by the app (APP_URL) and talks to the quote-acceptance function;
+// QUOTE_ACCEPTANCE_URL can point at another address serving the same app.
+function buildAcceptanceUrl(token: string): string {
+  const base = (Deno.env.get("QUOTE_ACCEPTANCE_URL") || mustEnv("APP_URL")).trim();
+  return `${base}${base.includes("?") ? "&" : "?"}proposta=${encodeURIComponent(token)}`;
+}
+
+function buildEmailHtml(message: string, doc: QuoteProposalDocument, acceptanceUrl: string): string {
+  const paragraphs = message
+    .split(/\n{2,}/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block) => `<p style="margin:0 0 14px 0;">${escapeHtml(block).replace(/\n/g, "<br>")}</p>`)
+    .join("");
+  return `<!doctype html>
+<html lang="pt">
+<body style="margin:0;padding:24px;background:#FFFFFF;">
+  <div style="font-family:'Segoe UI',Calibri,Arial,Helvetica,sans-serif;font-size:15px;line-height:1.6;color:#111827;max-width:640px;">
+    ${paragraphs}
+    <p style="margin:22px 0;">
+      <a href="${escapeHtml(acceptanceUrl)}" style="display:inline-block;padding:12px 22px;background:#065F46;color:#FFFFFF;text-decoration:none;border-radius:8px;font-weight:600;">Responder à proposta online</a>
+    </p>
+    <p style="margin:18px 0 0 0;font-size:12px;color:#6B7280;">
+      ${escapeHtml(doc.company.name)} · ${escapeHtml(doc.company.address)}<br>
+      ${escapeHtml([doc.company.email, doc.company.phone].filter(Boolean).join(" · "))}
+    </p>
+  </div>
+</body>
+</html>`;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const SUPABASE_URL = mustEnv("SUPABASE_URL");
+    const authHeader = req.headers.get("authorization") || "";
+    const jwt = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : "";
+    if (!jwt) {
+      return jsonResponse({ error: "Missing Authorization header" }, 401);
+    }
+
+    // Quotes are read and updated as the signed-in user, so RLS applies.
+    const supabase = createClient(SUPABASE_URL, mustEnv("SUPABASE_ANON_KEY"), {
+      global: { headers: { Authorization: `Bearer ${jwt}` } },
+      auth: { persistSession: false },
+    });
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData?.user) {
+      return jsonResponse({ error: "Invalid JWT" }, 401);
+    }
+
+    const body = (await req.json().catch(() => ({}))) as RequestBody;
+    const action = body.action === "send" ? "send" : "pdf";
+    if (!body.quoteId) {
+      return jsonResponse({ ok: false, error: "Missing required field: quoteId" }, 400);
+    }
+
+    const to = (body.to || "").trim();
+    if (action === "send" && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(to)) {
+      return jsonResponse({ ok: false, error: "Email do destinatário inválido." }, 400);
+    }
+
+    const [quoteRes, tasksRes] = await Promise.all([
+      supabase.from("quote_history").select("*").eq("id", body.quoteId).maybeSingle(),
+      supabase.from("app_tasks").select("id, name, area"),
+    ]);
+    if (quoteRes.error) throw quoteRes.error;
+    if (tasksRes.error) throw tasksRes.error;
+    if (!quoteRes.data) {
+      return jsonResponse({ ok: false, error: "Proposta não encontrada." }, 404);
+    }
+
+    if (action === "send") {
+      const rootId = quoteRes.data.parent_quote_id || quoteRes.data.id;
+      const { data: newer, error: newerErr } = await supabase
+        .from("quote_history")
+        .select("id")
+        .or(`id.eq.${rootId},parent_quote_id.eq.${rootId}`)
+        .gt("revision", Number(quoteRes.data.revision || 1))
+        .limit(1);
+      if (newerErr) throw newerErr;
+      if (newer && newer.length > 0) {
+        return jsonResponse({ ok: false, error: "Esta proposta tem uma revisão mais recente; envie a última versão." }, 409);
+      }
+    }
+
+    // The logo object and the office settings may sit behind policies the user cannot read; fetch them with the service role.
+    const admin = createClient(SUPABASE_URL, mustEnv("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const { data: logoBlob } = await admin.storage.from(LOGO_STORAGE_BUCKET).download(LOGO_STORAGE_PATH);
+    const logoBytes = logoBlob ? new Uint8Array(await logoBlob.arrayBuffer()) : null;
+
+    // The office identity comes from the stored settings, never from the caller.
+    const { data: settingsRow, error: settingsErr } = await admin
+      .from("app_config")
+      .select("value")
+      .eq("key", APP_CONFIG_GLOBAL_SETTINGS_KEY)
+      .maybeSingle();
+    if (settingsErr) throw settingsErr;
+    const company = resolveProposalCompany(settingsRow?.value ?? null);
+
+    // Sending (re)uses the quote's token so links from earlier emails keep working.
+    const acceptanceToken: string | null = quoteRes.data.acceptance_token || (action === "send" ? crypto.randomUUID() : null);
+    const acceptanceUrl = acceptanceToken ? buildAcceptanceUrl(acceptanceToken) : null;
+    if (acceptanceToken && !quoteRes.data.acceptance_token) {
+      // Stored before the email goes out, so the link works even if a later step fails.
+      const { error: tokenErr } = await supabase
+        .from("quote_history")
+        .update({ acceptance_token: acceptanceToken })
+        .eq("id", body.quoteId);
+      if (tokenErr) throw tokenErr;
+    }
+
+    const doc = buildQuoteProposal(mapQuote(quoteRes.data), tasksRes.data || [], company);
+    const pdfBytes = await renderProposalPdf(doc, logoBytes, acceptanceUrl);
+    const pdfBase64 = encodeBase64(pdfBytes);
+    const fileName = `Proposta-${doc.reference}.pdf`;
+
+    if (action === "pdf") {
+      return jsonResponse({ ok: true, fileName, pdfBase64 });
+    }
+
+    const subject = (body.subject || "").trim() || `Proposta de serviços — ${doc.recipient.name || doc.reference}`;
+    const message = (body.message || "").trim()
+      || `Exmos. Senhores,\n\nEnviamos em anexo a nossa proposta de prestação de serviços (ref. ${doc.reference}), válida até ${formatDate(doc.validUntil)}.\n\nCom os melhores cumprimentos,\n${doc.company.name}`;
+
+    await sendSmtpEmail({
+      to,
+      subject,
+      html: buildEmailHtml(message, doc, acceptanceUrl!),
+      fromName: doc.company.name,
+      replyTo: userData.user.email || undefined,
+      attachments: [{ filename: fileName, base64: pdfBase64, contentType: "application/pdf" }],
+    });
+
+    const sentAt = new Date().toISOString();
+    const update: Record<string, unknown> = {
+      proposal_sent_at: sentAt,
+      proposal_sent_to: to,
+      proposal_sent_by: userData.user.email || null,
+      acceptance_token: acceptanceToken,
+    };
+    if (quoteRes.data.status === "draft" || !quoteRes.data.status) {
+      update.status = "sent";
+      update.status_changed_at = sentAt;
+    }
+    const { data: updated, error: updateErr } = await supabase
+      .from("quote_history")
+      .update(update)
+      .eq("id", body.quoteId)
+      .select()
+      .single();
+    if (updateErr) throw updateErr;
+
+    return jsonResponse({ ok: true, fileName, quote: updated });
+  } catch (error) {
+    console.error("Error in quote-proposal function:", error);
+    return jsonResponse({ ok: false, error: (error as Error)?.message ?? "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,419 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import webpush from "npm:web-push@3.6.7";
+import { getFeeForMonth } from "../_shared/calculator.ts";
+import { buildClientLedger } from "../_shared/cashierLedger.ts";
+import { mapClient } from "../_shared/clientMapper.ts";
+import { sendSmtpEmail } from "../_shared/smtp.ts";
+import { getAlertLevel, getDaysUntil, getLatestServicesByClient, getNextRenewalDate, startOfDay } from "../_shared/workSafetyRenewal.ts";
+import type { CashAgreement, CashPayment, ClientFeeChange, WorkSafetyService } from "../_shared/types.ts";
+
+const corsHeaders: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-cron-secret",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// Insurance policies renewing within this many days are listed.
+const INSURANCE_RENEWAL_WINDOW_DAYS = 30;
+// Contracts that lapsed within this many days are listed.
+const EXPIRED_CONTRACT_WINDOW_DAYS = 30;
+// Cash fees are charged with VAT, as in the Cashier grid.
+const CASH_VAT_MULTIPLIER = 1.23;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DigestStaff = {
+  id: string;
+  name: string;
+  email: string;
+};
+
+type DigestItem = {
+  clientName: string;
+  text: string;
+};
+
+type DigestSection = {
+  key: "alerts" | "expired" | "worksafety" | "insurance" | "cash";
+  title: string;
+  items: DigestItem[];
+};
+
+type PushSubscriptionRow = {
+  endpoint: string;
+  user_email: string;
+  p256dh: string;
+  auth: string;
+};
+
+const SECTION_TITLES: Record<DigestSection["key"], string> = {
+  alerts: "Alertas críticos",
+  expired: "Contratos expirados",
+  worksafety: "Renovações SHT (D-7)",
+  insurance: "Seguros a renovar",
+  cash: "Mensalidades em atraso (caixa)",
+};
+
+function mustEnv(name: string): string {
+  const v = Deno.env.get(name);
+  if (!v) throw new Error(`Missing secret/env: ${name}`);
+  return v;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#039;");
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("pt-PT");
+}
+
+function formatEuro(value: number): string {
+  return `${value.toFixed(2).replace(".", ",")} €`;
+}
+
+function mapWorkSafetyService(db: any): WorkSafetyService {
+  return {
+    id: db.id,
+    clientId: db.client_id,
+    clientName: "",
+    serviceDate: db.service_date,
+    renewalTerm: db.renewal_term,
+    provider: db.provider,
+    totalValue: db.total_value,
+    hasCommission: db.has_commission,
+    isCommissionPaid: db.is_commission_paid,
+    proposalStatus: db.proposal_status,
+    profileData: db.profile_data && typeof db.profile_data === "object" ? db.profile_data : {},
+  } as WorkSafetyService;
+}
+
+function mapCashPayment(db: any): Partial<CashPayment> {
+  return {
+    id: db.id,
+    clientId: db.client_id,
+    paymentYear: db.payment_year,
+    paymentMonth: db.payment_month,
+    amountPaid: db.amount_paid,
+  };
+}
+
+function mapCashAgreement(db: any): CashAgreement {
+  return {
+    id: db.id,
+    clientId: db.client_id,
+    agreementYear: db.agreement_year,
+    paidUntilMonth: db.paid_until_month,
+    monthlyAmount: db.monthly_amount,
+    debtAmount: db.debt_amount,
+    status: db.status || "Ativo",
+  } as CashAgreement;
+}
+
+function mapFeeChange(db: any): ClientFeeChange {
+  return {
+    id: db.id,
+    clientId: db.client_id,
+    previousFee: db.previous_fee === null || db.previous_fee === undefined ? null : Number(db.previous_fee),
+    monthlyFee: Number(db.monthly_fee || 0),
+    effectiveFrom: db.effective_from,
+    createdAt: db.created_at,
+  } as ClientFeeChange;
+}
+
+// Insurance renewal dates are anniversaries: roll the stored date forward a year at a time.
+function getNextAnniversary(isoDate: string | null, today: Date): Date | null {
+  if (!isoDate) return null;
+  const anchor = startOfDay(new Date(isoDate));
+  if (Number.isNaN(anchor.getTime())) return null;
+  let next = anchor;
+  let years = 0;
+  while (next < today) {
+    years += 1;
+    next = new Date(anchor.getFullYear() + years, anchor.getMonth(), anchor.getDate());
+  }
+  return next;
+}
+
+function renderDigestHtml(member: DigestStaff, sections: DigestSection[], today: Date, appUrl: string): string {
+  const blocks = sections.map((section) => `
+    <h3 style="margin:24px 0 8px 0;font-size:16px;color:#111827;">${escapeHtml(section.title)} (${section.items.length})</h3>
+    <ul style="margin:0 0 12px 22px;padding:0;">
+      ${section.items.map((item) => `<li style="margin:0 0 6px 0;"><strong>${escapeHtml(item.clientName)}</strong> — ${escapeHtml(item.text)}</li>`).join("")}
+    </ul>`).join("");
+
+  return `<!doctype html>
+<html lang="pt">
+<head><meta charset="utf-8" /><meta name="viewport" content="width=device-width, initial-scale=1" /><title>Resumo diário</title></head>
+<body style="margin:0;padding:24px 22px;background:#FFFFFF;">
+  <div style="font-family:'Segoe UI',Calibri,Arial,Helvetica,sans-serif;font-size:15px;line-height:1.55;color:#111827;">
+    <p style="margin:0 0 16px 0;">Olá ${escapeHtml(member.name)},</p>
+    <p style="margin:0 0 16px 0;">Resumo dos alertas dos seus clientes em ${formatDate(today)}:</p>
+    ${blocks}
+    ${appUrl ? `<p style="margin:24px 0 0 0;"><a href="${escapeHtml(appUrl)}" style="color:#2563EB;">Abrir a aplicação</a></p>` : ""}
+  </div>
+</body>
+</html>`;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const SUPABASE_URL = mustEnv("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = mustEnv("SUPABASE_SERVICE_ROLE_KEY");
+
+    // 🔒 Called by pg_cron with the cron secret, or on demand by an admin (it mails every staff member).
+    const expectedSecret = Deno.env.get("CRON_SECRET");
+    const cronSecret = req.headers.get("x-cron-secret");
+    if (!expectedSecret || cronSecret !== expectedSecret) {
+      const authHeader = req.headers.get("authorization") || "";
+      const jwt = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : "";
+      const userClient = createClient(SUPABASE_URL, mustEnv("SUPABASE_ANON_KEY"), {
+        global: { headers: { Authorization: `Bearer ${jwt}` } },
+        auth: { persistSession: false },
+      });
+      const { data: userData, error: userErr } = jwt ? await userClient.auth.getUser() : { data: null, error: null };
+      if (userErr || !userData?.user) {
+        return jsonResponse({ error: "Unauthorized" }, 401);
+      }
+      const { data: isAdmin, error: roleErr } = await userClient.rpc("has_app_permission", { p_permission: "manage_roles" });
+      if (roleErr) throw roleErr;
+      if (!isAdmin) {
+        return jsonResponse({ error: "Forbidden" }, 403);
+      }
+    }
+
+    // Optional { staffId } limits the run to one staff member (ex: to preview a digest).
+    const body = await req.json().catch(() => ({}));
+    const onlyStaffId: string | null = typeof body?.staffId === "string" && body.staffId ? body.staffId : null;
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+
+    const [
+      staffRes, clientsRes, notificationsRes, safetyRes, insuranceRes,
+      paymentsRes, agreementsRes, feeHistoryRes, groupsRes, userRolesRes, subscriptionsRes,
+    ] = await Promise.all([
+      supabase.from("staff").select("id, name, email"),
+      supabase.from("clients").select("*"),
+      supabase.from("notifications").select("id, title, message, client_id, assigned_staff_id").is("resolved_at", null).not("rule_id", "is", null).eq("type", "critical"),
+      supabase.from("work_safety_services").select("*"),
+      supabase.from("insurance_policies").select("id, client_id, policy_holder, policy_number, branch, policy_type, company, insurance_provider, renewal_date, policy_date, status").eq("status", "Aceite").not("client_id", "is", null),
+      supabase.from("cash_payments").select("id, client_id, payment_year, payment_month, amount_paid"),
+      supabase.from("cash_payment_agreements").select("*"),
+      supabase.from("client_fee_history").select("*"),
+      supabase.from("fee_groups").select("name, client_ids"),
+      supabase.from("app_user_roles").select("email, staff_id").not("staff_id", "is", null),
+      supabase.from("push_subscriptions").select("endpoint, user_email, p256dh, auth"),
+    ]);
+    for (const res of [
+      staffRes, clientsRes, notificationsRes, safetyRes, insuranceRes,
+      paymentsRes, agreementsRes, feeHistoryRes, groupsRes, userRolesRes, subscriptionsRes,
+    ]) {
+      if (res.error) throw res.error;
+    }
+
+    const today = startOfDay(new Date());
+    const staff: DigestStaff[] = (staffRes.data ?? [])
+      .map((db: any) => ({ id: db.id, name: db.name || "Sem Nome", email: (db.email || "").trim().toLowerCase() }))
+      .filter((member: DigestStaff) => !onlyStaffId || member.id === onlyStaffId);
+    const clients = (clientsRes.data ?? []).map(mapClient).filter((client) => client.status !== "Inativo");
+    const clientsById = new Map(clients.map((client) => [client.id, client]));
+
+    // clients.responsavel_interno_id holds the staff id; older rows may still hold the name.
+    const staffIdByKey = new Map<string, string>();
+    (staffRes.data ?? []).forEach((db: any) => {
+      staffIdByKey.set(db.id, db.id);
+      if (db.name) staffIdByKey.set(db.name, db.id);
+    });
+    const getClientStaffId = (clientId: string | null | undefined) => {
+      const client = clientId ? clientsById.get(clientId) : undefined;
+      return client ? staffIdByKey.get(client.responsibleStaff) ?? null : null;
+    };
+
+    const itemsByStaff = new Map<string, Map<DigestSection["key"], DigestItem[]>>();
+    const addItem = (staffId: string | null, key: DigestSection["key"], item: DigestItem) => {
+      if (!staffId) return;
+      const sections = itemsByStaff.get(staffId) ?? new Map<DigestSection["key"], DigestItem[]>();
+      sections.set(key, [...(sections.get(key) ?? []), item]);
+      itemsByStaff.set(staffId, sections);
+    };
+
+    // 1. Open critical alerts raised by the alert rules, as stored by daily-notifications.
+    (notificationsRes.data ?? []).forEach((note: any) => {
+      const client = note.client_id ? clientsById.get(note.client_id) : undefined;
+      if (!client) return;
+      addItem(note.assigned_staff_id || getClientStaffId(client.id), "alerts", { clientName: client.name, text: `${note.title}: ${note.message}` });
+    });
+
+    // 2. Contracts that lapsed recently, whatever the alert rules are configured to flag.
+    clients.forEach((client) => {
+      const renewalDate = client.contractRenewalDate ? new Date(client.contractRenewalDate) : null;
+      if (!renewalDate || Number.isNaN(renewalDate.getTime())) return;
+      const daysUntilRenewal = getDaysUntil(renewalDate, today);
+      if (daysUntilRenewal > 0 || daysUntilRenewal <= -EXPIRED_CONTRACT_WINDOW_DAYS) return;
+      addItem(getClientStaffId(client.id), "expired", { clientName: client.name, text: `contrato venceu a ${formatDate(renewalDate)}` });
+    });
+
+    // 3. WorkSafety renewals at D-7 (latest service of each client with employees).
+    const latestServices = getLatestServicesByClient((safetyRes.data ?? []).map(mapWorkSafetyService));
+    latestServices.forEach((service, clientId) => {
+      const client = clientsById.get(clientId);
+      if (!client || client.employeeCount <= 0) return;
+      const nextRenewal = getNextRenewalDate(service.serviceDate, service.renewalTerm, service.profileData?.providerPeriodicity, today);
+      if (!nextRenewal) return;
+      const daysUntilRenewal = getDaysUntil(nextRenewal, today);
+      if (getAlertLevel(daysUntilRenewal) !== "D-7") return;
+      addItem(getClientStaffId(clientId), "worksafety", {
+        clientName: client.name,
+        text: `renovação a ${formatDate(nextRenewal)} (${daysUntilRenewal === 0 ? "hoje" : `${daysUntilRenewal} dias`})${service.provider ? ` · ${service.provider}` : ""}`,
+      });
+    });
+
+    // 4. Insurance policies renewing soon.
+    (insuranceRes.data ?? []).forEach((policy: any) => {
+      const client = clientsById.get(policy.client_id);
+      if (!client) return;
+      const nextRenewal = getNextAnniversary(policy.renewal_date || policy.policy_date, today);
+      if (!nextRenewal) return;
+      const daysUntilRenewal = Math.round((nextRenewal.getTime() - today.getTime()) / DAY_MS);
+      if (daysUntilRenewal > INSURANCE_RENEWAL_WINDOW_DAYS) return;
+      const branch = policy.branch || policy.policy_type || "Apólice";
+      const company = policy.company || policy.insurance_provider;
+      addItem(getClientStaffId(client.id), "insurance", {
+        clientName: client.name,
+        text: `${branch}${policy.policy_number ? ` nº ${policy.policy_number}` : ""}${company ? ` (${company})` : ""} renova a ${formatDate(nextRenewal)}`,
+      });
+    });
+
+    // 5. Unpaid months of the cash-paying clients (same ledger as the Cashier).
+    const cashGroup = (groupsRes.data ?? []).find((group: any) => String(group.name || "").toLowerCase().includes("pagamento numerário"));
+    if (cashGroup) {
+      const payments = (paymentsRes.data ?? []).map(mapCashPayment);
+      const agreements = (agreementsRes.data ?? []).map(mapCashAgreement);
+      const feeHistory = (feeHistoryRes.data ?? []).map(mapFeeChange);
+      ((cashGroup.client_ids ?? []) as string[]).forEach((clientId) => {
+        const client = clientsById.get(clientId);
+        if (!client) return;
+        const ledger = buildClientLedger({
+          clientId,
+          payments,
+          agreements,
+          getExpectedAmount: (year, month) => getFeeForMonth(client, feeHistory, year, month) * CASH_VAT_MULTIPLIER,
+          today,
+        });
+        // Only months already past their due date (the last day of the month).
+        const unpaid = ledger.entries.filter((entry) => entry.outstanding > 0 && entry.daysOverdue > 0);
+        if (unpaid.length === 0) return;
+        const total = unpaid.reduce((sum, entry) => sum + entry.outstanding, 0);
+        addItem(getClientStaffId(clientId), "cash", {
+          clientName: client.name,
+          text: `${unpaid.length} ${unpaid.length === 1 ? "mês" : "meses"} por pagar (${formatEuro(total)}), desde ${String(unpaid[0].month).padStart(2, "0")}/${unpaid[0].year}`,
+        });
+      });
+    }
+
+    // Each staff member is reached at their staff email and at any login linked to them in Settings,
+    // by email and by push on the browsers those logins subscribed.
+    const emailsByStaff = new Map<string, Set<string>>();
+    staff.forEach((member) => emailsByStaff.set(member.id, new Set(member.email ? [member.email] : [])));
+    (userRolesRes.data ?? []).forEach((row: any) => {
+      emailsByStaff.get(row.staff_id)?.add(String(row.email).toLowerCase());
+    });
+
+    const vapidPublicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+    const vapidPrivateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+    const pushEnabled = Boolean(vapidPublicKey && vapidPrivateKey);
+    if (pushEnabled) {
+      webpush.setVapidDetails(mustEnv("VAPID_SUBJECT"), vapidPublicKey!, vapidPrivateKey!);
+    }
+    const subscriptions = (subscriptionsRes.data ?? []) as PushSubscriptionRow[];
+    const appUrl = Deno.env.get("APP_URL") || "";
+
+    let emailed = 0;
+    let pushed = 0;
+    const failures: string[] = [];
+    const expiredEndpoints: string[] = [];
+
+    for (const member of staff) {
+      const sectionMap = itemsByStaff.get(member.id);
+      if (!sectionMap) continue;
+      const sections: DigestSection[] = (Object.keys(SECTION_TITLES) as DigestSection["key"][])
+        .filter((key) => sectionMap.has(key))
+        .map((key) => ({
+          key,
+          title: SECTION_TITLES[key],
+          items: [...(sectionMap.get(key) ?? [])].sort((a, b) => a.clientName.localeCompare(b.clientName)),
+        }));
+      const totalItems = sections.reduce((sum, section) => sum + section.items.length, 0);
+      const recipients = Array.from(emailsByStaff.get(member.id) ?? []);
+
+      if (recipients.length > 0) {
+        try {
+          await sendSmtpEmail({
+            to: recipients.join(", "),
+            subject: `Resumo diário de alertas (${totalItems}) — ${formatDate(today)}`,
+            html: renderDigestHtml(member, sections, today, appUrl),
+          });
+          emailed += 1;
+        } catch (err: any) {
+          failures.push(`${member.name}: ${err?.message ?? String(err)}`);
+        }
+      }
+
+      if (pushEnabled) {
+        const payload = JSON.stringify({
+          title: `${totalItems} alertas dos seus clientes`,
+          body: sections.map((section) => `${section.title}: ${section.items.length}`).join(" · "),
+          url: appUrl || "/",
+          tag: "staff-digest",
+        });
+        for (const subscription of subscriptions.filter((row) => recipients.includes(row.user_email))) {
+          try {
+            await webpush.sendNotification(
+              { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+              payload
+            );
+            pushed += 1;
+          } catch (err: any) {
+            // 404/410: the browser dropped the subscription.
+            if (err?.statusCode === 404 || err?.statusCode === 410) {
+              expiredEndpoints.push(subscription.endpoint);
+            } else {
+              failures.push(`${member.name} (push): ${err?.message ?? String(err)}`);
+            }
+          }
+        }
+      }
+    }
+
+    if (expiredEndpoints.length > 0) {
+      const { error } = await supabase.from("push_subscriptions").delete().in("endpoint", expiredEndpoints);
+      if (error) console.error("staff-digest: failed to remove expired subscriptions:", error.message);
+    }
+
+    if (failures.length > 0) console.error("staff-digest failures:", failures);
+    return jsonResponse({ ok: true, staff: itemsByStaff.size, emailed, pushed, failures });
+  } catch (err: any) {
+    const msg = typeof err?.message === "string" ? err.message : String(err);
+    console.error("staff-digest error:", msg);
+    return jsonResponse({ ok: false, error: msg }, 500);
+  }
+});
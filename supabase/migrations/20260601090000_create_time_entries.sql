@@ -0,0 +1,31 @@
+create table if not exists public.time_entries (
+  id uuid primary key default gen_random_uuid(),
+  client_id uuid not null references public.clients(id) on delete cascade,
+  task_id text not null,
+  staff_id uuid not null references public.staff(id) on delete cascade,
+  entry_date date not null default current_date,
+  minutes integer not null,
+  notes text null,
+  created_at timestamptz not null default now(),
+  constraint time_entries_minutes_positive check (minutes > 0)
+);
+
+create index if not exists idx_time_entries_client_date
+  on public.time_entries (client_id, entry_date desc);
+
+create index if not exists idx_time_entries_staff_date
+  on public.time_entries (staff_id, entry_date desc);
+
+create index if not exists idx_time_entries_task
+  on public.time_entries (task_id);
+
+alter table public.time_entries enable row level security;
+
+revoke all on table public.time_entries from anon;
+grant select, insert, update, delete on table public.time_entries to authenticated;
+
+create policy "Authenticated users can manage time_entries"
+on public.time_entries for all
+to authenticated
+using (true)
+with check (true);
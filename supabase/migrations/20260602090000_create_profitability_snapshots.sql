@@ -0,0 +1,48 @@
+create table if not exists public.profitability_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  client_id uuid not null references public.clients(id) on delete cascade,
+  snapshot_month date not null,
+  monthly_fee numeric(12,2) not null default 0,
+  total_annual_revenue numeric(14,2) not null default 0,
+  total_annual_cost numeric(14,2) not null default 0,
+  total_annual_hours numeric(10,2) not null default 0,
+  profitability numeric(8,2) not null default 0,
+  hourly_return numeric(12,2) not null default 0,
+  turnover_status text null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint profitability_snapshots_month_first_day check (extract(day from snapshot_month) = 1),
+  constraint profitability_snapshots_turnover_status_check check (
+    turnover_status is null or turnover_status in ('Subavaliado', 'Ajustado', 'Acima da Média')
+  ),
+  unique (client_id, snapshot_month)
+);
+
+create index if not exists idx_profitability_snapshots_month
+  on public.profitability_snapshots (snapshot_month desc);
+
+create or replace function public.set_profitability_snapshots_updated_at()
+returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists trg_profitability_snapshots_updated_at on public.profitability_snapshots;
+create trigger trg_profitability_snapshots_updated_at
+before update on public.profitability_snapshots
+for each row
+execute function public.set_profitability_snapshots_updated_at();
+
+alter table public.profitability_snapshots enable row level security;
+
+revoke all on table public.profitability_snapshots from anon;
+-- Written only by the daily-notifications job (service role); the app reads them.
+grant select on table public.profitability_snapshots to authenticated;
+
+create policy "Authenticated users can manage profitability_snapshots"
+on public.profitability_snapshots for all
+to authenticated
+using (true)
+with check (true);
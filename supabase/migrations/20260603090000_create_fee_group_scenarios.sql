@@ -0,0 +1,22 @@
+create table if not exists public.fee_group_scenarios (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.fee_groups(id) on delete cascade,
+  name text not null,
+  proposed_fees jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  constraint fee_group_scenarios_name_not_blank check (char_length(trim(name)) > 0)
+);
+
+create index if not exists idx_fee_group_scenarios_group
+  on public.fee_group_scenarios (group_id, created_at desc);
+
+alter table public.fee_group_scenarios enable row level security;
+
+revoke all on table public.fee_group_scenarios from anon;
+grant select, insert, update, delete on table public.fee_group_scenarios to authenticated;
+
+create policy "Authenticated users can manage fee_group_scenarios"
+on public.fee_group_scenarios for all
+to authenticated
+using (true)
+with check (true);
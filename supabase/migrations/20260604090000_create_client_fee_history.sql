@@ -0,0 +1,151 @@
+create table if not exists public.client_fee_history (
+  id uuid primary key default gen_random_uuid(),
+  client_id uuid not null references public.clients(id) on delete cascade,
+  previous_fee numeric(12,2) null,
+  monthly_fee numeric(12,2) not null,
+  effective_from date not null default current_date,
+  reason text null,
+  source text not null default 'manual',
+  source_id text null,
+  changed_by text null default (auth.jwt() ->> 'email'),
+  created_at timestamptz not null default now(),
+  constraint client_fee_history_fee_non_negative check (monthly_fee >= 0),
+  constraint client_fee_history_source_check check (source in ('manual', 'fee_group', 'quote', 'import'))
+);
+
+create index if not exists idx_client_fee_history_client_effective
+  on public.client_fee_history (client_id, effective_from);
+
+-- Seed the current fee of every client so the history has a starting point.
+insert into public.client_fee_history (client_id, previous_fee, monthly_fee, effective_from, reason, source, changed_by)
+select c.id, null, coalesce(c.monthly_fee, 0), current_date, 'Avença em vigor à data da criação do histórico', 'import', null
+from public.clients c
+where coalesce(c.monthly_fee, 0) > 0
+  and not exists (select 1 from public.client_fee_history h where h.client_id = c.id);
+
+alter table public.client_fee_history enable row level security;
+
+revoke all on table public.client_fee_history from anon;
+grant select, insert on table public.client_fee_history to authenticated;
+
+-- Audit trail: rows can be added and read, never edited or removed from the app.
+create policy "Authenticated users can read client_fee_history"
+on public.client_fee_history for select
+to authenticated
+using (true);
+
+create policy "Authenticated users can insert client_fee_history"
+on public.client_fee_history for insert
+to authenticated
+with check (true);
+
+-- Saves a client and, when its fee changes, the matching history row in one transaction.
+-- p_client holds clients columns (unknown keys are ignored; missing ones are left untouched on update).
+-- A fee dated in the future is only recorded in the history: the client keeps the fee in force until
+-- apply_due_client_fees copies it over on that date.
+create or replace function public.upsert_client_with_fee_history(p_client jsonb, p_fee_change jsonb default '{}'::jsonb)
+returns public.clients
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_client_id uuid := (p_client ->> 'id')::uuid;
+  v_effective_from date := coalesce(nullif(p_fee_change ->> 'effective_from', '')::date, current_date);
+  v_new_fee numeric := coalesce((p_client ->> 'monthly_fee')::numeric, 0);
+  v_previous_fee numeric;
+  v_exists boolean;
+  v_columns text;
+  v_updates text;
+  v_saved public.clients;
+begin
+  select coalesce(monthly_fee, 0) into v_previous_fee
+  from public.clients
+  where id = v_client_id
+  for update;
+  v_exists := found;
+
+  if v_exists and p_client ? 'monthly_fee' and v_effective_from > current_date then
+    p_client := p_client || jsonb_build_object('monthly_fee', v_previous_fee);
+  end if;
+
+  select
+    string_agg(format('%I', c.column_name), ', '),
+    string_agg(format('%I = excluded.%I', c.column_name, c.column_name), ', ') filter (where c.column_name <> 'id')
+  into v_columns, v_updates
+  from information_schema.columns c
+  where c.table_schema = 'public'
+    and c.table_name = 'clients'
+    and p_client ? c.column_name;
+
+  execute format(
+    'insert into public.clients (%s) select %s from jsonb_populate_record(null::public.clients, $1) '
+      || 'on conflict (id) do update set %s returning *',
+    v_columns, v_columns, coalesce(v_updates, 'id = excluded.id')
+  )
+  into v_saved
+  using p_client;
+
+  -- Every fee change lands in the audit trail, whichever screen made it.
+  if p_client ? 'monthly_fee'
+    and (case when v_exists then v_previous_fee <> v_new_fee else v_new_fee > 0 end) then
+    insert into public.client_fee_history (client_id, previous_fee, monthly_fee, effective_from, reason, source, source_id)
+    values (
+      v_saved.id,
+      case when v_exists then v_previous_fee else null end,
+      v_new_fee,
+      v_effective_from,
+      nullif(btrim(p_fee_change ->> 'reason'), ''),
+      coalesce(nullif(p_fee_change ->> 'source', ''), 'manual'),
+      nullif(p_fee_change ->> 'source_id', '')
+    );
+  end if;
+
+  return v_saved;
+end;
+$$;
+
+revoke execute on function public.upsert_client_with_fee_history(jsonb, jsonb) from anon;
+grant execute on function public.upsert_client_with_fee_history(jsonb, jsonb) to authenticated;
+
+-- Copies the fee in force today onto the client row once a scheduled change reaches its date.
+create or replace function public.apply_due_client_fees()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_updated integer;
+begin
+  with in_force as (
+    select distinct on (h.client_id) h.client_id, h.monthly_fee
+    from public.client_fee_history h
+    where h.effective_from <= current_date
+    order by h.client_id, h.effective_from desc, h.created_at desc
+  )
+  update public.clients c
+  set monthly_fee = f.monthly_fee
+  from in_force f
+  where f.client_id = c.id
+    and c.monthly_fee is distinct from f.monthly_fee;
+  get diagnostics v_updated = row_count;
+  return v_updated;
+end;
+$$;
+
+revoke execute on function public.apply_due_client_fees() from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+do $$
+begin
+  if exists (select 1 from cron.job where jobname = 'apply-due-client-fees') then
+    perform cron.unschedule('apply-due-client-fees');
+  end if;
+end $$;
+
+select cron.schedule(
+  'apply-due-client-fees',
+  '5 0 * * *',
+  $$ select public.apply_due_client_fees(); $$
+);
@@ -0,0 +1,37 @@
+create table if not exists public.bank_statement_lines (
+  id uuid primary key default gen_random_uuid(),
+  fingerprint text not null,
+  statement_date date not null,
+  description text not null default '',
+  amount numeric(12,2) not null,
+  reference text null,
+  channel text not null default 'other',
+  source_format text not null default 'csv',
+  status text not null default 'pending',
+  client_id uuid null references public.clients(id) on delete set null,
+  cash_payment_id uuid null references public.cash_payments(id) on delete set null,
+  imported_at timestamptz not null default now(),
+  reconciled_at timestamptz null,
+  constraint bank_statement_lines_fingerprint_key unique (fingerprint),
+  constraint bank_statement_lines_channel_check check (channel in ('mbway', 'transfer', 'other')),
+  constraint bank_statement_lines_source_format_check check (source_format in ('csv', 'camt053')),
+  constraint bank_statement_lines_status_check check (status in ('pending', 'matched', 'ignored'))
+);
+
+create index if not exists idx_bank_statement_lines_status
+  on public.bank_statement_lines (status, statement_date desc);
+
+create index if not exists idx_bank_statement_lines_cash_payment
+  on public.bank_statement_lines (cash_payment_id)
+  where cash_payment_id is not null;
+
+alter table public.bank_statement_lines enable row level security;
+
+revoke all on table public.bank_statement_lines from anon;
+grant select, insert, update, delete on table public.bank_statement_lines to authenticated;
+
+create policy "Authenticated users can manage bank_statement_lines"
+on public.bank_statement_lines for all
+to authenticated
+using (true)
+with check (true);
@@ -0,0 +1,154 @@
+create table if not exists public.receipts (
+  id uuid primary key default gen_random_uuid(),
+  series text not null default 'RC',
+  receipt_year integer not null,
+  receipt_number integer not null,
+  issued_at timestamptz not null default now(),
+  client_id uuid null references public.clients(id) on delete set null,
+  client_name text not null,
+  client_nif text null,
+  client_address text null,
+  description text not null default '',
+  amount numeric(12,2) not null,
+  vat_rate numeric(5,2) not null default 23,
+  payment_method text not null,
+  cash_payment_id uuid null references public.cash_payments(id) on delete set null,
+  cash_operation_id uuid null references public.cash_operations(id) on delete set null,
+  report_line_index integer null,
+  status text not null default 'issued',
+  void_reason text null,
+  voided_at timestamptz null,
+  voided_by text null,
+  emailed_to text null,
+  emailed_at timestamptz null,
+  created_by text null default (auth.jwt() ->> 'email'),
+  constraint receipts_series_number_key unique (series, receipt_year, receipt_number),
+  constraint receipts_series_format check (series ~ '^[A-Z0-9]{1,10}$'),
+  constraint receipts_amount_positive check (amount > 0),
+  constraint receipts_status_check check (status in ('issued', 'voided')),
+  constraint receipts_void_reason_required check (status <> 'voided' or length(trim(coalesce(void_reason, ''))) > 0)
+);
+
+-- A payment or report line can only have one valid receipt at a time; voiding frees it again.
+create unique index if not exists idx_receipts_cash_payment_issued
+  on public.receipts (cash_payment_id)
+  where status = 'issued' and cash_payment_id is not null;
+
+create unique index if not exists idx_receipts_operation_line_issued
+  on public.receipts (cash_operation_id, report_line_index)
+  where status = 'issued' and cash_operation_id is not null;
+
+create index if not exists idx_receipts_issued_at
+  on public.receipts (issued_at desc);
+
+-- Receipts are fiscal documents: they are never deleted and only the void/email fields may change.
+create or replace function public.protect_receipts()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    raise exception 'Os recibos não podem ser apagados. Anule o recibo indicando o motivo.';
+  end if;
+
+  if new.series is distinct from old.series
+    or new.receipt_year is distinct from old.receipt_year
+    or new.receipt_number is distinct from old.receipt_number
+    or new.issued_at is distinct from old.issued_at
+    or new.client_name is distinct from old.client_name
+    or new.client_nif is distinct from old.client_nif
+    or new.description is distinct from old.description
+    or new.amount is distinct from old.amount
+    or new.vat_rate is distinct from old.vat_rate
+    or new.payment_method is distinct from old.payment_method then
+    raise exception 'Os dados de um recibo emitido não podem ser alterados.';
+  end if;
+
+  if old.status = 'voided' and new.status <> 'voided' then
+    raise exception 'Um recibo anulado não pode voltar a ser válido.';
+  end if;
+
+  if new.status = 'voided' and old.status = 'issued' then
+    new.voided_at := coalesce(new.voided_at, now());
+    new.voided_by := coalesce(new.voided_by, auth.jwt() ->> 'email');
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_protect_receipts on public.receipts;
+create trigger trg_protect_receipts
+before update or delete on public.receipts
+for each row
+execute function public.protect_receipts();
+
+-- Numbers are allocated under an advisory lock so concurrent issues never share or skip a number.
+create or replace function public.issue_receipt(
+  p_series text,
+  p_client_id uuid,
+  p_client_name text,
+  p_client_nif text,
+  p_client_address text,
+  p_description text,
+  p_amount numeric,
+  p_payment_method text,
+  p_cash_payment_id uuid default null,
+  p_cash_operation_id uuid default null,
+  p_report_line_index integer default null,
+  p_vat_rate numeric default 23
+)
+returns public.receipts
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_series text := upper(trim(coalesce(p_series, 'RC')));
+  v_year integer := extract(year from now())::integer;
+  v_number integer;
+  v_receipt public.receipts;
+begin
+  perform pg_advisory_xact_lock(hashtext('receipts:' || v_series || ':' || v_year));
+
+  select coalesce(max(receipt_number), 0) + 1
+    into v_number
+  from public.receipts
+  where series = v_series
+    and receipt_year = v_year;
+
+  insert into public.receipts (
+    series, receipt_year, receipt_number, client_id, client_name, client_nif, client_address,
+    description, amount, vat_rate, payment_method, cash_payment_id, cash_operation_id, report_line_index
+  )
+  values (
+    v_series, v_year, v_number, p_client_id, p_client_name, nullif(trim(coalesce(p_client_nif, '')), ''), nullif(trim(coalesce(p_client_address, '')), ''),
+    coalesce(p_description, ''), p_amount, coalesce(p_vat_rate, 23), p_payment_method, p_cash_payment_id, p_cash_operation_id, p_report_line_index
+  )
+  returning * into v_receipt;
+
+  return v_receipt;
+end;
+$$;
+
+alter table public.receipts enable row level security;
+
+-- Receipts are only created through issue_receipt, which owns the numbering; from the app only the
+-- void and email fields can be written.
+revoke all on table public.receipts from anon, authenticated;
+grant select on table public.receipts to authenticated;
+grant update (status, void_reason, emailed_to, emailed_at) on table public.receipts to authenticated;
+
+create policy "Authenticated users can read receipts"
+on public.receipts for select
+to authenticated
+using (true);
+
+create policy "Authenticated users can update receipts"
+on public.receipts for update
+to authenticated
+using (true)
+with check (true);
+
+revoke execute on function public.issue_receipt(text, uuid, text, text, text, text, numeric, text, uuid, uuid, integer, numeric) from anon;
+grant execute on function public.issue_receipt(text, uuid, text, text, text, text, numeric, text, uuid, uuid, integer, numeric) to authenticated;
@@ -0,0 +1,133 @@
+create table if not exists public.app_roles (
+  id uuid primary key default gen_random_uuid(),
+  key text not null,
+  name text not null,
+  description text not null default '',
+  views text[] not null default '{}',
+  permissions text[] not null default '{}',
+  data_scope text not null default 'all',
+  is_system boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint app_roles_key_key unique (key),
+  constraint app_roles_data_scope_check check (data_scope in ('all', 'own'))
+);
+
+-- Assignments are keyed by the login email, the only user identity the app can read.
+create table if not exists public.app_user_roles (
+  email text primary key,
+  role_id uuid not null references public.app_roles(id) on delete restrict,
+  staff_id uuid null references public.staff(id) on delete set null,
+  insurance_agent text null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint app_user_roles_email_lowercase check (email = lower(email)),
+  constraint app_user_roles_insurance_agent_check check (insurance_agent is null or insurance_agent in ('MPR', 'Paula'))
+);
+
+create index if not exists idx_app_user_roles_role
+  on public.app_user_roles (role_id);
+
+insert into public.app_roles (key, name, description, views, permissions, data_scope, is_system)
+values
+  (
+    'admin',
+    'Administrador',
+    'Acesso total, incluindo configurações e gestão de permissões.',
+    array['dashboard', 'clients', 'groups', 'insurance', 'sht', 'cashier', 'irs-control', 'emails', 'team', 'tasks', 'calculator', 'settings'],
+    array['view_profitability', 'view_commissions', 'apply_fees', 'close_register', 'manage_roles'],
+    'all',
+    true
+  ),
+  (
+    'staff',
+    'Colaborador',
+    'Perfil por omissão de quem não tem perfil atribuído.',
+    array['clients', 'groups', 'insurance', 'sht', 'cashier', 'irs-control', 'tasks'],
+    array['close_register'],
+    'all',
+    true
+  ),
+  (
+    'insurance_agent',
+    'Mediador de Seguros',
+    'Apenas a área de seguros, limitada às apólices do próprio mediador.',
+    array['insurance'],
+    array[]::text[],
+    'own',
+    false
+  )
+on conflict (key) do nothing;
+
+-- The first administrator comes from configuration, not from the repository:
+--   alter database postgres set app.initial_admin_email = 'admin@example.com';
+-- Every other assignment (insurance agents included) is managed in Settings.
+insert into public.app_user_roles (email, role_id, insurance_agent)
+select lower(trim(current_setting('app.initial_admin_email', true))), id, null
+from public.app_roles
+where key = 'admin'
+  and coalesce(trim(current_setting('app.initial_admin_email', true)), '') <> ''
+on conflict (email) do nothing;
+
+create or replace function public.current_app_role()
+returns public.app_roles
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (
+      select r
+      from public.app_user_roles u
+      join public.app_roles r on r.id = u.role_id
+      where u.email = lower(auth.jwt() ->> 'email')
+    ),
+    (select r from public.app_roles r where r.key = 'staff')
+  );
+$$;
+
+create or replace function public.has_app_permission(p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(p_permission = any((public.current_app_role()).permissions), false);
+$$;
+
+revoke execute on function public.current_app_role() from anon;
+grant execute on function public.current_app_role() to authenticated;
+revoke execute on function public.has_app_permission(text) from anon;
+grant execute on function public.has_app_permission(text) to authenticated;
+
+alter table public.app_roles enable row level security;
+alter table public.app_user_roles enable row level security;
+
+revoke all on table public.app_roles from anon;
+revoke all on table public.app_user_roles from anon;
+grant select, insert, update, delete on table public.app_roles to authenticated;
+grant select, insert, update, delete on table public.app_user_roles to authenticated;
+
+create policy "Authenticated users can read app_roles"
+on public.app_roles for select
+to authenticated
+using (true);
+
+create policy "Role managers can manage app_roles"
+on public.app_roles for all
+to authenticated
+using (public.has_app_permission('manage_roles'))
+with check (public.has_app_permission('manage_roles'));
+
+create policy "Users can read their own app_user_roles"
+on public.app_user_roles for select
+to authenticated
+using (email = lower(auth.jwt() ->> 'email') or public.has_app_permission('manage_roles'));
+
+create policy "Role managers can manage app_user_roles"
+on public.app_user_roles for all
+to authenticated
+using (public.has_app_permission('manage_roles'))
+with check (public.has_app_permission('manage_roles'));
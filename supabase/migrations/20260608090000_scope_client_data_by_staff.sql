@@ -0,0 +1,215 @@
+-- Users whose role has data_scope 'own' only reach the clients they are responsible for or
+-- have tasks assigned on, plus the cash and insurance rows of those clients.
+-- IRS control works on the clients table, so it is scoped through it.
+
+create or replace function public.current_app_assignment()
+returns public.app_user_roles
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select u
+  from public.app_user_roles u
+  where u.email = lower(auth.jwt() ->> 'email');
+$$;
+
+create or replace function public.is_client_in_scope(p_responsible_staff_id uuid, p_tasks jsonb)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when (public.current_app_role()).data_scope is distinct from 'own' then true
+    else coalesce((
+      select a.staff_id is not null and (
+        p_responsible_staff_id = a.staff_id
+        or exists (
+          select 1
+          from jsonb_array_elements(case when jsonb_typeof(p_tasks) = 'array' then p_tasks else '[]'::jsonb end) task
+          where task ->> 'assignedStaffId' = a.staff_id::text
+        )
+      )
+      from (select (public.current_app_assignment()).staff_id) a
+    ), false)
+  end;
+$$;
+
+create or replace function public.can_access_client(p_client_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when (public.current_app_role()).data_scope is distinct from 'own' then true
+    else exists (
+      select 1
+      from public.clients c
+      where c.id = p_client_id
+        and public.is_client_in_scope(c.responsavel_interno_id, to_jsonb(c.tasks))
+    )
+  end;
+$$;
+
+-- Policies follow the client, or the internal responsible agent when the user is linked to one.
+create or replace function public.can_access_insurance_policy(p_client_id uuid, p_internal_responsible text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when (public.current_app_role()).data_scope is distinct from 'own' then true
+    else coalesce(p_internal_responsible = (public.current_app_assignment()).insurance_agent, false)
+      or (p_client_id is not null and public.can_access_client(p_client_id))
+  end;
+$$;
+
+revoke execute on function public.current_app_assignment() from anon;
+grant execute on function public.current_app_assignment() to authenticated;
+revoke execute on function public.is_client_in_scope(uuid, jsonb) from anon;
+grant execute on function public.is_client_in_scope(uuid, jsonb) to authenticated;
+revoke execute on function public.can_access_client(uuid) from anon;
+grant execute on function public.can_access_client(uuid) to authenticated;
+revoke execute on function public.can_access_insurance_policy(uuid, text) from anon;
+grant execute on function public.can_access_insurance_policy(uuid, text) to authenticated;
+
+drop policy if exists "Authenticated users can manage clients" on public.clients;
+drop policy if exists "Authenticated users can manage cash_payments" on public.cash_payments;
+drop policy if exists "Authenticated users can manage cash_payment_agreements" on public.cash_payment_agreements;
+drop policy if exists "Authenticated users can manage insurance_policies" on public.insurance_policies;
+
+create policy "Authenticated users can manage clients in scope"
+on public.clients for all
+to authenticated
+using (public.is_client_in_scope(responsavel_interno_id, to_jsonb(tasks)))
+with check (public.is_client_in_scope(responsavel_interno_id, to_jsonb(tasks)));
+
+create policy "Authenticated users can manage cash_payments in scope"
+on public.cash_payments for all
+to authenticated
+using (public.can_access_client(client_id))
+with check (public.can_access_client(client_id));
+
+create policy "Authenticated users can manage cash_payment_agreements in scope"
+on public.cash_payment_agreements for all
+to authenticated
+using (public.can_access_client(client_id))
+with check (public.can_access_client(client_id));
+
+create policy "Authenticated users can manage insurance_policies in scope"
+on public.insurance_policies for all
+to authenticated
+using (public.can_access_insurance_policy(client_id, coalesce(internal_responsible, agent)))
+with check (public.can_access_insurance_policy(client_id, coalesce(internal_responsible, agent)));
+
+-- Client-linked tables created earlier in the series follow the same rule.
+-- Rows without a client (unmatched bank lines, receipts for loose register lines) stay with 'all'-scope users.
+drop policy if exists "Authenticated users can manage time_entries" on public.time_entries;
+drop policy if exists "Authenticated users can manage profitability_snapshots" on public.profitability_snapshots;
+drop policy if exists "Authenticated users can manage fee_group_scenarios" on public.fee_group_scenarios;
+drop policy if exists "Authenticated users can read client_fee_history" on public.client_fee_history;
+drop policy if exists "Authenticated users can insert client_fee_history" on public.client_fee_history;
+drop policy if exists "Authenticated users can manage bank_statement_lines" on public.bank_statement_lines;
+drop policy if exists "Authenticated users can read receipts" on public.receipts;
+drop policy if exists "Authenticated users can insert receipts" on public.receipts;
+drop policy if exists "Authenticated users can update receipts" on public.receipts;
+
+create policy "Authenticated users can manage time_entries in scope"
+on public.time_entries for all
+to authenticated
+using (public.can_access_client(client_id))
+with check (public.can_access_client(client_id));
+
+create policy "Authenticated users can manage profitability_snapshots in scope"
+on public.profitability_snapshots for all
+to authenticated
+using (public.can_access_client(client_id))
+with check (public.can_access_client(client_id));
+
+-- A scenario carries proposed fees for every client in the group, so all of them must be in scope.
+create or replace function public.can_access_fee_scenario(p_proposed_fees jsonb)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when (public.current_app_role()).data_scope is distinct from 'own' then true
+    else not exists (
+      select 1
+      from jsonb_object_keys(case when jsonb_typeof(p_proposed_fees) = 'object' then p_proposed_fees else '{}'::jsonb end) fee(client_id)
+      where not exists (
+        select 1
+        from public.clients c
+        where c.id::text = fee.client_id
+          and public.is_client_in_scope(c.responsavel_interno_id, to_jsonb(c.tasks))
+      )
+    )
+  end;
+$$;
+
+revoke execute on function public.can_access_fee_scenario(jsonb) from anon;
+grant execute on function public.can_access_fee_scenario(jsonb) to authenticated;
+
+create policy "Authenticated users can manage fee_group_scenarios in scope"
+on public.fee_group_scenarios for all
+to authenticated
+using (public.can_access_fee_scenario(proposed_fees))
+with check (public.can_access_fee_scenario(proposed_fees));
+
+create policy "Authenticated users can read client_fee_history in scope"
+on public.client_fee_history for select
+to authenticated
+using (public.can_access_client(client_id));
+
+create policy "Authenticated users can insert client_fee_history in scope"
+on public.client_fee_history for insert
+to authenticated
+with check (public.can_access_client(client_id));
+
+create policy "Authenticated users can manage bank_statement_lines in scope"
+on public.bank_statement_lines for all
+to authenticated
+using (public.can_access_client(client_id))
+with check (public.can_access_client(client_id));
+
+create policy "Authenticated users can read receipts in scope"
+on public.receipts for select
+to authenticated
+using (public.can_access_client(client_id));
+
+create policy "Authenticated users can update receipts in scope"
+on public.receipts for update
+to authenticated
+using (public.can_access_client(client_id))
+with check (public.can_access_client(client_id));
+
+-- Scoped users only see their own receipts, so numbering has to read the whole series as the owner;
+-- the trigger below keeps the client check that RLS no longer applies inside the function.
+alter function public.issue_receipt(text, uuid, text, text, text, text, numeric, text, uuid, uuid, integer, numeric) security definer;
+
+create or replace function public.check_receipt_client_scope()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null and not public.can_access_client(new.client_id) then
+    raise exception 'Cliente fora do âmbito do utilizador.';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_check_receipt_client_scope on public.receipts;
+create trigger trg_check_receipt_client_scope
+before insert on public.receipts
+for each row
+execute function public.check_receipt_client_scope();
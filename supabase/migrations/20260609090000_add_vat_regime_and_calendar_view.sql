@@ -0,0 +1,23 @@
+-- Null keeps the regime derived from turnover (monthly from 650.000€).
+alter table public.clients
+  add column if not exists vat_regime text;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'clients_vat_regime_valid'
+  ) then
+    alter table public.clients
+    add constraint clients_vat_regime_valid
+    check (vat_regime is null or vat_regime in ('Mensal', 'Trimestral', 'Isento'));
+  end if;
+end $$;
+
+-- The fiscal calendar view is available to the seeded admin and staff roles.
+update public.app_roles
+set views = array_append(views, 'calendar'),
+    updated_at = now()
+where key in ('admin', 'staff')
+  and not ('calendar' = any(views));
@@ -0,0 +1,37 @@
+-- Completion status of each obligation-type catalog task, per client and period (2026-09, 2026-T3 or 2026).
+create table if not exists public.obligation_records (
+  id uuid primary key default gen_random_uuid(),
+  client_id uuid not null references public.clients(id) on delete cascade,
+  task_id text not null,
+  period text not null,
+  status text not null default 'pending',
+  submitted_by_staff_id uuid null references public.staff(id) on delete set null,
+  submitted_at timestamptz null,
+  proof_url text null,
+  proof_name text null,
+  notes text null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint obligation_records_client_task_period_key unique (client_id, task_id, period),
+  constraint obligation_records_status_check check (status in ('pending', 'in_progress', 'submitted', 'paid'))
+);
+
+create index if not exists idx_obligation_records_period
+  on public.obligation_records (period);
+
+alter table public.obligation_records enable row level security;
+
+revoke all on table public.obligation_records from anon;
+grant select, insert, update, delete on table public.obligation_records to authenticated;
+
+create policy "Authenticated users can manage obligation_records in scope"
+on public.obligation_records for all
+to authenticated
+using (public.can_access_client(client_id))
+with check (public.can_access_client(client_id));
+
+update public.app_roles
+set views = array_append(views, 'obligations'),
+    updated_at = now()
+where key in ('admin', 'staff')
+  and not ('obligations' = any(views));
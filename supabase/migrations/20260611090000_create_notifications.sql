@@ -0,0 +1,102 @@
+-- Notifications are generated once a day by the daily-notifications edge function.
+-- The id is the generator's deterministic key (ex: renew-<client id>), so reruns update instead of duplicating.
+create table if not exists public.notifications (
+  id text primary key,
+  type text not null,
+  title text not null,
+  message text not null,
+  notification_date date not null default current_date,
+  client_id uuid null references public.clients(id) on delete cascade,
+  action_label text null,
+  assigned_staff_id uuid null references public.staff(id) on delete set null,
+  created_at timestamptz not null default now(),
+  last_generated_at timestamptz not null default now(),
+  -- Set when a run no longer produces the notification (ex: the fee was corrected).
+  resolved_at timestamptz null,
+  constraint notifications_type_check check (type in ('critical', 'warning', 'info', 'success'))
+);
+
+create index if not exists idx_notifications_open
+  on public.notifications (notification_date desc)
+  where resolved_at is null;
+
+-- Read / dismissed / snoozed state of each notification for each user (login email).
+create table if not exists public.notification_user_states (
+  notification_id text not null references public.notifications(id) on delete cascade,
+  user_email text not null,
+  read_at timestamptz null,
+  dismissed_at timestamptz null,
+  snoozed_until timestamptz null,
+  updated_at timestamptz not null default now(),
+  primary key (notification_id, user_email),
+  constraint notification_user_states_email_lowercase check (user_email = lower(user_email))
+);
+
+alter table public.notifications enable row level security;
+alter table public.notification_user_states enable row level security;
+
+revoke all on table public.notifications from anon;
+revoke all on table public.notification_user_states from anon;
+-- Rows are written by the edge function with the service role; users only (re)assign them.
+grant select on table public.notifications to authenticated;
+grant update (assigned_staff_id) on table public.notifications to authenticated;
+grant select, insert, update, delete on table public.notification_user_states to authenticated;
+
+-- Office-wide rows (no client: deadlines, proposal answers) stay with 'all'-scope users, since
+-- can_access_client(null) is false for scoped ones, unless they were assigned to the user.
+create policy "Authenticated users can read notifications in scope"
+on public.notifications for select
+to authenticated
+using (
+  public.can_access_client(client_id)
+  or coalesce(assigned_staff_id = (public.current_app_assignment()).staff_id, false)
+);
+
+create policy "Authenticated users can assign notifications in scope"
+on public.notifications for update
+to authenticated
+using (
+  public.can_access_client(client_id)
+  or coalesce(assigned_staff_id = (public.current_app_assignment()).staff_id, false)
+)
+with check (
+  public.can_access_client(client_id)
+  or coalesce(assigned_staff_id = (public.current_app_assignment()).staff_id, false)
+);
+
+-- States can only be stored for notifications the user can read (the subquery runs under the policy above).
+create policy "Users can manage their own notification_user_states"
+on public.notification_user_states for all
+to authenticated
+using (user_email = lower(auth.jwt() ->> 'email'))
+with check (
+  user_email = lower(auth.jwt() ->> 'email')
+  and exists (select 1 from public.notifications n where n.id = notification_id)
+);
+
+-- Daily run at 06:00 UTC. Requires the Vault secrets 'project_url' and 'cron_secret'
+-- (the same value as the function's CRON_SECRET).
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+do $$
+begin
+  if exists (select 1 from cron.job where jobname = 'daily-notifications') then
+    perform cron.unschedule('daily-notifications');
+  end if;
+end $$;
+
+select cron.schedule(
+  'daily-notifications',
+  '0 6 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/daily-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (select decrypted_secret from vault.decrypted_secrets where name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
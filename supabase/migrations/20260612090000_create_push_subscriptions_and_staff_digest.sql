@@ -0,0 +1,54 @@
+-- Web push subscriptions registered by the browser service worker (public/sw.js), one row per device.
+-- The staff-digest edge function reads them with the service role to push each user's daily digest.
+create table if not exists public.push_subscriptions (
+  endpoint text primary key,
+  user_email text not null,
+  p256dh text not null,
+  auth text not null,
+  user_agent text null,
+  created_at timestamptz not null default now(),
+  constraint push_subscriptions_email_lowercase check (user_email = lower(user_email))
+);
+
+create index if not exists idx_push_subscriptions_user_email
+  on public.push_subscriptions (user_email);
+
+alter table public.push_subscriptions enable row level security;
+
+revoke all on table public.push_subscriptions from anon;
+grant select, insert, update, delete on table public.push_subscriptions to authenticated;
+
+create policy "Users can manage their own push_subscriptions"
+on public.push_subscriptions for all
+to authenticated
+using (user_email = lower(auth.jwt() ->> 'email'))
+with check (user_email = lower(auth.jwt() ->> 'email'));
+
+-- Alert rule behind each rule-engine notification, so the digest can select by severity
+-- without depending on rule ids.
+alter table public.notifications
+  add column if not exists rule_id text null;
+
+-- Weekday digest at 07:00 UTC, after daily-notifications has refreshed the stored alerts.
+-- Uses the same Vault secrets as daily-notifications ('project_url' and 'cron_secret').
+do $$
+begin
+  if exists (select 1 from cron.job where jobname = 'staff-digest') then
+    perform cron.unschedule('staff-digest');
+  end if;
+end $$;
+
+select cron.schedule(
+  'staff-digest',
+  '0 7 * * 1-5',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/staff-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (select decrypted_secret from vault.decrypted_secrets where name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,22 @@
+-- Notification rules live in app_config under the 'alert_rules' key (see src/services/alertRules.ts).
+-- Only roles with the new 'manage_alert_rules' permission may change them; everyone keeps reading app_config.
+update public.app_roles
+set permissions = array_append(permissions, 'manage_alert_rules')
+where key = 'admin'
+  and not ('manage_alert_rules' = any(permissions));
+
+create policy "Only alert rule managers can insert alert_rules"
+on public.app_config as restrictive for insert
+to authenticated
+with check (key <> 'alert_rules' or public.has_app_permission('manage_alert_rules'));
+
+create policy "Only alert rule managers can update alert_rules"
+on public.app_config as restrictive for update
+to authenticated
+using (key <> 'alert_rules' or public.has_app_permission('manage_alert_rules'))
+with check (key <> 'alert_rules' or public.has_app_permission('manage_alert_rules'));
+
+create policy "Only alert rule managers can delete alert_rules"
+on public.app_config as restrictive for delete
+to authenticated
+using (key <> 'alert_rules' or public.has_app_permission('manage_alert_rules'));
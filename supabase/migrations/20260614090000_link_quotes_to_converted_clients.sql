@@ -0,0 +1,47 @@
+-- A quote converted into a client is marked as won and keeps a link to the client it created.
+alter table public.quote_history
+  add column if not exists client_id uuid null references public.clients(id) on delete set null,
+  add column if not exists won_at timestamptz null;
+
+create index if not exists idx_quote_history_client_id
+  on public.quote_history (client_id)
+  where client_id is not null;
+
+-- Converting a quote saves the client (with its fee history row) and marks the quote as won together.
+-- The lifecycle columns (status, loss_reason, accepted_monthly_fee) come from the quote lifecycle migration.
+create or replace function public.convert_quote_to_client(p_quote_id uuid, p_client jsonb, p_fee_change jsonb default '{}'::jsonb)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_quote public.quote_history;
+  v_client public.clients;
+begin
+  select * into v_quote
+  from public.quote_history
+  where id = p_quote_id
+  for update;
+  if not found then
+    raise exception 'Proposta não encontrada.';
+  end if;
+
+  select * into v_client
+  from public.upsert_client_with_fee_history(p_client, p_fee_change);
+
+  update public.quote_history
+  set client_id = v_client.id,
+      won_at = now(),
+      status = 'accepted',
+      status_changed_at = now(),
+      loss_reason = null,
+      accepted_monthly_fee = v_client.monthly_fee
+  where id = p_quote_id
+  returning * into v_quote;
+
+  return jsonb_build_object('client', to_jsonb(v_client), 'quote', to_jsonb(v_quote));
+end;
+$$;
+
+revoke execute on function public.convert_quote_to_client(uuid, jsonb, jsonb) from anon;
+grant execute on function public.convert_quote_to_client(uuid, jsonb, jsonb) to authenticated;
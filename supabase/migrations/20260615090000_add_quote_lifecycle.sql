@@ -0,0 +1,129 @@
+-- Quotes move through draft -> sent -> negotiating -> accepted/rejected.
+-- A revised quote is saved as a new row pointing at the first version (parent_quote_id).
+alter table public.quote_history
+  add column if not exists client_sector text null,
+  add column if not exists status text not null default 'draft',
+  add column if not exists status_changed_at timestamptz null,
+  add column if not exists loss_reason text null,
+  add column if not exists accepted_monthly_fee numeric null,
+  add column if not exists revision integer not null default 1,
+  add column if not exists parent_quote_id uuid null references public.quote_history(id) on delete set null;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'quote_history_status_valid'
+  ) then
+    alter table public.quote_history
+      add constraint quote_history_status_valid
+      check (status in ('draft', 'sent', 'negotiating', 'accepted', 'rejected'));
+  end if;
+end $$;
+
+-- Quotes already converted into clients were won.
+update public.quote_history
+set status = 'accepted',
+    status_changed_at = coalesce(won_at, created_at)
+where client_id is not null
+  and status = 'draft';
+
+create index if not exists idx_quote_history_parent_quote_id
+  on public.quote_history (parent_quote_id)
+  where parent_quote_id is not null;
+
+create index if not exists idx_quote_history_status
+  on public.quote_history (status);
+
+-- Revision numbers are assigned here rather than by the browser, which only sees the most recent quotes.
+-- Families that already hold duplicate numbers are renumbered in creation order first.
+with duplicated_families as (
+  select coalesce(parent_quote_id, id) as root_id
+  from public.quote_history
+  group by coalesce(parent_quote_id, id), revision
+  having count(*) > 1
+),
+ranked as (
+  select id, row_number() over (partition by coalesce(parent_quote_id, id) order by revision, created_at) as rn
+  from public.quote_history
+  where coalesce(parent_quote_id, id) in (select root_id from duplicated_families)
+)
+update public.quote_history q
+set revision = ranked.rn
+from ranked
+where ranked.id = q.id
+  and q.revision <> ranked.rn;
+
+create unique index if not exists idx_quote_history_root_revision
+  on public.quote_history ((coalesce(parent_quote_id, id)), revision);
+
+create or replace function public.assign_quote_revision()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_root_id uuid;
+begin
+  if new.parent_quote_id is null then
+    new.revision := 1;
+    return new;
+  end if;
+
+  select coalesce(parent_quote_id, id) into v_root_id
+  from public.quote_history
+  where id = new.parent_quote_id;
+  if v_root_id is null then
+    raise exception 'Proposta original % não encontrada', new.parent_quote_id;
+  end if;
+
+  -- Locking the first version serialises concurrent revisions of the same quote.
+  perform 1 from public.quote_history where id = v_root_id for update;
+
+  new.parent_quote_id := v_root_id;
+  select coalesce(max(revision), 0) + 1 into new.revision
+  from public.quote_history
+  where id = v_root_id or parent_quote_id = v_root_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists assign_quote_revision on public.quote_history;
+create trigger assign_quote_revision
+before insert on public.quote_history
+for each row
+execute function public.assign_quote_revision();
+
+-- Deleting the first version promotes the oldest remaining revision to head the family,
+-- instead of leaving the later revisions as unrelated quotes.
+create or replace function public.promote_quote_revision_on_delete()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_next_root_id uuid;
+begin
+  if old.parent_quote_id is not null then
+    return old;
+  end if;
+
+  select id into v_next_root_id
+  from public.quote_history
+  where parent_quote_id = old.id
+  order by revision
+  limit 1;
+  if v_next_root_id is null then
+    return old;
+  end if;
+
+  update public.quote_history set parent_quote_id = null where id = v_next_root_id;
+  update public.quote_history set parent_quote_id = v_next_root_id where parent_quote_id = old.id;
+  return old;
+end;
+$$;
+
+drop trigger if exists promote_quote_revision_on_delete on public.quote_history;
+create trigger promote_quote_revision_on_delete
+before delete on public.quote_history
+for each row
+execute function public.promote_quote_revision_on_delete();
@@ -0,0 +1,6 @@
+-- Proposal texts move from the browser (localStorage) to the quote so the PDF can be rendered server-side.
+alter table public.quote_history
+  add column if not exists proposal_presentation_text text null,
+  add column if not exists proposal_conditions_text text null,
+  add column if not exists proposal_sent_at timestamptz null,
+  add column if not exists proposal_sent_to text null;
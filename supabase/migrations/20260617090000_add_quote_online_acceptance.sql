@@ -0,0 +1,38 @@
+-- Sent proposals carry a secret token for the public quote-acceptance page.
+-- The prospect's answer (name, time and IP on acceptance, comment on refusal) is kept on the quote.
+alter table public.quote_history
+  add column if not exists acceptance_token uuid null,
+  add column if not exists proposal_sent_by text null,
+  add column if not exists responded_at timestamptz null,
+  add column if not exists response_name text null,
+  add column if not exists response_ip text null,
+  add column if not exists response_comment text null;
+
+create unique index if not exists idx_quote_history_acceptance_token
+  on public.quote_history (acceptance_token)
+  where acceptance_token is not null;
+
+-- Saving a new revision voids the links sent for the earlier ones, so the prospect can only answer the latest version.
+create or replace function public.void_superseded_quote_tokens()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.parent_quote_id is not null then
+    update public.quote_history
+    set acceptance_token = null
+    where (id = new.parent_quote_id or parent_quote_id = new.parent_quote_id)
+      and id <> new.id
+      and revision < new.revision
+      and acceptance_token is not null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists void_superseded_quote_tokens on public.quote_history;
+create trigger void_superseded_quote_tokens
+after insert on public.quote_history
+for each row
+execute function public.void_superseded_quote_tokens();
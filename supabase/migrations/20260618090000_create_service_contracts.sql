@@ -0,0 +1,119 @@
+-- Contract templates: body text with {{placeholders}} filled from the client when a contract is generated.
+create table if not exists public.contract_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  body text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint contract_templates_name_not_blank check (char_length(trim(name)) > 0)
+);
+
+alter table public.contract_templates enable row level security;
+
+revoke all on table public.contract_templates from anon;
+grant select, insert, update, delete on table public.contract_templates to authenticated;
+
+create policy "Authenticated users can manage contract_templates"
+on public.contract_templates for all
+to authenticated
+using (true)
+with check (true);
+
+-- Each generated contract version per client; the HTML document is stored in the attachments bucket under contracts/.
+create table if not exists public.service_contracts (
+  id uuid primary key default gen_random_uuid(),
+  client_id uuid not null references public.clients(id) on delete cascade,
+  template_id uuid null references public.contract_templates(id) on delete set null,
+  version integer not null,
+  period_start date not null,
+  period_end date not null,
+  monthly_fee numeric(12,2) not null default 0,
+  fee_group_id uuid null references public.fee_groups(id) on delete set null,
+  status text not null default 'draft',
+  document_path text not null,
+  notes text null,
+  status_changed_at timestamptz null,
+  created_by text null default (auth.jwt() ->> 'email'),
+  created_at timestamptz not null default now(),
+  constraint service_contracts_client_version_key unique (client_id, version),
+  constraint service_contracts_status_check check (status in ('draft', 'sent', 'signed', 'cancelled')),
+  constraint service_contracts_period_valid check (period_end >= period_start)
+);
+
+create index if not exists idx_service_contracts_period_end
+  on public.service_contracts (period_end);
+
+alter table public.service_contracts enable row level security;
+
+revoke all on table public.service_contracts from anon;
+grant select, insert, update, delete on table public.service_contracts to authenticated;
+
+create policy "Authenticated users can manage service_contracts in scope"
+on public.service_contracts for all
+to authenticated
+using (public.can_access_client(client_id))
+with check (public.can_access_client(client_id));
+
+update public.app_roles
+set views = array_append(views, 'contracts'),
+    updated_at = now()
+where key in ('admin', 'staff')
+  and not ('contracts' = any(views));
+
+-- Signing moves the client's renewal date to the end of the contract period and, when asked,
+-- applies the contract fee from the period start; the client and the contract change together.
+create or replace function public.sign_service_contract(p_contract_id uuid, p_apply_fee boolean default false)
+returns public.service_contracts
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_contract public.service_contracts;
+  v_client jsonb;
+begin
+  if p_apply_fee and not public.has_app_permission('apply_fees') then
+    raise exception 'Sem permissão para aplicar avenças.';
+  end if;
+
+  select * into v_contract
+  from public.service_contracts
+  where id = p_contract_id
+  for update;
+  if not found then
+    raise exception 'Contrato não encontrado.';
+  end if;
+  if v_contract.status not in ('draft', 'sent') then
+    raise exception 'Só contratos em rascunho ou enviados podem ser assinados.';
+  end if;
+
+  select to_jsonb(c) into v_client
+  from public.clients c
+  where c.id = v_contract.client_id;
+  if v_client is null then
+    raise exception 'Cliente do contrato não encontrado.';
+  end if;
+
+  perform public.upsert_client_with_fee_history(
+    v_client
+      || jsonb_build_object('contract_renewal_date', v_contract.period_end + 1)
+      || case when p_apply_fee then jsonb_build_object('monthly_fee', v_contract.monthly_fee) else '{}'::jsonb end,
+    jsonb_build_object(
+      'effective_from', v_contract.period_start,
+      'reason', format('Contrato v%s assinado', v_contract.version),
+      'source', case when v_contract.fee_group_id is null then 'manual' else 'fee_group' end,
+      'source_id', v_contract.fee_group_id
+    )
+  );
+
+  update public.service_contracts
+  set status = 'signed',
+      status_changed_at = now()
+  where id = p_contract_id
+  returning * into v_contract;
+
+  return v_contract;
+end;
+$$;
+
+revoke execute on function public.sign_service_contract(uuid, boolean) from anon;
+grant execute on function public.sign_service_contract(uuid, boolean) to authenticated;
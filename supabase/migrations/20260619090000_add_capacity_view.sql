@@ -0,0 +1,35 @@
+-- Staff capacity planning view; admins only, like the team view it complements.
+update public.app_roles
+set views = array_append(views, 'capacity'),
+    updated_at = now()
+where key = 'admin'
+  and not ('capacity' = any(views));
+
+-- Applies a capacity plan in one statement: only the responsible and the per-task assignments change,
+-- and if any client cannot be updated none of them is.
+create or replace function public.update_client_assignments(p_assignments jsonb)
+returns setof public.clients
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_expected integer := jsonb_array_length(p_assignments);
+  v_updated integer;
+begin
+  return query
+  update public.clients c
+  set responsavel_interno_id = a.responsavel_interno_id,
+      tasks = a.tasks
+  from jsonb_populate_recordset(null::public.clients, p_assignments) a
+  where c.id = a.id
+  returning c.*;
+
+  get diagnostics v_updated = row_count;
+  if v_updated <> v_expected then
+    raise exception 'Só foi possível atualizar % de % clientes', v_updated, v_expected;
+  end if;
+end;
+$$;
+
+revoke execute on function public.update_client_assignments(jsonb) from anon;
+grant execute on function public.update_client_assignments(jsonb) to authenticated;
@@ -0,0 +1,35 @@
+-- Vacations, sick leave and training per staff member; public holidays are computed in the app.
+create table if not exists public.staff_absences (
+  id uuid primary key default gen_random_uuid(),
+  staff_id uuid not null references public.staff(id) on delete cascade,
+  absence_type text not null default 'vacation',
+  start_date date not null,
+  end_date date not null,
+  hours_per_day numeric(4,2) null,
+  notes text null,
+  created_at timestamptz not null default now(),
+  constraint staff_absences_type_check check (absence_type in ('vacation', 'sick', 'training', 'other')),
+  constraint staff_absences_period_valid check (end_date >= start_date),
+  constraint staff_absences_hours_positive check (hours_per_day is null or hours_per_day > 0)
+);
+
+create index if not exists idx_staff_absences_staff_dates
+  on public.staff_absences (staff_id, start_date);
+
+alter table public.staff_absences enable row level security;
+
+revoke all on table public.staff_absences from anon;
+grant select, insert, update, delete on table public.staff_absences to authenticated;
+
+-- Absences carry health data (sick leave): each person sees their own, and only
+-- roles with the team view (where absences are registered) see or change everyone's.
+create policy "Staff can read own staff_absences"
+on public.staff_absences for select
+to authenticated
+using (staff_id = (public.current_app_assignment()).staff_id);
+
+create policy "Team managers can manage staff_absences"
+on public.staff_absences for all
+to authenticated
+using (coalesce('team' = any((public.current_app_role()).views), false))
+with check (coalesce('team' = any((public.current_app_role()).views), false));
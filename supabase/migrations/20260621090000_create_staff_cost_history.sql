@@ -0,0 +1,226 @@
+-- Dated cost records per staff member; the hourly cost is derived in the app and stored with each record.
+alter table public.staff
+  add column if not exists insurance_annual numeric(10,2) not null default 0;
+
+create table if not exists public.staff_cost_history (
+  id uuid primary key default gen_random_uuid(),
+  staff_id uuid not null references public.staff(id) on delete cascade,
+  effective_from date not null default current_date,
+  base_salary numeric(10,2) not null default 0,
+  social_charges_percent numeric(5,2) not null default 23.75,
+  meal_allowance numeric(10,2) not null default 0,
+  other_monthly_costs numeric(10,2) not null default 0,
+  insurance_annual numeric(10,2) not null default 0,
+  capacity_hours_per_month numeric(6,2) not null default 160,
+  hourly_cost numeric(10,2) not null,
+  reason text null,
+  changed_by text null default (auth.jwt() ->> 'email'),
+  created_at timestamptz not null default now(),
+  constraint staff_cost_history_values_non_negative check (
+    base_salary >= 0 and social_charges_percent >= 0 and meal_allowance >= 0
+    and other_monthly_costs >= 0 and insurance_annual >= 0 and hourly_cost >= 0
+  ),
+  constraint staff_cost_history_hours_positive check (capacity_hours_per_month > 0)
+);
+
+create index if not exists idx_staff_cost_history_staff_effective
+  on public.staff_cost_history (staff_id, effective_from);
+
+-- Seed the current cost of every staff member so the history has a starting point.
+insert into public.staff_cost_history (
+  staff_id, effective_from, base_salary, social_charges_percent, meal_allowance,
+  other_monthly_costs, insurance_annual, capacity_hours_per_month, hourly_cost, reason, changed_by
+)
+select s.id, current_date, coalesce(s.base_salary, 0), coalesce(s.social_charges_percent, 23.75), coalesce(s.meal_allowance, 0),
+  coalesce(s.other_monthly_costs, 0), coalesce(s.insurance_annual, 0), coalesce(nullif(s.capacity_hours_per_month, 0), 160),
+  coalesce(s.hourly_cost, 0), 'Custo em vigor à data da criação do histórico', null
+from public.staff s
+where not exists (select 1 from public.staff_cost_history h where h.staff_id = s.id);
+
+-- Salaries are only visible to, and changed by, roles with the new 'manage_staff' permission.
+update public.app_roles
+set permissions = array_append(permissions, 'manage_staff')
+where key = 'admin'
+  and not ('manage_staff' = any(permissions));
+
+alter table public.staff_cost_history enable row level security;
+
+revoke all on table public.staff_cost_history from anon;
+grant select, insert on table public.staff_cost_history to authenticated;
+
+-- Audit trail: rows can be added and read, never edited or removed from the app.
+create policy "Staff managers can read staff_cost_history"
+on public.staff_cost_history for select
+to authenticated
+using (public.has_app_permission('manage_staff'));
+
+create policy "Staff managers can insert staff_cost_history"
+on public.staff_cost_history for insert
+to authenticated
+with check (public.has_app_permission('manage_staff'));
+
+-- The author always comes from the session, whatever the caller sends.
+create or replace function public.set_staff_cost_history_changed_by()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.changed_by := auth.jwt() ->> 'email';
+  return new;
+end;
+$$;
+
+drop trigger if exists set_staff_cost_history_changed_by on public.staff_cost_history;
+create trigger set_staff_cost_history_changed_by
+before insert on public.staff_cost_history
+for each row
+execute function public.set_staff_cost_history_changed_by();
+
+-- Saves a staff member and, when the cost fields change, the history row in the same transaction.
+-- A change dated in the future is only recorded in the history; the staff row keeps the cost in
+-- force today until apply_due_staff_costs copies it over.
+create or replace function public.upsert_staff_with_cost_history(p_staff jsonb, p_cost_change jsonb default '{}'::jsonb)
+returns public.staff
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_staff_id uuid := (p_staff ->> 'id')::uuid;
+  v_effective_from date := coalesce(nullif(p_cost_change ->> 'effective_from', '')::date, current_date);
+  v_requested public.staff := jsonb_populate_record(null::public.staff, p_staff);
+  v_previous public.staff;
+  v_exists boolean;
+  v_cost_changed boolean;
+  v_row jsonb := p_staff;
+  v_columns text;
+  v_updates text;
+  v_saved public.staff;
+begin
+  select * into v_previous
+  from public.staff
+  where id = v_staff_id
+  for update;
+  v_exists := found;
+
+  v_cost_changed := not v_exists
+    or (v_previous.base_salary, v_previous.social_charges_percent, v_previous.meal_allowance, v_previous.other_monthly_costs,
+        v_previous.insurance_annual, v_previous.capacity_hours_per_month, v_previous.hourly_cost)
+      is distinct from
+       (v_requested.base_salary, v_requested.social_charges_percent, v_requested.meal_allowance, v_requested.other_monthly_costs,
+        v_requested.insurance_annual, v_requested.capacity_hours_per_month, v_requested.hourly_cost);
+
+  if v_cost_changed and not public.has_app_permission('manage_staff') then
+    raise exception 'Sem permissão para alterar custos da equipa.';
+  end if;
+
+  if v_exists and v_cost_changed and v_effective_from > current_date then
+    v_row := v_row || jsonb_build_object(
+      'base_salary', v_previous.base_salary,
+      'social_charges_percent', v_previous.social_charges_percent,
+      'meal_allowance', v_previous.meal_allowance,
+      'other_monthly_costs', v_previous.other_monthly_costs,
+      'insurance_annual', v_previous.insurance_annual,
+      'capacity_hours_per_month', v_previous.capacity_hours_per_month,
+      'hourly_cost', v_previous.hourly_cost
+    );
+  end if;
+
+  select
+    string_agg(format('%I', c.column_name), ', '),
+    string_agg(format('%I = excluded.%I', c.column_name, c.column_name), ', ') filter (where c.column_name <> 'id')
+  into v_columns, v_updates
+  from information_schema.columns c
+  where c.table_schema = 'public'
+    and c.table_name = 'staff'
+    and v_row ? c.column_name;
+
+  execute format(
+    'insert into public.staff (%s) select %s from jsonb_populate_record(null::public.staff, $1) '
+      || 'on conflict (id) do update set %s returning *',
+    v_columns, v_columns, coalesce(v_updates, 'id = excluded.id')
+  )
+  into v_saved
+  using v_row;
+
+  if v_cost_changed then
+    insert into public.staff_cost_history (
+      staff_id, effective_from, base_salary, social_charges_percent, meal_allowance,
+      other_monthly_costs, insurance_annual, capacity_hours_per_month, hourly_cost, reason
+    )
+    values (
+      v_saved.id,
+      v_effective_from,
+      coalesce(v_requested.base_salary, 0),
+      coalesce(v_requested.social_charges_percent, 0),
+      coalesce(v_requested.meal_allowance, 0),
+      coalesce(v_requested.other_monthly_costs, 0),
+      coalesce(v_requested.insurance_annual, 0),
+      coalesce(nullif(v_requested.capacity_hours_per_month, 0), 160),
+      coalesce(v_requested.hourly_cost, 0),
+      nullif(btrim(p_cost_change ->> 'reason'), '')
+    );
+  end if;
+
+  return v_saved;
+end;
+$$;
+
+revoke execute on function public.upsert_staff_with_cost_history(jsonb, jsonb) from anon;
+grant execute on function public.upsert_staff_with_cost_history(jsonb, jsonb) to authenticated;
+
+-- Changes dated in the future are only recorded in the history; once their date is reached this copies the
+-- record in force onto the staff row, which every screen and edge function reads.
+create or replace function public.apply_due_staff_costs()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_updated integer;
+begin
+  with in_force as (
+    select distinct on (h.staff_id) h.*
+    from public.staff_cost_history h
+    where h.effective_from <= current_date
+    order by h.staff_id, h.effective_from desc, h.created_at desc
+  )
+  update public.staff s
+  set base_salary = f.base_salary,
+      social_charges_percent = f.social_charges_percent,
+      meal_allowance = f.meal_allowance,
+      other_monthly_costs = f.other_monthly_costs,
+      insurance_annual = f.insurance_annual,
+      capacity_hours_per_month = f.capacity_hours_per_month,
+      hourly_cost = f.hourly_cost
+  from in_force f
+  where f.staff_id = s.id
+    and (s.base_salary, s.social_charges_percent, s.meal_allowance, s.other_monthly_costs,
+         s.insurance_annual, s.capacity_hours_per_month, s.hourly_cost)
+      is distinct from
+        (f.base_salary, f.social_charges_percent, f.meal_allowance, f.other_monthly_costs,
+         f.insurance_annual, f.capacity_hours_per_month, f.hourly_cost);
+  get diagnostics v_updated = row_count;
+  return v_updated;
+end;
+$$;
+
+revoke execute on function public.apply_due_staff_costs() from public, anon, authenticated;
+
+-- Shortly after midnight UTC, before the daily notifications are generated.
+create extension if not exists pg_cron;
+
+do $$
+begin
+  if exists (select 1 from cron.job where jobname = 'apply-due-staff-costs') then
+    perform cron.unschedule('apply-due-staff-costs');
+  end if;
+end $$;
+
+select cron.schedule(
+  'apply-due-staff-costs',
+  '5 0 * * *',
+  $$ select public.apply_due_staff_costs(); $$
+);
@@ -0,0 +1,18 @@
+-- Overhead pools live in app_config under the 'overhead_pools' key, with the office-wide driver totals they are
+-- shared over under 'overhead_driver_totals' (see supabase/functions/_shared/overheadAllocation.ts).
+-- They feed the client margins, so only roles that can see profitability may change them.
+create policy "Only profitability viewers can insert overhead_pools"
+on public.app_config as restrictive for insert
+to authenticated
+with check (key not in ('overhead_pools', 'overhead_driver_totals') or public.has_app_permission('view_profitability'));
+
+create policy "Only profitability viewers can update overhead_pools"
+on public.app_config as restrictive for update
+to authenticated
+using (key not in ('overhead_pools', 'overhead_driver_totals') or public.has_app_permission('view_profitability'))
+with check (key not in ('overhead_pools', 'overhead_driver_totals') or public.has_app_permission('view_profitability'));
+
+create policy "Only profitability viewers can delete overhead_pools"
+on public.app_config as restrictive for delete
+to authenticated
+using (key not in ('overhead_pools', 'overhead_driver_totals') or public.has_app_permission('view_profitability'));
@@ -0,0 +1,24 @@
+-- Travel model per client: one-way distance and driving time from the office, measured for a given address.
+-- Mileage and toll rates live in the global settings (app_config).
+alter table public.clients
+  add column if not exists travel_distance_km numeric(7,1),
+  add column if not exists travel_minutes_one_way integer,
+  add column if not exists travel_tolls_per_trip numeric(8,2),
+  add column if not exists travel_distance_address text;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'clients_travel_values_valid'
+  ) then
+    alter table public.clients
+    add constraint clients_travel_values_valid
+    check (
+      (travel_distance_km is null or travel_distance_km >= 0)
+      and (travel_minutes_one_way is null or travel_minutes_one_way >= 0)
+      and (travel_tolls_per_trip is null or travel_tolls_per_trip >= 0)
+    );
+  end if;
+end $$;